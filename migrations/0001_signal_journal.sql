@@ -0,0 +1,13 @@
+-- Signal journal: every generated QPPF signal with its inputs (payload JSON) and later outcome
+CREATE TABLE IF NOT EXISTS signals (
+  id TEXT PRIMARY KEY,
+  symbol TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  direction TEXT NOT NULL,
+  confidence REAL NOT NULL,
+  is_live INTEGER NOT NULL,
+  payload TEXT NOT NULL,
+  outcome TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_signals_symbol_time ON signals (symbol, timestamp);
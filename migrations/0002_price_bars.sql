@@ -0,0 +1,15 @@
+-- Price bars built from quotes and trades: session-anchored OHLCV with VWAP per symbol and timeframe
+CREATE TABLE IF NOT EXISTS price_bars (
+  symbol TEXT NOT NULL,
+  timeframe TEXT NOT NULL,
+  start TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  open REAL NOT NULL,
+  high REAL NOT NULL,
+  low REAL NOT NULL,
+  close REAL NOT NULL,
+  volume REAL NOT NULL,
+  vwap REAL NOT NULL,
+  prints INTEGER NOT NULL,
+  PRIMARY KEY (symbol, timeframe, start)
+);
@@ -365,6 +365,10 @@ app.get('/', (c) => {
                                 <span>Resistance:</span><span id="gex-resistance" class="text-red-400">$---</span>
                             </div>
                         </div>
+                        <div class="text-xs space-y-1 border-t border-gray-700 pt-2">
+                            <div class="text-gray-400 mb-1">GEX by Expiry (share / ZGL):</div>
+                            <div id="gex-expiry-buckets" class="font-mono text-gray-300">--</div>
+                        </div>
                     </div>
                 </div>
             </div>
@@ -378,6 +382,16 @@ app.get('/', (c) => {
                     <div class="text-gray-400 text-center py-4">Loading options flow...</div>
                 </div>
             </div>
+
+            <!-- Order Updates (trade_updates stream) -->
+            <div class="bg-gray-800 border border-gray-700 rounded-lg p-4 mt-6">
+                <h3 class="text-lg font-bold text-white mb-3">
+                    <i class="fas fa-receipt mr-2 text-green-400"></i>Order Updates
+                </h3>
+                <div id="order-updates" class="space-y-2 text-xs max-h-64 overflow-y-auto">
+                    <div class="text-gray-400 text-center py-4">No order events yet</div>
+                </div>
+            </div>
         </div>
 
         <!-- Footer -->
@@ -419,7 +433,7 @@ app.get('/', (c) => {
 
         function updateClock() {
             const now = new Date();
-            document.getElementById('current-time').textContent = now.toLocaleTimeString();
+            document.getElementById('current-time').textContent = now.toLocaleTimeString('en-US', { timeZone: 'America/New_York' }) + ' ET';
         }
 
         async function initializeSystem() {
@@ -439,6 +453,7 @@ app.get('/', (c) => {
                 if (response.ok) {
                     console.log('✅ System initialized successfully');
                     refreshMarketData();
+                    subscribeOrderUpdates();
                     // Initialize all timeframes
                     Object.keys(timeframeData).forEach(tf => updateTimeframe(tf));
                 }
@@ -526,7 +541,7 @@ app.get('/', (c) => {
                 document.getElementById('flow-ratio').textContent = '0.0';
             }
             
-            document.getElementById('last-update').textContent = new Date().toLocaleTimeString('en-US', { hour12: false }).slice(0, 5);
+            document.getElementById('last-update').textContent = new Date().toLocaleTimeString('en-US', { hour12: false, timeZone: 'America/New_York' }).slice(0, 5);
         }
 
         function updateOptionsFlow(signal) {
@@ -546,10 +561,18 @@ app.get('/', (c) => {
                 document.getElementById('call-gex').textContent = signal.gexData.callGEX.toFixed(2) + 'B';
                 document.getElementById('put-gex').textContent = signal.gexData.putGEX.toFixed(2) + 'B';
                 
-                // Calculate support/resistance from GEX
-                const currentPrice = signal.marketData.price;
-                document.getElementById('gex-support').textContent = '$' + Math.floor(currentPrice * 0.98);
-                document.getElementById('gex-resistance').textContent = '$' + Math.ceil(currentPrice * 1.02);
+                // Support/resistance from the put and call walls
+                const keyLevels = signal.gexData.keyLevels || {};
+                document.getElementById('gex-support').textContent = keyLevels.putWall ? '$' + keyLevels.putWall.toFixed(0) : 'N/A';
+                document.getElementById('gex-resistance').textContent = keyLevels.callWall ? '$' + keyLevels.callWall.toFixed(0) : 'N/A';
+                
+                // Per-expiry breakdown (0DTE / week / month / beyond)
+                const bucketLabels = { '0dte': '0DTE', 'week': 'Week', 'month': 'Month', 'beyond': 'Beyond' };
+                document.getElementById('gex-expiry-buckets').innerHTML = (signal.gexData.expiryBuckets || [])
+                    .map(b => '<div class="flex justify-between"><span>' + bucketLabels[b.bucket] + '</span><span>' +
+                        b.totalGEX.toFixed(2) + 'B ' + b.grossSharePct.toFixed(0) + '% / ' +
+                        (b.zeroGammaLevel ? '$' + b.zeroGammaLevel.toFixed(0) : 'N/A') + '</span></div>')
+                    .join('') || '--';
             }
             
             // Update live flow alerts
@@ -566,7 +589,7 @@ app.get('/', (c) => {
             const alertsHtml = alerts.slice(0, 10).map(alert => {
                 const sentiment = alert.sentiment || 'neutral';
                 const sentimentColor = sentiment === 'bullish' ? 'text-green-400' : sentiment === 'bearish' ? 'text-red-400' : 'text-gray-400';
-                const time = new Date(alert.timestamp).toLocaleTimeString('en-US', { hour12: false }).slice(0, 5);
+                const time = new Date(alert.timestamp).toLocaleTimeString('en-US', { hour12: false, timeZone: 'America/New_York' }).slice(0, 5);
                 
                 return '<div class="flex justify-between items-center py-1 border-b border-gray-700">' +
                     '<div class="flex space-x-2">' +
@@ -583,23 +606,55 @@ app.get('/', (c) => {
             container.innerHTML = alertsHtml;
         }
 
+        const orderEvents = [];
+
+        function subscribeOrderUpdates() {
+            if (!window.EventSource) return;
+            const source = new EventSource('/api/trade-updates/stream');
+            ['new', 'partial_fill', 'fill', 'canceled', 'rejected', 'expired', 'replaced'].forEach(type => {
+                source.addEventListener(type, (message) => {
+                    orderEvents.unshift(JSON.parse(message.data));
+                    orderEvents.splice(20);
+                    updateOrderUpdates();
+                });
+            });
+        }
+
+        function updateOrderUpdates() {
+            const container = document.getElementById('order-updates');
+            container.innerHTML = orderEvents.map(event => {
+                const color = event.event === 'fill' || event.event === 'partial_fill' ? 'text-green-400'
+                    : event.event === 'rejected' || event.event === 'canceled' ? 'text-red-400' : 'text-gray-400';
+                const time = new Date(event.timestamp).toLocaleTimeString('en-US', { hour12: false, timeZone: 'America/New_York' });
+                const fill = event.fillQty ? ' ' + event.fillQty + ' @ $' + Number(event.fillPrice).toFixed(2) : '';
+
+                return '<div class="flex justify-between items-center py-1 border-b border-gray-700">' +
+                    '<div class="flex space-x-2">' +
+                    '<span class="' + color + ' font-mono">' + event.event.toUpperCase() + '</span>' +
+                    '<span class="text-white">' + event.order.side.toUpperCase() + ' ' + event.order.symbol + '</span>' +
+                    '<span class="text-blue-400">' + event.order.filledQty + '/' + event.order.qty + fill + '</span>' +
+                    '</div>' +
+                    '<div class="text-gray-400">' + time + '</div>' +
+                    '</div>';
+            }).join('');
+        }
+
         async function updateTimeframe(timeframe) {
             try {
-                // Get real signal from API
-                const response = await fetch('/api/signal', {
+                // Server computes each timeframe from its own bars (levels from ATR, expiry per timeframe)
+                const response = await fetch('/api/signal?timeframe=' + timeframe, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({ symbol: 'SPY', timeframe: timeframe })
+                    body: JSON.stringify({ symbol: 'SPY' })
                 });
                 
                 if (response.ok) {
                     const data = await response.json();
-                    if (data.signal) {
-                        // Use real signal data directly, not simulated
-                        const realSignal = adaptSignalForTimeframe(data.signal, timeframe);
-                        timeframeData[timeframe] = realSignal;
-                        updateTimeframeDisplay(timeframe, realSignal);
-                        console.log('Updated ' + timeframe + ' with real signal: ' + realSignal.direction + ' (' + Math.round(realSignal.confidence * 100) + '%)');
+                    if (data.timeframeSignal) {
+                        const signal = toTimeframeDisplay(data.timeframeSignal);
+                        timeframeData[timeframe] = signal;
+                        updateTimeframeDisplay(timeframe, signal);
+                        console.log('Updated ' + timeframe + ': ' + signal.direction + ' (' + Math.round(signal.confidence * 100) + '%), agreement ' + Math.round(data.agreement.score * 100) + '% ' + data.agreement.direction);
                         return;
                     }
                 }
@@ -607,94 +662,19 @@ app.get('/', (c) => {
                 console.error('Error fetching ' + timeframe + ' signal:', error);
             }
             
-            // If API fails, try to get the latest cached signal
-            try {
-                const statusResponse = await fetch('/api/status');
-                if (statusResponse.ok) {
-                    const statusData = await statusResponse.json();
-                    if (statusData.latestSignal) {
-                        const realSignal = adaptSignalForTimeframe(statusData.latestSignal, timeframe);
-                        timeframeData[timeframe] = realSignal;
-                        updateTimeframeDisplay(timeframe, realSignal);
-                        console.log('Updated ' + timeframe + ' with cached real signal: ' + realSignal.direction);
-                        return;
-                    }
-                }
-            } catch (error) {
-                console.error('Error fetching status for ' + timeframe + ':', error);
-            }
-            
-            console.warn('No real signal available for ' + timeframe + ', keeping existing data');
+            console.warn('No signal available for ' + timeframe + ', keeping existing data');
         }
 
-
-
-        function adaptSignalForTimeframe(realSignal, timeframe) {
-            // Use REAL data from the QPPF algorithm
-            const currentPrice = realSignal.marketData ? realSignal.marketData.price : 450;
-            const multipliers = { '5m': 0.002, '15m': 0.005, '30m': 0.01, '1h': 0.02, '4h': 0.04, '1d': 0.08 };
-            const mult = multipliers[timeframe] || 0.01;
-            
-            // CRITICAL: Use the REAL signal direction and confidence from QPPF algorithm
-            const direction = realSignal.direction; // This is REAL from your algorithm
-            const confidence = realSignal.confidence; // This is REAL from your algorithm
-            
-            console.log('Real signal data for ' + timeframe + ':', { 
-                direction: direction, 
-                confidence: confidence, 
-                price: currentPrice,
-                timestamp: realSignal.timestamp 
-            });
-            
-            // Calculate realistic entry, target, and stop levels based on REAL signal
-            let entryPrice, targetPrice, stopPrice;
-            
-            if (direction === 'LONG') {
-                entryPrice = currentPrice * 1.001; // Slightly above current for long entry
-                targetPrice = entryPrice * (1 + mult * (1 + confidence)); // Higher confidence = bigger target
-                stopPrice = entryPrice * (1 - mult * 0.8); // Tighter stop for higher timeframes
-            } else if (direction === 'SHORT') {
-                entryPrice = currentPrice * 0.999; // Slightly below current for short entry
-                targetPrice = entryPrice * (1 - mult * (1 + confidence)); // Higher confidence = bigger target
-                stopPrice = entryPrice * (1 + mult * 0.8); // Tighter stop for higher timeframes
-            } else {
-                // FLAT signal - use current price for all levels
-                entryPrice = currentPrice;
-                targetPrice = currentPrice;
-                stopPrice = currentPrice;
-            }
-            
-            const riskReward = direction === 'FLAT' ? '1:1' : 
-                              Math.abs((targetPrice - entryPrice) / Math.abs(entryPrice - stopPrice)).toFixed(1) + ':1';
-            
-            // Generate option recommendations based on timeframe and REAL signal
-            const optionExpiries = { 
-                '5m': '0DTE', '15m': '1DTE', '30m': 'Weekly', 
-                '1h': '2-Week', '4h': 'Monthly', '1d': '45DTE' 
-            };
-            
-            let optionStrike, optionType;
-            if (direction === 'LONG') {
-                optionStrike = Math.ceil(currentPrice / 5) * 5; // Next $5 strike above
-                optionType = 'C';
-            } else if (direction === 'SHORT') {
-                optionStrike = Math.floor(currentPrice / 5) * 5; // Next $5 strike below
-                optionType = 'P';
-            } else {
-                optionStrike = Math.round(currentPrice / 5) * 5; // ATM strike
-                optionType = 'C/P';
-            }
-            
+        function toTimeframeDisplay(tfSignal) {
             return {
-                direction: direction, // REAL direction from QPPF
-                confidence: confidence, // REAL confidence from QPPF
-                entryPrice,
-                targetPrice,
-                stopPrice,
-                riskReward,
-                optionRecommendation: optionExpiries[timeframe] + ' $' + optionStrike + ' ' + optionType,
-                timestamp: realSignal.timestamp || new Date().toISOString(),
-                realData: true // Mark this as real data
+                direction: tfSignal.direction,
+                confidence: tfSignal.confidence,
+                entryPrice: tfSignal.entryPrice,
+                targetPrice: tfSignal.targetPrice,
+                stopPrice: tfSignal.stopPrice,
+                riskReward: tfSignal.riskReward === null ? '-' : tfSignal.riskReward.toFixed(1) + ':1',
+                optionRecommendation: tfSignal.option ? tfSignal.option.description : 'No position',
+                timestamp: tfSignal.timestamp
             };
         }
 
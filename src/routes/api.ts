@@ -3,21 +3,58 @@
  * Handles all backend functionality for the trading algorithm
  */
 
-import { Hono } from 'hono';
+import { Hono, Context } from 'hono';
 import { cors } from 'hono/cors';
+import { streamSSE } from 'hono/streaming';
 import { QPPFAlgorithm, QPPFSignal, QPPFState } from '../services/qppf-algorithm';
 import { UnusualWhalesClient } from '../services/unusual-whales-client';
-import { AlpacaTradingService, AlpacaCredentials, TradeSignal } from '../services/alpaca-trading-service-enhanced';
-import { RiskManager } from '../services/risk-manager';
+import { AlpacaTradingService, AlpacaCredentials } from '../services/alpaca-trading-service';
+import { BrokerAdapter, TradeSignal, OptionTradeSignal, OPTION_CONTRACT_MULTIPLIER } from '../services/broker-adapter';
+import { RiskManager, RiskAssessment } from '../services/risk-manager';
 import { QPPFStockScanner } from '../services/qppf-stock-scanner';
+import { MarketDataService } from '../services/market-data-provider';
+import { describeNonLiveInputs } from '../services/data-quality';
+import { BacktestEngine, BacktestDataset, BacktestConfig } from '../services/backtest-engine';
+import { tradingCalendar } from '../services/trading-calendar';
+import { GEXCalculator, GEXConfig, DealerPositionModel } from '../services/gex-calculator';
+import { OptionChainSource, UnusualWhalesChainSource, AlpacaOptionChainSource, FileOptionChainSource, CachedOptionChainSource } from '../services/option-chain-source';
+import { YieldCurveRateSource, DividendTable } from '../services/rate-dividend-source';
+import { SignalOutcomeTracker, summarizeOutcomes } from '../services/signal-outcome-tracker';
+import { AlpacaBarSource, YahooBarSource } from '../services/price-bar-source';
+import { SignalJournal, SignalDirection, InMemorySignalJournal, D1SignalJournal, FileSignalJournal, D1DatabaseLike, createJournalEntry } from '../services/signal-journal';
+import { ConfidenceCalibrator, CalibrationConfig, CalibrationMethod } from '../services/confidence-calibration';
+import { SignalFactorRegistry, FactorConfig } from '../services/signal-factors';
+import { AlgorithmRegistry, AlgorithmSupervisor, AlgorithmEntry, SymbolAlgorithmConfig } from '../services/algorithm-registry';
+import { SignalTimeframe, SIGNAL_TIMEFRAMES } from '../services/multi-timeframe';
+import { AlpacaMarketDataStream, MarketStreamConfig, StreamingQuoteProvider } from '../services/market-data-stream';
+import { OrderManager, OrderManagerConfig } from '../services/order-manager';
+import { TradingEventBus } from '../services/trading-event-bus';
+import { AlpacaTradeUpdatesStream, TradeUpdatesStreamConfig, PAPER_TRADE_UPDATES_URL, LIVE_TRADE_UPDATES_URL } from '../services/trade-updates-stream';
+import { PaperBroker, PaperBrokerConfig, DEFAULT_PAPER_BROKER_CONFIG } from '../services/paper-broker';
+import { OptionContractSelector, ContractSelectorConfig, ContractSelection, STRIKE_SELECTIONS } from '../services/option-contract-selector';
+import { BarBuilder, BarBuilderConfig, BarStore, BuildTimeframe, BUILD_TIMEFRAMES, InMemoryBarStore, D1BarStore, FileBarStore } from '../services/bar-builder';
 
 // Global instances (in production, use proper state management)
-let qppfAlgorithm: QPPFAlgorithm | null = null;
-let alpacaService: AlpacaTradingService | null = null;
+let algorithms: AlgorithmRegistry | null = null;
+let supervisor: AlgorithmSupervisor | null = null;
+const journalIds = new WeakMap<QPPFSignal, string>();
+let broker: BrokerAdapter | null = null;
 let riskManager: RiskManager | null = null;
 let qppfScanner: QPPFStockScanner | null = null;
-let isRunning = false;
-let latestSignal: QPPFSignal | null = null;
+let marketDataService: MarketDataService | null = null;
+let optionChainSource: OptionChainSource | null = null;
+let gexConfig: Partial<GEXConfig> = {};
+let signalJournal: SignalJournal = new InMemorySignalJournal();
+let outcomeTracker: SignalOutcomeTracker | null = null;
+let confidenceCalibrator = new ConfidenceCalibrator();
+let signalFactors = new SignalFactorRegistry();
+let barBuilder = new BarBuilder();
+let marketStream: AlpacaMarketDataStream | null = null;
+let orderManager: OrderManager | null = null;
+let tradingEvents = new TradingEventBus();
+let tradeUpdatesStream: AlpacaTradeUpdatesStream | null = null;
+let paperBroker: PaperBroker | null = null;
+let optionSelector = new OptionContractSelector();
 
 // API configuration interface
 interface APIConfig {
@@ -25,10 +62,120 @@ interface APIConfig {
   alpacaApiKey?: string;
   alpacaSecretKey?: string;
   alpacaPaper?: boolean;
-  symbol?: string;
+  symbol?: string;                  // Default symbol for the single-symbol endpoints
+  symbols?: string[];               // Every symbol to run an algorithm for (defaults to [symbol])
+  symbolConfigs?: Record<string, SymbolAlgorithmConfig>;  // Per-symbol GEX overrides, factor weights and loop interval
+  marketDataPriority?: string[];
+  marketStream?: boolean | Partial<MarketStreamConfig>;  // Alpaca trades/quotes/bars stream (on by default with Alpaca credentials)
+  optionChainSource?: 'unusual-whales' | 'alpaca' | 'file' | 'none';
+  optionChainUrl?: string;          // CSV/JSON chain file URL when optionChainSource is 'file'
+  optionChainCacheMs?: number;      // How long an API chain snapshot is reused per symbol (default 5 minutes, 0 = never)
+  gexConfig?: Partial<GEXConfig>;   // GEX grid, rate curve, dividend yields and dealer model
+  yieldCurveUrl?: string;           // Treasury par yield curve CSV (or JSON curve) for option pricing
+  dividendTableUrl?: string;        // Per-symbol dividend table CSV/JSON with ex-dates and amounts
+  signalJournal?: 'd1' | 'file' | 'memory';  // Where signals are persisted (d1 uses the DB binding)
+  signalJournalPath?: string;       // JSONL path for the file journal (local dev only)
+  calibration?: Partial<CalibrationConfig>;  // Confidence calibration method, win horizon and sample minimum
+  factorConfig?: Partial<FactorConfig>;      // Enable, disable or reweight directional factors, globally or per symbol
+  barStore?: 'd1' | 'file' | 'memory';       // Where built price bars are persisted (defaults to the journal's storage)
+  barStorePath?: string;            // JSONL path for the file bar store (local dev only)
+  barBuilder?: Partial<BarBuilderConfig>;    // Built timeframes and bars kept per series
+  orderManager?: Partial<OrderManagerConfig>;  // Open-order poll interval and orders kept
+  tradeUpdatesStream?: boolean | Partial<TradeUpdatesStreamConfig>;  // Alpaca trade_updates WebSocket (on by default with Alpaca credentials)
+  broker?: 'alpaca' | 'paper';      // Defaults to Alpaca with credentials, the built-in paper broker otherwise
+  paperBroker?: Partial<PaperBrokerConfig>;  // Simulated cash, commissions, slippage and fill rules
+  optionContracts?: Partial<ContractSelectorConfig>;  // Default strike selection (delta or gex-wall), target delta and expiry timeframe
 }
 
-const api = new Hono();
+const DEALER_MODELS: DealerPositionModel[] = ['classic', 'flow-inferred', 'open-close-aware'];
+const SIGNAL_DIRECTIONS: SignalDirection[] = ['LONG', 'SHORT', 'FLAT'];
+const CALIBRATION_METHODS: CalibrationMethod[] = ['isotonic', 'platt'];
+
+/**
+ * Persist a signal to the journal; a storage failure never blocks signal generation
+ */
+async function journalSignal(signal: QPPFSignal): Promise<string | null> {
+  try {
+    const entry = createJournalEntry(signal);
+    await signalJournal.append(entry);
+    return entry.id;
+  } catch (error) {
+    console.warn(`⚠️ Failed to journal signal (${signalJournal.name}):`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Refit the confidence calibration on the journal; keeps the previous fit when history is too thin
+ */
+async function refitCalibration(): Promise<void> {
+  try {
+    await confidenceCalibrator.fitFromJournal(signalJournal);
+  } catch (error) {
+    console.log(`ℹ️ Confidence calibration not refitted: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Why a paper broker configuration is unusable (unknown keys, non-numeric or out-of-range values), or null
+ */
+function paperBrokerConfigError(config: unknown): string | null {
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    return 'paperBroker must be an object';
+  }
+  for (const [key, value] of Object.entries(config)) {
+    if (!(key in DEFAULT_PAPER_BROKER_CONFIG)) {
+      return `Unknown paperBroker setting ${key}; expected one of ${Object.keys(DEFAULT_PAPER_BROKER_CONFIG).join(', ')}`;
+    }
+    if (typeof DEFAULT_PAPER_BROKER_CONFIG[key as keyof PaperBrokerConfig] === 'boolean') {
+      if (typeof value !== 'boolean') return `paperBroker.${key} must be true or false`;
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `paperBroker.${key} must be a finite number`;
+    }
+    // Costs may be zero; cash, leverage, intervals and the order cap must be positive
+    const mayBeZero = key === 'commissionPerShare' || key === 'minCommission' || key === 'slippageBps';
+    if (mayBeZero ? value < 0 : value <= 0) {
+      return `paperBroker.${key} must be ${mayBeZero ? 'zero or positive' : 'positive'}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The algorithm for ?symbol= (or the default symbol) behind the single-symbol endpoints
+ */
+function resolveAlgorithm(symbol?: string): AlgorithmEntry | undefined {
+  if (!algorithms) return undefined;
+  return symbol ? algorithms.get(symbol) : algorithms.getDefault();
+}
+
+/**
+ * Apply per-symbol factor overrides and register the symbol's algorithm (with the live factors and
+ * stream unless /initialize passes the ones it is about to swap in)
+ */
+function addAlgorithm(
+  registry: AlgorithmRegistry,
+  symbol: string,
+  config: SymbolAlgorithmConfig = {},
+  factors: SignalFactorRegistry = signalFactors,
+  stream: AlpacaMarketDataStream | null = marketStream
+): AlgorithmEntry {
+  if (config.factors) {
+    factors.configure({ symbols: { [symbol]: config.factors } });
+  }
+  const entry = registry.add(symbol, config);
+  stream?.subscribe([entry.symbol]);
+  return entry;
+}
+
+// Cloudflare bindings (D1 database for the signal journal)
+type Bindings = {
+  DB?: D1DatabaseLike;
+};
+
+const api = new Hono<{ Bindings: Bindings }>();
 
 // Enable CORS for all API routes
 api.use('*', cors());
@@ -40,6 +187,8 @@ api.post('/initialize', async (c) => {
   try {
     const config: APIConfig = await c.req.json();
     
+    // Validate the whole configuration and build the new services into locals first; the running
+    // services are only stopped and replaced once nothing else can fail
     if (!config.unusualWhalesApiKey) {
       return c.json({ 
         error: 'Unusual Whales API key is required',
@@ -47,28 +196,278 @@ api.post('/initialize', async (c) => {
       }, 400);
     }
 
-    const symbol = config.symbol || 'SPY';
+    const symbols = [...new Set((config.symbols?.length ? config.symbols : [config.symbol || 'SPY']).map(s => s.toUpperCase()))];
+    const symbol = (config.symbol || symbols[0]).toUpperCase();
+    if (!symbols.includes(symbol)) symbols.unshift(symbol);
     
-    // Initialize the QPPF algorithm
-    qppfAlgorithm = new QPPFAlgorithm(config.unusualWhalesApiKey, symbol);
+    if (config.broker && !['alpaca', 'paper'].includes(config.broker)) {
+      return c.json({ 
+        error: 'broker must be alpaca or paper',
+        success: false 
+      }, 400);
+    }
+    if (config.broker === 'alpaca' && !(config.alpacaApiKey && config.alpacaSecretKey)) {
+      return c.json({ 
+        error: 'Alpaca credentials are required for the alpaca broker',
+        success: false 
+      }, 400);
+    }
     
-    // Initialize QPPF Stock Scanner with Unusual Whales integration
-    qppfScanner = new QPPFStockScanner(
-      config.alpacaApiKey, 
-      config.alpacaSecretKey, 
-      config.unusualWhalesApiKey
+    // Full option chain for GEX (open interest + IV for every strike/expiry)
+    const chainSourceName = config.optionChainSource || 'unusual-whales';
+    let nextChainSource: OptionChainSource | null = null;
+    if (chainSourceName === 'alpaca') {
+      if (!config.alpacaApiKey || !config.alpacaSecretKey) {
+        return c.json({ 
+          error: 'Alpaca credentials are required for the alpaca option chain source',
+          success: false 
+        }, 400);
+      }
+      nextChainSource = new AlpacaOptionChainSource(config.alpacaApiKey, config.alpacaSecretKey, config.alpacaPaper ?? true);
+    } else if (chainSourceName === 'file') {
+      if (!config.optionChainUrl) {
+        return c.json({ 
+          error: 'optionChainUrl is required for the file option chain source',
+          success: false 
+        }, 400);
+      }
+      nextChainSource = new FileOptionChainSource({ url: config.optionChainUrl, symbol });
+    } else if (chainSourceName === 'unusual-whales') {
+      nextChainSource = new UnusualWhalesChainSource(config.unusualWhalesApiKey);
+    }
+    
+    // API chains are shared by the signal loops, scanner and option routes; reuse each symbol's snapshot
+    const chainCacheMs = config.optionChainCacheMs ?? 300000;
+    if (!(chainCacheMs >= 0)) {
+      return c.json({ 
+        error: 'optionChainCacheMs must be zero or positive',
+        success: false 
+      }, 400);
+    }
+    if (nextChainSource && chainSourceName !== 'file' && chainCacheMs > 0) {
+      nextChainSource = new CachedOptionChainSource(nextChainSource, chainCacheMs);
+    }
+    
+    // GEX assumptions shared by the algorithm and the /gex route
+    const requestedGEXConfig = config.gexConfig || {};
+    if (requestedGEXConfig.dealerModel && !DEALER_MODELS.includes(requestedGEXConfig.dealerModel)) {
+      return c.json({ 
+        error: `gexConfig.dealerModel must be one of ${DEALER_MODELS.join(', ')}`,
+        success: false 
+      }, 400);
+    }
+    if (requestedGEXConfig.gridMode && !['percent', 'atr'].includes(requestedGEXConfig.gridMode)) {
+      return c.json({ 
+        error: 'gexConfig.gridMode must be percent or atr',
+        success: false 
+      }, 400);
+    }
+    if (requestedGEXConfig.gridPoints !== undefined && !(requestedGEXConfig.gridPoints >= 2)) {
+      return c.json({ 
+        error: 'gexConfig.gridPoints must be at least 2',
+        success: false 
+      }, 400);
+    }
+    const nextGEXConfig: Partial<GEXConfig> = { ...requestedGEXConfig, rateSource: undefined, dividendSource: undefined };
+    
+    // Option contract selection for /options/contract and /execute-option-trade
+    const optionContracts = config.optionContracts || {};
+    if (optionContracts.strikeSelection && !STRIKE_SELECTIONS.includes(optionContracts.strikeSelection)) {
+      return c.json({ 
+        error: `optionContracts.strikeSelection must be one of ${STRIKE_SELECTIONS.join(', ')}`,
+        success: false 
+      }, 400);
+    }
+    if (optionContracts.timeframe && !SIGNAL_TIMEFRAMES.includes(optionContracts.timeframe)) {
+      return c.json({ 
+        error: `optionContracts.timeframe must be one of ${SIGNAL_TIMEFRAMES.join(', ')}`,
+        success: false 
+      }, 400);
+    }
+    if (optionContracts.targetDelta !== undefined && !(optionContracts.targetDelta > 0 && optionContracts.targetDelta < 1)) {
+      return c.json({ 
+        error: 'optionContracts.targetDelta must be between 0 and 1',
+        success: false 
+      }, 400);
+    }
+    
+    // Signal journal: D1 in production, a JSONL file for local dev, memory otherwise
+    const journalName = config.signalJournal || (c.env?.DB ? 'd1' : 'memory');
+    let nextJournal: SignalJournal;
+    if (journalName === 'd1') {
+      if (!c.env?.DB) {
+        return c.json({ 
+          error: 'signalJournal d1 requires a D1 database bound as DB',
+          success: false 
+        }, 400);
+      }
+      nextJournal = new D1SignalJournal(c.env.DB);
+    } else if (journalName === 'file') {
+      nextJournal = new FileSignalJournal(config.signalJournalPath);
+    } else {
+      nextJournal = new InMemorySignalJournal();
+    }
+    
+    // Bars built from the algorithms' quotes (persisted), with older history from Alpaca or Yahoo
+    const barStoreName = config.barStore || journalName;
+    let barStore: BarStore;
+    if (barStoreName === 'd1') {
+      if (!c.env?.DB) {
+        return c.json({ 
+          error: 'barStore d1 requires a D1 database bound as DB',
+          success: false 
+        }, 400);
+      }
+      barStore = new D1BarStore(c.env.DB);
+    } else if (barStoreName === 'file') {
+      barStore = new FileBarStore(config.barStorePath);
+    } else {
+      barStore = new InMemoryBarStore();
+    }
+    const unknownTimeframes = (config.barBuilder?.timeframes || []).filter(timeframe => !BUILD_TIMEFRAMES.includes(timeframe));
+    if (unknownTimeframes.length > 0) {
+      return c.json({ 
+        error: `barBuilder.timeframes must be among ${BUILD_TIMEFRAMES.join(', ')}`,
+        success: false 
+      }, 400);
+    }
+    const nextBarBuilder = new BarBuilder(
+      barStore,
+      config.barBuilder,
+      config.alpacaApiKey && config.alpacaSecretKey
+        ? new AlpacaBarSource(config.alpacaApiKey, config.alpacaSecretKey)
+        : new YahooBarSource()
+    );
+    
+    // Calibrated win probabilities from journaled outcomes (raw confidence until enough history exists)
+    if (config.calibration?.method && !CALIBRATION_METHODS.includes(config.calibration.method)) {
+      return c.json({ 
+        error: `calibration.method must be one of ${CALIBRATION_METHODS.join(', ')}`,
+        success: false 
+      }, 400);
+    }
+    
+    if (config.calibration?.refitIntervalMs !== undefined && !(config.calibration.refitIntervalMs > 0)) {
+      return c.json({ 
+        error: 'calibration.refitIntervalMs must be positive',
+        success: false 
+      }, 400);
+    }
+    
+    if (config.orderManager?.pollIntervalMs !== undefined && !(config.orderManager.pollIntervalMs > 0)) {
+      return c.json({ 
+        error: 'orderManager.pollIntervalMs must be positive',
+        success: false 
+      }, 400);
+    }
+    
+    const paperBrokerError = config.paperBroker !== undefined ? paperBrokerConfigError(config.paperBroker) : null;
+    if (paperBrokerError) {
+      return c.json({ 
+        error: paperBrokerError,
+        success: false 
+      }, 400);
+    }
+    
+    // Directional factor weights (unknown factor names are rejected)
+    let nextFactors: SignalFactorRegistry;
+    try {
+      nextFactors = new SignalFactorRegistry(undefined, config.factorConfig);
+    } catch (error) {
+      return c.json({ 
+        error: error instanceof Error ? error.message : 'Invalid factorConfig',
+        success: false 
+      }, 400);
+    }
+    
+    // Term-structured rates and per-symbol dividends shared by every greek calculation
+    try {
+      if (config.yieldCurveUrl) {
+        nextGEXConfig.rateSource = await YieldCurveRateSource.load({ url: config.yieldCurveUrl });
+      }
+      if (config.dividendTableUrl) {
+        nextGEXConfig.dividendSource = await DividendTable.load({ url: config.dividendTableUrl });
+      }
+    } catch (error) {
+      return c.json({ 
+        error: `Failed to load rate/dividend inputs: ${error instanceof Error ? error.message : error}`,
+        success: false 
+      }, 400);
+    }
+    
+    // Shared market data provider chain for the algorithm and scanner
+    const nextMarketData = MarketDataService.withDefaultProviders({
+      alpacaApiKey: config.alpacaApiKey,
+      alpacaSecretKey: config.alpacaSecretKey,
+      priority: config.marketDataPriority,
+    });
+    
+    // Real-time quotes for the registered symbols, served ahead of REST quotes while fresh (started below)
+    let nextMarketStream: AlpacaMarketDataStream | null = null;
+    if (config.alpacaApiKey && config.alpacaSecretKey && config.marketStream !== false) {
+      nextMarketStream = new AlpacaMarketDataStream(
+        config.alpacaApiKey,
+        config.alpacaSecretKey,
+        typeof config.marketStream === 'object' ? config.marketStream : {}
+      );
+      nextMarketData.registerProvider(new StreamingQuoteProvider(nextMarketStream));
+      if (!config.marketDataPriority?.includes('alpaca-stream')) {
+        nextMarketData.setPriority(['alpaca-stream', ...nextMarketData.getPriority()]);
+      }
+    }
+    
+    // One QPPF algorithm per symbol, sharing providers, rates and factors; the default symbol goes first
+    const uwApiKey = config.unusualWhalesApiKey;
+    const nextAlgorithms = new AlgorithmRegistry((algorithmSymbol, symbolConfig) =>
+      new QPPFAlgorithm(uwApiKey, algorithmSymbol, {
+        marketData: nextMarketData,
+        optionChainSource: nextChainSource || undefined,
+        gexConfig: { ...nextGEXConfig, ...symbolConfig.gexConfig },
+        factors: nextFactors,
+        bars: nextBarBuilder,
+      })
     );
+    nextAlgorithms.onSignal(async (signal) => {
+      const journalId = await journalSignal(signal);
+      if (journalId) journalIds.set(signal, journalId);
+    });
+    nextAlgorithms.onSignal(async (signal) => {
+      // Streamed symbols are built from their trades instead
+      if (signal.dataQuality.marketData === 'live' && !marketStream?.isStreaming(signal.marketData.symbol)) {
+        await barBuilder.addQuote(signal.marketData);
+      }
+    });
+    nextAlgorithms.onSignal((signal) => {
+      if (signal.dataQuality.marketData === 'live') paperBroker?.onQuote(signal.marketData);
+    });
+    try {
+      for (const algorithmSymbol of symbols) {
+        addAlgorithm(
+          nextAlgorithms,
+          algorithmSymbol,
+          config.symbolConfigs?.[algorithmSymbol] || config.symbolConfigs?.[algorithmSymbol.toLowerCase()],
+          nextFactors,
+          nextMarketStream
+        );
+      }
+    } catch (error) {
+      return c.json({ 
+        error: error instanceof Error ? error.message : 'Invalid symbolConfigs',
+        success: false 
+      }, 400);
+    }
     
-    // Initialize Alpaca service if credentials provided
-    if (config.alpacaApiKey && config.alpacaSecretKey) {
-      const alpacaCredentials: AlpacaCredentials = {
-        apiKeyId: config.alpacaApiKey,
-        secretKey: config.alpacaSecretKey,
+    // Broker: Alpaca when credentials are given, otherwise (or when asked) the built-in paper broker
+    const useAlpaca = Boolean(config.alpacaApiKey && config.alpacaSecretKey) && config.broker !== 'paper';
+    let alpacaCredentials: AlpacaCredentials | null = null;
+    let alpacaService: AlpacaTradingService | null = null;
+    if (useAlpaca) {
+      alpacaCredentials = {
+        apiKeyId: config.alpacaApiKey!,
+        secretKey: config.alpacaSecretKey!,
         paper: config.alpacaPaper ?? true, // Default to paper trading
       };
-      
       alpacaService = new AlpacaTradingService(alpacaCredentials);
-      riskManager = new RiskManager(); // Use default risk parameters
       
       // Test Alpaca connection
       const account = await alpacaService.getAccount();
@@ -78,18 +477,137 @@ api.post('/initialize', async (c) => {
           success: false 
         }, 400);
       }
+    }
+    
+    // Everything checked out: stop the previous loops and streams and swap in the new services
+    supervisor?.shutdown();
+    marketStream?.stop();
+    tradeUpdatesStream?.stop();
+    tradeUpdatesStream = null;
+    orderManager?.stopPolling();
+    paperBroker?.stop();
+    
+    marketDataService = nextMarketData;
+    marketStream = nextMarketStream;
+    optionChainSource = nextChainSource;
+    gexConfig = nextGEXConfig;
+    optionSelector = new OptionContractSelector(optionContracts, gexConfig);
+    signalJournal = nextJournal;
+    barBuilder = nextBarBuilder;
+    signalFactors = nextFactors;
+    algorithms = nextAlgorithms;
+    try {
+      await barBuilder.restore(symbols);
+    } catch (error) {
+      console.warn('⚠️ Could not restore price bars:', error instanceof Error ? error.message : error);
+    }
+    
+    // Forward-return tracking for journaled signals (1-minute bars)
+    outcomeTracker = new SignalOutcomeTracker(signalJournal, barBuilder);
+    confidenceCalibrator = new ConfidenceCalibrator(config.calibration);
+    await refitCalibration();
+    
+    // Shared loop work: measure forward returns of earlier signals every 5 minutes and refit calibration
+    // on its own, slower schedule since one outcome pass barely moves the fit
+    supervisor = new AlgorithmSupervisor(algorithms);
+    supervisor.addPeriodicTask('outcomes', 300000, async () => {
+      if (!outcomeTracker) return;
+      await outcomeTracker.evaluatePending();
+    });
+    supervisor.addPeriodicTask('calibration', confidenceCalibrator.getConfig().refitIntervalMs, async () => {
+      await refitCalibration();
+    });
+    supervisor.addPeriodicTask('bars', 60000, async () => {
+      await barBuilder.flush();
+    });
+    supervisor.startTasks();
+    
+    // Streamed trades build the bars of every subscribed symbol
+    if (marketStream) {
+      marketStream.onTrade(async (trade) => {
+        await barBuilder.addTrade(trade);
+      });
+      marketStream.onQuote((quote) => {
+        paperBroker?.onQuote({
+          symbol: quote.symbol,
+          price: (quote.bid + quote.ask) / 2,
+          volume: 0,
+          bid: quote.bid,
+          ask: quote.ask,
+          timestamp: quote.timestamp,
+          source: 'alpaca-stream',
+        });
+      });
+      marketStream.start();
+    }
+    
+    // Initialize QPPF Stock Scanner with Unusual Whales integration
+    qppfScanner = new QPPFStockScanner(
+      config.alpacaApiKey, 
+      config.alpacaSecretKey, 
+      config.unusualWhalesApiKey,
+      marketDataService,
+      optionChainSource || undefined,
+      undefined,
+      undefined,
+      gexConfig,
+      barBuilder
+    );
+    
+    tradingEvents = new TradingEventBus();
+    // The paper broker also backs /execute-trade; it only publishes order events when it is the active broker
+    paperBroker = new PaperBroker(marketDataService, useAlpaca ? null : tradingEvents, config.paperBroker);
+    paperBroker.start();
+    riskManager = new RiskManager(); // Use default risk parameters
+    riskManager.setCalibrator(confidenceCalibrator);
+    
+    // Order events pushed by the broker reach the order manager and risk manager without waiting for a poll
+    tradingEvents.subscribe(event => {
+      orderManager?.applyUpdate(event);
+      riskManager?.recordTradeUpdate(event);
+    });
+    
+    broker = alpacaService || paperBroker;
+    
+    // Submitted orders are followed until they fill, cancel, expire or are rejected; polled on their own
+    // schedule whenever the trade_updates stream is off or down
+    orderManager = new OrderManager(broker, config.orderManager);
+    orderManager.startPolling(() => tradeUpdatesStream?.isListening() ?? false);
+    
+    if (alpacaService && alpacaCredentials) {
+      if (config.tradeUpdatesStream !== false) {
+        tradeUpdatesStream = new AlpacaTradeUpdatesStream(
+          alpacaCredentials.apiKeyId,
+          alpacaCredentials.secretKey,
+          tradingEvents,
+          {
+            url: alpacaCredentials.paper ? PAPER_TRADE_UPDATES_URL : LIVE_TRADE_UPDATES_URL,
+            ...(typeof config.tradeUpdatesStream === 'object' ? config.tradeUpdatesStream : {}),
+          }
+        );
+        // Alpaca does not replay events missed while disconnected; catch up by polling open orders
+        tradeUpdatesStream.onListening(async () => {
+          await orderManager?.poll();
+        });
+        tradeUpdatesStream.start();
+      }
       
       console.log(`Alpaca service initialized (Paper: ${alpacaCredentials.paper})`);
+    } else {
+      console.log(`🧪 Paper broker initialized with $${paperBroker.getConfig().startingCash.toFixed(2)}`);
     }
     
-    console.log(`QPPF Algorithm initialized for ${symbol}`);
+    console.log(`QPPF Algorithm initialized for ${symbols.join(', ')}`);
     
     return c.json({
       success: true,
-      message: `QPPF Algorithm initialized for ${symbol}`,
+      message: `QPPF Algorithm initialized for ${symbols.join(', ')}`,
       symbol: symbol,
-      alpacaEnabled: alpacaService !== null,
+      symbols,
+      alpacaEnabled: broker?.name === 'alpaca',
+      broker: broker?.name || null,
       alpacaPaper: config.alpacaPaper ?? true,
+      optionChainSource: optionChainSource?.name || null,
       timestamp: new Date().toISOString(),
     });
 
@@ -106,27 +624,37 @@ api.post('/initialize', async (c) => {
  * Get current algorithm status
  */
 api.get('/status', async (c) => {
-  if (!qppfAlgorithm) {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!algorithms || !entry) {
     return c.json({
       initialized: false,
       running: false,
-      message: 'QPPF Algorithm not initialized. Call /api/initialize first.',
+      message: algorithms
+        ? `No algorithm for ${c.req.query('symbol')?.toUpperCase()}`
+        : 'QPPF Algorithm not initialized. Call /api/initialize first.',
     });
   }
 
-  const state = qppfAlgorithm.getState();
-  const statistics = qppfAlgorithm.getStatistics();
+  const state = entry.algorithm.getState();
+  const statistics = entry.algorithm.getStatistics();
+  const latestSignal = entry.latestSignal;
 
   return c.json({
     initialized: true,
-    running: isRunning,
+    running: entry.running,
+    symbols: algorithms.getSymbols(),
+    marketPhase: tradingCalendar.getSessionPhase(new Date()),
+    signalJournal: signalJournal.name,
+    calibration: confidenceCalibrator.getModel(),
     state: state,
     statistics: statistics,
     latestSignal: latestSignal ? {
       direction: latestSignal.direction,
       confidence: latestSignal.confidence,
+      winProbability: confidenceCalibrator.calibrate(latestSignal.confidence),
       strength: latestSignal.strength,
       sentiment: latestSignal.sentiment,
+      dataQuality: latestSignal.dataQuality,
       timestamp: latestSignal.timestamp,
     } : null,
     timestamp: new Date().toISOString(),
@@ -134,109 +662,148 @@ api.get('/status', async (c) => {
 });
 
 /**
- * Generate a single trading signal
+ * Generate a single trading signal; ?timeframe=5m|15m|30m|1h|4h|1d (comma list or 'all') adds
+ * per-timeframe signals from that interval's bars and the cross-timeframe agreement score
  */
 api.post('/signal', async (c) => {
-  if (!qppfAlgorithm) {
+  const body: { symbol?: string; timeframe?: string } = await c.req.json().catch(() => ({}));
+  const entry = resolveAlgorithm(c.req.query('symbol') || body.symbol);
+  const timeframe = c.req.query('timeframe') || body.timeframe;
+  if (!timeframe) {
+    return generateSignalResponse(c, entry);
+  }
+
+  const requested = timeframe.toLowerCase() === 'all'
+    ? SIGNAL_TIMEFRAMES
+    : timeframe.split(',').map(value => value.trim().toLowerCase()) as SignalTimeframe[];
+  const unknown = requested.filter(value => !SIGNAL_TIMEFRAMES.includes(value));
+  if (unknown.length > 0) {
     return c.json({ 
-      error: 'QPPF Algorithm not initialized',
+      error: `Unknown timeframe ${unknown.join(', ')}; use ${SIGNAL_TIMEFRAMES.join(', ')} or all`,
+      success: false 
+    }, 400);
+  }
+
+  if (!algorithms || !entry) {
+    return c.json({ 
+      error: algorithms ? 'No algorithm registered for that symbol' : 'QPPF Algorithm not initialized',
       success: false 
     }, 400);
   }
 
   try {
-    console.log('Generating new trading signal...');
-    const signal = await qppfAlgorithm.generateSignal();
-    latestSignal = signal;
+    // Agreement is always scored across every timeframe; bars are cached per timeframe
+    const result = await algorithms.generateTimeframeSignals(entry.symbol);
+    const timeframes = Object.fromEntries(requested.map(value => [value, result.timeframes[value]]));
 
     return c.json({
       success: true,
-      signal: signal,
+      symbol: entry.symbol,
+      signal: result.signal,
+      winProbability: confidenceCalibrator.calibrate(result.signal.confidence),
+      journalId: journalIds.get(result.signal) ?? null,
+      timeframeSignal: requested.length === 1 ? result.timeframes[requested[0]] : undefined,
+      timeframes,
+      agreement: result.agreement,
       timestamp: new Date().toISOString(),
     });
 
   } catch (error) {
-    console.error('Error generating signal:', error);
+    console.error('Error generating timeframe signals:', error);
     return c.json({ 
-      error: 'Failed to generate trading signal',
+      error: 'Failed to generate timeframe signals',
       success: false 
     }, 500);
   }
 });
 
 /**
- * Get Unusual Whales options flow data
+ * Generate a signal for one symbol and return it with its journal id
  */
-api.get('/options-flow/:symbol?', async (c) => {
-  if (!qppfAlgorithm) {
+async function generateSignalResponse(c: Context<{ Bindings: Bindings }>, entry: AlgorithmEntry | undefined) {
+  if (!algorithms || !entry) {
     return c.json({ 
-      error: 'QPPF Algorithm not initialized',
+      error: algorithms ? 'No algorithm registered for that symbol' : 'QPPF Algorithm not initialized',
       success: false 
     }, 400);
   }
 
   try {
-    const symbol = c.req.param('symbol') || 'SPY';
-    const uwClient = new UnusualWhalesClient(process.env.UW_API_KEY || 'demo-key');
-    
-    const alerts = await uwClient.getOptionsFlow(symbol);
-    const signals = uwClient.processOptionsFlowSignals(alerts);
+    console.log(`Generating new ${entry.symbol} trading signal...`);
+    const signal = await algorithms.generateSignal(entry.symbol);
 
     return c.json({
       success: true,
-      symbol: symbol,
-      alerts: alerts,
-      signals: signals,
+      symbol: entry.symbol,
+      signal: signal,
+      winProbability: confidenceCalibrator.calibrate(signal.confidence),
+      journalId: journalIds.get(signal) ?? null,
       timestamp: new Date().toISOString(),
     });
 
   } catch (error) {
-    console.error('Error fetching options flow:', error);
+    console.error('Error generating signal:', error);
     return c.json({ 
-      error: 'Failed to fetch options flow data',
+      error: 'Failed to generate trading signal',
       success: false 
     }, 500);
   }
-});
+}
 
 /**
- * Get GEX (Gamma Exposure) data
+ * Journaled signal history, newest first: ?symbol=&from=&to=&direction=&limit=
  */
-api.get('/gex/:symbol?', async (c) => {
-  if (!qppfAlgorithm) {
+api.get('/signals', async (c) => {
+  const direction = c.req.query('direction')?.toUpperCase() as SignalDirection | undefined;
+  if (direction && !SIGNAL_DIRECTIONS.includes(direction)) {
     return c.json({ 
-      error: 'QPPF Algorithm not initialized',
+      error: `direction must be one of ${SIGNAL_DIRECTIONS.join(', ')}`,
+      success: false 
+    }, 400);
+  }
+
+  const parseDate = (value?: string) => value ? new Date(value) : undefined;
+  const from = parseDate(c.req.query('from'));
+  const to = parseDate(c.req.query('to'));
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return c.json({ 
+      error: 'from and to must be ISO dates or timestamps',
       success: false 
     }, 400);
   }
 
+  const limit = c.req.query('limit') ? Number(c.req.query('limit')) : undefined;
+
   try {
-    const symbol = c.req.param('symbol') || 'SPY';
-    const uwClient = new UnusualWhalesClient(process.env.UW_API_KEY || 'demo-key');
-    
-    const gexData = await uwClient.getGEXData(symbol);
+    const signals = await signalJournal.query({
+      symbol: c.req.query('symbol'),
+      from,
+      to,
+      direction,
+      limit: limit && limit > 0 ? limit : undefined,
+    });
 
     return c.json({
       success: true,
-      symbol: symbol,
-      gexData: gexData,
+      journal: signalJournal.name,
+      count: signals.length,
+      signals,
       timestamp: new Date().toISOString(),
     });
-
   } catch (error) {
-    console.error('Error fetching GEX data:', error);
+    console.error('Error querying signal journal:', error);
     return c.json({ 
-      error: 'Failed to fetch GEX data',
+      error: 'Failed to query signal journal',
       success: false 
     }, 500);
   }
 });
 
 /**
- * Get Dark Pool data
+ * Measure forward returns, MFE/MAE and target/stop hits for recent journaled signals
  */
-api.get('/dark-pool/:symbol?', async (c) => {
-  if (!qppfAlgorithm) {
+api.post('/outcomes/evaluate', async (c) => {
+  if (!outcomeTracker) {
     return c.json({ 
       error: 'QPPF Algorithm not initialized',
       success: false 
@@ -244,182 +811,1167 @@ api.get('/dark-pool/:symbol?', async (c) => {
   }
 
   try {
-    const symbol = c.req.param('symbol') || 'SPY';
-    const uwClient = new UnusualWhalesClient(process.env.UW_API_KEY || 'demo-key');
-    
-    const darkPoolData = await uwClient.getDarkPoolData(symbol);
+    const result = await outcomeTracker.evaluatePending();
 
     return c.json({
       success: true,
-      symbol: symbol,
-      darkPoolData: darkPoolData,
+      ...result,
       timestamp: new Date().toISOString(),
     });
-
   } catch (error) {
-    console.error('Error fetching dark pool data:', error);
+    console.error('Error evaluating signal outcomes:', error);
     return c.json({ 
-      error: 'Failed to fetch dark pool data',
+      error: 'Failed to evaluate signal outcomes',
       success: false 
     }, 500);
   }
 });
 
 /**
- * Simulate trade execution
+ * Hit rates by confidence bucket, direction and reason at one horizon: ?symbol=&from=&to=&horizon=1h
  */
-api.post('/execute-trade', async (c) => {
-  if (!qppfAlgorithm) {
+api.get('/outcomes/summary', async (c) => {
+  const from = c.req.query('from') ? new Date(c.req.query('from')!) : undefined;
+  const to = c.req.query('to') ? new Date(c.req.query('to')!) : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
     return c.json({ 
-      error: 'QPPF Algorithm not initialized',
+      error: 'from and to must be ISO dates or timestamps',
       success: false 
     }, 400);
   }
 
-  if (!latestSignal) {
+  try {
+    const entries = await signalJournal.query({ symbol: c.req.query('symbol'), from, to, limit: 1000 });
+    const summary = summarizeOutcomes(entries, c.req.query('horizon') || '1h');
+
+    return c.json({
+      success: true,
+      summary,
+      horizons: outcomeTracker?.getConfig().horizons.map(h => h.label),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error summarizing signal outcomes:', error);
     return c.json({ 
-      error: 'No signal available. Generate a signal first.',
+      error: 'Failed to summarize signal outcomes',
       success: false 
-    }, 400);
+    }, 500);
+  }
+});
+
+/**
+ * Current confidence calibration model and settings
+ */
+api.get('/calibration', async (c) => {
+  return c.json({
+    success: true,
+    fitted: confidenceCalibrator.isFitted(),
+    model: confidenceCalibrator.getModel(),
+    config: confidenceCalibrator.getConfig(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Fit raw confidence to win probability on journaled outcomes: { method?, horizon?, symbol? }
+ */
+api.post('/calibration/fit', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+  if (body.method && !CALIBRATION_METHODS.includes(body.method)) {
+    return c.json({ 
+      error: `method must be one of ${CALIBRATION_METHODS.join(', ')}`,
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const model = await confidenceCalibrator.fitFromJournal(signalJournal, {
+      method: body.method,
+      horizon: body.horizon,
+      symbol: body.symbol,
+    });
+
+    return c.json({
+      success: true,
+      model,
+      reliability: confidenceCalibrator.reliability(
+        await signalJournal.queryOutcomes({ symbol: body.symbol, limit: 1000 }),
+        model.horizon
+      ),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fitting confidence calibration:', error);
+    return c.json({ 
+      error: `Failed to fit confidence calibration: ${error instanceof Error ? error.message : error}`,
+      success: false 
+    }, 400);
+  }
+});
+
+/**
+ * Reliability diagram (predicted vs observed win rate per bin) for raw and calibrated confidence:
+ * ?symbol=&from=&to=&horizon=&bins=10
+ */
+api.get('/calibration/reliability', async (c) => {
+  const from = c.req.query('from') ? new Date(c.req.query('from')!) : undefined;
+  const to = c.req.query('to') ? new Date(c.req.query('to')!) : undefined;
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return c.json({ 
+      error: 'from and to must be ISO dates or timestamps',
+      success: false 
+    }, 400);
+  }
+
+  const bins = c.req.query('bins') ? Number(c.req.query('bins')) : undefined;
+  if (bins !== undefined && !(bins >= 1 && bins <= 50)) {
+    return c.json({ 
+      error: 'bins must be between 1 and 50',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const records = await signalJournal.queryOutcomes({ symbol: c.req.query('symbol'), from, to, limit: 1000 });
+    const diagram = confidenceCalibrator.reliability(records, c.req.query('horizon'), bins);
+
+    return c.json({
+      success: true,
+      diagram,
+      model: confidenceCalibrator.getModel(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error building reliability diagram:', error);
+    return c.json({ 
+      error: 'Failed to build reliability diagram',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Directional factors with their effective enabled flag and weight: ?symbol=
+ */
+api.get('/factors', async (c) => {
+  const symbol = (c.req.query('symbol') || algorithms?.getDefault()?.symbol || 'SPY').toUpperCase();
+
+  return c.json({
+    success: true,
+    symbol,
+    factors: signalFactors.getSettings(symbol),
+    config: signalFactors.getConfig(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Enable, disable or reweight factors: { directionThreshold?, factors?: { name: { enabled?, weight? } }, symbols?: { SYMBOL: {...} } }
+ */
+api.post('/factors', async (c) => {
+  try {
+    const body: Partial<FactorConfig> = await c.req.json();
+    signalFactors.configure(body);
+
+    return c.json({
+      success: true,
+      config: signalFactors.getConfig(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Invalid factor configuration',
+      success: false 
+    }, 400);
+  }
+});
+
+/**
+ * A single journaled signal with its inputs and outcome
+ */
+api.get('/signals/:id', async (c) => {
+  try {
+    const signal = await signalJournal.get(c.req.param('id'));
+    if (!signal) {
+      return c.json({ 
+        error: 'Signal not found',
+        success: false 
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      signal,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error reading signal journal:', error);
+    return c.json({ 
+      error: 'Failed to read signal journal',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Get Unusual Whales options flow data
+ */
+api.get('/options-flow/:symbol?', async (c) => {
+  if (!algorithms) {
+    return c.json({ 
+      error: 'QPPF Algorithm not initialized',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const symbol = c.req.param('symbol') || 'SPY';
+    const uwClient = new UnusualWhalesClient(process.env.UW_API_KEY || 'demo-key');
+    
+    const alerts = await uwClient.getOptionsFlow(symbol);
+    const signals = uwClient.processOptionsFlowSignals(alerts);
+
+    return c.json({
+      success: true,
+      symbol: symbol,
+      alerts: alerts,
+      signals: signals,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error fetching options flow:', error);
+    return c.json({ 
+      error: 'Failed to fetch options flow data',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Get GEX (Gamma Exposure) data
+ */
+api.get('/gex/:symbol?', async (c) => {
+  if (!algorithms) {
+    return c.json({ 
+      error: 'QPPF Algorithm not initialized',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const symbol = c.req.param('symbol') || 'SPY';
+    
+    // Compute GEX from the full option chain when a chain source is configured
+    if (optionChainSource) {
+      const chain = await optionChainSource.getChain(symbol, new Date());
+      const spot = chain?.underlyingPrice ?? (await marketDataService?.getQuote(symbol))?.price;
+      
+      if (chain && chain.contracts.length > 0 && spot) {
+        // Per-request overrides: ?dealerModel=, ?grid=percent|atr&atr=
+        const dealerModel = c.req.query('dealerModel') as DealerPositionModel | undefined;
+        if (dealerModel && !DEALER_MODELS.includes(dealerModel)) {
+          return c.json({ 
+            error: `dealerModel must be one of ${DEALER_MODELS.join(', ')}`,
+            success: false 
+          }, 400);
+        }
+        const gridMode = c.req.query('grid');
+        const atr = Number(c.req.query('atr'));
+        
+        const gexCalculator = new GEXCalculator(undefined, undefined, undefined, undefined, {
+          ...gexConfig,
+          ...(dealerModel ? { dealerModel } : {}),
+          ...(gridMode === 'percent' || gridMode === 'atr' ? { gridMode } : {}),
+        });
+        const gexData = gexCalculator.calculateGEX(chain, spot, { atr: atr > 0 ? atr : undefined });
+        
+        return c.json({
+          success: true,
+          symbol: symbol,
+          gexData: gexData,
+          chain: {
+            source: chain.source || optionChainSource.name,
+            provenance: chain.provenance || 'live',
+            contracts: chain.contracts.length,
+            timestamp: chain.timestamp,
+          },
+          // Per-contract delta/gamma/vanna/charm/vega on request (large for full chains)
+          contractGreeks: c.req.query('contracts') === 'true'
+            ? gexCalculator.calculateContractGreeks(chain.contracts, spot)
+            : undefined,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      
+      console.warn(`Option chain unavailable for ${symbol}, falling back to Unusual Whales GEX summary`);
+    }
+    
+    const uwClient = new UnusualWhalesClient(process.env.UW_API_KEY || 'demo-key');
+    
+    const gexData = await uwClient.getGEXData(symbol);
+
+    return c.json({
+      success: true,
+      symbol: symbol,
+      gexData: gexData,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error fetching GEX data:', error);
+    return c.json({ 
+      error: 'Failed to fetch GEX data',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Get the fitted implied volatility surface (SVI per expiry) from the option chain
+ */
+api.get('/iv-surface/:symbol', async (c) => {
+  if (!optionChainSource) {
+    return c.json({ 
+      error: 'No option chain source configured. Initialize with optionChainSource first.',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const symbol = c.req.param('symbol').toUpperCase();
+    const chain = await optionChainSource.getChain(symbol, new Date());
+    const spot = chain?.underlyingPrice ?? (await marketDataService?.getQuote(symbol))?.price;
+
+    if (!chain || chain.contracts.length === 0 || !spot) {
+      return c.json({ 
+        error: `Option chain or spot price unavailable for ${symbol}`,
+        success: false 
+      }, 404);
+    }
+
+    const surface = new GEXCalculator(undefined, undefined, undefined, undefined, gexConfig).buildIVSurface(chain, spot);
+
+    return c.json({
+      success: true,
+      symbol,
+      spot,
+      slices: surface.slices.map(slice => ({
+        expiry: slice.expiry,
+        timeToExpiry: slice.timeToExpiry,
+        forward: slice.forward,
+        svi: slice.svi,
+        rmse: slice.rmse,
+        quotes: slice.points.length,
+      })),
+      grid: surface.toGrid(),
+      chain: {
+        source: chain.source || optionChainSource.name,
+        provenance: chain.provenance || 'live',
+        contracts: chain.contracts.length,
+        timestamp: chain.timestamp,
+      },
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error building IV surface:', error);
+    return c.json({ 
+      error: 'Failed to build IV surface',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Get Dark Pool data
+ */
+api.get('/dark-pool/:symbol?', async (c) => {
+  if (!algorithms) {
+    return c.json({ 
+      error: 'QPPF Algorithm not initialized',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const symbol = c.req.param('symbol') || 'SPY';
+    const uwClient = new UnusualWhalesClient(process.env.UW_API_KEY || 'demo-key');
+    
+    const darkPoolData = await uwClient.getDarkPoolData(symbol);
+
+    return c.json({
+      success: true,
+      symbol: symbol,
+      darkPoolData: darkPoolData,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error fetching dark pool data:', error);
+    return c.json({ 
+      error: 'Failed to fetch dark pool data',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Get exchange session phase and calendar for a date (defaults to today in New York)
+ */
+api.get('/market/calendar', async (c) => {
+  const date = c.req.query('date');
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return c.json({ 
+      error: 'date must be YYYY-MM-DD',
+      success: false 
+    }, 400);
+  }
+
+  const now = new Date();
+  const status = tradingCalendar.getMarketStatus(now);
+  const session = date ? tradingCalendar.getSession(date) : status.session;
+  const symbol = c.req.query('symbol');
+
+  return c.json({
+    success: true,
+    phase: status.phase,
+    nextRegularOpen: status.nextRegularOpen.toISOString(),
+    nextRegularClose: status.nextRegularClose.toISOString(),
+    session,
+    expiration: tradingCalendar.getExpirationType(session.date, symbol),
+    timestamp: now.toISOString(),
+  });
+});
+
+/**
+ * Get market data provider priority and health
+ */
+api.get('/market-data/providers', async (c) => {
+  if (!marketDataService) {
+    return c.json({ 
+      error: 'Market data service not initialized',
+      success: false 
+    }, 400);
+  }
+
+  return c.json({
+    success: true,
+    priority: marketDataService.getPriority(),
+    providers: marketDataService.getProviderHealth(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Reorder market data providers
+ */
+api.post('/market-data/priority', async (c) => {
+  if (!marketDataService) {
+    return c.json({ 
+      error: 'Market data service not initialized',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const body = await c.req.json();
+    if (!Array.isArray(body.priority)) {
+      return c.json({ 
+        error: 'priority must be an array of provider names',
+        success: false 
+      }, 400);
+    }
+
+    marketDataService.setPriority(body.priority);
+
+    return c.json({
+      success: true,
+      priority: marketDataService.getPriority(),
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error updating market data priority:', error);
+    return c.json({ 
+      error: 'Failed to update market data priority',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Bar builder status: built timeframes, store, and bar counts per symbol
+ */
+api.get('/bars', async (c) => {
+  return c.json({
+    success: true,
+    ...barBuilder.getStatus(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Built OHLCV+VWAP bars for a symbol: ?timeframe=1m|5m|15m|1h|1d&limit=
+ */
+api.get('/bars/:symbol', async (c) => {
+  const symbol = c.req.param('symbol').toUpperCase();
+  const timeframe = (c.req.query('timeframe') || '1m') as BuildTimeframe;
+  if (!barBuilder.getConfig().timeframes.includes(timeframe)) {
+    return c.json({ 
+      error: `timeframe must be one of ${barBuilder.getConfig().timeframes.join(', ')}`,
+      success: false 
+    }, 400);
+  }
+
+  const limit = Number(c.req.query('limit') || 100);
+
+  return c.json({
+    success: true,
+    symbol,
+    timeframe,
+    bars: barBuilder.getCompletedBars(symbol, timeframe, limit > 0 ? limit : 100),
+    forming: barBuilder.getFormingBar(symbol, timeframe),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Market data stream status and the latest streamed quote per symbol
+ */
+api.get('/stream', async (c) => {
+  if (!marketStream) {
+    return c.json({ 
+      error: 'Market data stream not enabled (requires Alpaca credentials)',
+      success: false 
+    }, 400);
+  }
+
+  return c.json({
+    success: true,
+    ...marketStream.getStatus(),
+    quotes: marketStream.getCache().list(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Change stream subscriptions: { subscribe?: string[], unsubscribe?: string[] }
+ */
+api.post('/stream', async (c) => {
+  if (!marketStream) {
+    return c.json({ 
+      error: 'Market data stream not enabled (requires Alpaca credentials)',
+      success: false 
+    }, 400);
+  }
+
+  const body: { subscribe?: string[]; unsubscribe?: string[] } = await c.req.json().catch(() => ({}));
+  const symbols = [...(body.subscribe || []), ...(body.unsubscribe || [])];
+  if (symbols.length === 0 || !symbols.every(symbol => typeof symbol === 'string' && /^[A-Za-z.]{1,10}$/.test(symbol))) {
+    return c.json({ 
+      error: 'subscribe and unsubscribe must list symbols',
+      success: false 
+    }, 400);
+  }
+
+  marketStream.subscribe(body.subscribe || []);
+  marketStream.unsubscribe(body.unsubscribe || []);
+
+  return c.json({
+    success: true,
+    ...marketStream.getStatus(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Execute the latest signal on the built-in paper broker (no Alpaca account needed)
+ */
+api.post('/execute-trade', async (c) => {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!entry || !paperBroker || !riskManager) {
+    return c.json({ 
+      error: 'QPPF Algorithm not initialized',
+      success: false 
+    }, 400);
+  }
+
+  const latestSignal = entry.latestSignal;
+  if (!latestSignal) {
+    return c.json({ 
+      error: 'No signal available. Generate a signal first.',
+      success: false 
+    }, 400);
+  }
+
+  const signalSummary = {
+    direction: latestSignal.direction,
+    confidence: latestSignal.confidence,
+    strength: latestSignal.strength,
+  };
+  if (latestSignal.direction === 'FLAT') {
+    return c.json({
+      success: false,
+      message: 'Trade not executed - flat signal',
+      signal: signalSummary,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const symbol = latestSignal.marketData.symbol;
+    // A live signal's own quote prices the order unless a fresher one is already cached; cached, synthetic
+    // or mock prices never reach the book, so the paper broker re-quotes from its market data instead
+    const liveQuote = latestSignal.dataQuality.marketData === 'live';
+    if (liveQuote) paperBroker.onQuote(latestSignal.marketData);
+    const account = await paperBroker.getAccount();
+    const positions = await paperBroker.getPositions();
+    const currentPrice = await paperBroker.getCurrentPrice(symbol);
+    if (!account || !currentPrice) {
+      return c.json({ 
+        error: 'Failed to get current market price',
+        success: false 
+      }, 500);
+    }
+
+    const riskAssessment = riskManager.assessTrade(
+      latestSignal,
+      latestSignal.uwSignals,
+      account,
+      positions,
+      currentPrice
+    );
+    if (!riskManager.shouldExecuteTrade(riskAssessment) || riskAssessment.positionSize <= 0) {
+      return c.json({
+        success: false,
+        message: 'Trade not executed - rejected by risk management',
+        reasons: riskAssessment.reasons,
+        riskAssessment,
+        signal: signalSummary,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    const tradeResult = await paperBroker.executeTrade({
+      symbol,
+      direction: latestSignal.direction === 'LONG' ? 'long' : 'short',
+      quantity: riskAssessment.positionSize,
+      confidence: latestSignal.confidence,
+      orderType: 'market',
+    });
+    if (broker === paperBroker) {
+      orderManager?.track(tradeResult, {
+        symbol,
+        side: latestSignal.direction === 'LONG' ? 'buy' : 'sell',
+        qty: riskAssessment.positionSize,
+        signalPrice: liveQuote ? latestSignal.marketData.price : currentPrice,
+        signalId: journalIds.get(latestSignal) ?? null,
+      });
+    }
+
+    if (!tradeResult.success) {
+      return c.json({
+        success: false,
+        message: 'Trade execution failed',
+        error: tradeResult.error,
+        riskAssessment,
+        signal: signalSummary,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Market orders fill at once while the session is open; otherwise they rest until the next tick fills them
+    const filled = tradeResult.order?.status === 'filled';
+    if (filled) {
+      const position = await paperBroker.getPosition(symbol);
+      entry.algorithm.recordTradeExecution(latestSignal, position?.qty ?? 0, position?.avgEntryPrice ?? 0);
+    }
+
+    return c.json({
+      success: true,
+      message: filled ? 'Trade executed successfully' : 'Order accepted - waiting for a fill',
+      tradeResult,
+      riskAssessment,
+      signal: signalSummary,
+      state: entry.algorithm.getState(),
+      account: await paperBroker.getAccount(),
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error executing trade:', error);
+    return c.json({ 
+      error: 'Failed to execute trade',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Paper broker account, positions, recent orders and fill statistics
+ */
+api.get('/paper/account', async (c) => {
+  if (!paperBroker) {
+    return c.json({ 
+      error: 'Paper broker not initialized',
+      success: false 
+    }, 400);
   }
 
   try {
-    const executed = qppfAlgorithm.simulateTradeExecution(latestSignal);
-    
-    if (executed) {
+    return c.json({
+      success: true,
+      active: broker === paperBroker,
+      account: await paperBroker.getAccount(),
+      positions: await paperBroker.getPositions(),
+      orders: await paperBroker.getRecentOrders(20),
+      stats: paperBroker.getStats(),
+      config: paperBroker.getConfig(),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error getting paper account:', error);
+    return c.json({ 
+      error: 'Failed to get paper account',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Replay quotes into the paper broker ({ symbol, price, bid?, ask?, volume?, timestamp? } or { quotes: [...] })
+ */
+api.post('/paper/quotes', async (c) => {
+  if (!paperBroker) {
+    return c.json({ 
+      error: 'Paper broker not initialized',
+      success: false 
+    }, 400);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  const rows: any[] = Array.isArray(body?.quotes) ? body.quotes : body ? [body] : [];
+  const invalid = rows.findIndex(row =>
+    typeof row?.symbol !== 'string' || !(Number(row.price) > 0) || (row.timestamp && isNaN(Date.parse(row.timestamp))));
+  if (rows.length === 0 || invalid >= 0) {
+    return c.json({ 
+      error: rows.length === 0 ? 'At least one quote is required' : `Quote ${invalid} needs a symbol, a positive price and a valid timestamp`,
+      success: false 
+    }, 400);
+  }
+
+  let fills = 0;
+  for (const row of rows) {
+    const price = Number(row.price);
+    fills += paperBroker.onQuote({
+      symbol: row.symbol.toUpperCase(),
+      price,
+      volume: Number(row.volume) || 0,
+      bid: Number(row.bid) || price,
+      ask: Number(row.ask) || price,
+      timestamp: row.timestamp ? new Date(row.timestamp) : new Date(),
+      source: 'replay',
+    }, true);
+  }
+
+  return c.json({
+    success: true,
+    quotes: rows.length,
+    fills,
+    stats: paperBroker.getStats(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Flatten the paper broker and restart it with its starting cash (body may override the paper broker config)
+ */
+api.post('/paper/reset', async (c) => {
+  if (!paperBroker) {
+    return c.json({ 
+      error: 'Paper broker not initialized',
+      success: false 
+    }, 400);
+  }
+
+  const overrides: Partial<PaperBrokerConfig> = await c.req.json().catch(() => ({}));
+  const error = paperBrokerConfigError(overrides ?? {});
+  if (error) {
+    return c.json({ 
+      error,
+      success: false 
+    }, 400);
+  }
+  paperBroker.reset(overrides ?? {});
+
+  return c.json({
+    success: true,
+    message: 'Paper broker reset',
+    account: await paperBroker.getAccount(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Execute real trade through Alpaca
+ */
+api.post('/execute-alpaca-trade', async (c) => {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!entry || !broker || !riskManager) {
+    return c.json({ 
+      error: 'QPPF Algorithm or Alpaca service not initialized',
+      success: false 
+    }, 400);
+  }
+
+  const latestSignal = entry.latestSignal;
+  if (!latestSignal) {
+    return c.json({ 
+      error: 'No signal available. Generate a signal first.',
+      success: false 
+    }, 400);
+  }
+
+  // Refuse to trade on cached, synthetic or mock inputs
+  if (!latestSignal.dataQuality.isLive) {
+    return c.json({
+      success: false,
+      message: 'Trade rejected - signal is not backed by live data',
+      nonLiveInputs: describeNonLiveInputs(latestSignal.dataQuality),
+      dataQuality: latestSignal.dataQuality,
+      timestamp: new Date().toISOString(),
+    }, 409);
+  }
+
+  try {
+    // Get account information
+    const account = await broker.getAccount();
+    if (!account) {
+      return c.json({ 
+        error: 'Failed to get Alpaca account information',
+        success: false 
+      }, 500);
+    }
+
+    // Get current positions
+    const positions = await broker.getPositions();
+
+    // Get current market price
+    const currentPrice = await broker.getCurrentPrice(latestSignal.marketData.symbol);
+    if (!currentPrice) {
+      return c.json({ 
+        error: 'Failed to get current market price',
+        success: false 
+      }, 500);
+    }
+
+    // Assess risk
+    const riskAssessment = riskManager.assessTrade(
+      latestSignal,
+      latestSignal.uwSignals,
+      account,
+      positions,
+      currentPrice
+    );
+
+    // Check if we should execute
+    if (!riskManager.shouldExecuteTrade(riskAssessment)) {
+      return c.json({
+        success: false,
+        message: `Trade rejected by risk management`,
+        recommendation: riskAssessment.recommendation,
+        reasons: riskAssessment.reasons,
+        riskAssessment,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    // Create trade signal for Alpaca
+    const tradeSignal: TradeSignal = {
+      symbol: latestSignal.marketData.symbol,
+      direction: latestSignal.direction === 'LONG' ? 'long' : 'short',
+      quantity: riskAssessment.positionSize,
+      confidence: latestSignal.confidence,
+      orderType: 'market',
+    };
+
+    // Execute the trade
+    const tradeResult = await broker.executeTrade(tradeSignal);
+    const trackedOrder = orderManager?.track(tradeResult, {
+      symbol: tradeSignal.symbol,
+      side: tradeSignal.direction === 'long' ? 'buy' : 'sell',
+      qty: tradeSignal.quantity,
+      signalPrice: latestSignal.marketData.price,
+      signalId: journalIds.get(latestSignal) ?? null,
+    }) ?? null;
+
+    if (tradeResult.success) {
       return c.json({
         success: true,
-        message: 'Trade executed successfully',
+        message: 'Real trade executed successfully',
+        tradeResult,
+        trackedOrder,
+        riskAssessment,
         signal: {
           direction: latestSignal.direction,
           confidence: latestSignal.confidence,
           strength: latestSignal.strength,
         },
-        state: qppfAlgorithm.getState(),
         timestamp: new Date().toISOString(),
       });
     } else {
       return c.json({
         success: false,
-        message: 'Trade not executed - insufficient confidence or flat signal',
-        signal: {
-          direction: latestSignal.direction,
-          confidence: latestSignal.confidence,
-          strength: latestSignal.strength,
-        },
+        message: 'Trade execution failed',
+        error: tradeResult.error,
+        riskAssessment,
+        trackedOrder,
         timestamp: new Date().toISOString(),
       });
     }
 
   } catch (error) {
-    console.error('Error executing trade:', error);
+    console.error('Error executing Alpaca trade:', error);
     return c.json({ 
-      error: 'Failed to execute trade',
+      error: 'Failed to execute Alpaca trade',
       success: false 
     }, 500);
   }
 });
 
 /**
- * Execute real trade through Alpaca
+ * Contract, premium and premium-at-risk sizing for a symbol's latest signal (shared by the option routes)
  */
-api.post('/execute-alpaca-trade', async (c) => {
-  if (!qppfAlgorithm || !alpacaService || !riskManager) {
+async function planOptionTrade(
+  entry: AlgorithmEntry,
+  overrides: { timeframe?: string; strikeSelection?: string; targetDelta?: number | string }
+): Promise<
+  | { error: string; status: 400 | 404 }
+  | { signal: QPPFSignal; contract: ContractSelection; premium: number; premiumSource: string; riskAssessment: RiskAssessment | null }
+> {
+  const signal = entry.latestSignal;
+  if (!signal) return { error: 'No signal available. Generate a signal first.', status: 400 };
+  if (signal.direction === 'FLAT') return { error: 'Latest signal is FLAT - no option to buy', status: 400 };
+
+  const selection: Partial<ContractSelectorConfig> = {};
+  if (overrides.timeframe) {
+    if (!SIGNAL_TIMEFRAMES.includes(overrides.timeframe as SignalTimeframe)) {
+      return { error: `timeframe must be one of ${SIGNAL_TIMEFRAMES.join(', ')}`, status: 400 };
+    }
+    selection.timeframe = overrides.timeframe as SignalTimeframe;
+  }
+  if (overrides.strikeSelection) {
+    if (!STRIKE_SELECTIONS.includes(overrides.strikeSelection as ContractSelectorConfig['strikeSelection'])) {
+      return { error: `strikeSelection must be one of ${STRIKE_SELECTIONS.join(', ')}`, status: 400 };
+    }
+    selection.strikeSelection = overrides.strikeSelection as ContractSelectorConfig['strikeSelection'];
+  }
+  if (overrides.targetDelta !== undefined && overrides.targetDelta !== '') {
+    const targetDelta = Number(overrides.targetDelta);
+    if (!(targetDelta > 0 && targetDelta < 1)) return { error: 'targetDelta must be between 0 and 1', status: 400 };
+    selection.targetDelta = targetDelta;
+  }
+
+  if (!optionChainSource) return { error: 'An option chain source is required to select contracts', status: 400 };
+  const chain = await optionChainSource.getChain(entry.symbol, new Date());
+  if (!chain || chain.contracts.length === 0) return { error: `Option chain unavailable for ${entry.symbol}`, status: 404 };
+
+  const spot = chain.underlyingPrice ?? signal.marketData.price;
+  const contract = optionSelector.select(chain, spot, signal.direction, selection);
+  if (!contract) {
+    const timeframe = selection.timeframe || optionSelector.getConfig().timeframe;
+    return { error: `No listed ${entry.symbol} ${signal.direction === 'LONG' ? 'calls' : 'puts'} expire on or after the ${timeframe} expiration`, status: 404 };
+  }
+
+  // Buying pays the ask; the chain mark stands in when the broker has no option quotes
+  const quote = broker?.getOptionQuote ? await broker.getOptionQuote(contract.contractSymbol) : null;
+  const premium = quote?.ask || contract.premium;
+  if (!premium) return { error: `No premium quote for ${contract.contractSymbol}`, status: 404 };
+
+  let riskAssessment: RiskAssessment | null = null;
+  if (broker && riskManager) {
+    const account = await broker.getAccount();
+    if (account) {
+      riskAssessment = riskManager.assessOptionTrade(signal, signal.uwSignals, account, await broker.getPositions(), premium);
+    }
+  }
+
+  return { signal, contract, premium, premiumSource: quote ? quote.source : 'chain', riskAssessment };
+}
+
+/**
+ * Option contract for the latest signal: expiry by ?timeframe=, strike by ?strikeSelection=delta|gex-wall and ?targetDelta=
+ */
+api.get('/options/contract', async (c) => {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!entry) {
     return c.json({ 
-      error: 'QPPF Algorithm or Alpaca service not initialized',
+      error: 'QPPF Algorithm not initialized',
       success: false 
     }, 400);
   }
 
-  if (!latestSignal) {
+  try {
+    const plan = await planOptionTrade(entry, {
+      timeframe: c.req.query('timeframe'),
+      strikeSelection: c.req.query('strikeSelection'),
+      targetDelta: c.req.query('targetDelta'),
+    });
+    if ('error' in plan) {
+      return c.json({ 
+        error: plan.error,
+        success: false 
+      }, plan.status);
+    }
+
+    return c.json({
+      success: true,
+      symbol: entry.symbol,
+      signal: {
+        direction: plan.signal.direction,
+        confidence: plan.signal.confidence,
+        strength: plan.signal.strength,
+      },
+      contract: plan.contract,
+      premium: plan.premium,
+      premiumSource: plan.premiumSource,
+      contracts: plan.riskAssessment?.positionSize ?? null,
+      premiumAtRisk: plan.riskAssessment?.riskAmount ?? null,
+      riskAssessment: plan.riskAssessment,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error selecting option contract:', error);
     return c.json({ 
-      error: 'No signal available. Generate a signal first.',
+      error: 'Failed to select option contract',
+      success: false 
+    }, 500);
+  }
+});
+
+/**
+ * Buy the selected call or put for the latest signal through the broker's options API, sized by premium at risk
+ */
+api.post('/execute-option-trade', async (c) => {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!entry || !broker || !riskManager) {
+    return c.json({ 
+      error: 'QPPF Algorithm or broker not initialized',
       success: false 
     }, 400);
   }
+  if (!broker.executeOptionTrade) {
+    return c.json({ 
+      error: `The ${broker.name} broker does not support option orders`,
+      success: false 
+    }, 400);
+  }
+
+  const body: {
+    timeframe?: string;
+    strikeSelection?: string;
+    targetDelta?: number;
+    orderType?: 'market' | 'limit';
+    limitPrice?: number;
+  } = await c.req.json().catch(() => ({}));
+  if (body.orderType && !['market', 'limit'].includes(body.orderType)) {
+    return c.json({ 
+      error: 'orderType must be market or limit',
+      success: false 
+    }, 400);
+  }
+  if (body.limitPrice !== undefined && !(Number.isFinite(body.limitPrice) && body.limitPrice > 0)) {
+    return c.json({ 
+      error: 'limitPrice must be a positive number',
+      success: false 
+    }, 400);
+  }
+
+  // Refuse to trade on cached, synthetic or mock inputs
+  const latestSignal = entry.latestSignal;
+  if (latestSignal && !latestSignal.dataQuality.isLive) {
+    return c.json({
+      success: false,
+      message: 'Trade rejected - signal is not backed by live data',
+      nonLiveInputs: describeNonLiveInputs(latestSignal.dataQuality),
+      dataQuality: latestSignal.dataQuality,
+      timestamp: new Date().toISOString(),
+    }, 409);
+  }
 
   try {
-    // Get account information
-    const account = await alpacaService.getAccount();
-    if (!account) {
+    const plan = await planOptionTrade(entry, body);
+    if ('error' in plan) {
       return c.json({ 
-        error: 'Failed to get Alpaca account information',
+        error: plan.error,
         success: false 
-      }, 500);
+      }, plan.status);
     }
 
-    // Get current positions
-    const positions = await alpacaService.getPositions();
-
-    // Get current market price
-    const currentPrice = await alpacaService.getCurrentPrice(latestSignal.marketData.symbol);
-    if (!currentPrice) {
+    const { signal, contract, premium, riskAssessment } = plan;
+    if (!riskAssessment) {
       return c.json({ 
-        error: 'Failed to get current market price',
+        error: 'Failed to get account information',
         success: false 
       }, 500);
     }
-
-    // Assess risk
-    const riskAssessment = riskManager.assessTrade(
-      latestSignal,
-      latestSignal.uwSignals,
-      account,
-      positions,
-      currentPrice
-    );
-
-    // Check if we should execute
     if (!riskManager.shouldExecuteTrade(riskAssessment)) {
       return c.json({
         success: false,
-        message: `Trade rejected by risk management`,
+        message: 'Trade rejected by risk management',
         recommendation: riskAssessment.recommendation,
         reasons: riskAssessment.reasons,
+        contract,
         riskAssessment,
         timestamp: new Date().toISOString(),
       });
     }
 
-    // Create trade signal for Alpaca
-    const tradeSignal: TradeSignal = {
-      symbol: latestSignal.marketData.symbol,
-      direction: latestSignal.direction === 'LONG' ? 'long' : 'short',
+    // A limit at the premium it was sized on, unless a market order is asked for
+    const orderType = body.orderType || 'limit';
+    const optionSignal: OptionTradeSignal = {
+      contractSymbol: contract.contractSymbol,
+      side: 'buy',
+      positionIntent: 'buy_to_open',
       quantity: riskAssessment.positionSize,
-      confidence: latestSignal.confidence,
-      orderType: 'market',
+      orderType,
+      limitPrice: orderType === 'limit' ? body.limitPrice ?? premium : undefined,
     };
 
-    // Execute the trade
-    const tradeResult = await alpacaService.executeTrade(tradeSignal);
+    const tradeResult = await broker.executeOptionTrade(optionSignal);
+    const trackedOrder = orderManager?.track(tradeResult, {
+      symbol: contract.contractSymbol,
+      side: 'buy',
+      qty: optionSignal.quantity,
+      contractMultiplier: OPTION_CONTRACT_MULTIPLIER,
+      signalPrice: premium,
+      signalId: journalIds.get(signal) ?? null,
+    }) ?? null;
 
-    if (tradeResult.success) {
-      return c.json({
-        success: true,
-        message: 'Real trade executed successfully',
-        tradeResult,
-        riskAssessment,
-        signal: {
-          direction: latestSignal.direction,
-          confidence: latestSignal.confidence,
-          strength: latestSignal.strength,
-        },
-        timestamp: new Date().toISOString(),
-      });
-    } else {
-      return c.json({
-        success: false,
-        message: 'Trade execution failed',
-        error: tradeResult.error,
-        riskAssessment,
-        timestamp: new Date().toISOString(),
-      });
-    }
+    return c.json({
+      success: tradeResult.success,
+      message: tradeResult.success ? 'Option order submitted' : 'Option order failed',
+      error: tradeResult.error,
+      contract,
+      premium,
+      premiumAtRisk: riskAssessment.riskAmount,
+      tradeResult,
+      trackedOrder,
+      riskAssessment,
+      signal: {
+        direction: signal.direction,
+        confidence: signal.confidence,
+        strength: signal.strength,
+      },
+      timestamp: new Date().toISOString(),
+    });
 
   } catch (error) {
-    console.error('Error executing Alpaca trade:', error);
+    console.error('Error executing option trade:', error);
     return c.json({ 
-      error: 'Failed to execute Alpaca trade',
+      error: 'Failed to execute option trade',
       success: false 
     }, 500);
   }
@@ -429,7 +1981,7 @@ api.post('/execute-alpaca-trade', async (c) => {
  * Get Alpaca account information
  */
 api.get('/alpaca/account', async (c) => {
-  if (!alpacaService) {
+  if (!broker) {
     return c.json({ 
       error: 'Alpaca service not initialized',
       success: false 
@@ -437,7 +1989,7 @@ api.get('/alpaca/account', async (c) => {
   }
 
   try {
-    const account = await alpacaService.getAccount();
+    const account = await broker.getAccount();
     if (!account) {
       return c.json({ 
         error: 'Failed to get account information',
@@ -464,7 +2016,7 @@ api.get('/alpaca/account', async (c) => {
  * Get Alpaca positions
  */
 api.get('/alpaca/positions', async (c) => {
-  if (!alpacaService) {
+  if (!broker) {
     return c.json({ 
       error: 'Alpaca service not initialized',
       success: false 
@@ -472,7 +2024,7 @@ api.get('/alpaca/positions', async (c) => {
   }
 
   try {
-    const positions = await alpacaService.getPositions();
+    const positions = await broker.getPositions();
     
     return c.json({
       success: true,
@@ -493,7 +2045,7 @@ api.get('/alpaca/positions', async (c) => {
  * Get Alpaca recent orders
  */
 api.get('/alpaca/orders', async (c) => {
-  if (!alpacaService) {
+  if (!broker) {
     return c.json({ 
       error: 'Alpaca service not initialized',
       success: false 
@@ -501,7 +2053,7 @@ api.get('/alpaca/orders', async (c) => {
   }
 
   try {
-    const orders = await alpacaService.getRecentOrders(20);
+    const orders = await broker.getRecentOrders(20);
     
     return c.json({
       success: true,
@@ -522,7 +2074,7 @@ api.get('/alpaca/orders', async (c) => {
  * Close Alpaca position
  */
 api.post('/alpaca/close-position/:symbol', async (c) => {
-  if (!alpacaService) {
+  if (!broker) {
     return c.json({ 
       error: 'Alpaca service not initialized',
       success: false 
@@ -531,7 +2083,10 @@ api.post('/alpaca/close-position/:symbol', async (c) => {
 
   try {
     const symbol = c.req.param('symbol');
-    const result = await alpacaService.closePosition(symbol);
+    const result = await broker.closePosition(symbol);
+    if (result.order) {
+      orderManager?.track(result, { symbol: result.order.symbol, side: result.order.side, qty: result.order.qty });
+    }
 
     return c.json({
       success: result.success,
@@ -550,17 +2105,153 @@ api.post('/alpaca/close-position/:symbol', async (c) => {
   }
 });
 
+/**
+ * Tracked orders with fill status and slippage, plus positions reconciled from fills: ?symbol=&state=open|closed&limit=
+ */
+api.get('/orders', async (c) => {
+  if (!orderManager) {
+    return c.json({ 
+      error: 'Order manager not initialized (requires Alpaca credentials)',
+      success: false 
+    }, 400);
+  }
+
+  const state = c.req.query('state');
+  if (state && state !== 'open' && state !== 'closed') {
+    return c.json({ 
+      error: 'state must be open or closed',
+      success: false 
+    }, 400);
+  }
+
+  const limit = Number(c.req.query('limit') || 50);
+  const orders = orderManager.listOrders({
+    symbol: c.req.query('symbol'),
+    state: state as 'open' | 'closed' | undefined,
+    limit: limit > 0 ? limit : 50,
+  });
+
+  return c.json({
+    success: true,
+    ...orderManager.getStatus(),
+    orders: orders.map(({ timeline, ...order }) => ({ ...order, events: timeline.length })),
+    positions: orderManager.getPositions(),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * State timeline and fills of one order; open orders are polled first
+ */
+api.get('/orders/:clientOrderId/timeline', async (c) => {
+  if (!orderManager) {
+    return c.json({ 
+      error: 'Order manager not initialized (requires Alpaca credentials)',
+      success: false 
+    }, 400);
+  }
+
+  const clientOrderId = c.req.param('clientOrderId');
+  let order = orderManager.getOrder(clientOrderId);
+  if (!order) {
+    return c.json({ 
+      error: `Order ${clientOrderId} is not tracked`,
+      success: false 
+    }, 404);
+  }
+
+  if (!order.closedAt && order.orderId) {
+    try {
+      order = await orderManager.refresh(clientOrderId) || order;
+    } catch (error) {
+      console.warn(`⚠️ Could not refresh order ${clientOrderId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const { timeline, fills, ...summary } = order;
+  return c.json({
+    success: true,
+    order: summary,
+    timeline,
+    fills,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Recent order events from the trade_updates stream: ?since=<event id>&symbol=&limit=
+ */
+api.get('/trade-updates', async (c) => {
+  const since = Number(c.req.query('since') || 0);
+  const limit = Number(c.req.query('limit') || 100);
+
+  return c.json({
+    success: true,
+    stream: tradeUpdatesStream?.getStatus() ?? null,
+    bus: tradingEvents.getStatus(),
+    events: tradingEvents.recent({
+      since: since > 0 ? since : 0,
+      symbol: c.req.query('symbol'),
+      limit: limit > 0 ? limit : 100,
+    }),
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Server-Sent Events feed of order events (retained events after Last-Event-ID or ?since= first)
+ */
+api.get('/trade-updates/stream', async (c) => {
+  const bus = tradingEvents;
+  const since = Number(c.req.header('Last-Event-ID') || c.req.query('since') || 0);
+
+  return streamSSE(c, async (stream) => {
+    let closed = false;
+    const queue = bus.recent({ since: since > 0 ? since : 0 });
+    let wake: (() => void) | null = null;
+    const unsubscribe = bus.subscribe(event => {
+      queue.push(event);
+      wake?.();
+    });
+    stream.onAbort(() => {
+      closed = true;
+      unsubscribe();
+      wake?.();
+    });
+
+    while (!closed) {
+      while (queue.length > 0) {
+        const event = queue.shift()!;
+        await stream.writeSSE({ id: String(event.id), event: event.event, data: JSON.stringify(event) });
+      }
+      // Wake on the next event, or after 15s to send a keep-alive
+      const timer = new Promise<boolean>(resolve => {
+        const timeout = setTimeout(() => resolve(true), 15000);
+        wake = () => {
+          clearTimeout(timeout);
+          resolve(false);
+        };
+      });
+      const idle = await timer;
+      wake = null;
+      if (idle && !closed) await stream.writeSSE({ event: 'ping', data: new Date().toISOString() });
+    }
+  });
+});
+
 /**
  * Get risk assessment for current signal
  */
 api.get('/risk-assessment', async (c) => {
-  if (!qppfAlgorithm || !alpacaService || !riskManager) {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!entry || !broker || !riskManager) {
     return c.json({ 
       error: 'Services not fully initialized',
       success: false 
     }, 400);
   }
 
+  const latestSignal = entry.latestSignal;
   if (!latestSignal) {
     return c.json({ 
       error: 'No signal available',
@@ -569,9 +2260,9 @@ api.get('/risk-assessment', async (c) => {
   }
 
   try {
-    const account = await alpacaService.getAccount();
-    const positions = await alpacaService.getPositions();
-    const currentPrice = await alpacaService.getCurrentPrice(latestSignal.marketData.symbol);
+    const account = await broker.getAccount();
+    const positions = await broker.getPositions();
+    const currentPrice = await broker.getCurrentPrice(latestSignal.marketData.symbol);
 
     if (!account || !currentPrice) {
       return c.json({ 
@@ -611,7 +2302,8 @@ api.get('/risk-assessment', async (c) => {
  * Reset algorithm state
  */
 api.post('/reset', async (c) => {
-  if (!qppfAlgorithm) {
+  const entry = resolveAlgorithm(c.req.query('symbol'));
+  if (!algorithms || !entry) {
     return c.json({ 
       error: 'QPPF Algorithm not initialized',
       success: false 
@@ -619,13 +2311,11 @@ api.post('/reset', async (c) => {
   }
 
   try {
-    qppfAlgorithm.reset();
-    latestSignal = null;
-    isRunning = false;
+    algorithms.reset(entry.symbol);
 
     return c.json({
       success: true,
-      message: 'QPPF Algorithm state reset',
+      message: `QPPF Algorithm state reset for ${entry.symbol}`,
       timestamp: new Date().toISOString(),
     });
 
@@ -639,62 +2329,214 @@ api.post('/reset', async (c) => {
 });
 
 /**
- * Start continuous signal generation (demo mode)
+ * Start continuous signal generation for every registered symbol (or ?symbol=)
  */
 api.post('/start', async (c) => {
-  if (!qppfAlgorithm) {
+  if (!algorithms || !supervisor) {
     return c.json({ 
       error: 'QPPF Algorithm not initialized',
       success: false 
     }, 400);
   }
 
-  if (isRunning) {
+  const symbol = c.req.query('symbol');
+  if (symbol && !algorithms.get(symbol)) {
+    return c.json({ 
+      error: `No algorithm registered for ${symbol.toUpperCase()}`,
+      success: false 
+    }, 404);
+  }
+
+  // In production, this would use proper job queuing or WebSocket connections
+  const started = supervisor.start(symbol ? [symbol] : undefined);
+  if (started.length === 0) {
     return c.json({ 
       success: false,
       message: 'Algorithm is already running',
     });
   }
 
-  isRunning = true;
+  return c.json({
+    success: true,
+    message: `QPPF Algorithm started for ${started.join(', ')}`,
+    started,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Stop continuous signal generation for every symbol (or ?symbol=)
+ */
+api.post('/stop', async (c) => {
+  const symbol = c.req.query('symbol');
+  const stopped = supervisor?.stop(symbol ? [symbol] : undefined) || [];
+
+  return c.json({
+    success: true,
+    message: 'QPPF Algorithm stopped',
+    stopped,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Every registered symbol's algorithm with its loop status and latest signal
+ */
+api.get('/algorithms', async (c) => {
+  if (!algorithms) {
+    return c.json({ 
+      error: 'QPPF Algorithm not initialized',
+      success: false 
+    }, 400);
+  }
+
+  const registry = algorithms;
+  return c.json({
+    success: true,
+    defaultSymbol: registry.getDefault()?.symbol || null,
+    algorithms: registry.list().map(entry => registry.getStatus(entry)),
+    timestamp: new Date().toISOString(),
+  });
+});
 
-  // Start background signal generation (simplified for demo)
-  // In production, this would use proper job queuing or WebSocket connections
-  const generateSignals = async () => {
-    while (isRunning && qppfAlgorithm) {
-      try {
-        latestSignal = await qppfAlgorithm.generateSignal();
-        console.log(`New signal: ${latestSignal.direction} (${(latestSignal.confidence * 100).toFixed(1)}%)`);
-        
-        // Wait 30 seconds before next signal
-        await new Promise(resolve => setTimeout(resolve, 30000));
-      } catch (error) {
-        console.error('Error in signal generation loop:', error);
-        // Wait 10 seconds before retry
-        await new Promise(resolve => setTimeout(resolve, 10000));
-      }
+/**
+ * Add (or replace) a symbol's algorithm: { symbol, gexConfig?, factors?, signalIntervalMs?, start? }
+ */
+api.post('/algorithms', async (c) => {
+  if (!algorithms || !supervisor) {
+    return c.json({ 
+      error: 'QPPF Algorithm not initialized',
+      success: false 
+    }, 400);
+  }
+
+  try {
+    const body: SymbolAlgorithmConfig & { symbol?: string; start?: boolean } = await c.req.json();
+    if (!body.symbol || !/^[A-Za-z.]{1,10}$/.test(body.symbol)) {
+      return c.json({ 
+        error: 'symbol is required',
+        success: false 
+      }, 400);
     }
-  };
+    if (body.signalIntervalMs !== undefined && !(body.signalIntervalMs >= 1000)) {
+      return c.json({ 
+        error: 'signalIntervalMs must be at least 1000',
+        success: false 
+      }, 400);
+    }
+
+    const { symbol, start, ...symbolConfig } = body;
+    const entry = addAlgorithm(algorithms, symbol, symbolConfig);
+    if (start) supervisor.start([entry.symbol]);
+
+    return c.json({
+      success: true,
+      algorithm: algorithms.getStatus(entry),
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return c.json({ 
+      error: error instanceof Error ? error.message : 'Failed to add algorithm',
+      success: false 
+    }, 400);
+  }
+});
+
+/**
+ * One symbol's state, statistics, config and latest signal
+ */
+api.get('/algorithms/:symbol', async (c) => {
+  const entry = algorithms?.get(c.req.param('symbol'));
+  if (!algorithms || !entry) {
+    return c.json({ 
+      error: `No algorithm registered for ${c.req.param('symbol').toUpperCase()}`,
+      success: false 
+    }, 404);
+  }
+
+  return c.json({
+    success: true,
+    ...algorithms.getStatus(entry),
+    state: entry.algorithm.getState(),
+    statistics: entry.algorithm.getStatistics(),
+    factors: signalFactors.getSettings(entry.symbol),
+    latestSignal: entry.latestSignal,
+    timestamp: new Date().toISOString(),
+  });
+});
 
-  // Start the signal generation loop (non-blocking)
-  generateSignals().catch(console.error);
+/**
+ * Stop and remove a symbol's algorithm
+ */
+api.delete('/algorithms/:symbol', async (c) => {
+  if (!algorithms?.remove(c.req.param('symbol'))) {
+    return c.json({ 
+      error: `No algorithm registered for ${c.req.param('symbol').toUpperCase()}`,
+      success: false 
+    }, 404);
+  }
+  marketStream?.unsubscribe([c.req.param('symbol')]);
 
   return c.json({
     success: true,
-    message: 'QPPF Algorithm started',
+    symbols: algorithms.getSymbols(),
     timestamp: new Date().toISOString(),
   });
 });
 
 /**
- * Stop continuous signal generation
+ * Generate a single trading signal for one symbol
  */
-api.post('/stop', async (c) => {
-  isRunning = false;
+api.post('/algorithms/:symbol/signal', async (c) => {
+  const entry = algorithms?.get(c.req.param('symbol'));
+  if (algorithms && !entry) {
+    return c.json({ 
+      error: `No algorithm registered for ${c.req.param('symbol').toUpperCase()}`,
+      success: false 
+    }, 404);
+  }
+  return generateSignalResponse(c, entry);
+});
+
+/**
+ * Start or stop one symbol's signal loop
+ */
+api.post('/algorithms/:symbol/:action{start|stop}', async (c) => {
+  const entry = algorithms?.get(c.req.param('symbol'));
+  if (!supervisor || !entry) {
+    return c.json({ 
+      error: `No algorithm registered for ${c.req.param('symbol').toUpperCase()}`,
+      success: false 
+    }, 404);
+  }
+
+  const changed = c.req.param('action') === 'start'
+    ? supervisor.start([entry.symbol])
+    : supervisor.stop([entry.symbol]);
 
   return c.json({
     success: true,
-    message: 'QPPF Algorithm stopped',
+    symbol: entry.symbol,
+    running: entry.running,
+    changed: changed.length > 0,
+    timestamp: new Date().toISOString(),
+  });
+});
+
+/**
+ * Reset one symbol's algorithm state
+ */
+api.post('/algorithms/:symbol/reset', async (c) => {
+  if (!algorithms?.reset(c.req.param('symbol'))) {
+    return c.json({ 
+      error: `No algorithm registered for ${c.req.param('symbol').toUpperCase()}`,
+      success: false 
+    }, 404);
+  }
+
+  return c.json({
+    success: true,
+    message: `QPPF Algorithm state reset for ${c.req.param('symbol').toUpperCase()}`,
     timestamp: new Date().toISOString(),
   });
 });
@@ -814,7 +2656,7 @@ api.get('/scanner/config', async (c) => {
  * Scan entire market and automatically execute trades on best opportunities
  */
 api.post('/scanner/auto-trade', async (c) => {
-  if (!qppfScanner || !alpacaService || !riskManager) {
+  if (!qppfScanner || !broker || !riskManager) {
     return c.json({ 
       error: 'Scanner, Alpaca service, or Risk Manager not initialized',
       success: false 
@@ -829,11 +2671,19 @@ api.post('/scanner/auto-trade', async (c) => {
     console.log(`🚀 Starting auto-trade scan: max ${maxTrades} trades, min ${(minConfidence*100).toFixed(0)}% confidence`);
     
     const result = await qppfScanner.scanAndTrade(
-      alpacaService, 
+      broker, 
       riskManager, 
       maxTrades, 
       minConfidence
     );
+    for (const trade of result.tradesExecuted) {
+      orderManager?.track(trade.tradeResult, {
+        symbol: trade.symbol,
+        side: trade.signal === 'BUY' ? 'buy' : 'sell',
+        qty: trade.quantity,
+        signalPrice: trade.price,
+      });
+    }
 
     return c.json({
       success: true,
@@ -863,7 +2713,7 @@ api.post('/scanner/auto-trade', async (c) => {
  * Get current trading status and positions
  */
 api.get('/scanner/trading-status', async (c) => {
-  if (!alpacaService) {
+  if (!broker) {
     return c.json({ 
       error: 'Alpaca service not initialized',
       success: false 
@@ -871,9 +2721,9 @@ api.get('/scanner/trading-status', async (c) => {
   }
 
   try {
-    const account = await alpacaService.getAccount();
-    const positions = await alpacaService.getPositions();
-    const recentOrders = await alpacaService.getRecentOrders(10);
+    const account = await broker.getAccount();
+    const positions = await broker.getPositions();
+    const recentOrders = await broker.getRecentOrders(10);
     
     if (!account) {
       return c.json({ 
@@ -885,25 +2735,25 @@ api.get('/scanner/trading-status', async (c) => {
     return c.json({
       success: true,
       account: {
-        equity: parseFloat(account.equity),
-        buyingPower: parseFloat(account.buying_power),
-        dayTradeCount: account.daytrade_count,
-        portfolioValue: parseFloat(account.portfolio_value)
+        equity: account.portfolioValue,
+        buyingPower: account.buyingPower,
+        dayTradeCount: account.dayTradeCount,
+        portfolioValue: account.portfolioValue
       },
       positions: positions.map(pos => ({
         symbol: pos.symbol,
-        qty: parseFloat(pos.qty),
+        qty: pos.qty,
         side: pos.side,
-        marketValue: parseFloat(pos.market_value),
-        unrealizedPl: parseFloat(pos.unrealized_pl),
-        unrealizedPlpc: parseFloat(pos.unrealized_plpc)
+        marketValue: pos.marketValue,
+        unrealizedPl: pos.unrealizedPL,
+        unrealizedPlpc: pos.unrealizedPLPC
       })),
       recentTrades: recentOrders?.slice(0, 5).map(order => ({
         symbol: order.symbol,
         side: order.side,
         qty: order.qty,
         status: order.status,
-        submittedAt: order.submitted_at
+        submittedAt: order.submittedAt
       })) || [],
       timestamp: new Date().toISOString(),
     });
@@ -917,6 +2767,40 @@ api.get('/scanner/trading-status', async (c) => {
   }
 });
 
+/**
+ * Replay recorded bars, flow alerts and option chains through the QPPF signal logic
+ */
+api.post('/backtest', async (c) => {
+  try {
+    const body: { dataset?: BacktestDataset; config?: Partial<BacktestConfig> } = await c.req.json();
+    const dataset = body.dataset;
+
+    if (!dataset || !dataset.symbol || !Array.isArray(dataset.bars) || dataset.bars.length < 2) {
+      return c.json({ 
+        error: 'dataset with symbol and at least 2 bars is required',
+        success: false 
+      }, 400);
+    }
+
+    const engine = new BacktestEngine(body.config);
+    const result = await engine.run(dataset);
+
+    return c.json({
+      success: true,
+      result,
+      timestamp: new Date().toISOString(),
+    });
+
+  } catch (error) {
+    console.error('Error running backtest:', error);
+    return c.json({ 
+      error: 'Failed to run backtest',
+      details: error instanceof Error ? error.message : String(error),
+      success: false 
+    }, 500);
+  }
+});
+
 /**
  * Get algorithm configuration and endpoints info
  */
@@ -929,12 +2813,32 @@ api.get('/info', async (c) => {
       // Core QPPF Algorithm
       initialize: 'POST /api/initialize - Initialize algorithm with API keys (now includes Scanner)',
       status: 'GET /api/status - Get current algorithm status',
-      signal: 'POST /api/signal - Generate a single trading signal',
-      'execute-trade': 'POST /api/execute-trade - Simulate trade execution',
+      signal: 'POST /api/signal?timeframe= - Generate a trading signal, with per-timeframe signals and their agreement when a timeframe is given',
+      signals: 'GET /api/signals?symbol=&from=&to=&direction=&limit= - Get journaled signal history',
+      'signal-by-id': 'GET /api/signals/:id - Get one journaled signal with its inputs and outcome',
+      'outcomes-evaluate': 'POST /api/outcomes/evaluate - Measure forward returns, MFE/MAE and target/stop hits for recent signals',
+      'outcomes-summary': 'GET /api/outcomes/summary?symbol=&from=&to=&horizon= - Hit rates by confidence, direction and reason',
+      calibration: 'GET /api/calibration - Get the fitted confidence calibration model',
+      factors: 'GET /api/factors?symbol= - Get directional factors with their effective weights',
+      'factors-configure': 'POST /api/factors - Enable, disable or reweight directional factors globally or per symbol',
+      'calibration-fit': 'POST /api/calibration/fit - Fit isotonic or Platt calibration of confidence to win probability',
+      'calibration-reliability': 'GET /api/calibration/reliability?symbol=&from=&to=&horizon=&bins= - Reliability diagram for raw and calibrated confidence',
+      'execute-trade': 'POST /api/execute-trade - Execute the latest signal on the built-in paper broker',
       'execute-alpaca-trade': 'POST /api/execute-alpaca-trade - Execute real trade via Alpaca',
+      'options-contract': 'GET /api/options/contract?symbol=&timeframe=&strikeSelection=delta|gex-wall&targetDelta= - Option contract, premium and contract count for the latest signal',
+      'execute-option-trade': 'POST /api/execute-option-trade - Buy the selected call/put via the broker options API, sized by premium at risk',
+      'paper-account': 'GET /api/paper/account - Paper broker account, positions, orders and fill statistics',
+      'paper-quotes': 'POST /api/paper/quotes - Replay quotes into the paper broker to fill resting orders',
+      'paper-reset': 'POST /api/paper/reset - Restart the paper broker with its starting cash',
       reset: 'POST /api/reset - Reset algorithm state',
-      start: 'POST /api/start - Start continuous signal generation',
-      stop: 'POST /api/stop - Stop continuous signal generation',
+      start: 'POST /api/start?symbol= - Start continuous signal generation for every symbol (or one)',
+      stop: 'POST /api/stop?symbol= - Stop continuous signal generation',
+      algorithms: 'GET /api/algorithms - List per-symbol algorithms with loop status and latest signal',
+      'algorithms-add': 'POST /api/algorithms - Add or replace a symbol algorithm with its own config',
+      'algorithm-by-symbol': 'GET /api/algorithms/:symbol - Get one symbol\'s state, statistics and latest signal',
+      'algorithms-remove': 'DELETE /api/algorithms/:symbol - Stop and remove a symbol algorithm',
+      'algorithm-signal': 'POST /api/algorithms/:symbol/signal - Generate a signal for one symbol',
+      'algorithm-start-stop': 'POST /api/algorithms/:symbol/start|stop|reset - Control one symbol\'s loop and state',
       
       // QPPF Stock Scanner
       'scanner-scan': 'GET /api/scanner/scan - Run market-wide QPPF scanning for opportunities',
@@ -943,16 +2847,33 @@ api.get('/info', async (c) => {
       'scanner-auto-trade': 'POST /api/scanner/auto-trade - Scan market and automatically execute trades on best opportunities',
       'scanner-trading-status': 'GET /api/scanner/trading-status - Get current account status and positions',
       
+      // Backtesting
+      backtest: 'POST /api/backtest - Replay recorded bars/flow/chains through the signal logic',
+      
       // Unusual Whales Data
       'options-flow': 'GET /api/options-flow/:symbol - Get options flow data',
-      gex: 'GET /api/gex/:symbol - Get Gamma Exposure data',
+      gex: 'GET /api/gex/:symbol?contracts=true&dealerModel=&grid=&atr= - Get GEX/DEX/vanna/charm exposure from the full option chain',
+      'iv-surface': 'GET /api/iv-surface/:symbol - Get the SVI-fitted implied volatility surface',
       'dark-pool': 'GET /api/dark-pool/:symbol - Get Dark Pool data',
       
+      // Market Data
+      'market-calendar': 'GET /api/market/calendar?date=&symbol= - Get session phase, hours and expiration type',
+      'market-data-providers': 'GET /api/market-data/providers - Get provider priority and health',
+      'market-data-priority': 'POST /api/market-data/priority - Reorder market data providers',
+      bars: 'GET /api/bars - Get bar builder status and bar counts per symbol',
+      'bars-by-symbol': 'GET /api/bars/:symbol?timeframe=&limit= - Get built OHLCV+VWAP bars and the forming bar',
+      stream: 'GET /api/stream - Get market data stream status and the latest streamed quotes',
+      'stream-subscribe': 'POST /api/stream - Subscribe or unsubscribe streamed symbols',
+      
       // Alpaca Trading
       'alpaca-account': 'GET /api/alpaca/account - Get Alpaca account information',
       'alpaca-positions': 'GET /api/alpaca/positions - Get current positions',
       'alpaca-orders': 'GET /api/alpaca/orders - Get recent orders',
       'alpaca-close-position': 'POST /api/alpaca/close-position/:symbol - Close position',
+      'orders': 'GET /api/orders?symbol=&state=open|closed&limit= - Tracked orders, fill slippage and positions reconciled from fills',
+      'order-timeline': 'GET /api/orders/:clientOrderId/timeline - State timeline and fills of one order',
+      'trade-updates': 'GET /api/trade-updates?since=&symbol=&limit= - Recent order events from the Alpaca trade_updates stream',
+      'trade-updates-stream': 'GET /api/trade-updates/stream - Server-Sent Events feed of order events',
       
       // Risk Management
       'risk-assessment': 'GET /api/risk-assessment - Get risk assessment for current signal',
@@ -991,8 +2912,8 @@ api.get('/info', async (c) => {
 api.get('/health', async (c) => {
   return c.json({
     status: 'healthy',
-    initialized: qppfAlgorithm !== null,
-    running: isRunning,
+    initialized: algorithms !== null,
+    running: supervisor?.isRunning() ?? false,
     timestamp: new Date().toISOString(),
   });
 });
@@ -0,0 +1,355 @@
+/**
+ * Algorithm Registry and Supervisor
+ * One QPPFAlgorithm per traded symbol with its own state and config, and a supervisor that
+ * runs every active symbol's signal loop concurrently alongside shared periodic tasks
+ */
+
+import { QPPFAlgorithm, QPPFSignal } from './qppf-algorithm';
+import { GEXConfig } from './gex-calculator';
+import { FactorSettings } from './signal-factors';
+import { SignalTimeframe, MultiTimeframeSignal } from './multi-timeframe';
+import { Clock, systemClock } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+
+export interface SymbolAlgorithmConfig {
+  gexConfig?: Partial<GEXConfig>;             // Merged over the shared GEX config
+  factors?: Record<string, FactorSettings>;   // Per-symbol factor overrides
+  signalIntervalMs?: number;                  // Time between signals while running (default 30s)
+}
+
+export interface AlgorithmEntry {
+  symbol: string;
+  algorithm: QPPFAlgorithm;
+  config: SymbolAlgorithmConfig;
+  latestSignal: QPPFSignal | null;
+  running: boolean;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+export interface AlgorithmStatus {
+  symbol: string;
+  running: boolean;
+  config: SymbolAlgorithmConfig;
+  lastError: string | null;
+  latestSignal: {
+    direction: QPPFSignal['direction'];
+    confidence: number;
+    strength: number;
+    isLive: boolean;
+    timestamp: Date;
+  } | null;
+}
+
+export type AlgorithmFactory = (symbol: string, config: SymbolAlgorithmConfig) => QPPFAlgorithm;
+export type SignalListener = (signal: QPPFSignal, entry: AlgorithmEntry) => Promise<void> | void;
+
+const DEFAULT_SIGNAL_INTERVAL_MS = 30000;
+const ERROR_RETRY_MS = 10000;
+const MAX_IDLE_WAIT_MS = 300000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Algorithms keyed by symbol; the first symbol added is the default for single-symbol endpoints
+ */
+export class AlgorithmRegistry {
+  private entries = new Map<string, AlgorithmEntry>();
+  private factory: AlgorithmFactory;
+  private listeners: SignalListener[] = [];
+  private defaultSymbol: string | null = null;
+
+  constructor(factory: AlgorithmFactory) {
+    this.factory = factory;
+  }
+
+  /**
+   * Create (or replace) the algorithm for a symbol; a replaced algorithm's loop stops
+   */
+  add(symbol: string, config: SymbolAlgorithmConfig = {}): AlgorithmEntry {
+    const key = symbol.toUpperCase();
+    const existing = this.entries.get(key);
+    if (existing) existing.running = false;
+
+    const entry: AlgorithmEntry = {
+      symbol: key,
+      algorithm: this.factory(key, config),
+      config,
+      latestSignal: null,
+      running: false,
+      lastError: null,
+      createdAt: new Date(),
+    };
+    this.entries.set(key, entry);
+    if (!this.defaultSymbol) this.defaultSymbol = key;
+    return entry;
+  }
+
+  remove(symbol: string): boolean {
+    const key = symbol.toUpperCase();
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    entry.running = false;
+    this.entries.delete(key);
+    if (this.defaultSymbol === key) {
+      this.defaultSymbol = this.entries.keys().next().value ?? null;
+    }
+    return true;
+  }
+
+  get(symbol: string): AlgorithmEntry | undefined {
+    return this.entries.get(symbol.toUpperCase());
+  }
+
+  getDefault(): AlgorithmEntry | undefined {
+    return this.defaultSymbol ? this.entries.get(this.defaultSymbol) : undefined;
+  }
+
+  list(): AlgorithmEntry[] {
+    return [...this.entries.values()];
+  }
+
+  getSymbols(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Called with every signal generated through the registry (journaling, streaming, ...)
+   */
+  onSignal(listener: SignalListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Generate a signal for one symbol and record it as that symbol's latest
+   */
+  async generateSignal(symbol: string): Promise<QPPFSignal> {
+    const entry = this.get(symbol);
+    if (!entry) {
+      throw new Error(`No algorithm registered for ${symbol.toUpperCase()}`);
+    }
+
+    const signal = await entry.algorithm.generateSignal();
+    await this.record(entry, signal);
+    return signal;
+  }
+
+  /**
+   * Per-timeframe signals for one symbol; the shared tick-level signal is recorded like generateSignal's
+   */
+  async generateTimeframeSignals(symbol: string, timeframes?: SignalTimeframe[]): Promise<MultiTimeframeSignal> {
+    const entry = this.get(symbol);
+    if (!entry) {
+      throw new Error(`No algorithm registered for ${symbol.toUpperCase()}`);
+    }
+
+    const result = await entry.algorithm.generateTimeframeSignals(timeframes);
+    await this.record(entry, result.signal);
+    return result;
+  }
+
+  private async record(entry: AlgorithmEntry, signal: QPPFSignal): Promise<void> {
+    entry.latestSignal = signal;
+    entry.lastError = null;
+
+    for (const listener of this.listeners) {
+      try {
+        await listener(signal, entry);
+      } catch (error) {
+        console.warn(`⚠️ Signal listener failed for ${entry.symbol}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  reset(symbol: string): boolean {
+    const entry = this.get(symbol);
+    if (!entry) return false;
+
+    entry.algorithm.reset();
+    entry.latestSignal = null;
+    entry.running = false;
+    return true;
+  }
+
+  getStatus(entry: AlgorithmEntry): AlgorithmStatus {
+    const signal = entry.latestSignal;
+    return {
+      symbol: entry.symbol,
+      running: entry.running,
+      config: entry.config,
+      lastError: entry.lastError,
+      latestSignal: signal ? {
+        direction: signal.direction,
+        confidence: signal.confidence,
+        strength: signal.strength,
+        isLive: signal.dataQuality.isLive,
+        timestamp: signal.timestamp,
+      } : null,
+    };
+  }
+}
+
+interface PeriodicTask {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+  lastRun: number;
+}
+
+/**
+ * Runs each active symbol's signal loop concurrently (paused outside the regular session)
+ * plus shared periodic tasks on their own loop, whether or not any symbol is running
+ */
+export class AlgorithmSupervisor {
+  private registry: AlgorithmRegistry;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private tasks: PeriodicTask[] = [];
+  private taskLoop: object | null = null;   // Token of the current task loop; null when stopped
+  private signalLoops = new WeakMap<AlgorithmEntry, object>();  // Token of each entry's current signal loop
+
+  constructor(registry: AlgorithmRegistry, clock: Clock = systemClock, calendar: TradingCalendar = tradingCalendar) {
+    this.registry = registry;
+    this.clock = clock;
+    this.calendar = calendar;
+  }
+
+  /**
+   * Work shared by every symbol (outcome evaluation, calibration refits), run at most every intervalMs
+   */
+  addPeriodicTask(name: string, intervalMs: number, run: () => Promise<void>): void {
+    this.tasks.push({ name, intervalMs, run, lastRun: 0 });
+  }
+
+  /**
+   * Start running the periodic tasks; they keep running until stopTasks or shutdown
+   */
+  startTasks(): void {
+    if (this.taskLoop || this.tasks.length === 0) return;
+
+    const loop = {};
+    this.taskLoop = loop;
+    this.runTasks(loop).catch(console.error);
+    console.log(`🔁 Started periodic tasks: ${this.tasks.map(task => task.name).join(', ')}`);
+  }
+
+  stopTasks(): void {
+    if (!this.taskLoop) return;
+    this.taskLoop = null;
+    console.log('⏹️ Stopped periodic tasks');
+  }
+
+  /**
+   * Stop every signal loop and the periodic tasks, before the supervisor is replaced
+   */
+  shutdown(): string[] {
+    this.stopTasks();
+    return this.stop();
+  }
+
+  isRunning(symbol?: string): boolean {
+    if (symbol) return this.registry.get(symbol)?.running ?? false;
+    return this.registry.list().some(entry => entry.running);
+  }
+
+  /**
+   * Start the loops of the given symbols (default: all registered); returns the symbols newly started
+   */
+  start(symbols: string[] = this.registry.getSymbols()): string[] {
+    const started: string[] = [];
+
+    for (const symbol of symbols) {
+      const entry = this.registry.get(symbol);
+      if (!entry || entry.running) continue;
+
+      const loop = {};
+      entry.running = true;
+      this.signalLoops.set(entry, loop);
+      started.push(entry.symbol);
+      this.runLoop(entry, loop).catch(error => {
+        if (this.signalLoops.get(entry) !== loop) return;
+        entry.running = false;
+        this.signalLoops.delete(entry);
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Signal loop for ${entry.symbol} stopped:`, error);
+      });
+    }
+
+    if (started.length > 0) {
+      console.log(`▶️ Started signal loops: ${started.join(', ')}`);
+    }
+    return started;
+  }
+
+  /**
+   * Stop the loops of the given symbols (default: all); returns the symbols that were running
+   */
+  stop(symbols: string[] = this.registry.getSymbols()): string[] {
+    const stopped: string[] = [];
+    for (const symbol of symbols) {
+      const entry = this.registry.get(symbol);
+      if (entry?.running) {
+        entry.running = false;
+        this.signalLoops.delete(entry);
+        stopped.push(entry.symbol);
+      }
+    }
+
+    if (stopped.length > 0) {
+      console.log(`⏹️ Stopped signal loops: ${stopped.join(', ')}`);
+    }
+    return stopped;
+  }
+
+  private isActive(entry: AlgorithmEntry, loop: object): boolean {
+    // A replaced or removed entry's loop ends even though the flag belongs to the old object, and a loop
+    // stopped and restarted while it slept ends because the restart gave the entry a new token
+    return entry.running && this.signalLoops.get(entry) === loop && this.registry.get(entry.symbol) === entry;
+  }
+
+  private async runLoop(entry: AlgorithmEntry, loop: object): Promise<void> {
+    while (this.isActive(entry, loop)) {
+      try {
+        const now = this.clock.now();
+
+        // Pause outside the regular session (weekends, holidays, pre/after-hours)
+        if (!this.calendar.isRegularSession(now)) {
+          const nextOpen = this.calendar.nextRegularOpen(now);
+          console.log(`⏸️ ${entry.symbol}: market closed (${this.calendar.getSessionPhase(now)}) - paused until ${nextOpen.toISOString()}`);
+
+          // Re-check at most every 5 minutes so a stop takes effect promptly
+          await sleep(Math.min(nextOpen.getTime() - now.getTime(), MAX_IDLE_WAIT_MS));
+          continue;
+        }
+
+        const signal = await this.registry.generateSignal(entry.symbol);
+        console.log(`New ${entry.symbol} signal: ${signal.direction} (${(signal.confidence * 100).toFixed(1)}%)`);
+
+        await sleep(entry.config.signalIntervalMs ?? DEFAULT_SIGNAL_INTERVAL_MS);
+      } catch (error) {
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        console.error(`Error in ${entry.symbol} signal loop:`, error);
+        await sleep(ERROR_RETRY_MS);
+      }
+    }
+  }
+
+  private async runTasks(loop: object): Promise<void> {
+    // A stopped or restarted loop ends even though it may still be sleeping
+    while (this.taskLoop === loop) {
+      const now = this.clock.now().getTime();
+      for (const task of this.tasks) {
+        if (this.taskLoop !== loop) return;
+        if (now - task.lastRun < task.intervalMs) continue;
+        task.lastRun = now;
+        try {
+          await task.run();
+        } catch (error) {
+          console.warn(`⚠️ Periodic task ${task.name} failed:`, error instanceof Error ? error.message : error);
+        }
+      }
+      await sleep(Math.min(ERROR_RETRY_MS, ...this.tasks.map(task => task.intervalMs)));
+    }
+  }
+}
@@ -1,589 +0,0 @@
-/**
- * Enhanced Alpaca Trading Service - Production Ready
- * Fully compliant with Alpaca Trading API best practices
- * 
- * Features:
- * - X-Request-ID tracking for debugging
- * - Proper error handling and retry logic
- * - Rate limiting and backpressure
- * - Order idempotency with client-side IDs
- * - Comprehensive logging and audit trail
- * - Risk controls and pre-trade validation
- */
-
-export interface AlpacaCredentials {
-  apiKeyId: string;
-  secretKey: string;
-  paper: boolean;
-}
-
-export interface AlpacaAccount {
-  portfolioValue: number;
-  buyingPower: number;
-  cash: number;
-  dayTradeCount: number;
-  status: string;
-  accountBlocked: boolean;
-  tradingBlocked: boolean;
-  transfersBlocked: boolean;
-  accountNumber: string;
-}
-
-export interface AlpacaPosition {
-  symbol: string;
-  qty: number;
-  avgEntryPrice: number;
-  currentPrice: number;
-  marketValue: number;
-  costBasis: number;
-  unrealizedPL: number;
-  unrealizedPLPC: number;
-  side: 'long' | 'short';
-  changeToday: number;
-}
-
-export interface AlpacaOrder {
-  id: string;
-  clientOrderId: string;
-  symbol: string;
-  side: 'buy' | 'sell';
-  qty: number;
-  orderType: 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
-  orderClass: 'simple' | 'bracket' | 'oco' | 'oto';
-  status: 'new' | 'partially_filled' | 'filled' | 'canceled' | 'expired' | 'rejected' | 'pending_new' | 'pending_cancel' | 'pending_replace';
-  submittedAt: string;
-  filledAt?: string;
-  canceledAt?: string;
-  expiredAt?: string;
-  replacedAt?: string;
-  failedAt?: string;
-  replacedBy?: string;
-  replaces?: string;
-  filledAvgPrice?: number;
-  filledQty: number;
-  failureReason?: string;
-  cancelReason?: string;
-  timeInForce: 'day' | 'gtc' | 'ioc' | 'fok';
-  limitPrice?: number;
-  stopPrice?: number;
-  trailPrice?: number;
-  trailPercent?: number;
-  hwm?: number;
-  legs?: AlpacaOrder[];
-}
-
-export interface TradeSignal {
-  symbol: string;
-  direction: 'long' | 'short';
-  quantity: number;
-  confidence: number;
-  orderType?: 'market' | 'limit' | 'stop' | 'stop_limit';
-  limitPrice?: number;
-  stopPrice?: number;
-  timeInForce?: 'day' | 'gtc' | 'ioc' | 'fok';
-  clientOrderId?: string;
-  stopLoss?: number;
-  takeProfit?: number;
-}
-
-export interface TradeResult {
-  success: boolean;
-  orderId?: string;
-  clientOrderId?: string;
-  message: string;
-  order?: AlpacaOrder;
-  error?: string;
-  requestId?: string;
-  timestamp: string;
-}
-
-export interface ApiResponse<T> {
-  data?: T;
-  error?: string;
-  requestId?: string;
-  status: number;
-  timestamp: string;
-}
-
-export class EnhancedAlpacaTradingService {
-  private credentials: AlpacaCredentials;
-  private baseUrl: string;
-  private requestLog: Map<string, any> = new Map();
-  private rateLimitDelay: number = 100; // Base delay in ms
-  private maxRetries: number = 3;
-  
-  constructor(credentials: AlpacaCredentials) {
-    this.credentials = credentials;
-    // Use correct Alpaca API endpoints
-    this.baseUrl = credentials.paper 
-      ? 'https://paper-api.alpaca.markets' 
-      : 'https://api.alpaca.markets';
-      
-    console.log(`🏦 Alpaca Trading Service initialized (${credentials.paper ? 'Paper' : 'Live'} Trading)`);
-  }
-
-  /**
-   * Generate headers with proper Alpaca authentication
-   */
-  private getHeaders(includeClientOrderId?: string): Record<string, string> {
-    const headers: Record<string, string> = {
-      'APCA-API-KEY-ID': this.credentials.apiKeyId,
-      'APCA-API-SECRET-KEY': this.credentials.secretKey,
-      'Content-Type': 'application/json',
-      'User-Agent': 'QPPF-Algorithm/2.0',
-    };
-
-    if (includeClientOrderId) {
-      headers['Idempotency-Key'] = includeClientOrderId;
-    }
-
-    return headers;
-  }
-
-  /**
-   * Enhanced API call with retry logic and X-Request-ID tracking
-   */
-  private async apiCall<T>(
-    endpoint: string, 
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-    body?: any,
-    clientOrderId?: string
-  ): Promise<ApiResponse<T>> {
-    const url = `${this.baseUrl}${endpoint}`;
-    let lastError: Error | null = null;
-    
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
-      try {
-        // Rate limiting - exponential backoff
-        if (attempt > 1) {
-          const delay = this.rateLimitDelay * Math.pow(2, attempt - 1);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-
-        const response = await fetch(url, {
-          method,
-          headers: this.getHeaders(clientOrderId),
-          body: body ? JSON.stringify(body) : undefined,
-        });
-
-        const requestId = response.headers.get('X-Request-ID');
-        const timestamp = new Date().toISOString();
-        
-        // Log request for debugging (as recommended by Alpaca docs)
-        if (requestId) {
-          this.requestLog.set(requestId, {
-            url,
-            method,
-            status: response.status,
-            timestamp,
-            attempt,
-            body: body ? JSON.stringify(body) : undefined,
-          });
-          
-          // Keep only last 100 requests
-          if (this.requestLog.size > 100) {
-            const firstKey = this.requestLog.keys().next().value;
-            this.requestLog.delete(firstKey);
-          }
-        }
-
-        let data: T | undefined;
-        let errorMessage: string | undefined;
-
-        if (response.ok) {
-          try {
-            data = await response.json();
-          } catch (e) {
-            // Some endpoints return empty responses
-            data = undefined;
-          }
-        } else {
-          try {
-            const errorResponse = await response.json();
-            errorMessage = errorResponse.message || errorResponse.error || `HTTP ${response.status}`;
-          } catch (e) {
-            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
-          }
-
-          // Don't retry on client errors (4xx)
-          if (response.status >= 400 && response.status < 500) {
-            return {
-              data: undefined,
-              error: errorMessage,
-              requestId: requestId || undefined,
-              status: response.status,
-              timestamp,
-            };
-          }
-        }
-
-        return {
-          data,
-          error: errorMessage,
-          requestId: requestId || undefined,
-          status: response.status,
-          timestamp,
-        };
-
-      } catch (error) {
-        lastError = error as Error;
-        console.warn(`🔄 API call attempt ${attempt}/${this.maxRetries} failed:`, error);
-        
-        if (attempt === this.maxRetries) {
-          break;
-        }
-      }
-    }
-
-    return {
-      data: undefined,
-      error: lastError?.message || 'Network error after retries',
-      requestId: undefined,
-      status: 0,
-      timestamp: new Date().toISOString(),
-    };
-  }
-
-  /**
-   * Get account information with enhanced error handling
-   */
-  async getAccount(): Promise<AlpacaAccount | null> {
-    try {
-      const response = await this.apiCall<any>('/v2/account');
-      
-      if (!response.data || response.error) {
-        console.error('❌ Failed to get account:', response.error);
-        return null;
-      }
-
-      const account = response.data;
-      
-      return {
-        portfolioValue: parseFloat(account.portfolio_value || '0'),
-        buyingPower: parseFloat(account.buying_power || '0'),
-        cash: parseFloat(account.cash || '0'),
-        dayTradeCount: parseInt(account.daytrade_count || '0'),
-        status: account.status || 'UNKNOWN',
-        accountBlocked: account.account_blocked || false,
-        tradingBlocked: account.trading_blocked || false,
-        transfersBlocked: account.transfers_blocked || false,
-        accountNumber: account.account_number || '',
-      };
-    } catch (error) {
-      console.error('❌ Error fetching account:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Get current positions with enhanced data
-   */
-  async getPositions(): Promise<AlpacaPosition[]> {
-    try {
-      const response = await this.apiCall<any[]>('/v2/positions');
-      
-      if (!response.data || response.error) {
-        console.error('❌ Failed to get positions:', response.error);
-        return [];
-      }
-
-      return response.data.map(pos => ({
-        symbol: pos.symbol,
-        qty: parseFloat(pos.qty),
-        avgEntryPrice: parseFloat(pos.avg_entry_price || '0'),
-        currentPrice: parseFloat(pos.current_price || '0'),
-        marketValue: parseFloat(pos.market_value || '0'),
-        costBasis: parseFloat(pos.cost_basis || '0'),
-        unrealizedPL: parseFloat(pos.unrealized_pl || '0'),
-        unrealizedPLPC: parseFloat(pos.unrealized_plpc || '0'),
-        side: parseFloat(pos.qty) > 0 ? 'long' : 'short',
-        changeToday: parseFloat(pos.change_today || '0'),
-      }));
-    } catch (error) {
-      console.error('❌ Error fetching positions:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Get recent orders with comprehensive status tracking
-   */
-  async getRecentOrders(limit: number = 50): Promise<AlpacaOrder[]> {
-    try {
-      const response = await this.apiCall<any[]>(`/v2/orders?status=all&limit=${limit}&direction=desc`);
-      
-      if (!response.data || response.error) {
-        console.error('❌ Failed to get orders:', response.error);
-        return [];
-      }
-
-      return response.data.map(order => ({
-        id: order.id,
-        clientOrderId: order.client_order_id,
-        symbol: order.symbol,
-        side: order.side,
-        qty: parseFloat(order.qty),
-        orderType: order.order_type,
-        orderClass: order.order_class || 'simple',
-        status: order.status,
-        submittedAt: order.submitted_at,
-        filledAt: order.filled_at,
-        canceledAt: order.canceled_at,
-        expiredAt: order.expired_at,
-        replacedAt: order.replaced_at,
-        failedAt: order.failed_at,
-        replacedBy: order.replaced_by,
-        replaces: order.replaces,
-        filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-        filledQty: parseFloat(order.filled_qty || '0'),
-        failureReason: order.failure_reason,
-        cancelReason: order.cancel_reason,
-        timeInForce: order.time_in_force || 'day',
-        limitPrice: order.limit_price ? parseFloat(order.limit_price) : undefined,
-        stopPrice: order.stop_price ? parseFloat(order.stop_price) : undefined,
-        trailPrice: order.trail_price ? parseFloat(order.trail_price) : undefined,
-        trailPercent: order.trail_percent ? parseFloat(order.trail_percent) : undefined,
-        hwm: order.hwm ? parseFloat(order.hwm) : undefined,
-      }));
-    } catch (error) {
-      console.error('❌ Error fetching orders:', error);
-      return [];
-    }
-  }
-
-  /**
-   * Execute trade with enhanced order management and risk controls
-   */
-  async executeTrade(signal: TradeSignal): Promise<TradeResult> {
-    const timestamp = new Date().toISOString();
-    const clientOrderId = signal.clientOrderId || `qppf-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
-    
-    try {
-      // Pre-trade validation
-      const account = await this.getAccount();
-      if (!account) {
-        return {
-          success: false,
-          error: 'Unable to fetch account information',
-          message: 'Pre-trade validation failed',
-          timestamp,
-        };
-      }
-
-      if (account.tradingBlocked) {
-        return {
-          success: false,
-          error: 'Trading is blocked on this account',
-          message: 'Cannot execute trade - account restrictions',
-          timestamp,
-        };
-      }
-
-      // Calculate order value and validate buying power
-      const estimatedOrderValue = signal.quantity * (signal.limitPrice || 0);
-      if (signal.direction === 'long' && estimatedOrderValue > account.buyingPower) {
-        return {
-          success: false,
-          error: 'Insufficient buying power',
-          message: `Required: $${estimatedOrderValue.toFixed(2)}, Available: $${account.buyingPower.toFixed(2)}`,
-          timestamp,
-        };
-      }
-
-      // Build order request
-      const orderRequest: any = {
-        symbol: signal.symbol.toUpperCase(),
-        qty: signal.quantity.toString(),
-        side: signal.direction === 'long' ? 'buy' : 'sell',
-        type: signal.orderType || 'market',
-        time_in_force: signal.timeInForce || 'day',
-        client_order_id: clientOrderId,
-      };
-
-      if (signal.limitPrice && (signal.orderType === 'limit' || signal.orderType === 'stop_limit')) {
-        orderRequest.limit_price = signal.limitPrice.toString();
-      }
-
-      if (signal.stopPrice && (signal.orderType === 'stop' || signal.orderType === 'stop_limit')) {
-        orderRequest.stop_price = signal.stopPrice.toString();
-      }
-
-      // Add bracket orders for risk management
-      if (signal.stopLoss || signal.takeProfit) {
-        orderRequest.order_class = 'bracket';
-        
-        if (signal.stopLoss) {
-          orderRequest.stop_loss = {
-            stop_price: signal.stopLoss.toString(),
-          };
-        }
-        
-        if (signal.takeProfit) {
-          orderRequest.take_profit = {
-            limit_price: signal.takeProfit.toString(),
-          };
-        }
-      }
-
-      console.log(`📤 Submitting ${signal.direction.toUpperCase()} order for ${signal.quantity} ${signal.symbol}`);
-      
-      const response = await this.apiCall<any>('/v2/orders', 'POST', orderRequest, clientOrderId);
-
-      if (response.data && !response.error) {
-        const order = response.data;
-        
-        console.log(`✅ Order submitted successfully: ${order.id} (Client ID: ${clientOrderId})`);
-        
-        return {
-          success: true,
-          orderId: order.id,
-          clientOrderId,
-          message: `Order submitted: ${signal.direction.toUpperCase()} ${signal.quantity} ${signal.symbol}`,
-          order: {
-            id: order.id,
-            clientOrderId,
-            symbol: order.symbol,
-            side: order.side,
-            qty: parseFloat(order.qty),
-            orderType: order.type,
-            orderClass: order.order_class || 'simple',
-            status: order.status,
-            submittedAt: order.submitted_at,
-            filledAt: order.filled_at,
-            filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-            filledQty: parseFloat(order.filled_qty || '0'),
-            timeInForce: order.time_in_force,
-            limitPrice: order.limit_price ? parseFloat(order.limit_price) : undefined,
-            stopPrice: order.stop_price ? parseFloat(order.stop_price) : undefined,
-          },
-          requestId: response.requestId,
-          timestamp,
-        };
-      } else {
-        console.error(`❌ Order submission failed:`, response.error);
-        
-        return {
-          success: false,
-          clientOrderId,
-          error: response.error || 'Unknown order submission error',
-          message: 'Order submission failed',
-          requestId: response.requestId,
-          timestamp,
-        };
-      }
-
-    } catch (error) {
-      console.error('❌ Error executing trade:', error);
-      
-      return {
-        success: false,
-        clientOrderId,
-        error: error instanceof Error ? error.message : 'Unknown execution error',
-        message: 'Trade execution failed',
-        timestamp,
-      };
-    }
-  }
-
-  /**
-   * Get current market price for a symbol using Alpaca Market Data API
-   */
-  async getCurrentPrice(symbol: string): Promise<number | null> {
-    try {
-      // Use Alpaca Market Data API directly (different from trading API)
-      const response = await fetch(`https://data.alpaca.markets/v2/stocks/${symbol.toUpperCase()}/quotes/latest`, {
-        headers: {
-          'Apca-Api-Key-Id': this.credentials.apiKeyId,
-          'Apca-Api-Secret-Key': this.credentials.secretKey,
-        }
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        const quote = data.quote;
-        
-        if (quote && quote.bp && quote.ap) {
-          // Use bid (bp) and ask (ap) prices
-          const price = (parseFloat(quote.bp) + parseFloat(quote.ap)) / 2;
-          console.log(`✅ Alpaca market price for ${symbol}: $${price.toFixed(2)} (bid: ${quote.bp}, ask: ${quote.ap})`);
-          return price;
-        }
-      } else {
-        console.error(`Alpaca market data API error: ${response.status} ${response.statusText}`);
-      }
-      
-      return null;
-    } catch (error) {
-      console.error('❌ Error fetching current price:', error);
-      return null;
-    }
-  }
-
-  /**
-   * Close position with market order
-   */
-  async closePosition(symbol: string): Promise<TradeResult> {
-    try {
-      const positions = await this.getPositions();
-      const position = positions.find(pos => pos.symbol === symbol.toUpperCase());
-      
-      if (!position) {
-        return {
-          success: false,
-          error: 'Position not found',
-          message: `No position found for ${symbol}`,
-          timestamp: new Date().toISOString(),
-        };
-      }
-
-      const closeSignal: TradeSignal = {
-        symbol: symbol.toUpperCase(),
-        direction: position.side === 'long' ? 'short' : 'long',
-        quantity: Math.abs(position.qty),
-        confidence: 1.0,
-        orderType: 'market',
-        clientOrderId: `close-${symbol}-${Date.now()}`,
-      };
-
-      return await this.executeTrade(closeSignal);
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        message: 'Failed to close position',
-        timestamp: new Date().toISOString(),
-      };
-    }
-  }
-
-  /**
-   * Get recent X-Request-IDs for support debugging
-   */
-  getRecentRequestIds(count: number = 10): string[] {
-    return Array.from(this.requestLog.entries())
-      .slice(-count)
-      .map(([requestId, _]) => requestId);
-  }
-
-  /**
-   * Get detailed request log for debugging
-   */
-  getRequestLog(requestId: string): any {
-    return this.requestLog.get(requestId);
-  }
-
-  /**
-   * Health check - verify API connectivity
-   */
-  async healthCheck(): Promise<boolean> {
-    try {
-      const account = await this.getAccount();
-      return account !== null;
-    } catch (error) {
-      console.error('❌ Health check failed:', error);
-      return false;
-    }
-  }
-}
-
-export { EnhancedAlpacaTradingService as AlpacaTradingService };
\ No newline at end of file
@@ -1,437 +1,731 @@
 /**
- * Alpaca Trading Service - Enhanced for Production
- * Fully compliant with Alpaca Trading API best practices
- * Includes proper authentication, error handling, and X-Request-ID tracking
+ * Alpaca Trading Service - Production Ready
+ * The Alpaca BrokerAdapter: fully compliant with Alpaca Trading API best practices
+ * 
+ * Features:
+ * - X-Request-ID tracking for debugging
+ * - Proper error handling and retry logic
+ * - Rate limiting and backpressure
+ * - Order idempotency with client-side IDs
+ * - Comprehensive logging and audit trail
+ * - Risk controls and pre-trade validation
  */
 
+import { BrokerAdapter, BrokerAccount, BrokerPosition, BrokerOrder, TradeSignal, TradeResult, OptionTradeSignal } from './broker-adapter';
+import { MarketQuote } from './market-data-provider';
+import { parseOccSymbol } from './option-chain-source';
+
 export interface AlpacaCredentials {
-  apiKey: string;
+  apiKeyId: string;
   secretKey: string;
   paper: boolean;
 }
 
-export interface AlpacaAccount {
-  portfolioValue: number;
-  buyingPower: number;
-  cash: number;
-  dayTradeCount: number;
-  status: string;
-}
-
-export interface AlpacaPosition {
-  symbol: string;
-  qty: number;
-  avgEntryPrice: number;
-  currentPrice: number;
-  unrealizedPL: number;
-  unrealizedPLPC: number;
-  side: 'long' | 'short';
-}
-
-export interface AlpacaOrder {
-  orderId: string;
-  symbol: string;
-  side: 'buy' | 'sell';
-  quantity: number;
-  orderType: 'market' | 'limit';
-  status: string;
-  submittedAt: string;
-  filledAt?: string;
-  filledAvgPrice?: number;
-  filledQty: number;
+export interface ApiResponse<T> {
+  data?: T;
+  error?: string;
+  requestId?: string;
+  status: number;
+  timestamp: string;
 }
 
-export interface TradeSignal {
-  symbol: string;
-  direction: 'long' | 'short';
-  quantity: number;
-  confidence: number;
-  orderType?: 'market' | 'limit';
-  limitPrice?: number;
+/**
+ * Map an Alpaca order payload (REST response or trade_updates event) to a BrokerOrder
+ */
+export function parseAlpacaOrder(order: any): BrokerOrder {
+  return {
+    id: order.id,
+    clientOrderId: order.client_order_id,
+    symbol: order.symbol,
+    side: order.side,
+    qty: parseFloat(order.qty),
+    orderType: order.order_type || order.type,
+    orderClass: order.order_class || 'simple',
+    status: order.status,
+    submittedAt: order.submitted_at,
+    filledAt: order.filled_at || undefined,
+    canceledAt: order.canceled_at || undefined,
+    expiredAt: order.expired_at || undefined,
+    replacedAt: order.replaced_at || undefined,
+    failedAt: order.failed_at || undefined,
+    replacedBy: order.replaced_by || undefined,
+    replaces: order.replaces || undefined,
+    filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
+    filledQty: parseFloat(order.filled_qty || '0'),
+    failureReason: order.failure_reason,
+    cancelReason: order.cancel_reason,
+    timeInForce: order.time_in_force || 'day',
+    limitPrice: order.limit_price ? parseFloat(order.limit_price) : undefined,
+    stopPrice: order.stop_price ? parseFloat(order.stop_price) : undefined,
+    trailPrice: order.trail_price ? parseFloat(order.trail_price) : undefined,
+    trailPercent: order.trail_percent ? parseFloat(order.trail_percent) : undefined,
+    hwm: order.hwm ? parseFloat(order.hwm) : undefined,
+    legs: Array.isArray(order.legs) ? order.legs.map(parseAlpacaOrder) : undefined,
+    assetClass: order.asset_class || undefined,
+    positionIntent: order.position_intent || undefined,
+  };
 }
 
-export interface TradeResult {
-  success: boolean;
-  orderId?: string;
-  message: string;
-  order?: AlpacaOrder;
-  error?: string;
+/**
+ * Map an Alpaca position payload to a BrokerPosition
+ */
+export function parseAlpacaPosition(pos: any): BrokerPosition {
+  return {
+    symbol: pos.symbol,
+    qty: parseFloat(pos.qty),
+    avgEntryPrice: parseFloat(pos.avg_entry_price || '0'),
+    currentPrice: parseFloat(pos.current_price || '0'),
+    marketValue: parseFloat(pos.market_value || '0'),
+    costBasis: parseFloat(pos.cost_basis || '0'),
+    unrealizedPL: parseFloat(pos.unrealized_pl || '0'),
+    unrealizedPLPC: parseFloat(pos.unrealized_plpc || '0'),
+    side: parseFloat(pos.qty) > 0 ? 'long' : 'short',
+    changeToday: parseFloat(pos.change_today || '0'),
+  };
 }
 
-export class AlpacaTradingService {
+export class AlpacaTradingService implements BrokerAdapter {
+  readonly name = 'alpaca';
+  readonly paper: boolean;
   private credentials: AlpacaCredentials;
   private baseUrl: string;
-
+  private requestLog: Map<string, any> = new Map();
+  private rateLimitDelay: number = 100; // Base delay in ms
+  private maxRetries: number = 3;
+  
   constructor(credentials: AlpacaCredentials) {
     this.credentials = credentials;
+    this.paper = credentials.paper;
+    // Use correct Alpaca API endpoints
     this.baseUrl = credentials.paper 
       ? 'https://paper-api.alpaca.markets' 
       : 'https://api.alpaca.markets';
+      
+    console.log(`🏦 Alpaca Trading Service initialized (${credentials.paper ? 'Paper' : 'Live'} Trading)`);
   }
 
-  private getHeaders(): Record<string, string> {
-    return {
-      'APCA-API-KEY-ID': this.credentials.apiKey,
+  /**
+   * Generate headers with proper Alpaca authentication
+   */
+  private getHeaders(includeClientOrderId?: string): Record<string, string> {
+    const headers: Record<string, string> = {
+      'APCA-API-KEY-ID': this.credentials.apiKeyId,
       'APCA-API-SECRET-KEY': this.credentials.secretKey,
       'Content-Type': 'application/json',
+      'User-Agent': 'QPPF-Algorithm/2.0',
     };
+
+    if (includeClientOrderId) {
+      headers['Idempotency-Key'] = includeClientOrderId;
+    }
+
+    return headers;
   }
 
   /**
-   * Get account information
+   * Enhanced API call with retry logic and X-Request-ID tracking
    */
-  async getAccount(): Promise<AlpacaAccount | null> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v2/account`, {
-        headers: this.getHeaders(),
-      });
+  private async apiCall<T>(
+    endpoint: string, 
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
+    body?: any,
+    clientOrderId?: string
+  ): Promise<ApiResponse<T>> {
+    const url = `${this.baseUrl}${endpoint}`;
+    let lastError: Error | null = null;
+    
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      try {
+        // Rate limiting - exponential backoff
+        if (attempt > 1) {
+          const delay = this.rateLimitDelay * Math.pow(2, attempt - 1);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const response = await fetch(url, {
+          method,
+          headers: this.getHeaders(clientOrderId),
+          body: body ? JSON.stringify(body) : undefined,
+        });
+
+        const requestId = response.headers.get('X-Request-ID');
+        const timestamp = new Date().toISOString();
+        
+        // Log request for debugging (as recommended by Alpaca docs)
+        if (requestId) {
+          this.requestLog.set(requestId, {
+            url,
+            method,
+            status: response.status,
+            timestamp,
+            attempt,
+            body: body ? JSON.stringify(body) : undefined,
+          });
+          
+          // Keep only last 100 requests
+          if (this.requestLog.size > 100) {
+            const firstKey = this.requestLog.keys().next().value;
+            this.requestLog.delete(firstKey);
+          }
+        }
+
+        let data: T | undefined;
+        let errorMessage: string | undefined;
+
+        if (response.ok) {
+          try {
+            data = await response.json();
+          } catch (e) {
+            // Some endpoints return empty responses
+            data = undefined;
+          }
+        } else {
+          try {
+            const errorResponse = await response.json();
+            errorMessage = errorResponse.message || errorResponse.error || `HTTP ${response.status}`;
+          } catch (e) {
+            errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+          }
+
+          // Don't retry on client errors (4xx)
+          if (response.status >= 400 && response.status < 500) {
+            return {
+              data: undefined,
+              error: errorMessage,
+              requestId: requestId || undefined,
+              status: response.status,
+              timestamp,
+            };
+          }
+        }
+
+        return {
+          data,
+          error: errorMessage,
+          requestId: requestId || undefined,
+          status: response.status,
+          timestamp,
+        };
+
+      } catch (error) {
+        lastError = error as Error;
+        console.warn(`🔄 API call attempt ${attempt}/${this.maxRetries} failed:`, error);
+        
+        if (attempt === this.maxRetries) {
+          break;
+        }
       }
+    }
 
-      const account = await response.json();
+    return {
+      data: undefined,
+      error: lastError?.message || 'Network error after retries',
+      requestId: undefined,
+      status: 0,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Get account information with enhanced error handling
+   */
+  async getAccount(): Promise<BrokerAccount | null> {
+    try {
+      const response = await this.apiCall<any>('/v2/account');
+      
+      if (!response.data || response.error) {
+        console.error('❌ Failed to get account:', response.error);
+        return null;
+      }
+
+      const account = response.data;
       
       return {
-        portfolioValue: parseFloat(account.portfolio_value),
-        buyingPower: parseFloat(account.buying_power),
-        cash: parseFloat(account.cash),
-        dayTradeCount: parseInt(account.day_trade_count),
-        status: account.status,
+        portfolioValue: parseFloat(account.portfolio_value || '0'),
+        buyingPower: parseFloat(account.buying_power || '0'),
+        cash: parseFloat(account.cash || '0'),
+        dayTradeCount: parseInt(account.daytrade_count || '0'),
+        status: account.status || 'UNKNOWN',
+        accountBlocked: account.account_blocked || false,
+        tradingBlocked: account.trading_blocked || false,
+        transfersBlocked: account.transfers_blocked || false,
+        accountNumber: account.account_number || '',
       };
     } catch (error) {
-      console.error('Error fetching account:', error);
+      console.error('❌ Error fetching account:', error);
       return null;
     }
   }
 
   /**
-   * Get current positions
+   * Get current positions with enhanced data
    */
-  async getPositions(): Promise<AlpacaPosition[]> {
+  async getPositions(): Promise<BrokerPosition[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/v2/positions`, {
-        headers: this.getHeaders(),
-      });
+      const response = await this.apiCall<any[]>('/v2/positions');
+      
+      if (!response.data || response.error) {
+        console.error('❌ Failed to get positions:', response.error);
+        return [];
+      }
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      return response.data.map(parseAlpacaPosition);
+    } catch (error) {
+      console.error('❌ Error fetching positions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the open position in one symbol (null when flat)
+   */
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    try {
+      const response = await this.apiCall<any>(`/v2/positions/${encodeURIComponent(symbol.toUpperCase())}`);
+
+      if (response.status === 404) return null;
+      if (!response.data || response.error) {
+        console.error(`❌ Failed to get position for ${symbol}:`, response.error);
+        return null;
       }
 
-      const positions = await response.json();
+      return parseAlpacaPosition(response.data);
+    } catch (error) {
+      console.error(`❌ Error fetching position for ${symbol}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Buying power available for position sizing (0 when the account cannot be read)
+   */
+  async getBuyingPower(): Promise<number> {
+    const account = await this.getAccount();
+    return account?.buyingPower || 0;
+  }
+
+  /**
+   * Get recent orders with comprehensive status tracking
+   */
+  async getRecentOrders(limit: number = 50): Promise<BrokerOrder[]> {
+    try {
+      const response = await this.apiCall<any[]>(`/v2/orders?status=all&limit=${limit}&direction=desc`);
       
-      return positions.map((pos: any): AlpacaPosition => ({
-        symbol: pos.symbol,
-        qty: parseInt(pos.qty),
-        avgEntryPrice: parseFloat(pos.avg_entry_price),
-        currentPrice: parseFloat(pos.current_price),
-        unrealizedPL: parseFloat(pos.unrealized_pl),
-        unrealizedPLPC: parseFloat(pos.unrealized_plpc),
-        side: parseInt(pos.qty) > 0 ? 'long' : 'short',
-      }));
+      if (!response.data || response.error) {
+        console.error('❌ Failed to get orders:', response.error);
+        return [];
+      }
+
+      return response.data.map(parseAlpacaOrder);
     } catch (error) {
-      console.error('Error fetching positions:', error);
+      console.error('❌ Error fetching orders:', error);
       return [];
     }
   }
 
   /**
-   * Get specific position for a symbol
+   * Look up one order by its Alpaca order ID
    */
-  async getPosition(symbol: string): Promise<AlpacaPosition | null> {
+  async getOrder(orderId: string): Promise<BrokerOrder | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/v2/positions/${symbol}`, {
-        headers: this.getHeaders(),
-      });
+      const response = await this.apiCall<any>(`/v2/orders/${encodeURIComponent(orderId)}`);
 
-      if (!response.ok) {
-        if (response.status === 404) {
-          return null; // No position exists
-        }
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (!response.data || response.error) {
+        if (response.status !== 404) console.error(`❌ Failed to get order ${orderId}:`, response.error);
+        return null;
       }
 
-      const pos = await response.json();
-      
-      return {
-        symbol: pos.symbol,
-        qty: parseInt(pos.qty),
-        avgEntryPrice: parseFloat(pos.avg_entry_price),
-        currentPrice: parseFloat(pos.current_price),
-        unrealizedPL: parseFloat(pos.unrealized_pl),
-        unrealizedPLPC: parseFloat(pos.unrealized_plpc),
-        side: parseInt(pos.qty) > 0 ? 'long' : 'short',
-      };
+      return parseAlpacaOrder(response.data);
     } catch (error) {
-      console.error(`Error fetching position for ${symbol}:`, error);
+      console.error(`❌ Error fetching order ${orderId}:`, error);
       return null;
     }
   }
 
   /**
-   * Execute a trade based on QPPF signal
+   * Look up one order by the client order ID it was submitted with (null when Alpaca doesn't know it)
+   */
+  async getOrderByClientOrderId(clientOrderId: string): Promise<BrokerOrder | null> {
+    const response = await this.apiCall<any>(
+      `/v2/orders:by_client_order_id?client_order_id=${encodeURIComponent(clientOrderId)}`
+    );
+
+    if (response.status === 404) return null;
+    if (!response.data || response.error) {
+      throw new Error(response.error || `Order lookup failed (HTTP ${response.status})`);
+    }
+    return parseAlpacaOrder(response.data);
+  }
+
+  /**
+   * Execute trade with enhanced order management and risk controls
    */
   async executeTrade(signal: TradeSignal): Promise<TradeResult> {
+    const timestamp = new Date().toISOString();
+    const clientOrderId = signal.clientOrderId || `qppf-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    
     try {
-      // Check if we need to close existing position first
-      const currentPosition = await this.getPosition(signal.symbol);
-      
-      // If we have an opposite position, close it first
-      if (currentPosition && 
-          ((currentPosition.side === 'long' && signal.direction === 'short') ||
-           (currentPosition.side === 'short' && signal.direction === 'long'))) {
-        
-        await this.closePosition(signal.symbol);
-        // Wait a moment for the close to process
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      // Pre-trade validation
+      const account = await this.getAccount();
+      if (!account) {
+        return {
+          success: false,
+          error: 'Unable to fetch account information',
+          message: 'Pre-trade validation failed',
+          timestamp,
+        };
       }
 
-      // Determine order side
-      const side = signal.direction === 'long' ? 'buy' : 'sell';
+      if (account.tradingBlocked) {
+        return {
+          success: false,
+          error: 'Trading is blocked on this account',
+          message: 'Cannot execute trade - account restrictions',
+          timestamp,
+        };
+      }
 
-      // Create order payload
-      const orderPayload = {
-        symbol: signal.symbol,
+      // Calculate order value and validate buying power
+      const estimatedOrderValue = signal.quantity * (signal.limitPrice || 0);
+      if (signal.direction === 'long' && estimatedOrderValue > account.buyingPower) {
+        return {
+          success: false,
+          error: 'Insufficient buying power',
+          message: `Required: $${estimatedOrderValue.toFixed(2)}, Available: $${account.buyingPower.toFixed(2)}`,
+          timestamp,
+        };
+      }
+
+      // Build order request
+      const orderRequest: any = {
+        symbol: signal.symbol.toUpperCase(),
         qty: signal.quantity.toString(),
-        side: side,
+        side: signal.direction === 'long' ? 'buy' : 'sell',
         type: signal.orderType || 'market',
-        time_in_force: 'day',
-        ...(signal.orderType === 'limit' && signal.limitPrice ? { limit_price: signal.limitPrice.toString() } : {})
+        time_in_force: signal.timeInForce || 'day',
+        client_order_id: clientOrderId,
       };
 
-      console.log(`Submitting ${side} order for ${signal.quantity} shares of ${signal.symbol}`);
+      if (signal.limitPrice && (signal.orderType === 'limit' || signal.orderType === 'stop_limit')) {
+        orderRequest.limit_price = signal.limitPrice.toString();
+      }
 
-      const response = await fetch(`${this.baseUrl}/v2/orders`, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(orderPayload),
-      });
+      if (signal.stopPrice && (signal.orderType === 'stop' || signal.orderType === 'stop_limit')) {
+        orderRequest.stop_price = signal.stopPrice.toString();
+      }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Order submission failed: ${error}`);
+      // Add bracket orders for risk management
+      if (signal.stopLoss || signal.takeProfit) {
+        orderRequest.order_class = 'bracket';
+        
+        if (signal.stopLoss) {
+          orderRequest.stop_loss = {
+            stop_price: signal.stopLoss.toString(),
+          };
+        }
+        
+        if (signal.takeProfit) {
+          orderRequest.take_profit = {
+            limit_price: signal.takeProfit.toString(),
+          };
+        }
       }
 
-      const order = await response.json();
+      console.log(`📤 Submitting ${signal.direction.toUpperCase()} order for ${signal.quantity} ${signal.symbol}`);
+      
+      const response = await this.apiCall<any>('/v2/orders', 'POST', orderRequest, clientOrderId);
 
-      const result: TradeResult = {
-        success: true,
-        orderId: order.id,
-        message: `${side.toUpperCase()} order submitted for ${signal.quantity} shares of ${signal.symbol}`,
-        order: {
+      if (response.data && !response.error) {
+        const order = response.data;
+        
+        console.log(`✅ Order submitted successfully: ${order.id} (Client ID: ${clientOrderId})`);
+        
+        return {
+          success: true,
           orderId: order.id,
-          symbol: order.symbol,
-          side: order.side,
-          quantity: parseInt(order.qty),
-          orderType: order.type,
-          status: order.status,
-          submittedAt: order.submitted_at,
-          filledAt: order.filled_at,
-          filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-          filledQty: order.filled_qty ? parseInt(order.filled_qty) : 0,
-        }
-      };
-
-      console.log('Trade executed successfully:', result);
-      return result;
+          clientOrderId,
+          message: `Order submitted: ${signal.direction.toUpperCase()} ${signal.quantity} ${signal.symbol}`,
+          order: parseAlpacaOrder({ ...order, client_order_id: clientOrderId }),
+          requestId: response.requestId,
+          timestamp,
+        };
+      } else {
+        console.error(`❌ Order submission failed:`, response.error);
+        
+        return {
+          success: false,
+          clientOrderId,
+          error: response.error || 'Unknown order submission error',
+          message: 'Order submission failed',
+          requestId: response.requestId,
+          timestamp,
+        };
+      }
 
     } catch (error) {
-      console.error('Trade execution failed:', error);
+      console.error('❌ Error executing trade:', error);
+      
       return {
         success: false,
+        clientOrderId,
+        error: error instanceof Error ? error.message : 'Unknown execution error',
         message: 'Trade execution failed',
-        error: error instanceof Error ? error.message : 'Unknown error',
+        timestamp,
       };
     }
   }
 
   /**
-   * Close position for a symbol
+   * Submit a single-leg option order through Alpaca's options API (day orders only; no brackets)
    */
-  async closePosition(symbol: string): Promise<TradeResult> {
-    try {
-      const response = await fetch(`${this.baseUrl}/v2/positions/${symbol}`, {
-        method: 'DELETE',
-        headers: this.getHeaders(),
-      });
+  async executeOptionTrade(signal: OptionTradeSignal): Promise<TradeResult> {
+    const timestamp = new Date().toISOString();
+    const clientOrderId = signal.clientOrderId || `qppf-opt-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const contractSymbol = signal.contractSymbol.replace(/\s+/g, '').toUpperCase();
+    const orderType = signal.orderType || 'market';
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Position close failed: ${error}`);
-      }
+    if (!parseOccSymbol(contractSymbol)) {
+      return {
+        success: false,
+        clientOrderId,
+        error: `Invalid OCC option symbol: ${signal.contractSymbol}`,
+        message: 'Pre-trade validation failed',
+        timestamp,
+      };
+    }
 
-      const order = await response.json();
+    if (!Number.isInteger(signal.quantity) || signal.quantity < 1) {
+      return {
+        success: false,
+        clientOrderId,
+        error: 'Option orders need a whole number of contracts',
+        message: 'Pre-trade validation failed',
+        timestamp,
+      };
+    }
 
+    if (orderType === 'limit' && !(signal.limitPrice && signal.limitPrice > 0)) {
       return {
-        success: true,
-        orderId: order.id,
-        message: `Position closed for ${symbol}`,
-        order: {
+        success: false,
+        clientOrderId,
+        error: 'limitPrice is required for limit option orders',
+        message: 'Pre-trade validation failed',
+        timestamp,
+      };
+    }
+
+    const orderRequest: any = {
+      symbol: contractSymbol,
+      qty: signal.quantity.toString(),
+      side: signal.side,
+      type: orderType,
+      time_in_force: 'day',
+      client_order_id: clientOrderId,
+      position_intent: signal.positionIntent || (signal.side === 'buy' ? 'buy_to_open' : 'sell_to_open'),
+    };
+    if (orderType === 'limit') {
+      orderRequest.limit_price = signal.limitPrice!.toFixed(2);
+    }
+
+    try {
+      console.log(`📤 Submitting option ${signal.side.toUpperCase()} order for ${signal.quantity} ${contractSymbol} (${orderRequest.position_intent})`);
+
+      const response = await this.apiCall<any>('/v2/orders', 'POST', orderRequest, clientOrderId);
+
+      if (response.data && !response.error) {
+        const order = response.data;
+        console.log(`✅ Option order submitted successfully: ${order.id} (Client ID: ${clientOrderId})`);
+
+        return {
+          success: true,
           orderId: order.id,
-          symbol: order.symbol,
-          side: order.side,
-          quantity: parseInt(order.qty),
-          orderType: order.type,
-          status: order.status,
-          submittedAt: order.submitted_at,
-          filledAt: order.filled_at,
-          filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-          filledQty: order.filled_qty ? parseInt(order.filled_qty) : 0,
-        }
+          clientOrderId,
+          message: `Option order submitted: ${signal.side.toUpperCase()} ${signal.quantity} ${contractSymbol}`,
+          order: parseAlpacaOrder({ ...order, client_order_id: clientOrderId }),
+          requestId: response.requestId,
+          timestamp,
+        };
+      }
+
+      console.error(`❌ Option order submission failed:`, response.error);
+      return {
+        success: false,
+        clientOrderId,
+        error: response.error || 'Unknown order submission error',
+        message: 'Option order submission failed',
+        requestId: response.requestId,
+        timestamp,
       };
 
     } catch (error) {
-      console.error(`Failed to close position for ${symbol}:`, error);
+      console.error('❌ Error executing option trade:', error);
+
       return {
         success: false,
-        message: `Failed to close position for ${symbol}`,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        clientOrderId,
+        error: error instanceof Error ? error.message : 'Unknown execution error',
+        message: 'Option trade execution failed',
+        timestamp,
       };
     }
   }
 
   /**
-   * Get order status
+   * Latest bid/ask of an option contract (premium per share) from Alpaca's options market data
    */
-  async getOrder(orderId: string): Promise<AlpacaOrder | null> {
+  async getOptionQuote(contractSymbol: string): Promise<MarketQuote | null> {
+    const symbol = contractSymbol.replace(/\s+/g, '').toUpperCase();
     try {
-      const response = await fetch(`${this.baseUrl}/v2/orders/${orderId}`, {
-        headers: this.getHeaders(),
+      const params = new URLSearchParams({ symbols: symbol, feed: 'indicative' });
+      const response = await fetch(`https://data.alpaca.markets/v1beta1/options/quotes/latest?${params}`, {
+        headers: {
+          'Apca-Api-Key-Id': this.credentials.apiKeyId,
+          'Apca-Api-Secret-Key': this.credentials.secretKey,
+        }
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        console.warn(`⚠️ Alpaca option quote error for ${symbol}: ${response.status}`);
+        return null;
       }
 
-      const order = await response.json();
+      const data = await response.json();
+      const quote = data.quotes?.[symbol];
+      const bid = parseFloat(quote?.bp || '0');
+      const ask = parseFloat(quote?.ap || '0');
+      if (!(ask > 0)) return null;
 
       return {
-        orderId: order.id,
-        symbol: order.symbol,
-        side: order.side,
-        quantity: parseInt(order.qty),
-        orderType: order.type,
-        status: order.status,
-        submittedAt: order.submitted_at,
-        filledAt: order.filled_at,
-        filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-        filledQty: order.filled_qty ? parseInt(order.filled_qty) : 0,
+        symbol,
+        price: bid > 0 ? (bid + ask) / 2 : ask,
+        volume: 0,
+        bid,
+        ask,
+        timestamp: quote.t ? new Date(quote.t) : new Date(),
+        source: 'alpaca-options',
       };
-
     } catch (error) {
-      console.error(`Error fetching order ${orderId}:`, error);
+      console.error(`❌ Error fetching option quote for ${symbol}:`, error);
       return null;
     }
   }
 
   /**
-   * Get recent orders
+   * Get current market price for a symbol using Alpaca Market Data API
    */
-  async getRecentOrders(limit: number = 10): Promise<AlpacaOrder[]> {
+  async getCurrentPrice(symbol: string): Promise<number | null> {
     try {
-      const response = await fetch(`${this.baseUrl}/v2/orders?status=all&limit=${limit}&direction=desc`, {
-        headers: this.getHeaders(),
+      // Use Alpaca Market Data API directly (different from trading API)
+      const response = await fetch(`https://data.alpaca.markets/v2/stocks/${symbol.toUpperCase()}/quotes/latest`, {
+        headers: {
+          'Apca-Api-Key-Id': this.credentials.apiKeyId,
+          'Apca-Api-Secret-Key': this.credentials.secretKey,
+        }
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      
+      if (response.ok) {
+        const data = await response.json();
+        const quote = data.quote;
+        
+        if (quote && quote.bp && quote.ap) {
+          // Use bid (bp) and ask (ap) prices
+          const price = (parseFloat(quote.bp) + parseFloat(quote.ap)) / 2;
+          console.log(`✅ Alpaca market price for ${symbol}: $${price.toFixed(2)} (bid: ${quote.bp}, ask: ${quote.ap})`);
+          return price;
+        }
+      } else {
+        console.error(`Alpaca market data API error: ${response.status} ${response.statusText}`);
       }
-
-      const orders = await response.json();
-
-      return orders.map((order: any): AlpacaOrder => ({
-        orderId: order.id,
-        symbol: order.symbol,
-        side: order.side,
-        quantity: parseInt(order.qty),
-        orderType: order.type,
-        status: order.status,
-        submittedAt: order.submitted_at,
-        filledAt: order.filled_at,
-        filledAvgPrice: order.filled_avg_price ? parseFloat(order.filled_avg_price) : undefined,
-        filledQty: order.filled_qty ? parseInt(order.filled_qty) : 0,
-      }));
-
+      
+      return null;
     } catch (error) {
-      console.error('Error fetching recent orders:', error);
-      return [];
+      console.error('❌ Error fetching current price:', error);
+      return null;
     }
   }
 
   /**
-   * Check if market is open
+   * Whether the market is open right now, per Alpaca's clock
    */
   async isMarketOpen(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.baseUrl}/v2/clock`, {
-        headers: this.getHeaders(),
-      });
+      const response = await this.apiCall<any>('/v2/clock');
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      if (!response.data || response.error) {
+        console.error('❌ Failed to get market clock:', response.error);
+        return false;
       }
 
-      const clock = await response.json();
-      return clock.is_open;
-
+      return response.data.is_open === true;
     } catch (error) {
-      console.error('Error checking market status:', error);
+      console.error('❌ Error checking market status:', error);
       return false;
     }
   }
 
   /**
-   * Get current market price for a symbol
+   * Close position with market order
    */
-  async getCurrentPrice(symbol: string): Promise<number | null> {
+  async closePosition(symbol: string): Promise<TradeResult> {
     try {
-      const response = await fetch(`${this.baseUrl}/v2/stocks/${symbol}/quotes/latest`, {
-        headers: this.getHeaders(),
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      const positions = await this.getPositions();
+      const position = positions.find(pos => pos.symbol === symbol.toUpperCase());
+      
+      if (!position) {
+        return {
+          success: false,
+          error: 'Position not found',
+          message: `No position found for ${symbol}`,
+          timestamp: new Date().toISOString(),
+        };
       }
 
-      const data = await response.json();
-      const quote = data.quote;
-      
-      // Return midpoint of bid/ask
-      return (parseFloat(quote.bid_price) + parseFloat(quote.ask_price)) / 2;
+      const closeSignal: TradeSignal = {
+        symbol: symbol.toUpperCase(),
+        direction: position.side === 'long' ? 'short' : 'long',
+        quantity: Math.abs(position.qty),
+        confidence: 1.0,
+        orderType: 'market',
+        clientOrderId: `close-${symbol}-${Date.now()}`,
+      };
 
+      return await this.executeTrade(closeSignal);
     } catch (error) {
-      console.error(`Error fetching price for ${symbol}:`, error);
-      return null;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        message: 'Failed to close position',
+        timestamp: new Date().toISOString(),
+      };
     }
   }
 
   /**
-   * Get account buying power for position sizing
+   * Get recent X-Request-IDs for support debugging
    */
-  async getBuyingPower(): Promise<number> {
-    const account = await this.getAccount();
-    return account?.buyingPower || 0;
+  getRecentRequestIds(count: number = 10): string[] {
+    return Array.from(this.requestLog.entries())
+      .slice(-count)
+      .map(([requestId, _]) => requestId);
   }
 
   /**
-   * Calculate position size based on risk percentage
+   * Get detailed request log for debugging
    */
-  calculatePositionSize(
-    portfolioValue: number,
-    riskPercentage: number,
-    confidence: number,
-    currentPrice: number
-  ): number {
-    // Base risk amount
-    const baseRiskAmount = portfolioValue * riskPercentage;
-    
-    // Adjust based on confidence (70% confidence = 0.7x position, 90% = 0.9x)
-    const confidenceMultiplier = Math.max(0.1, Math.min(1.0, confidence));
-    
-    // Calculate final position size
-    const riskAmount = baseRiskAmount * confidenceMultiplier;
-    const shares = Math.floor(riskAmount / currentPrice);
-    
-    return Math.max(1, shares); // Minimum 1 share
+  getRequestLog(requestId: string): any {
+    return this.requestLog.get(requestId);
   }
-}
\ No newline at end of file
+
+  /**
+   * Health check - verify API connectivity
+   */
+  async healthCheck(): Promise<boolean> {
+    try {
+      const account = await this.getAccount();
+      return account !== null;
+    } catch (error) {
+      console.error('❌ Health check failed:', error);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,506 @@
+/**
+ * Backtesting Engine
+ * Replays recorded bars, flow alerts and option chains through QPPFAlgorithm.generateSignal
+ * on a replay clock, simulating fills with slippage/commissions and RiskManager sizing
+ */
+
+import { QPPFAlgorithm, QPPFSignal } from './qppf-algorithm';
+import { UnusualWhalesClient, UnusualWhalesAlert, DarkPoolData } from './unusual-whales-client';
+import { MarketDataService, MarketDataProvider, MarketQuote } from './market-data-provider';
+import { RiskManager, RiskParameters } from './risk-manager';
+import { BrokerAccount } from './broker-adapter';
+import { Clock, ManualClock, getExchangeTime } from './clock';
+import { OptionChainSnapshot, RecordedOptionChainSource } from './option-chain-source';
+import { DataProvenance, describeNonLiveInputs } from './data-quality';
+
+export interface HistoricalBar {
+  timestamp: string;           // ISO time the bar closed
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface RecordedDarkPoolTrade {
+  symbol: string;
+  size: number;
+  price: number;
+  timestamp: string;
+}
+
+export interface BacktestDataset {
+  symbol: string;
+  bars: HistoricalBar[];
+  flowAlerts?: UnusualWhalesAlert[];
+  darkPoolTrades?: RecordedDarkPoolTrade[];
+  optionChains?: OptionChainSnapshot[];
+}
+
+export interface BacktestConfig {
+  initialCapital: number;
+  slippageBps: number;         // Adverse slippage applied to every fill, in basis points
+  commissionPerShare: number;
+  minCommission: number;       // Minimum commission per fill
+  stopLossPct: number;         // Stop distance from entry (0.01 = 1%)
+  takeProfitPct: number;       // Target distance from entry
+  maxHoldingBars: number;      // Force exit after this many bars
+  warmupBars: number;          // Bars used only to build price history before trading
+  periodsPerYear: number;      // Bars per year, used to annualize Sharpe (252 for daily bars)
+  riskParameters?: Partial<RiskParameters>;
+}
+
+export interface BacktestTrade {
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  quantity: number;
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  commission: number;
+  pnl: number;
+  returnPct: number;
+  barsHeld: number;
+  confidence: number;
+  exitReason: 'stop_loss' | 'take_profit' | 'signal_reversal' | 'max_holding' | 'end_of_data';
+}
+
+export interface EquityPoint {
+  timestamp: string;
+  equity: number;
+  cash: number;
+  positionValue: number;
+  drawdown: number;
+}
+
+export interface BacktestMetrics {
+  totalReturn: number;
+  sharpeRatio: number;
+  maxDrawdown: number;
+  winRate: number;
+  totalTrades: number;
+  winningTrades: number;
+  losingTrades: number;
+  profitFactor: number | null; // Null when there are no losing trades
+  avgTradePnL: number;
+  totalCommission: number;
+}
+
+/**
+ * What backed the replayed signals: GEX only comes from recorded chains or flow alerts, never mock contracts
+ */
+export interface BacktestDataQuality {
+  signals: number;
+  liveSignals: number;                                 // Every input live
+  withGEX: number;
+  gexSkipped: number;                                  // No recorded chain and too few flow contracts
+  gexProvenance: Partial<Record<DataProvenance, number>>;
+  nonLiveInputs: Record<string, number>;               // Signals per non-live input, e.g. darkPool=synthetic
+}
+
+export interface BacktestResult {
+  symbol: string;
+  config: BacktestConfig;
+  startTime: string;
+  endTime: string;
+  barsProcessed: number;
+  signalsGenerated: { LONG: number; SHORT: number; FLAT: number };
+  dataQuality: BacktestDataQuality;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+interface OpenPosition {
+  direction: 'LONG' | 'SHORT';
+  quantity: number;            // Signed: positive long, negative short
+  entryPrice: number;
+  entryTime: string;
+  entryIndex: number;
+  entryCommission: number;
+  confidence: number;
+}
+
+/**
+ * Quotes the latest bar at or before the replay clock
+ */
+class ReplayMarketDataProvider implements MarketDataProvider {
+  readonly name = 'replay';
+  private bars: HistoricalBar[];
+  private clock: Clock;
+
+  constructor(bars: HistoricalBar[], clock: Clock) {
+    this.bars = bars;
+    this.clock = clock;
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const now = this.clock.now().getTime();
+    let bar: HistoricalBar | null = null;
+
+    for (const candidate of this.bars) {
+      if (new Date(candidate.timestamp).getTime() > now) break;
+      bar = candidate;
+    }
+
+    if (!bar) return null;
+
+    return {
+      symbol,
+      price: bar.close,
+      volume: bar.volume,
+      bid: bar.close - 0.01,
+      ask: bar.close + 0.01,
+      timestamp: new Date(bar.timestamp),
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * Unusual Whales client that answers from recorded flow alerts and dark pool prints
+ */
+class ReplayUnusualWhalesClient extends UnusualWhalesClient {
+  private alerts: UnusualWhalesAlert[];
+  private darkPoolTrades: RecordedDarkPoolTrade[];
+
+  constructor(alerts: UnusualWhalesAlert[], darkPoolTrades: RecordedDarkPoolTrade[], clock: Clock) {
+    super('replay', clock);
+    this.alerts = alerts.map(alert => ({ ...alert, timestamp: new Date(alert.timestamp), source: 'live' }));
+    this.darkPoolTrades = darkPoolTrades;
+  }
+
+  async getOptionsFlow(symbol: string = 'SPY'): Promise<UnusualWhalesAlert[]> {
+    const now = this.clock.now().getTime();
+    const dayAgo = now - 24 * 60 * 60 * 1000;
+
+    return this.alerts.filter(alert =>
+      alert.symbol.toUpperCase() === symbol.toUpperCase() &&
+      alert.timestamp.getTime() > dayAgo &&
+      alert.timestamp.getTime() <= now
+    );
+  }
+
+  async getDarkPoolData(symbol: string = 'SPY'): Promise<DarkPoolData> {
+    const now = this.clock.now();
+    const today = getExchangeTime(now).date;
+
+    const trades = this.darkPoolTrades.filter(trade =>
+      trade.symbol.toUpperCase() === symbol.toUpperCase() &&
+      getExchangeTime(new Date(trade.timestamp)).date === today &&
+      new Date(trade.timestamp).getTime() <= now.getTime()
+    );
+
+    const totalVolume = trades.reduce((sum, trade) => sum + trade.size, 0);
+    const avgPrice = totalVolume > 0
+      ? trades.reduce((sum, trade) => sum + trade.price * trade.size, 0) / totalVolume
+      : 0;
+
+    return { trades, totalVolume, avgPrice, source: 'live' };
+  }
+}
+
+export class BacktestEngine {
+  private config: BacktestConfig;
+
+  constructor(config?: Partial<BacktestConfig>) {
+    this.config = {
+      initialCapital: 100000,
+      slippageBps: 2,
+      commissionPerShare: 0.005,
+      minCommission: 1.0,
+      stopLossPct: 0.01,
+      takeProfitPct: 0.02,
+      maxHoldingBars: 20,
+      warmupBars: 3,
+      periodsPerYear: 252,
+      ...config,
+    };
+  }
+
+  getConfig(): BacktestConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Replay a dataset bar by bar. Signals are generated at each bar close and
+   * filled at the next bar's open to avoid look-ahead.
+   */
+  async run(dataset: BacktestDataset): Promise<BacktestResult> {
+    const bars = [...dataset.bars].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+
+    if (bars.length < 2) {
+      throw new Error('Backtest requires at least 2 bars');
+    }
+
+    console.log(`🧪 Starting backtest for ${dataset.symbol}: ${bars.length} bars from ${bars[0].timestamp} to ${bars[bars.length - 1].timestamp}`);
+
+    const clock = new ManualClock(bars[0].timestamp);
+    const marketData = new MarketDataService();
+    marketData.registerProvider(new ReplayMarketDataProvider(bars, clock));
+
+    const algorithm = new QPPFAlgorithm('replay', dataset.symbol, {
+      marketData,
+      clock,
+      uwClient: new ReplayUnusualWhalesClient(dataset.flowAlerts || [], dataset.darkPoolTrades || [], clock),
+      optionChainSource: dataset.optionChains ? new RecordedOptionChainSource(dataset.optionChains) : undefined,
+      syntheticGEX: false,   // Random mock contracts would make replays non-deterministic
+    });
+    const riskManager = new RiskManager(this.config.riskParameters, clock);
+
+    let cash = this.config.initialCapital;
+    let position: OpenPosition | null = null;
+    let pendingEntry: { signal: QPPFSignal; quantity: number } | null = null;
+    let pendingExit = false;
+    let peakEquity = this.config.initialCapital;
+
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const signalsGenerated = { LONG: 0, SHORT: 0, FLAT: 0 };
+    const dataQuality: BacktestDataQuality = {
+      signals: 0,
+      liveSignals: 0,
+      withGEX: 0,
+      gexSkipped: 0,
+      gexProvenance: {},
+      nonLiveInputs: {},
+    };
+
+    const closePosition = (
+      open: OpenPosition,
+      rawPrice: number,
+      time: string,
+      index: number,
+      reason: BacktestTrade['exitReason']
+    ) => {
+      const exitSide = open.quantity > 0 ? 'sell' : 'buy';
+      const exitPrice = this.applySlippage(rawPrice, exitSide);
+      const exitCommission = this.calculateCommission(open.quantity);
+
+      cash += open.quantity * exitPrice - exitCommission;
+
+      const commission = open.entryCommission + exitCommission;
+      const pnl = open.quantity * (exitPrice - open.entryPrice) - commission;
+
+      trades.push({
+        symbol: dataset.symbol,
+        direction: open.direction,
+        quantity: Math.abs(open.quantity),
+        entryTime: open.entryTime,
+        entryPrice: open.entryPrice,
+        exitTime: time,
+        exitPrice,
+        commission,
+        pnl,
+        returnPct: pnl / (Math.abs(open.quantity) * open.entryPrice),
+        barsHeld: index - open.entryIndex,
+        confidence: open.confidence,
+        exitReason: reason,
+      });
+    };
+
+    for (let i = 0; i < bars.length; i++) {
+      const bar = bars[i];
+      clock.set(bar.timestamp);
+
+      // 1. Fill orders queued at the previous bar's close at this bar's open
+      if (pendingExit && position) {
+        closePosition(position, bar.open, bar.timestamp, i, 'signal_reversal');
+        position = null;
+      }
+      pendingExit = false;
+
+      if (pendingEntry && !position) {
+        const { signal, quantity } = pendingEntry;
+        const side = signal.direction === 'LONG' ? 'buy' : 'sell';
+        const entryPrice = this.applySlippage(bar.open, side);
+        const signedQty = signal.direction === 'LONG' ? quantity : -quantity;
+        const entryCommission = this.calculateCommission(signedQty);
+
+        cash -= signedQty * entryPrice + entryCommission;
+        position = {
+          direction: signal.direction as 'LONG' | 'SHORT',
+          quantity: signedQty,
+          entryPrice,
+          entryTime: bar.timestamp,
+          entryIndex: i,
+          entryCommission,
+          confidence: signal.confidence,
+        };
+      }
+      pendingEntry = null;
+
+      // 2. Intrabar stop-loss / take-profit (stop assumed to trigger first when both are touched)
+      if (position) {
+        const exit = this.checkIntrabarExit(position, bar);
+        if (exit) {
+          closePosition(position, exit.price, bar.timestamp, i, exit.reason);
+          position = null;
+        } else if (i - position.entryIndex >= this.config.maxHoldingBars) {
+          closePosition(position, bar.close, bar.timestamp, i, 'max_holding');
+          position = null;
+        }
+      }
+
+      // 3. Generate a signal at this bar's close
+      const isLastBar = i === bars.length - 1;
+      if (!isLastBar) {
+        const signal = await algorithm.generateSignal();
+        signalsGenerated[signal.direction]++;
+        this.recordDataQuality(dataQuality, signal);
+
+        if (position && signal.direction !== 'FLAT' && signal.direction !== position.direction) {
+          pendingExit = true;
+        } else if (!position && signal.direction !== 'FLAT' && i >= this.config.warmupBars) {
+          const equity = cash;
+          const account: BrokerAccount = {
+            portfolioValue: equity,
+            buyingPower: equity,
+            cash: equity,
+            dayTradeCount: 0,
+            status: 'ACTIVE',
+            accountBlocked: false,
+            tradingBlocked: false,
+            transfersBlocked: false,
+            accountNumber: 'backtest',
+          };
+
+          const assessment = riskManager.assessTrade(signal, signal.uwSignals, account, [], bar.close);
+          if (riskManager.shouldExecuteTrade(assessment)) {
+            pendingEntry = { signal, quantity: assessment.positionSize };
+          }
+        }
+      }
+
+      // 4. Mark to market
+      if (isLastBar && position) {
+        closePosition(position, bar.close, bar.timestamp, i, 'end_of_data');
+        position = null;
+      }
+
+      const positionValue = position ? position.quantity * bar.close : 0;
+      const equity = cash + positionValue;
+      peakEquity = Math.max(peakEquity, equity);
+
+      equityCurve.push({
+        timestamp: bar.timestamp,
+        equity,
+        cash,
+        positionValue,
+        drawdown: peakEquity > 0 ? (peakEquity - equity) / peakEquity : 0,
+      });
+    }
+
+    const metrics = this.calculateMetrics(trades, equityCurve);
+
+    console.log(`🧪 Backtest complete: ${trades.length} trades, return ${(metrics.totalReturn * 100).toFixed(2)}%, Sharpe ${metrics.sharpeRatio.toFixed(2)}, max DD ${(metrics.maxDrawdown * 100).toFixed(2)}%`);
+
+    return {
+      symbol: dataset.symbol,
+      config: this.getConfig(),
+      startTime: bars[0].timestamp,
+      endTime: bars[bars.length - 1].timestamp,
+      barsProcessed: bars.length,
+      signalsGenerated,
+      dataQuality,
+      trades,
+      equityCurve,
+      metrics,
+    };
+  }
+
+  private recordDataQuality(quality: BacktestDataQuality, signal: QPPFSignal): void {
+    const inputs = signal.dataQuality;
+    quality.signals++;
+    if (inputs.isLive) quality.liveSignals++;
+    if (inputs.gex) {
+      quality.withGEX++;
+      quality.gexProvenance[inputs.gex] = (quality.gexProvenance[inputs.gex] ?? 0) + 1;
+    } else {
+      quality.gexSkipped++;
+    }
+    for (const input of describeNonLiveInputs(inputs)) {
+      quality.nonLiveInputs[input] = (quality.nonLiveInputs[input] ?? 0) + 1;
+    }
+  }
+
+  /**
+   * Move the fill price against us by the configured slippage
+   */
+  private applySlippage(price: number, side: 'buy' | 'sell'): number {
+    const slip = price * this.config.slippageBps / 10000;
+    return side === 'buy' ? price + slip : price - slip;
+  }
+
+  private calculateCommission(quantity: number): number {
+    return Math.max(this.config.minCommission, Math.abs(quantity) * this.config.commissionPerShare);
+  }
+
+  /**
+   * Check whether the bar touched the stop or target; gaps through a level fill at the open
+   */
+  private checkIntrabarExit(
+    position: OpenPosition,
+    bar: HistoricalBar
+  ): { price: number; reason: 'stop_loss' | 'take_profit' } | null {
+    if (position.direction === 'LONG') {
+      const stop = position.entryPrice * (1 - this.config.stopLossPct);
+      const target = position.entryPrice * (1 + this.config.takeProfitPct);
+
+      if (bar.low <= stop) return { price: Math.min(stop, bar.open), reason: 'stop_loss' };
+      if (bar.high >= target) return { price: Math.max(target, bar.open), reason: 'take_profit' };
+    } else {
+      const stop = position.entryPrice * (1 + this.config.stopLossPct);
+      const target = position.entryPrice * (1 - this.config.takeProfitPct);
+
+      if (bar.high >= stop) return { price: Math.max(stop, bar.open), reason: 'stop_loss' };
+      if (bar.low <= target) return { price: Math.min(target, bar.open), reason: 'take_profit' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Calculate performance statistics from the trade list and equity curve
+   */
+  private calculateMetrics(trades: BacktestTrade[], equityCurve: EquityPoint[]): BacktestMetrics {
+    const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : this.config.initialCapital;
+
+    // Per-bar returns for Sharpe
+    const returns: number[] = [];
+    for (let i = 1; i < equityCurve.length; i++) {
+      const previous = equityCurve[i - 1].equity;
+      if (previous > 0) {
+        returns.push(equityCurve[i].equity / previous - 1);
+      }
+    }
+
+    const meanReturn = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+    const variance = returns.length > 1
+      ? returns.reduce((sum, r) => sum + Math.pow(r - meanReturn, 2), 0) / (returns.length - 1)
+      : 0;
+    const stdReturn = Math.sqrt(variance);
+    const sharpeRatio = stdReturn > 0 ? (meanReturn / stdReturn) * Math.sqrt(this.config.periodsPerYear) : 0;
+
+    const winners = trades.filter(t => t.pnl > 0);
+    const losers = trades.filter(t => t.pnl <= 0);
+    const grossProfit = winners.reduce((sum, t) => sum + t.pnl, 0);
+    const grossLoss = Math.abs(losers.reduce((sum, t) => sum + t.pnl, 0));
+
+    return {
+      totalReturn: finalEquity / this.config.initialCapital - 1,
+      sharpeRatio,
+      maxDrawdown: equityCurve.reduce((max, point) => Math.max(max, point.drawdown), 0),
+      winRate: trades.length > 0 ? winners.length / trades.length : 0,
+      totalTrades: trades.length,
+      winningTrades: winners.length,
+      losingTrades: losers.length,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+      avgTradePnL: trades.length > 0 ? trades.reduce((sum, t) => sum + t.pnl, 0) / trades.length : 0,
+      totalCommission: trades.reduce((sum, t) => sum + t.commission, 0),
+    };
+  }
+}
@@ -0,0 +1,449 @@
+/**
+ * Bar Builder
+ * Folds quotes and trades into session-anchored OHLCV bars (1m/5m/15m/1h/1d) with VWAP,
+ * persisted to D1, a JSONL file or memory so history survives restarts
+ */
+
+import { HistoricalBar } from './backtest-engine';
+import { MarketQuote } from './market-data-provider';
+import { PriceBarSource, BarTimeframe, BAR_TIMEFRAME_MINUTES, sessionBarBounds, aggregateBars } from './price-bar-source';
+import { D1DatabaseLike } from './signal-journal';
+import { loadNodeFs, ensureParentDirectory } from './node-fs';
+import { Clock, systemClock, getExchangeTime } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+
+export type BuildTimeframe = '1m' | '5m' | '15m' | '1h' | '1d';
+
+export const BUILD_TIMEFRAMES: BuildTimeframe[] = ['1m', '5m', '15m', '1h', '1d'];
+
+export interface TradePrint {
+  symbol: string;
+  price: number;
+  size: number;
+  timestamp: Date;
+}
+
+export interface BuiltBar extends HistoricalBar {
+  symbol: string;
+  timeframe: BuildTimeframe;
+  start: string;             // ISO time the bar opened (timestamp is when it closed)
+  vwap: number;              // Volume-weighted price; the mean print price when no volume was seen
+  prints: number;            // Trades and quotes folded into the bar
+}
+
+export interface BarBuilderConfig {
+  timeframes: BuildTimeframe[];
+  maxBars: number;           // Completed bars kept in memory (and restored) per symbol and timeframe
+}
+
+export interface BarBuilderStatus {
+  store: string;
+  timeframes: BuildTimeframe[];
+  symbols: {
+    symbol: string;
+    bars: Partial<Record<BuildTimeframe, number>>;
+    lastBarTime: string | null;   // Close of the latest completed 1-minute (or finest) bar
+  }[];
+}
+
+export interface BarStore {
+  readonly name: string;
+  save(bars: BuiltBar[]): Promise<void>;      // Replaces bars with the same symbol, timeframe and start
+  load(symbol: string, timeframe: BuildTimeframe, limit: number): Promise<BuiltBar[]>;  // Most recent, ascending
+}
+
+export const DEFAULT_BAR_BUILDER_CONFIG: BarBuilderConfig = {
+  timeframes: BUILD_TIMEFRAMES,
+  maxBars: 500,
+};
+
+const barKey = (bar: Pick<BuiltBar, 'symbol' | 'timeframe' | 'start'>) => `${bar.symbol}:${bar.timeframe}:${bar.start}`;
+
+function latest(bars: BuiltBar[], symbol: string, timeframe: BuildTimeframe, limit: number): BuiltBar[] {
+  return bars
+    .filter(bar => bar.symbol === symbol.toUpperCase() && bar.timeframe === timeframe)
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .slice(-limit);
+}
+
+/**
+ * Process-local store (lost on restart); the default when no storage is configured
+ */
+export class InMemoryBarStore implements BarStore {
+  readonly name = 'memory';
+  private bars = new Map<string, BuiltBar>();
+
+  async save(bars: BuiltBar[]): Promise<void> {
+    for (const bar of bars) this.bars.set(barKey(bar), bar);
+  }
+
+  async load(symbol: string, timeframe: BuildTimeframe, limit: number): Promise<BuiltBar[]> {
+    return latest([...this.bars.values()], symbol, timeframe, limit);
+  }
+}
+
+interface BarRow {
+  symbol: string;
+  timeframe: BuildTimeframe;
+  start: string;
+  timestamp: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap: number;
+  prints: number;
+}
+
+/**
+ * D1/SQLite store. The schema lives in migrations/0002_price_bars.sql and is also created on first use.
+ */
+export class D1BarStore implements BarStore {
+  readonly name = 'd1';
+  private db: D1DatabaseLike;
+  private ready: Promise<void> | null = null;
+
+  constructor(db: D1DatabaseLike) {
+    this.db = db;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.prepare(`CREATE TABLE IF NOT EXISTS price_bars (
+          symbol TEXT NOT NULL,
+          timeframe TEXT NOT NULL,
+          start TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          open REAL NOT NULL,
+          high REAL NOT NULL,
+          low REAL NOT NULL,
+          close REAL NOT NULL,
+          volume REAL NOT NULL,
+          vwap REAL NOT NULL,
+          prints INTEGER NOT NULL,
+          PRIMARY KEY (symbol, timeframe, start)
+        )`).run();
+      })();
+    }
+    return this.ready;
+  }
+
+  async save(bars: BuiltBar[]): Promise<void> {
+    await this.ensureSchema();
+    for (const bar of bars) {
+      await this.db.prepare(
+        'INSERT OR REPLACE INTO price_bars (symbol, timeframe, start, timestamp, open, high, low, close, volume, vwap, prints) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      ).bind(
+        bar.symbol, bar.timeframe, bar.start, bar.timestamp,
+        bar.open, bar.high, bar.low, bar.close, bar.volume, bar.vwap, bar.prints
+      ).run();
+    }
+  }
+
+  async load(symbol: string, timeframe: BuildTimeframe, limit: number): Promise<BuiltBar[]> {
+    await this.ensureSchema();
+    const { results } = await this.db.prepare(
+      'SELECT * FROM price_bars WHERE symbol = ? AND timeframe = ? ORDER BY start DESC LIMIT ?'
+    ).bind(symbol.toUpperCase(), timeframe, limit).all<BarRow>();
+    return results.reverse().map(row => ({ ...row }));
+  }
+}
+
+/**
+ * JSON Lines file store for local development (Node only). Appends completed bars;
+ * when a bar is written twice the later line wins.
+ */
+export class FileBarStore implements BarStore {
+  readonly name = 'file';
+  private path: string;
+  private bars: Map<string, BuiltBar> | null = null;
+
+  constructor(path: string = './data/price-bars.jsonl') {
+    this.path = path;
+  }
+
+  private async loadAll(): Promise<Map<string, BuiltBar>> {
+    if (this.bars) return this.bars;
+
+    let text = '';
+    try {
+      text = await (await loadNodeFs()).readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    this.bars = new Map();
+    for (const line of text.split('\n')) {
+      if (line.trim().length === 0) continue;
+      const bar = JSON.parse(line) as BuiltBar;
+      this.bars.set(barKey(bar), bar);
+    }
+    console.log(`📊 Loaded ${this.bars.size} price bars from ${this.path}`);
+    return this.bars;
+  }
+
+  async save(bars: BuiltBar[]): Promise<void> {
+    if (bars.length === 0) return;
+    const stored = await this.loadAll();
+
+    await ensureParentDirectory(this.path);
+    await (await loadNodeFs()).appendFile(this.path, bars.map(bar => JSON.stringify(bar)).join('\n') + '\n', 'utf8');
+    for (const bar of bars) stored.set(barKey(bar), bar);
+  }
+
+  async load(symbol: string, timeframe: BuildTimeframe, limit: number): Promise<BuiltBar[]> {
+    return latest([...(await this.loadAll()).values()], symbol, timeframe, limit);
+  }
+}
+
+interface FormingBar {
+  bar: BuiltBar;
+  closeTime: number;
+  priceVolume: number;       // Σ price × volume
+  priceSum: number;          // Σ price, for the VWAP when no volume was seen
+}
+
+/**
+ * Builds bars from the prints it is fed. Only regular-session prints count; a bar completes when
+ * a later print for its symbol arrives or flush() passes its close. Feed a symbol either trades
+ * or quotes (quote volume is the change in cumulative session volume), not both.
+ * As a PriceBarSource it serves built bars, taking older history from the fallback source.
+ */
+export class BarBuilder implements PriceBarSource {
+  readonly name = 'bar-builder';
+  private store: BarStore;
+  private config: BarBuilderConfig;
+  private fallback?: PriceBarSource;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private completed = new Map<string, BuiltBar[]>();
+  private forming = new Map<string, FormingBar>();
+  private sessionVolumes = new Map<string, { date: string; volume: number }>();
+
+  constructor(
+    store: BarStore = new InMemoryBarStore(),
+    config: Partial<BarBuilderConfig> = {},
+    fallback?: PriceBarSource,
+    clock: Clock = systemClock,
+    calendar: TradingCalendar = tradingCalendar
+  ) {
+    this.store = store;
+    this.config = { ...DEFAULT_BAR_BUILDER_CONFIG, ...config };
+    this.fallback = fallback;
+    this.clock = clock;
+    this.calendar = calendar;
+  }
+
+  getConfig(): BarBuilderConfig {
+    return { ...this.config, timeframes: [...this.config.timeframes] };
+  }
+
+  /**
+   * Reload each symbol's most recent completed bars from the store; returns how many were loaded
+   */
+  async restore(symbols: string[]): Promise<number> {
+    let loaded = 0;
+    for (const symbol of symbols) {
+      for (const timeframe of this.config.timeframes) {
+        const bars = await this.store.load(symbol, timeframe, this.config.maxBars);
+        if (bars.length === 0) continue;
+
+        const key = this.seriesKey(symbol, timeframe);
+        const merged = new Map((this.completed.get(key) || []).map(bar => [bar.start, bar]));
+        for (const bar of bars) if (!merged.has(bar.start)) merged.set(bar.start, bar);
+        this.completed.set(key, [...merged.values()].sort((a, b) => a.start.localeCompare(b.start)).slice(-this.config.maxBars));
+        loaded += bars.length;
+      }
+    }
+
+    if (loaded > 0) {
+      console.log(`📊 Restored ${loaded} bars for ${symbols.join(', ')} from ${this.store.name} store`);
+    }
+    return loaded;
+  }
+
+  /**
+   * Fold one trade in; returns the bars it completed
+   */
+  async addTrade(trade: TradePrint): Promise<BuiltBar[]> {
+    return this.ingest(trade.symbol, new Date(trade.timestamp), trade.price, trade.size);
+  }
+
+  /**
+   * Fold a quote in at its last price; returns the bars it completed
+   */
+  async addQuote(quote: MarketQuote): Promise<BuiltBar[]> {
+    const symbol = quote.symbol.toUpperCase();
+    const time = new Date(quote.timestamp);
+    const date = getExchangeTime(time).date;
+
+    // Providers report cumulative session volume; the bar gets what traded since the last quote
+    const previous = this.sessionVolumes.get(symbol);
+    const sameSession = previous !== undefined && previous.date === date;
+    const volume = sameSession ? Math.max(0, quote.volume - previous.volume) : 0;
+    this.sessionVolumes.set(symbol, { date, volume: sameSession ? Math.max(previous.volume, quote.volume) : quote.volume });
+
+    return this.ingest(symbol, time, quote.price, volume);
+  }
+
+  /**
+   * Complete every forming bar whose close has passed; returns the completed bars
+   */
+  async flush(now: Date = this.clock.now()): Promise<BuiltBar[]> {
+    const finished: BuiltBar[] = [];
+    for (const [key, forming] of this.forming) {
+      if (forming.closeTime <= now.getTime()) {
+        finished.push(this.complete(key, forming));
+      }
+    }
+    await this.persist(finished);
+    return finished;
+  }
+
+  /**
+   * Completed bars, oldest first (the most recent `limit` when given)
+   */
+  getCompletedBars(symbol: string, timeframe: BuildTimeframe, limit?: number): BuiltBar[] {
+    const bars = this.completed.get(this.seriesKey(symbol, timeframe)) || [];
+    return limit && limit > 0 ? bars.slice(-limit) : [...bars];
+  }
+
+  /**
+   * The bar still forming for a symbol and timeframe, if any
+   */
+  getFormingBar(symbol: string, timeframe: BuildTimeframe): BuiltBar | null {
+    const forming = this.forming.get(this.seriesKey(symbol, timeframe));
+    return forming ? { ...forming.bar, vwap: this.vwap(forming) } : null;
+  }
+
+  async getBars(symbol: string, from: Date, to: Date, timeframe: BarTimeframe = '1m'): Promise<HistoricalBar[]> {
+    let built: HistoricalBar[];
+    if (this.config.timeframes.includes(timeframe as BuildTimeframe)) {
+      built = this.getCompletedBars(symbol, timeframe as BuildTimeframe);
+    } else {
+      // Other timeframes roll up the 1-minute bars, leaving out a bucket the minutes have not filled yet
+      const minutes = this.getCompletedBars(symbol, '1m');
+      const lastClose = minutes.length > 0 ? minutes[minutes.length - 1].timestamp : '';
+      built = aggregateBars(minutes, timeframe, this.calendar).filter(bar => bar.timestamp <= lastClose);
+    }
+    const inRange = built.filter(bar => {
+      const closed = Date.parse(bar.timestamp);
+      return closed > from.getTime() && closed <= to.getTime();
+    });
+
+    // Built history starts when the builder first saw the symbol; anything older comes from the fallback
+    const firstClose = built.length > 0 ? Date.parse(built[0].timestamp) : Infinity;
+    const barMs = (timeframe === '1d' ? 1440 : BAR_TIMEFRAME_MINUTES[timeframe]) * 60000;
+    if (!this.fallback || firstClose <= from.getTime() + barMs) {
+      return inRange;
+    }
+
+    const older = await this.fallback.getBars(symbol, from, new Date(Math.min(to.getTime(), firstClose - 1)), timeframe);
+    return [...older, ...inRange];
+  }
+
+  getStatus(): BarBuilderStatus {
+    const symbols = new Set([...this.completed.keys(), ...this.forming.keys()].map(key => key.split(':')[0]));
+    const finest = this.config.timeframes[0];
+
+    return {
+      store: this.store.name,
+      timeframes: [...this.config.timeframes],
+      symbols: [...symbols].sort().map(symbol => {
+        const bars: Partial<Record<BuildTimeframe, number>> = {};
+        for (const timeframe of this.config.timeframes) {
+          bars[timeframe] = this.completed.get(this.seriesKey(symbol, timeframe))?.length || 0;
+        }
+        const last = finest ? this.completed.get(this.seriesKey(symbol, finest))?.slice(-1)[0] : undefined;
+        return { symbol, bars, lastBarTime: last ? last.timestamp : null };
+      }),
+    };
+  }
+
+  private seriesKey(symbol: string, timeframe: BuildTimeframe): string {
+    return `${symbol.toUpperCase()}:${timeframe}`;
+  }
+
+  private async ingest(symbol: string, time: Date, price: number, volume: number): Promise<BuiltBar[]> {
+    if (!(price > 0) || isNaN(time.getTime())) return [];
+    const upper = symbol.toUpperCase();
+    const finished: BuiltBar[] = [];
+
+    for (const timeframe of this.config.timeframes) {
+      const bounds = sessionBarBounds(time, timeframe, this.calendar);
+      if (!bounds) return [];  // Pre-market, after-hours and closed days are not built
+
+      const key = this.seriesKey(upper, timeframe);
+      let forming = this.forming.get(key);
+      const start = bounds.start.toISOString();
+
+      if (forming && start < forming.bar.start) continue;  // Late print for a bar already completed
+      if (forming && start > forming.bar.start) {
+        finished.push(this.complete(key, forming));
+        forming = undefined;
+      }
+
+      if (!forming) {
+        forming = {
+          bar: {
+            symbol: upper,
+            timeframe,
+            start,
+            timestamp: bounds.close.toISOString(),
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            volume: 0,
+            vwap: price,
+            prints: 0,
+          },
+          closeTime: bounds.close.getTime(),
+          priceVolume: 0,
+          priceSum: 0,
+        };
+        this.forming.set(key, forming);
+      }
+
+      const bar = forming.bar;
+      bar.high = Math.max(bar.high, price);
+      bar.low = Math.min(bar.low, price);
+      bar.close = price;
+      bar.volume += volume;
+      bar.prints++;
+      forming.priceVolume += price * volume;
+      forming.priceSum += price;
+    }
+
+    await this.persist(finished);
+    return finished;
+  }
+
+  private complete(key: string, forming: FormingBar): BuiltBar {
+    this.forming.delete(key);
+    const bar: BuiltBar = { ...forming.bar, vwap: this.vwap(forming) };
+
+    const series = this.completed.get(key) || [];
+    series.push(bar);
+    if (series.length > this.config.maxBars) series.splice(0, series.length - this.config.maxBars);
+    this.completed.set(key, series);
+    return bar;
+  }
+
+  private vwap(forming: FormingBar): number {
+    return forming.bar.volume > 0
+      ? forming.priceVolume / forming.bar.volume
+      : forming.priceSum / Math.max(forming.bar.prints, 1);
+  }
+
+  private async persist(bars: BuiltBar[]): Promise<void> {
+    if (bars.length === 0) return;
+    try {
+      await this.store.save(bars);
+    } catch (error) {
+      console.warn(`⚠️ Failed to persist ${bars.length} bars to ${this.store.name} store:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Broker Adapter
+ * The broker-neutral account, position and order model and the interface every broker implements
+ * (Alpaca today; other brokers or a paper simulator plug in behind the same routes and services)
+ */
+
+import { MarketQuote } from './market-data-provider';
+
+export interface BrokerAccount {
+  portfolioValue: number;
+  buyingPower: number;
+  cash: number;
+  dayTradeCount: number;
+  status: string;
+  accountBlocked: boolean;
+  tradingBlocked: boolean;
+  transfersBlocked: boolean;
+  accountNumber: string;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  qty: number;
+  avgEntryPrice: number;
+  currentPrice: number;
+  marketValue: number;
+  costBasis: number;
+  unrealizedPL: number;
+  unrealizedPLPC: number;
+  side: 'long' | 'short';
+  changeToday: number;
+}
+
+export interface BrokerOrder {
+  id: string;
+  clientOrderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  orderType: 'market' | 'limit' | 'stop' | 'stop_limit' | 'trailing_stop';
+  orderClass: 'simple' | 'bracket' | 'oco' | 'oto';
+  status: 'new' | 'accepted' | 'held' | 'partially_filled' | 'filled' | 'done_for_day' | 'canceled' | 'expired' | 'replaced' | 'rejected' | 'pending_new' | 'pending_cancel' | 'pending_replace' | 'stopped' | 'suspended' | 'calculated';
+  submittedAt: string;
+  filledAt?: string;
+  canceledAt?: string;
+  expiredAt?: string;
+  replacedAt?: string;
+  failedAt?: string;
+  replacedBy?: string;
+  replaces?: string;
+  filledAvgPrice?: number;
+  filledQty: number;
+  failureReason?: string;
+  cancelReason?: string;
+  timeInForce: 'day' | 'gtc' | 'ioc' | 'fok';
+  limitPrice?: number;
+  stopPrice?: number;
+  trailPrice?: number;
+  trailPercent?: number;
+  hwm?: number;
+  legs?: BrokerOrder[];
+  assetClass?: 'us_equity' | 'us_option';
+  positionIntent?: OptionPositionIntent;
+}
+
+export interface TradeSignal {
+  symbol: string;
+  direction: 'long' | 'short';
+  quantity: number;
+  confidence: number;
+  orderType?: 'market' | 'limit' | 'stop' | 'stop_limit';
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce?: 'day' | 'gtc' | 'ioc' | 'fok';
+  clientOrderId?: string;
+  stopLoss?: number;
+  takeProfit?: number;
+}
+
+export type OptionPositionIntent = 'buy_to_open' | 'buy_to_close' | 'sell_to_open' | 'sell_to_close';
+
+// Shares per standard US equity option contract
+export const OPTION_CONTRACT_MULTIPLIER = 100;
+
+/**
+ * A single-leg option order; quantity is in contracts and prices are premium per share
+ */
+export interface OptionTradeSignal {
+  contractSymbol: string;      // OCC symbol, e.g. SPY261023C00585000
+  side: 'buy' | 'sell';
+  quantity: number;
+  positionIntent?: OptionPositionIntent;  // Defaults to opening on the order's side
+  orderType?: 'market' | 'limit';
+  limitPrice?: number;
+  clientOrderId?: string;
+}
+
+export interface TradeResult {
+  success: boolean;
+  orderId?: string;
+  clientOrderId?: string;
+  message: string;
+  order?: BrokerOrder;
+  error?: string;
+  requestId?: string;         // Broker request ID for support (Alpaca X-Request-ID)
+  timestamp: string;
+}
+
+/**
+ * A brokerage the routes, scanner, risk manager and order manager trade through
+ */
+export interface BrokerAdapter {
+  readonly name: string;
+  readonly paper: boolean;                 // Simulated or paper money rather than a live account
+
+  getAccount(): Promise<BrokerAccount | null>;
+  getBuyingPower(): Promise<number>;
+  getPositions(): Promise<BrokerPosition[]>;
+  getPosition(symbol: string): Promise<BrokerPosition | null>;   // Null when flat
+  getRecentOrders(limit?: number): Promise<BrokerOrder[]>;
+  getOrder(orderId: string): Promise<BrokerOrder | null>;
+  getOrderByClientOrderId(clientOrderId: string): Promise<BrokerOrder | null>;
+  executeTrade(signal: TradeSignal): Promise<TradeResult>;
+  closePosition(symbol: string): Promise<TradeResult>;
+  getCurrentPrice(symbol: string): Promise<number | null>;
+  isMarketOpen(): Promise<boolean>;
+  healthCheck(): Promise<boolean>;
+
+  // Brokers with options trading
+  executeOptionTrade?(signal: OptionTradeSignal): Promise<TradeResult>;
+  getOptionQuote?(contractSymbol: string): Promise<MarketQuote | null>;
+}
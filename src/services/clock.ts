@@ -0,0 +1,119 @@
+/**
+ * Clock / Time Source
+ * Lets services read "now" from an injectable source so signals can be replayed,
+ * and converts instants to America/New_York exchange time for market-hours decisions
+ */
+
+export const EXCHANGE_TIME_ZONE = 'America/New_York';
+
+export interface ExchangeTime {
+  date: string;                 // YYYY-MM-DD in exchange time
+  year: number;
+  month: number;                // 1-12
+  day: number;
+  hour: number;                 // 0-23
+  minute: number;
+  second: number;
+  weekday: number;              // 0 = Sunday ... 6 = Saturday
+  minutesSinceMidnight: number;
+}
+
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Wall-clock time
+ */
+export class SystemClock implements Clock {
+  now(): Date {
+    return new Date();
+  }
+}
+
+/**
+ * Manually driven, deterministic clock for tests, replay and backtesting
+ */
+export class ManualClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date | string = new Date(0)) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current.getTime());
+  }
+
+  set(time: Date | string): void {
+    this.current = new Date(time);
+  }
+
+  advance(ms: number): void {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+}
+
+export const systemClock: Clock = new SystemClock();
+
+const exchangeFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: EXCHANGE_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+/**
+ * Break an instant down into America/New_York wall-clock fields (DST aware)
+ */
+export function getExchangeTime(instant: Date): ExchangeTime {
+  const parts: Record<string, number> = {};
+  for (const part of exchangeFormatter.formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const { year, month, day, hour, minute, second } = parts;
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    year,
+    month,
+    day,
+    hour,
+    minute,
+    second,
+    weekday: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    minutesSinceMidnight: hour * 60 + minute,
+  };
+}
+
+/**
+ * Offset of exchange time from UTC at an instant, in minutes (e.g. -240 during EDT)
+ */
+function getExchangeOffsetMinutes(instant: Date): number {
+  const t = getExchangeTime(instant);
+  const asUtc = Date.UTC(t.year, t.month - 1, t.day, t.hour, t.minute, t.second);
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Convert an exchange-local date and time (e.g. '2025-10-17' 16:00) to a UTC instant
+ */
+export function exchangeTimeToDate(date: string, hour: number = 0, minute: number = 0): Date {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  const naiveUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Resolve the offset twice so times near a DST switch land on the right side
+  let offset = getExchangeOffsetMinutes(new Date(naiveUtc));
+  const adjusted = naiveUtc - offset * 60000;
+  offset = getExchangeOffsetMinutes(new Date(adjusted));
+
+  return new Date(naiveUtc - offset * 60000);
+}
@@ -0,0 +1,350 @@
+/**
+ * Confidence Calibration
+ * Maps the algorithm's raw confidence score to a win probability fitted on journaled signal outcomes
+ * (isotonic regression or Platt scaling), with reliability diagrams to check the fit
+ */
+
+import { SignalJournal, SignalOutcomeRecord, journalCursor } from './signal-journal';
+import { Clock, systemClock } from './clock';
+
+export type CalibrationMethod = 'isotonic' | 'platt';
+
+export interface CalibrationSample {
+  score: number;             // Raw confidence
+  win: boolean;              // Price moved in the signal's direction at the horizon
+}
+
+export interface CalibrationConfig {
+  method: CalibrationMethod;
+  horizon: string;           // Outcome horizon that defines a win (e.g. '1h')
+  minSamples: number;        // Resolved signals required before a fit is trusted
+  lookbackDays: number;      // Journal window used by fitFromJournal
+  bins: number;              // Reliability diagram bins
+  refitIntervalMs: number;   // How often the server refits on the journal
+}
+
+export interface IsotonicBlock {
+  minScore: number;
+  maxScore: number;
+  probability: number;
+  count: number;
+}
+
+export interface CalibrationModel {
+  method: CalibrationMethod;
+  horizon: string;
+  fittedAt: string;
+  sampleCount: number;
+  baseWinRate: number;
+  platt?: { a: number; b: number };  // p = 1 / (1 + exp(-(a * score + b)))
+  isotonic?: IsotonicBlock[];        // Non-decreasing steps, ascending by score
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number | null;
+  observedWinRate: number | null;
+}
+
+export interface ReliabilityCurve {
+  bins: ReliabilityBin[];
+  brierScore: number | null;
+  expectedCalibrationError: number | null;  // Count-weighted |predicted - observed| across bins
+}
+
+export interface ReliabilityDiagram {
+  horizon: string;
+  sampleCount: number;
+  raw: ReliabilityCurve;
+  calibrated: ReliabilityCurve | null;      // Null until a model is fitted
+}
+
+export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
+  method: 'isotonic',
+  horizon: '1h',
+  minSamples: 50,
+  lookbackDays: 30,
+  bins: 10,
+  refitIntervalMs: 3600000,
+};
+
+/**
+ * Resolved, directional signals at a horizon as (raw score, win) pairs
+ */
+export function calibrationSamples(entries: SignalOutcomeRecord[], horizon: string): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+  for (const entry of entries) {
+    if (entry.direction === 'FLAT') continue;
+    const hit = entry.outcome?.horizons.find(h => h.horizon === horizon)?.hit;
+    if (hit === null || hit === undefined) continue;
+    samples.push({ score: entry.confidence, win: hit });
+  }
+  return samples;
+}
+
+/**
+ * Pool-adjacent-violators: the non-decreasing step function closest to the outcomes in squared error
+ */
+export function fitIsotonic(samples: CalibrationSample[]): IsotonicBlock[] {
+  const sorted = [...samples].sort((a, b) => a.score - b.score);
+  const blocks: { minScore: number; maxScore: number; wins: number; count: number }[] = [];
+
+  for (const sample of sorted) {
+    const last = blocks[blocks.length - 1];
+    // Equal scores must map to one probability, so they start in the same block
+    if (last && last.maxScore === sample.score) {
+      last.wins += sample.win ? 1 : 0;
+      last.count++;
+    } else {
+      blocks.push({ minScore: sample.score, maxScore: sample.score, wins: sample.win ? 1 : 0, count: 1 });
+    }
+
+    while (blocks.length > 1) {
+      const current = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.wins / previous.count <= current.wins / current.count) break;
+
+      previous.maxScore = current.maxScore;
+      previous.wins += current.wins;
+      previous.count += current.count;
+      blocks.pop();
+    }
+  }
+
+  return blocks.map(block => ({
+    minScore: block.minScore,
+    maxScore: block.maxScore,
+    probability: block.wins / block.count,
+    count: block.count,
+  }));
+}
+
+/**
+ * Platt scaling: logistic fit of win ~ score by Newton's method, with Platt's smoothed
+ * targets so a separable sample does not drive the slope to infinity
+ */
+export function fitPlatt(samples: CalibrationSample[]): { a: number; b: number } {
+  const positives = samples.filter(sample => sample.win).length;
+  const negatives = samples.length - positives;
+  const hiTarget = (positives + 1) / (positives + 2);
+  const loTarget = 1 / (negatives + 2);
+  const targets = samples.map(sample => sample.win ? hiTarget : loTarget);
+
+  const loss = (a: number, b: number) => samples.reduce((sum, sample, i) => {
+    const z = a * sample.score + b;
+    // -[t log p + (1 - t) log(1 - p)] written to stay finite for large |z|
+    return sum + Math.max(z, 0) - targets[i] * z + Math.log1p(Math.exp(-Math.abs(z)));
+  }, 0);
+
+  let a = 0;
+  let b = Math.log((positives + 1) / (negatives + 1));
+  let current = loss(a, b);
+
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let gA = 0, gB = 0, hAA = 1e-12, hAB = 0, hBB = 1e-12;
+    samples.forEach((sample, i) => {
+      const p = 1 / (1 + Math.exp(-(a * sample.score + b)));
+      const d = p - targets[i];
+      const w = p * (1 - p);
+      gA += d * sample.score;
+      gB += d;
+      hAA += w * sample.score * sample.score;
+      hAB += w * sample.score;
+      hBB += w;
+    });
+    if (Math.abs(gA) < 1e-9 && Math.abs(gB) < 1e-9) break;
+
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-18) break;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+
+    // Backtracking line search keeps every step downhill
+    let scale = 1;
+    while (scale > 1e-8) {
+      const next = loss(a - scale * stepA, b - scale * stepB);
+      if (next < current) {
+        a -= scale * stepA;
+        b -= scale * stepB;
+        current = next;
+        break;
+      }
+      scale /= 2;
+    }
+    if (scale <= 1e-8) break;
+  }
+
+  return { a, b };
+}
+
+/**
+ * Probability from a fitted model; isotonic steps are joined linearly between blocks
+ */
+export function applyCalibration(model: CalibrationModel, score: number): number {
+  if (model.platt) {
+    return 1 / (1 + Math.exp(-(model.platt.a * score + model.platt.b)));
+  }
+
+  const blocks = model.isotonic || [];
+  if (blocks.length === 0) return model.baseWinRate;
+  if (score <= blocks[0].maxScore) return blocks[0].probability;
+
+  for (let i = 1; i < blocks.length; i++) {
+    const previous = blocks[i - 1];
+    const block = blocks[i];
+    if (score < block.minScore) {
+      const weight = (score - previous.maxScore) / (block.minScore - previous.maxScore);
+      return previous.probability + weight * (block.probability - previous.probability);
+    }
+    if (score <= block.maxScore) return block.probability;
+  }
+  return blocks[blocks.length - 1].probability;
+}
+
+/**
+ * Reliability curve over equal-width probability bins
+ */
+export function reliabilityCurve(predictions: { predicted: number; win: boolean }[], bins: number = 10): ReliabilityCurve {
+  const binCount = Math.max(1, Math.floor(bins));
+  const totals = Array.from({ length: binCount }, () => ({ count: 0, predicted: 0, wins: 0 }));
+
+  for (const { predicted, win } of predictions) {
+    const index = Math.min(binCount - 1, Math.max(0, Math.floor(predicted * binCount)));
+    totals[index].count++;
+    totals[index].predicted += predicted;
+    totals[index].wins += win ? 1 : 0;
+  }
+
+  const n = predictions.length;
+  const curveBins: ReliabilityBin[] = totals.map((total, i) => ({
+    lower: i / binCount,
+    upper: (i + 1) / binCount,
+    count: total.count,
+    meanPredicted: total.count > 0 ? total.predicted / total.count : null,
+    observedWinRate: total.count > 0 ? total.wins / total.count : null,
+  }));
+
+  return {
+    bins: curveBins,
+    brierScore: n > 0
+      ? predictions.reduce((sum, { predicted, win }) => sum + (predicted - (win ? 1 : 0)) ** 2, 0) / n
+      : null,
+    expectedCalibrationError: n > 0
+      ? curveBins.reduce((sum, bin) => bin.count > 0
+        ? sum + (bin.count / n) * Math.abs(bin.meanPredicted! - bin.observedWinRate!)
+        : sum, 0)
+      : null,
+  };
+}
+
+export class ConfidenceCalibrator {
+  private config: CalibrationConfig;
+  private clock: Clock;
+  private model: CalibrationModel | null = null;
+
+  constructor(config: Partial<CalibrationConfig> = {}, clock: Clock = systemClock) {
+    this.config = { ...DEFAULT_CALIBRATION_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  getConfig(): CalibrationConfig {
+    return { ...this.config };
+  }
+
+  getModel(): CalibrationModel | null {
+    return this.model;
+  }
+
+  isFitted(): boolean {
+    return this.model !== null;
+  }
+
+  /**
+   * Win probability for a raw confidence score; the raw score passes through until a model is fitted
+   */
+  calibrate(score: number): number {
+    return this.model ? applyCalibration(this.model, score) : score;
+  }
+
+  /**
+   * Fit from (score, win) pairs; throws when there are too few to trust
+   */
+  fit(samples: CalibrationSample[], overrides: Partial<Pick<CalibrationConfig, 'method' | 'horizon'>> = {}): CalibrationModel {
+    const method = overrides.method || this.config.method;
+    const horizon = overrides.horizon || this.config.horizon;
+
+    if (samples.length < this.config.minSamples) {
+      throw new Error(`Calibration needs at least ${this.config.minSamples} resolved signals at ${horizon}, found ${samples.length}`);
+    }
+
+    const model: CalibrationModel = {
+      method,
+      horizon,
+      fittedAt: this.clock.now().toISOString(),
+      sampleCount: samples.length,
+      baseWinRate: samples.filter(sample => sample.win).length / samples.length,
+    };
+    if (method === 'platt') {
+      model.platt = fitPlatt(samples);
+    } else {
+      model.isotonic = fitIsotonic(samples);
+    }
+
+    this.model = model;
+    console.log(`🎯 Calibrated confidence (${method}, ${horizon}) on ${samples.length} signals, base win rate ${(model.baseWinRate * 100).toFixed(1)}%`);
+    return model;
+  }
+
+  /**
+   * Fit on the journal's resolved signals from the last lookbackDays
+   */
+  async fitFromJournal(
+    journal: SignalJournal,
+    overrides: Partial<Pick<CalibrationConfig, 'method' | 'horizon'>> & { symbol?: string } = {}
+  ): Promise<CalibrationModel> {
+    const records = await this.loadOutcomes(journal, overrides.symbol);
+    return this.fit(calibrationSamples(records, overrides.horizon || this.config.horizon), overrides);
+  }
+
+  /**
+   * Predicted vs observed win rates for raw scores and, once fitted, calibrated probabilities.
+   * Evaluate on a window the model was not fitted on for an out-of-sample check.
+   */
+  reliability(entries: SignalOutcomeRecord[], horizon?: string, bins: number = this.config.bins): ReliabilityDiagram {
+    const resolvedHorizon = horizon || this.model?.horizon || this.config.horizon;
+    const samples = calibrationSamples(entries, resolvedHorizon);
+    const model = this.model;
+
+    return {
+      horizon: resolvedHorizon,
+      sampleCount: samples.length,
+      raw: reliabilityCurve(samples.map(sample => ({ predicted: sample.score, win: sample.win })), bins),
+      calibrated: model
+        ? reliabilityCurve(samples.map(sample => ({ predicted: applyCalibration(model, sample.score), win: sample.win })), bins)
+        : null,
+    };
+  }
+
+  private async loadOutcomes(journal: SignalJournal, symbol?: string): Promise<SignalOutcomeRecord[]> {
+    const now = this.clock.now();
+    const records: SignalOutcomeRecord[] = [];
+
+    let after: string | undefined;
+    let page: SignalOutcomeRecord[];
+    do {
+      page = await journal.queryOutcomes({
+        symbol,
+        from: new Date(now.getTime() - this.config.lookbackDays * 86400000),
+        to: now,
+        order: 'oldest',
+        after,
+        limit: 1000,
+      });
+      records.push(...page);
+      if (page.length > 0) after = journalCursor(page[page.length - 1]);
+    } while (page.length > 0);
+    return records;
+  }
+}
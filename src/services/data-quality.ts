@@ -0,0 +1,57 @@
+/**
+ * Data Quality / Provenance
+ * Records which kind of source backed each input to a signal or opportunity
+ */
+
+// live: fresh from a real API; cached: last good real value; synthetic: generated/filled in; mock: canned demo data
+export type DataProvenance = 'live' | 'cached' | 'synthetic' | 'mock';
+
+export interface SignalDataQuality {
+  marketData: DataProvenance;
+  marketDataSource?: string;   // Provider name that supplied the quote
+  optionsFlow: DataProvenance;
+  darkPool: DataProvenance;
+  gex?: DataProvenance;        // Undefined when GEX could not be calculated
+  isLive: boolean;             // True only when every input above is live
+}
+
+export interface OpportunityDataQuality {
+  price: DataProvenance;
+  priceSource?: string;
+  history: DataProvenance;
+  optionsFlow?: DataProvenance; // Undefined when Unusual Whales is not configured; synthetic when its call failed
+  isLive: boolean;
+}
+
+const PROVENANCE_RANK: Record<DataProvenance, number> = {
+  live: 0,
+  cached: 1,
+  synthetic: 2,
+  mock: 3,
+};
+
+/**
+ * Combine several provenances into the least trustworthy one
+ */
+export function worstProvenance(...sources: DataProvenance[]): DataProvenance {
+  return sources.reduce<DataProvenance>(
+    (worst, source) => PROVENANCE_RANK[source] > PROVENANCE_RANK[worst] ? source : worst,
+    'live'
+  );
+}
+
+/**
+ * True when every defined provenance is live
+ */
+export function allLive(...sources: Array<DataProvenance | undefined>): boolean {
+  return sources.every(source => source === undefined || source === 'live');
+}
+
+/**
+ * List the inputs of a data quality block that are not live, for rejection messages
+ */
+export function describeNonLiveInputs(quality: object): string[] {
+  return Object.entries(quality)
+    .filter(([, value]) => value in PROVENANCE_RANK && value !== 'live')
+    .map(([input, value]) => `${input}=${value}`);
+}
@@ -0,0 +1,222 @@
+/**
+ * Fake Alpaca Market Data Stream
+ * In-process stand-in for Alpaca's stream server (auth, subscribe, trades/quotes/bars) with hooks to
+ * drop connections or go silent, so streaming can be exercised without network access or credentials
+ */
+
+import { StreamTrade, StreamQuote, StreamBar } from './market-data-stream';
+import { WebSocketLike, WebSocketFactory } from './reconnecting-socket';
+
+type Listener = (event: any) => void;
+
+interface Subscriptions {
+  trades: Set<string>;
+  quotes: Set<string>;
+  bars: Set<string>;
+}
+
+/**
+ * Client end of an in-process connection; messages are delivered asynchronously like a real socket
+ */
+export class FakeWebSocket implements WebSocketLike {
+  readyState = 0;
+  private listeners = new Map<string, Listener[]>();
+  private onClientMessage: (data: string) => void;
+  private onClientClose: () => void;
+
+  constructor(onClientMessage: (data: string) => void, onClientClose: () => void) {
+    this.onClientMessage = onClientMessage;
+    this.onClientClose = onClientClose;
+  }
+
+  addEventListener(type: 'open' | 'message' | 'close' | 'error', listener: Listener): void {
+    this.listeners.set(type, [...(this.listeners.get(type) || []), listener]);
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 1) throw new Error('WebSocket is not open');
+    this.onClientMessage(data);
+  }
+
+  close(code: number = 1000, reason: string = ''): void {
+    if (this.readyState >= 2) return;
+    this.readyState = 2;
+    setTimeout(() => {
+      this.readyState = 3;
+      this.onClientClose();
+      this.dispatch('close', { code, reason });
+    }, 0);
+  }
+
+  /** Server side: open the connection */
+  serverOpen(): void {
+    this.readyState = 1;
+    this.dispatch('open', {});
+  }
+
+  /** Server side: push a frame to the client */
+  serverSend(payload: unknown): void {
+    if (this.readyState !== 1) return;
+    const data = JSON.stringify(payload);
+    setTimeout(() => {
+      if (this.readyState === 1) this.dispatch('message', { data });
+    }, 0);
+  }
+
+  private dispatch(type: string, event: unknown): void {
+    for (const listener of this.listeners.get(type) || []) listener(event);
+  }
+}
+
+interface Connection {
+  socket: FakeWebSocket;
+  url: string;
+  authenticated: boolean;
+  subscriptions: Subscriptions;
+}
+
+export class FakeAlpacaStreamServer {
+  private key: string;
+  private secret: string;
+  private connections: Connection[] = [];
+  private silent = false;
+  private refuse = false;
+  connectionCount = 0;               // Connections ever opened (reconnects included)
+
+  constructor(key: string = 'test-key', secret: string = 'test-secret') {
+    this.key = key;
+    this.secret = secret;
+  }
+
+  /**
+   * Pass to AlpacaMarketDataStream in place of the real WebSocket constructor
+   */
+  readonly socketFactory: WebSocketFactory = (url: string) => {
+    if (this.refuse) throw new Error('connection refused');
+
+    const connection: Connection = {
+      socket: null as unknown as FakeWebSocket,
+      url,
+      authenticated: false,
+      subscriptions: { trades: new Set(), quotes: new Set(), bars: new Set() },
+    };
+    connection.socket = new FakeWebSocket(
+      data => this.handleClientMessage(connection, data),
+      () => { this.connections = this.connections.filter(c => c !== connection); }
+    );
+    this.connections.push(connection);
+    this.connectionCount++;
+
+    setTimeout(() => {
+      connection.socket.serverOpen();
+      this.reply(connection, [{ T: 'success', msg: 'connected' }]);
+    }, 0);
+    return connection.socket;
+  };
+
+  /** Open connections */
+  getConnections(): { url: string; authenticated: boolean; trades: string[]; quotes: string[]; bars: string[] }[] {
+    return this.connections.map(connection => ({
+      url: connection.url,
+      authenticated: connection.authenticated,
+      trades: [...connection.subscriptions.trades],
+      quotes: [...connection.subscriptions.quotes],
+      bars: [...connection.subscriptions.bars],
+    }));
+  }
+
+  publishTrade(trade: StreamTrade): void {
+    this.broadcast('trades', trade.symbol, {
+      T: 't', S: trade.symbol.toUpperCase(), p: trade.price, s: trade.size, x: trade.exchange || 'V',
+      t: trade.timestamp.toISOString(), c: ['@'], z: 'C',
+    });
+  }
+
+  publishQuote(quote: StreamQuote): void {
+    this.broadcast('quotes', quote.symbol, {
+      T: 'q', S: quote.symbol.toUpperCase(), bp: quote.bid, bs: quote.bidSize, ap: quote.ask, as: quote.askSize,
+      bx: 'V', ax: 'V', t: quote.timestamp.toISOString(), c: ['R'], z: 'C',
+    });
+  }
+
+  /** `bar.timestamp` is the close, as elsewhere in the app; the wire format carries the start */
+  publishBar(bar: StreamBar): void {
+    this.broadcast('bars', bar.symbol, {
+      T: 'b', S: bar.symbol.toUpperCase(), o: bar.open, h: bar.high, l: bar.low, c: bar.close, v: bar.volume,
+      vw: bar.vwap, t: new Date(new Date(bar.timestamp).getTime() - 60000).toISOString(), n: 1,
+    });
+  }
+
+  /** Close every connection from the server side (network drop) */
+  dropConnections(code: number = 1006): void {
+    for (const connection of [...this.connections]) connection.socket.close(code, 'dropped by fake server');
+  }
+
+  /** Stop answering and publishing while true (a half-open connection) */
+  setSilent(silent: boolean): void {
+    this.silent = silent;
+  }
+
+  /** Refuse new connections while true */
+  setRefuseConnections(refuse: boolean): void {
+    this.refuse = refuse;
+  }
+
+  private reply(connection: Connection, payload: unknown[]): void {
+    if (!this.silent) connection.socket.serverSend(payload);
+  }
+
+  private broadcast(channel: keyof Subscriptions, symbol: string, message: Record<string, unknown>): void {
+    for (const connection of this.connections) {
+      if (connection.authenticated && connection.subscriptions[channel].has(symbol.toUpperCase())) {
+        this.reply(connection, [message]);
+      }
+    }
+  }
+
+  private handleClientMessage(connection: Connection, data: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.reply(connection, [{ T: 'error', code: 400, msg: 'invalid syntax' }]);
+      return;
+    }
+
+    if (message.action === 'auth') {
+      if (message.key === this.key && message.secret === this.secret) {
+        connection.authenticated = true;
+        this.reply(connection, [{ T: 'success', msg: 'authenticated' }]);
+      } else {
+        this.reply(connection, [{ T: 'error', code: 402, msg: 'auth failed' }]);
+      }
+      return;
+    }
+
+    if (!connection.authenticated) {
+      this.reply(connection, [{ T: 'error', code: 401, msg: 'not authenticated' }]);
+      return;
+    }
+
+    if (message.action === 'subscribe' || message.action === 'unsubscribe') {
+      for (const channel of ['trades', 'quotes', 'bars'] as const) {
+        for (const symbol of message[channel] || []) {
+          if (message.action === 'subscribe') {
+            connection.subscriptions[channel].add(String(symbol).toUpperCase());
+          } else {
+            connection.subscriptions[channel].delete(String(symbol).toUpperCase());
+          }
+        }
+      }
+      this.reply(connection, [{
+        T: 'subscription',
+        trades: [...connection.subscriptions.trades],
+        quotes: [...connection.subscriptions.quotes],
+        bars: [...connection.subscriptions.bars],
+      }]);
+      return;
+    }
+
+    this.reply(connection, [{ T: 'error', code: 400, msg: 'invalid syntax' }]);
+  }
+}
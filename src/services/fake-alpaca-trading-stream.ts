@@ -0,0 +1,222 @@
+/**
+ * Fake Alpaca Trade Updates Stream
+ * In-process stand-in for Alpaca's trading stream (auth, listen, trade_updates) that replays scripted
+ * order events, with hooks to drop connections or go silent, for exercising order tracking offline
+ */
+
+import { WebSocketFactory } from './reconnecting-socket';
+import { FakeWebSocket } from './fake-alpaca-stream';
+
+export interface ScriptedTradeUpdate {
+  event: string;                       // new, partial_fill, fill, canceled, rejected, expired, ...
+  order: Record<string, unknown>;      // Order as Alpaca sends it (snake_case fields)
+  price?: number;                      // Execution price and size (fill events)
+  qty?: number;
+  positionQty?: number;
+  executionId?: string;
+  timestamp?: string;                  // Defaults to the time it is sent
+  delayMs?: number;                    // Wait after the previous event before sending this one
+}
+
+export interface ScriptedOrder {
+  clientOrderId: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  type?: string;
+  fills?: { qty: number; price: number }[];   // Executions in order
+  outcome?: 'filled' | 'canceled' | 'rejected' | 'expired';  // Defaults to filled when fills cover the quantity
+  reason?: string;                     // Rejection reason
+  startPositionQty?: number;           // Broker position before the order
+  delayMs?: number;                    // Between events
+}
+
+/**
+ * The trade_updates events Alpaca would send for one order: new, each (partial) fill, then the outcome
+ */
+export function scriptOrderLifecycle(spec: ScriptedOrder): ScriptedTradeUpdate[] {
+  const orderId = `fake-${spec.clientOrderId}`;
+  const submittedAt = new Date().toISOString();
+  const fills = spec.fills || [];
+  const filledTotal = fills.reduce((sum, fill) => sum + fill.qty, 0);
+  const outcome = spec.outcome || (filledTotal >= spec.qty ? 'filled' : 'canceled');
+  const sign = spec.side === 'buy' ? 1 : -1;
+  const delayMs = spec.delayMs ?? 0;
+
+  const order = (status: string, filledQty: number, notional: number): Record<string, unknown> => ({
+    id: orderId,
+    client_order_id: spec.clientOrderId,
+    symbol: spec.symbol.toUpperCase(),
+    side: spec.side,
+    qty: String(spec.qty),
+    type: spec.type || 'market',
+    order_type: spec.type || 'market',
+    time_in_force: 'day',
+    status,
+    submitted_at: submittedAt,
+    filled_qty: String(filledQty),
+    filled_avg_price: filledQty > 0 ? String(notional / filledQty) : null,
+    failure_reason: status === 'rejected' ? spec.reason || 'rejected by fake server' : undefined,
+  });
+
+  if (outcome === 'rejected') {
+    return [{ event: 'rejected', order: order('rejected', 0, 0), delayMs }];
+  }
+
+  const events: ScriptedTradeUpdate[] = [{ event: 'new', order: order('new', 0, 0), delayMs }];
+  let filledQty = 0;
+  let notional = 0;
+  fills.forEach((fill, i) => {
+    filledQty += fill.qty;
+    notional += fill.qty * fill.price;
+    const complete = filledQty >= spec.qty;
+    events.push({
+      event: complete ? 'fill' : 'partial_fill',
+      order: order(complete ? 'filled' : 'partially_filled', filledQty, notional),
+      price: fill.price,
+      qty: fill.qty,
+      positionQty: (spec.startPositionQty || 0) + sign * filledQty,
+      executionId: `${orderId}-exec-${i + 1}`,
+      delayMs,
+    });
+  });
+
+  if (outcome !== 'filled') {
+    events.push({ event: outcome, order: order(outcome, filledQty, notional), delayMs });
+  }
+  return events;
+}
+
+interface Connection {
+  socket: FakeWebSocket;
+  url: string;
+  authenticated: boolean;
+  listening: boolean;
+}
+
+export class FakeAlpacaTradingStreamServer {
+  private key: string;
+  private secret: string;
+  private connections: Connection[] = [];
+  private silent = false;
+  private refuse = false;
+  connectionCount = 0;               // Connections ever opened (reconnects included)
+  sent = 0;                          // trade_updates events delivered to listening connections
+
+  constructor(key: string = 'test-key', secret: string = 'test-secret') {
+    this.key = key;
+    this.secret = secret;
+  }
+
+  /**
+   * Pass to AlpacaTradeUpdatesStream in place of the real WebSocket constructor
+   */
+  readonly socketFactory: WebSocketFactory = (url: string) => {
+    if (this.refuse) throw new Error('connection refused');
+
+    const connection: Connection = {
+      socket: null as unknown as FakeWebSocket,
+      url,
+      authenticated: false,
+      listening: false,
+    };
+    connection.socket = new FakeWebSocket(
+      data => this.handleClientMessage(connection, data),
+      () => { this.connections = this.connections.filter(c => c !== connection); }
+    );
+    this.connections.push(connection);
+    this.connectionCount++;
+
+    // The trading stream says nothing on open; the client authenticates first
+    setTimeout(() => connection.socket.serverOpen(), 0);
+    return connection.socket;
+  };
+
+  getConnections(): { url: string; authenticated: boolean; listening: boolean }[] {
+    return this.connections.map(({ url, authenticated, listening }) => ({ url, authenticated, listening }));
+  }
+
+  /** Send one trade_updates event to every listening connection */
+  publish(update: ScriptedTradeUpdate): void {
+    const data: Record<string, unknown> = {
+      event: update.event,
+      order: update.order,
+      timestamp: update.timestamp || new Date().toISOString(),
+    };
+    if (update.price !== undefined) data.price = String(update.price);
+    if (update.qty !== undefined) data.qty = String(update.qty);
+    if (update.positionQty !== undefined) data.position_qty = String(update.positionQty);
+    if (update.executionId) data.execution_id = update.executionId;
+
+    for (const connection of this.connections) {
+      if (connection.listening && !this.silent) {
+        connection.socket.serverSend({ stream: 'trade_updates', data });
+        this.sent++;
+      }
+    }
+  }
+
+  /** Send a script in order, waiting each event's delayMs first; resolves once everything is sent */
+  async replay(script: ScriptedTradeUpdate[]): Promise<number> {
+    for (const update of script) {
+      await new Promise(resolve => setTimeout(resolve, update.delayMs ?? 0));
+      this.publish(update);
+    }
+    return script.length;
+  }
+
+  /** Close every connection from the server side (network drop) */
+  dropConnections(code: number = 1006): void {
+    for (const connection of [...this.connections]) connection.socket.close(code, 'dropped by fake server');
+  }
+
+  /** Stop answering and publishing while true (a half-open connection) */
+  setSilent(silent: boolean): void {
+    this.silent = silent;
+  }
+
+  /** Refuse new connections while true */
+  setRefuseConnections(refuse: boolean): void {
+    this.refuse = refuse;
+  }
+
+  private reply(connection: Connection, payload: unknown): void {
+    if (!this.silent) connection.socket.serverSend(payload);
+  }
+
+  private handleClientMessage(connection: Connection, data: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.reply(connection, { stream: 'error', data: { error: 'invalid syntax' } });
+      return;
+    }
+
+    if (message.action === 'auth' || message.action === 'authenticate') {
+      const key = message.key ?? message.data?.key_id;
+      const secret = message.secret ?? message.data?.secret_key;
+      connection.authenticated = key === this.key && secret === this.secret;
+      this.reply(connection, {
+        stream: 'authorization',
+        data: { action: 'authenticate', status: connection.authenticated ? 'authorized' : 'unauthorized' },
+      });
+      if (!connection.authenticated) setTimeout(() => connection.socket.close(1008, 'unauthorized'), 0);
+      return;
+    }
+
+    if (!connection.authenticated) {
+      this.reply(connection, { stream: 'error', data: { error: 'not authenticated' } });
+      return;
+    }
+
+    if (message.action === 'listen') {
+      const streams: string[] = message.data?.streams || [];
+      connection.listening = streams.includes('trade_updates');
+      this.reply(connection, { stream: 'listening', data: { streams: connection.listening ? ['trade_updates'] : [] } });
+      return;
+    }
+
+    this.reply(connection, { stream: 'error', data: { error: 'invalid action' } });
+  }
+}
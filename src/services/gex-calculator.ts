@@ -1,9 +1,15 @@
 /**
  * Gamma Exposure (GEX) Calculator
- * Implements real GEX calculations using Black-Scholes gamma and options flow data
+ * Implements real GEX calculations using Black-Scholes gamma over full option chain snapshots
  * Based on: https://perfiliev.com/blog/how-to-calculate-gamma-exposure-and-zero-gamma-level/
  */
 
+import { Clock, systemClock, getExchangeTime, exchangeTimeToDate } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+import { OptionChainSnapshot } from './option-chain-source';
+import { IVPoint, IVSurface, normalCDF, solveImpliedVolatility } from './implied-volatility';
+import { RatePoint, RateSource, DividendSource, DividendEvent, interpolateRate } from './rate-dividend-source';
+
 export interface OptionContract {
   strike: number;
   expiry: string;
@@ -14,82 +20,402 @@ export interface OptionContract {
   premium?: number;
   unitGamma?: number;
   unitDelta?: number;
+  customerFlow?: CustomerFlow;
+}
+
+export interface CustomerFlow {
+  buyVolume?: number;        // Customer volume traded at or near the ask
+  sellVolume?: number;       // Customer volume traded at or near the bid
+  openBuyVolume?: number;    // Customer buy-to-open volume
+  openSellVolume?: number;   // Customer sell-to-open volume
+  closeBuyVolume?: number;   // Customer buy-to-close volume
+  closeSellVolume?: number;  // Customer sell-to-close volume
+}
+
+export type GEXGridMode = 'percent' | 'atr';
+
+/**
+ * How dealer positioning is inferred per contract:
+ * - classic: dealers long calls, short puts
+ * - flow-inferred: dealers take the other side of the net customer buy/sell volume
+ * - open-close-aware: dealers take the other side of net customer opening volume only
+ * Contracts without the flow data a model needs fall back to the next simpler model.
+ */
+export type DealerPositionModel = 'classic' | 'flow-inferred' | 'open-close-aware';
+
+export interface GEXConfig {
+  gridMode: GEXGridMode;                    // Profile range as ± percent of spot or ± ATR multiples
+  gridPercent: number;                      // Half-width of the percent grid (0.2 = ±20%)
+  gridATRSpan: number;                      // Half-width of the ATR grid in ATRs
+  minGridPercent: number;                   // Floor on the ATR grid half-width as a fraction of spot
+  gridPoints: number;                       // Spot levels in the profile, both ends included
+  riskFreeRate: number | RatePoint[];       // Flat rate or a term curve (linear in tenor, flat beyond the ends)
+  dividendYield: number;                    // Default continuous dividend yield
+  dividendYields: Record<string, number>;   // Per-symbol dividend yield overrides
+  rateSource?: RateSource;                  // Treasury curve; takes precedence over riskFreeRate
+  dividendSource?: DividendSource;          // Dividend table; takes precedence over dividendYield(s)
+  dealerModel: DealerPositionModel;
+  contractSize: number;
+}
+
+export const DEFAULT_GEX_CONFIG: GEXConfig = {
+  gridMode: 'percent',
+  gridPercent: 0.2,
+  gridATRSpan: 5,
+  minGridPercent: 0.02,
+  gridPoints: 41,
+  riskFreeRate: 0.05,
+  dividendYield: 0.02,
+  dividendYields: {},
+  dealerModel: 'classic',
+  contractSize: 100,
+};
+
+export interface GEXAssumptions {
+  dealerModel: DealerPositionModel;
+  dealerModelCoverage: Record<DealerPositionModel, number>; // Contracts positioned by each model after fallbacks
+  grid: {
+    mode: GEXGridMode;       // Mode actually used (ATR falls back to percent without an ATR)
+    minSpot: number;
+    maxSpot: number;
+    points: number;
+    atr: number | null;
+  };
+  rateSource: string;        // 'config' when the rate comes from GEXConfig.riskFreeRate
+  riskFreeCurve: RatePoint[];
+  dividendSource: string;    // 'config' when the yield comes from GEXConfig.dividendYield(s)
+  dividendYield: number;     // Continuous yield applied to this symbol
+  dividends: DividendEvent[];  // Upcoming discrete dividends priced into each expiry
+  contractSize: number;
+}
+
+/**
+ * Rates and dividends resolved once per calculation for one symbol
+ */
+interface PricingInputs {
+  riskFreeRate: (timeToExpiry: number) => number;
+  dividendYield: (timeToExpiry: number, spot: number) => number;
+  assumptions: Pick<GEXAssumptions, 'rateSource' | 'riskFreeCurve' | 'dividendSource' | 'dividendYield' | 'dividends'>;
+}
+
+interface GEXContext {
+  grid: GEXAssumptions['grid'];
+  inputs: PricingInputs;
+  chainSource?: string;
+}
+
+export interface GEXOptions {
+  atr?: number;              // Average true range in price units, required for the ATR grid
+}
+
+export interface OptionGreeks {
+  delta: number;             // dV/dS
+  gamma: number;             // d2V/dS2
+  vanna: number;             // dDelta per 1 vol point (0.01 IV)
+  charm: number;             // Delta change per trading day of time decay
+  vega: number;              // $ per share per 1 vol point
+}
+
+export interface ContractGreeks extends OptionContract {
+  greeks: OptionGreeks;
+}
+
+export type ExpiryBucket = '0dte' | 'week' | 'month' | 'beyond';
+
+export interface ExpiryBucketGEX {
+  bucket: ExpiryBucket;      // 0DTE, rest of this week, rest of this month, later
+  expiries: string[];
+  contractCount: number;
+  totalGEX: number;          // $ billions per 1% move
+  callGEX: number;
+  putGEX: number;
+  zeroGammaLevel: number | null;
+  callWall: number | null;   // Strike with the largest call GEX
+  putWall: number | null;    // Strike with the largest (most negative) put GEX
+  contributionPct: number;   // Bucket GEX as % of net total GEX (buckets can offset)
+  grossSharePct: number;     // Bucket |call| + |put| GEX as % of the gross across buckets
+}
+
+export interface GEXKeyLevels {
+  callWall: number | null;     // Strike with the largest call GEX (dealer resistance)
+  putWall: number | null;      // Strike with the largest put GEX (dealer support)
+  gammaFlips: number[];        // Every zero crossing of the GEX profile, ascending
+  largestGEXStrikes: Array<{ strike: number; gex: number }>; // Top strikes by |GEX|
+  magnetPrice: number | null;  // |GEX|-weighted average strike that price tends to gravitate towards
 }
 
 export interface GEXData {
   totalGEX: number;           // Total gamma exposure in $ billions per 1% move
   callGEX: number;           // Call gamma exposure
   putGEX: number;            // Put gamma exposure  
-  zeroGammaLevel: number | null;  // Zero gamma level (ZGL)
+  zeroGammaLevel: number | null;  // Zero gamma level (ZGL): the gamma flip nearest spot
   currentSpot: number;       // Current underlying price
-  perStrikeGEX: Array<{      // GEX breakdown by strike
+  keyLevels: GEXKeyLevels;
+  totalDEX: number;          // Dealer delta exposure in $ billions of underlying
+  totalVEX: number;          // Vanna exposure: $ billions of delta per 1 vol point
+  totalCharm: number;        // Charm exposure: $ billions of delta per trading day
+  totalVega: number;         // Vega exposure: $ billions per 1 vol point
+  perStrikeGEX: Array<{      // GEX breakdown by strike ($, not billions)
     strike: number;
     gex: number;
     callGEX: number;
     putGEX: number;
+    dex: number;
+    vex: number;
+    charm: number;
+    vega: number;
   }>;
-  profile: Array<{           // GEX profile across spot levels
+  profile: Array<{           // Exposure profile across spot levels ($ billions)
     spotLevel: number;
     totalGEX: number;
+    totalDEX: number;
+    totalVEX: number;
+    totalCharm: number;
   }>;
+  expiryBuckets: ExpiryBucketGEX[];
+  assumptions: GEXAssumptions;
+  chainSource?: string;      // Source of the chain the GEX was computed from
+  contractCount: number;     // Contracts with open interest that contributed
   timestamp: string;
 }
 
 export class GEXCalculator {
-  private riskFreeRate: number = 0.05;  // 5% risk-free rate
-  private dividendYield: number = 0.02; // 2% dividend yield  
-  private contractSize: number = 100;   // Standard option contract size
+  private config: GEXConfig;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private expiryTimes: Map<string, number> | null = null;   // Time to expiry by expiry date within one calculation
+
+  constructor(
+    riskFreeRate?: number,
+    dividendYield?: number,
+    clock: Clock = systemClock,
+    calendar: TradingCalendar = tradingCalendar,
+    config: Partial<GEXConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_GEX_CONFIG, ...config };
+    this.config.dividendYields = Object.fromEntries(
+      Object.entries(this.config.dividendYields).map(([symbol, yieldValue]) => [symbol.toUpperCase(), yieldValue])
+    );
+    if (riskFreeRate !== undefined) this.config.riskFreeRate = riskFreeRate;
+    if (dividendYield !== undefined) this.config.dividendYield = dividendYield;
+    this.clock = clock;
+    this.calendar = calendar;
+  }
+
+  getConfig(): GEXConfig {
+    return { ...this.config, dividendYields: { ...this.config.dividendYields } };
+  }
+
+  /**
+   * Risk-free curve and dividends for a symbol as of now. Discrete dividends become an
+   * equivalent continuous yield per expiry: q(T) = -ln(1 - PV(dividends before T) / S) / T
+   */
+  private getPricingInputs(symbol?: string): PricingInputs {
+    const now = this.clock.now();
+    const { rateSource, dividendSource } = this.config;
+
+    let curve: RatePoint[];
+    if (rateSource) {
+      curve = rateSource.getCurve(now);
+    } else {
+      const configured = this.config.riskFreeRate;
+      curve = typeof configured === 'number' || configured.length === 0
+        ? [{ years: 0, rate: typeof configured === 'number' ? configured : DEFAULT_GEX_CONFIG.riskFreeRate as number }]
+        : [...configured].sort((a, b) => a.years - b.years);
+    }
+    const riskFreeRate = (timeToExpiry: number) => interpolateRate(curve, timeToExpiry);
+
+    const schedule = dividendSource && symbol
+      ? dividendSource.getDividends(symbol, now)
+      : { yield: (symbol ? this.config.dividendYields[symbol.toUpperCase()] : undefined) ?? this.config.dividendYield, dividends: [] };
+
+    // Ex-dates on the same trading-time scale as expiries (trading years)
+    const payments = schedule.dividends.map(dividend => {
+      const time = this.calendar.getTradingDaysBetween(now, exchangeTimeToDate(dividend.exDate, 9, 30)) / 252;
+      return { time, presentValue: dividend.amount * Math.exp(-riskFreeRate(time) * time) };
+    }).filter(payment => payment.time > 0);
+
+    const dividendYield = (timeToExpiry: number, spot: number) => {
+      const presentValue = payments
+        .filter(payment => payment.time <= timeToExpiry)
+        .reduce((sum, payment) => sum + payment.presentValue, 0);
+      if (presentValue <= 0 || timeToExpiry <= 0 || spot <= 0) return schedule.yield;
+      return schedule.yield - Math.log(1 - Math.min(presentValue / spot, 0.95)) / timeToExpiry;
+    };
 
-  constructor(riskFreeRate?: number, dividendYield?: number) {
-    if (riskFreeRate !== undefined) this.riskFreeRate = riskFreeRate;
-    if (dividendYield !== undefined) this.dividendYield = dividendYield;
+    return {
+      riskFreeRate,
+      dividendYield,
+      assumptions: {
+        rateSource: rateSource?.name ?? 'config',
+        riskFreeCurve: curve,
+        dividendSource: dividendSource && symbol ? dividendSource.name : 'config',
+        dividendYield: schedule.yield,
+        dividends: schedule.dividends,
+      },
+    };
   }
 
   /**
-   * Calculate Black-Scholes unit gamma
+   * Calculate Black-Scholes-Merton delta, gamma, vanna, charm and vega
    */
-  private calculateUnitGamma(
+  private calculateGreeks(
     spot: number,
-    strike: number, 
+    strike: number,
     timeToExpiry: number,
     impliedVolatility: number,
-    riskFreeRate: number = this.riskFreeRate,
-    dividendYield: number = this.dividendYield
+    isCall: boolean,
+    riskFreeRate: number,
+    dividendYield: number
+  ): OptionGreeks {
+    if (timeToExpiry <= 0 || impliedVolatility <= 0 || spot <= 0 || strike <= 0) {
+      return { delta: 0, gamma: 0, vanna: 0, charm: 0, vega: 0 };
+    }
+
+    const sqrtT = Math.sqrt(timeToExpiry);
+    const sigmaSqrtT = impliedVolatility * sqrtT;
+    const d1 = (
+      Math.log(spot / strike) +
+      (riskFreeRate - dividendYield + 0.5 * impliedVolatility * impliedVolatility) * timeToExpiry
+    ) / sigmaSqrtT;
+    const d2 = d1 - sigmaSqrtT;
+
+    const discountQ = Math.exp(-dividendYield * timeToExpiry);
+    const pdf = Math.exp(-0.5 * d1 * d1) / Math.sqrt(2 * Math.PI);
+
+    const delta = isCall
+      ? discountQ * normalCDF(d1)
+      : -discountQ * normalCDF(-d1);
+    const gamma = discountQ * pdf / (spot * sigmaSqrtT);
+    const vega = spot * discountQ * pdf * sqrtT;
+    const vanna = -discountQ * pdf * d2 / impliedVolatility;
+
+    // Charm = -dDelta/dT (delta drift as time passes), per year
+    const decay = discountQ * pdf * (2 * (riskFreeRate - dividendYield) * timeToExpiry - d2 * sigmaSqrtT) / (2 * timeToExpiry * sigmaSqrtT);
+    const charm = isCall
+      ? dividendYield * discountQ * normalCDF(d1) - decay
+      : -dividendYield * discountQ * normalCDF(-d1) - decay;
+
+    return {
+      delta,
+      gamma,
+      vanna: vanna * 0.01,
+      charm: charm / 252, // Time to expiry is measured in trading years
+      vega: vega * 0.01,
+    };
+  }
+
+  /**
+   * Implied volatility for a contract: quoted IV, else solved from premium,
+   * else interpolated from the chain's IV surface, else 30%
+   */
+  private resolveImpliedVolatility(
+    contract: OptionContract,
+    spot: number,
+    timeToExpiry: number,
+    isCall: boolean,
+    inputs: PricingInputs,
+    surface?: IVSurface | null
   ): number {
-    if (timeToExpiry <= 0 || impliedVolatility <= 0 || spot <= 0) {
-      return 0.0;
+    if (contract.impliedVolatility) return contract.impliedVolatility;
+
+    if (contract.premium) {
+      const solved = this.calculateImpliedVolatility(
+        contract.premium, spot, contract.strike, timeToExpiry, isCall, inputs
+      );
+      if (solved) return solved;
     }
 
-    try {
-      const d1 = (
-        Math.log(spot / strike) + 
-        (riskFreeRate - dividendYield + 0.5 * impliedVolatility * impliedVolatility) * timeToExpiry
-      ) / (impliedVolatility * Math.sqrt(timeToExpiry));
+    return surface?.getVolatility(contract.strike, timeToExpiry) || 0.3; // Default 30% IV only when nothing is quoted
+  }
 
-      // Standard normal probability density function
-      const phi_d1 = Math.exp(-0.5 * d1 * d1) / Math.sqrt(2 * Math.PI);
+  /**
+   * Fit an IV surface (SVI per expiry) from the quoted or premium-implied vols in a chain
+   */
+  buildIVSurface(chain: OptionChainSnapshot | OptionContract[], currentSpot?: number): IVSurface {
+    return this.withExpiryTimes(() => {
+      const contracts = Array.isArray(chain) ? chain : chain.contracts;
+      const symbol = Array.isArray(chain) ? '' : chain.symbol;
+      const spot = currentSpot ?? (Array.isArray(chain) ? undefined : chain.underlyingPrice);
+      const inputs = this.getPricingInputs(symbol);
+
+      if (!spot || spot <= 0) {
+        throw new Error('buildIVSurface requires a spot price (pass currentSpot or a snapshot with underlyingPrice)');
+      }
 
-      const gamma = Math.exp(-dividendYield * timeToExpiry) * phi_d1 / 
-                   (spot * impliedVolatility * Math.sqrt(timeToExpiry));
+      const points: IVPoint[] = [];
+      for (const contract of contracts) {
+        if (!contract.strike || !contract.expiry) continue;
 
-      return gamma;
-    } catch (error) {
-      console.warn('Error calculating unit gamma:', error);
-      return 0.0;
+        const timeToExpiry = this.calculateTimeToExpiry(contract.expiry);
+        const isCall = contract.type.toLowerCase() === 'call';
+        const iv = contract.impliedVolatility
+          || (contract.premium ? this.calculateImpliedVolatility(contract.premium, spot, contract.strike, timeToExpiry, isCall, inputs) : null);
+
+        if (iv) {
+          points.push({ strike: contract.strike, expiry: contract.expiry, timeToExpiry, iv });
+        }
+      }
+
+      return IVSurface.fit(symbol, spot, points, inputs.riskFreeRate, t => inputs.dividendYield(t, spot));
+    });
+  }
+
+  /**
+   * Greeks for every contract in a chain at the given spot (quoted gamma/delta take precedence)
+   */
+  calculateContractGreeks(contracts: OptionContract[], currentSpot: number, surface?: IVSurface | null, symbol?: string): ContractGreeks[] {
+    return this.withExpiryTimes(() => {
+      const ivSurface = surface === undefined ? this.buildIVSurface(contracts, currentSpot) : surface;
+      const inputs = this.getPricingInputs(symbol ?? ivSurface?.symbol);
+
+      return contracts
+        .filter(contract => contract.strike && contract.expiry)
+        .map(contract => {
+          const timeToExpiry = this.calculateTimeToExpiry(contract.expiry);
+          const isCall = contract.type.toLowerCase() === 'call';
+          const iv = this.resolveImpliedVolatility(contract, currentSpot, timeToExpiry, isCall, inputs, ivSurface);
+          const greeks = this.calculateGreeks(
+            currentSpot, contract.strike, timeToExpiry, iv, isCall,
+            inputs.riskFreeRate(timeToExpiry), inputs.dividendYield(timeToExpiry, currentSpot)
+          );
+
+          if (contract.unitGamma) greeks.gamma = contract.unitGamma;
+          if (contract.unitDelta !== undefined) greeks.delta = contract.unitDelta;
+
+          return { ...contract, impliedVolatility: iv, unitGamma: greeks.gamma, unitDelta: greeks.delta, greeks };
+        });
+    });
+  }
+
+  /**
+   * Run a calculation with time to expiry worked out once per distinct expiry; nested calls share the scope
+   */
+  private withExpiryTimes<T>(calculate: () => T): T {
+    if (this.expiryTimes) return calculate();
+    this.expiryTimes = new Map();
+    try {
+      return calculate();
+    } finally {
+      this.expiryTimes = null;
     }
   }
 
   /**
-   * Calculate time to expiry in years (business days)
+   * Calculate time to expiry in years of regular-session trading time
+   * Uses the exchange calendar, so weekends, holidays and early closes are excluded
    */
   private calculateTimeToExpiry(expiryDate: string): number {
-    const expiry = new Date(expiryDate);
-    const now = new Date();
-    const diffMs = expiry.getTime() - now.getTime();
-    const diffDays = Math.max(1, diffMs / (1000 * 60 * 60 * 24)); // At least 1 day
+    const cached = this.expiryTimes?.get(expiryDate);
+    if (cached !== undefined) return cached;
+
+    const expiry = this.calendar.getExpirationClose(expiryDate);
+    const tradingDays = this.calendar.getTradingDaysBetween(this.clock.now(), expiry);
     
-    // Convert to business days (assume 262 business days per year)
-    return diffDays / 365 * (262 / 365);
+    // At least one trading hour so same-day expiries keep a finite gamma
+    const timeToExpiry = Math.max(tradingDays, 1 / 6.5) / 252;
+    this.expiryTimes?.set(expiryDate, timeToExpiry);
+    return timeToExpiry;
   }
 
   /**
@@ -99,80 +425,141 @@ export class GEXCalculator {
     unitGamma: number,
     contracts: number,
     spot: number,
-    isCall: boolean = true
+    dealerPosition: number = 1
   ): number {
     // GEX = unit_gamma * contracts * contract_size * spot^2 * 0.01
     // Result is in $ per 1% move of underlying
-    const gex = unitGamma * contracts * this.contractSize * spot * spot * 0.01;
+    const gex = unitGamma * contracts * this.config.contractSize * spot * spot * 0.01;
     
-    // Sign convention: calls positive, puts negative (assuming dealers long calls, short puts)
-    return isCall ? gex : -gex;
+    // Dealer position: +1 when dealers are fully long the open interest, -1 when fully short
+    return gex * dealerPosition;
   }
 
   /**
-   * Calculate implied volatility from option price using Newton-Raphson method
-   * Simple approximation - in production would use more sophisticated solver
+   * Dealer position per contract of open interest (-1..1) under the configured model,
+   * falling back to simpler models when the contract lacks the flow data
+   */
+  private getDealerPosition(contract: OptionContract): { position: number; model: DealerPositionModel } {
+    const flow = contract.customerFlow;
+    const model = this.config.dealerModel;
+
+    if (model === 'open-close-aware' && flow) {
+      // Closing trades only unwind existing positions; opening trades show who holds the open interest
+      const openBuy = flow.openBuyVolume ?? 0;
+      const openSell = flow.openSellVolume ?? 0;
+      if (openBuy + openSell > 0) {
+        return { position: -(openBuy - openSell) / (openBuy + openSell), model: 'open-close-aware' };
+      }
+    }
+
+    if ((model === 'open-close-aware' || model === 'flow-inferred') && flow) {
+      const buy = flow.buyVolume ?? 0;
+      const sell = flow.sellVolume ?? 0;
+      if (buy + sell > 0) {
+        return { position: -(buy - sell) / (buy + sell), model: 'flow-inferred' };
+      }
+    }
+
+    // Classic: customers sell calls (overwriting) and buy puts (hedging)
+    return { position: contract.type.toLowerCase() === 'call' ? 1 : -1, model: 'classic' };
+  }
+
+  /**
+   * Calculate implied volatility from option price (dividend-adjusted, Newton with Brent fallback)
+   * Returns null when the price is outside no-arbitrage bounds
    */
   private calculateImpliedVolatility(
     optionPrice: number,
     spot: number,
     strike: number,
     timeToExpiry: number,
-    isCall: boolean
-  ): number {
-    // Simple approximation based on ATM volatility
-    // For more accuracy, implement full Black-Scholes IV solver
-    const moneyness = spot / strike;
-    
-    if (isCall) {
-      // Rough approximation for call IV
-      return Math.max(0.1, Math.min(2.0, optionPrice / spot * Math.sqrt(2 * Math.PI / timeToExpiry)));
-    } else {
-      // Rough approximation for put IV  
-      return Math.max(0.1, Math.min(2.0, optionPrice / strike * Math.sqrt(2 * Math.PI / timeToExpiry)));
-    }
+    isCall: boolean,
+    inputs: PricingInputs
+  ): number | null {
+    return solveImpliedVolatility(
+      optionPrice, spot, strike, timeToExpiry,
+      inputs.riskFreeRate(timeToExpiry), inputs.dividendYield(timeToExpiry, spot), isCall
+    );
+  }
+
+  /**
+   * Calculate total GEX and zero gamma level from a chain snapshot or a list of contracts.
+   * The spot defaults to the snapshot's underlying price when not given.
+   */
+  calculateGEX(chain: OptionChainSnapshot | OptionContract[], currentSpot?: number, options: GEXOptions = {}): GEXData {
+    return this.withExpiryTimes(() => {
+      const contracts = Array.isArray(chain) ? chain : chain.contracts;
+      const chainSource = Array.isArray(chain) ? undefined : chain.source;
+      const spot = currentSpot ?? (Array.isArray(chain) ? undefined : chain.underlyingPrice);
+
+      if (!spot || spot <= 0) {
+        throw new Error('calculateGEX requires a spot price (pass currentSpot or a snapshot with underlyingPrice)');
+      }
+
+      // Contracts without quotes get vols interpolated from the surface fitted to the whole chain
+      const surface = this.buildIVSurface(chain, spot);
+
+      return this.calculateContractsGEX(contracts, spot, surface, {
+        grid: this.resolveGrid(spot, options.atr),
+        inputs: this.getPricingInputs(surface.symbol),
+        chainSource,
+      });
+    });
   }
 
   /**
-   * Calculate total GEX and zero gamma level from options contracts
+   * Spot range for the exposure profile: ± ATR multiples (floored at minGridPercent of spot)
+   * when an ATR is available in ATR mode, otherwise ± percent of spot
    */
-  calculateGEX(contracts: OptionContract[], currentSpot: number): GEXData {
+  private resolveGrid(currentSpot: number, atr?: number): GEXAssumptions['grid'] {
+    const points = Math.max(2, Math.round(this.config.gridPoints));
+    const useATR = this.config.gridMode === 'atr' && atr !== undefined && atr > 0;
+    const halfWidth = useATR
+      ? Math.max(this.config.gridATRSpan * atr!, this.config.minGridPercent * currentSpot)
+      : this.config.gridPercent * currentSpot;
+
+    return {
+      mode: useATR ? 'atr' : 'percent',
+      minSpot: Math.max(currentSpot - halfWidth, currentSpot * 0.01),
+      maxSpot: currentSpot + halfWidth,
+      points,
+      atr: useATR ? atr! : null,
+    };
+  }
+
+  private calculateContractsGEX(
+    contracts: OptionContract[],
+    currentSpot: number,
+    surface: IVSurface,
+    context: GEXContext,
+    bucketByExpiry: boolean = true
+  ): GEXData {
     console.log(`Calculating GEX for ${contracts.length} contracts at spot ${currentSpot}`);
 
     let totalCallGEX = 0;
     let totalPutGEX = 0;
-    const perStrikeMap = new Map<number, {callGEX: number, putGEX: number}>();
-
-    // Process each contract
-    for (const contract of contracts) {
-      if (!contract.strike || !contract.expiry || !contract.openInterest) {
-        continue;
-      }
-
-      const timeToExpiry = this.calculateTimeToExpiry(contract.expiry);
+    let totalDEX = 0;
+    let totalVEX = 0;
+    let totalCharm = 0;
+    let totalVega = 0;
+    let contractCount = 0;
+    const dealerModelCoverage: Record<DealerPositionModel, number> = { 'classic': 0, 'flow-inferred': 0, 'open-close-aware': 0 };
+    const perStrikeMap = new Map<number, {callGEX: number, putGEX: number, dex: number, vex: number, charm: number, vega: number}>();
+
+    // Process each contract (only contracts with open interest carry dealer positioning)
+    const positioned = contracts.filter(contract => contract.strike && contract.expiry && contract.openInterest);
+    for (const contract of this.calculateContractGreeks(positioned, currentSpot, surface, surface.symbol)) {
+      contractCount++;
       const isCall = contract.type.toLowerCase() === 'call';
-      
-      // Get or calculate implied volatility
-      let iv = contract.impliedVolatility;
-      if (!iv && contract.premium) {
-        iv = this.calculateImpliedVolatility(
-          contract.premium, currentSpot, contract.strike, timeToExpiry, isCall
-        );
-      }
-      if (!iv) iv = 0.3; // Default 30% IV if cannot determine
-      
-      // Get or calculate unit gamma
-      let unitGamma = contract.unitGamma;
-      if (!unitGamma) {
-        unitGamma = this.calculateUnitGamma(
-          currentSpot, contract.strike, timeToExpiry, iv
-        );
-      }
+      const { greeks } = contract;
+      const dealer = this.getDealerPosition(contract);
+      dealerModelCoverage[dealer.model]++;
 
-      // Calculate option's GEX contribution
+      // Calculate option's GEX and second-order exposure contributions
       const optionGEX = this.calculateOptionGEX(
-        unitGamma, contract.openInterest, currentSpot, isCall
+        greeks.gamma, contract.openInterest, currentSpot, dealer.position
       );
+      const exposure = this.calculateOptionExposures(greeks, contract.openInterest, currentSpot, dealer.position);
 
       // Aggregate by type
       if (isCall) {
@@ -180,14 +567,22 @@ export class GEXCalculator {
       } else {
         totalPutGEX += optionGEX;
       }
+      totalDEX += exposure.dex;
+      totalVEX += exposure.vex;
+      totalCharm += exposure.charm;
+      totalVega += exposure.vega;
 
       // Aggregate by strike
-      const strikeData = perStrikeMap.get(contract.strike) || {callGEX: 0, putGEX: 0};
+      const strikeData = perStrikeMap.get(contract.strike) || {callGEX: 0, putGEX: 0, dex: 0, vex: 0, charm: 0, vega: 0};
       if (isCall) {
         strikeData.callGEX += optionGEX;
       } else {
         strikeData.putGEX += optionGEX;
       }
+      strikeData.dex += exposure.dex;
+      strikeData.vex += exposure.vex;
+      strikeData.charm += exposure.charm;
+      strikeData.vega += exposure.vega;
       perStrikeMap.set(contract.strike, strikeData);
     }
 
@@ -199,13 +594,28 @@ export class GEXCalculator {
         strike,
         gex: data.callGEX + data.putGEX,
         callGEX: data.callGEX,
-        putGEX: data.putGEX
+        putGEX: data.putGEX,
+        dex: data.dex,
+        vex: data.vex,
+        charm: data.charm,
+        vega: data.vega
       }))
       .sort((a, b) => a.strike - b.strike);
 
-    // Calculate GEX profile and Zero Gamma Level
-    const profile = this.calculateGEXProfile(contracts, currentSpot);
-    const zeroGammaLevel = this.findZeroGammaLevel(profile);
+    // Calculate exposure profile, gamma flips and key levels
+    const profile = this.calculateGEXProfile(positioned, currentSpot, surface, context);
+    const gammaFlips = this.findGammaFlips(profile);
+    const zeroGammaLevel = this.findZeroGammaLevel(gammaFlips, currentSpot);
+    const keyLevels: GEXKeyLevels = {
+      ...this.findWalls(perStrikeGEX),
+      gammaFlips,
+      largestGEXStrikes: this.findLargestGEXStrikes(perStrikeGEX),
+      magnetPrice: this.findMagnetPrice(perStrikeGEX),
+    };
+
+    const expiryBuckets = bucketByExpiry
+      ? this.calculateExpiryBuckets(positioned, currentSpot, surface, context, totalGEX / 1e9)
+      : [];
 
     return {
       totalGEX: totalGEX / 1e9, // Convert to billions
@@ -213,73 +623,202 @@ export class GEXCalculator {
       putGEX: totalPutGEX / 1e9,
       zeroGammaLevel,
       currentSpot,
+      keyLevels,
+      totalDEX: totalDEX / 1e9,
+      totalVEX: totalVEX / 1e9,
+      totalCharm: totalCharm / 1e9,
+      totalVega: totalVega / 1e9,
       perStrikeGEX,
       profile: profile.map(p => ({
         spotLevel: p.spotLevel,
-        totalGEX: p.totalGEX / 1e9
+        totalGEX: p.totalGEX / 1e9,
+        totalDEX: p.totalDEX / 1e9,
+        totalVEX: p.totalVEX / 1e9,
+        totalCharm: p.totalCharm / 1e9
       })),
-      timestamp: new Date().toISOString()
+      expiryBuckets,
+      assumptions: {
+        dealerModel: this.config.dealerModel,
+        dealerModelCoverage,
+        grid: context.grid,
+        ...context.inputs.assumptions,
+        contractSize: this.config.contractSize,
+      },
+      chainSource: context.chainSource,
+      contractCount,
+      timestamp: this.clock.now().toISOString()
     };
   }
 
   /**
-   * Calculate GEX profile across different spot levels
+   * Classify an expiry relative to today's exchange date
+   */
+  private getExpiryBucket(expiry: string): ExpiryBucket {
+    const today = getExchangeTime(this.clock.now());
+    const expiryDate = expiry.split('T')[0];
+    if (expiryDate <= today.date) return '0dte';
+
+    // Next Friday on or after today (weekday 0 = Sunday), so over the weekend it is the coming Friday
+    const friday = new Date(Date.UTC(today.year, today.month - 1, today.day + (5 - today.weekday + 7) % 7));
+    if (expiryDate <= friday.toISOString().split('T')[0]) return 'week';
+
+    if (expiryDate.slice(0, 7) === today.date.slice(0, 7)) return 'month';
+
+    return 'beyond';
+  }
+
+  /**
+   * GEX per expiry bucket, each with its own zero gamma level and walls
+   */
+  private calculateExpiryBuckets(
+    contracts: OptionContract[],
+    currentSpot: number,
+    surface: IVSurface,
+    context: GEXContext,
+    totalGEX: number
+  ): ExpiryBucketGEX[] {
+    const order: ExpiryBucket[] = ['0dte', 'week', 'month', 'beyond'];
+    const grouped = new Map<ExpiryBucket, OptionContract[]>(order.map(bucket => [bucket, []]));
+    for (const contract of contracts) {
+      grouped.get(this.getExpiryBucket(contract.expiry))!.push(contract);
+    }
+
+    const buckets = order.map(bucket => {
+      const bucketContracts = grouped.get(bucket)!;
+      const data = bucketContracts.length > 0
+        ? this.calculateContractsGEX(bucketContracts, currentSpot, surface, context, false)
+        : null;
+
+      return {
+        bucket,
+        expiries: Array.from(new Set(bucketContracts.map(contract => contract.expiry))).sort(),
+        contractCount: data?.contractCount ?? 0,
+        totalGEX: data?.totalGEX ?? 0,
+        callGEX: data?.callGEX ?? 0,
+        putGEX: data?.putGEX ?? 0,
+        zeroGammaLevel: data?.zeroGammaLevel ?? null,
+        callWall: data?.keyLevels.callWall ?? null,
+        putWall: data?.keyLevels.putWall ?? null,
+        contributionPct: 0,
+        grossSharePct: 0,
+      };
+    });
+
+    const gross = buckets.reduce((sum, b) => sum + Math.abs(b.callGEX) + Math.abs(b.putGEX), 0);
+    for (const bucket of buckets) {
+      bucket.contributionPct = totalGEX !== 0 ? bucket.totalGEX / totalGEX * 100 : 0;
+      bucket.grossSharePct = gross > 0 ? (Math.abs(bucket.callGEX) + Math.abs(bucket.putGEX)) / gross * 100 : 0;
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Call wall (largest call GEX strike) and put wall (largest put GEX strike)
    */
-  private calculateGEXProfile(contracts: OptionContract[], currentSpot: number): Array<{spotLevel: number, totalGEX: number}> {
-    const profile: Array<{spotLevel: number, totalGEX: number}> = [];
+  private findWalls(perStrikeGEX: GEXData['perStrikeGEX']): { callWall: number | null; putWall: number | null } {
+    let callWall: number | null = null;
+    let putWall: number | null = null;
+    let maxCall = 0;
+    let maxPut = 0;
+
+    for (const row of perStrikeGEX) {
+      if (row.callGEX > maxCall) {
+        maxCall = row.callGEX;
+        callWall = row.strike;
+      }
+      if (-row.putGEX > maxPut) {
+        maxPut = -row.putGEX;
+        putWall = row.strike;
+      }
+    }
+
+    return { callWall, putWall };
+  }
+
+  /**
+   * Dealer delta, vanna, charm and vega exposure for one contract line, in $
+   * Uses the same dealer position as GEX
+   */
+  private calculateOptionExposures(
+    greeks: OptionGreeks,
+    contracts: number,
+    spot: number,
+    dealerPosition: number
+  ): { dex: number; vex: number; charm: number; vega: number } {
+    const sign = dealerPosition;
+    const shares = contracts * this.config.contractSize;
+
+    return {
+      dex: sign * greeks.delta * shares * spot,   // $ delta
+      vex: sign * greeks.vanna * shares * spot,   // $ delta per 1 vol point
+      charm: sign * greeks.charm * shares * spot, // $ delta per trading day
+      vega: sign * greeks.vega * shares,          // $ per 1 vol point
+    };
+  }
+
+  /**
+   * Calculate GEX, DEX, vanna and charm exposure across different spot levels
+   */
+  private calculateGEXProfile(
+    contracts: OptionContract[],
+    currentSpot: number,
+    surface: IVSurface,
+    context: GEXContext
+  ): Array<{spotLevel: number, totalGEX: number, totalDEX: number, totalVEX: number, totalCharm: number}> {
+    const profile: Array<{spotLevel: number, totalGEX: number, totalDEX: number, totalVEX: number, totalCharm: number}> = [];
     
-    // Create spot level range (±20% around current spot)
-    const minSpot = currentSpot * 0.8;
-    const maxSpot = currentSpot * 1.2; 
-    const numLevels = 40;
+    // Spot level range from the configured percent or ATR grid
+    const { minSpot, maxSpot, points } = context.grid;
+    const numLevels = points - 1;
+    const { inputs } = context;
+
+    // Time to expiry, IV, rate and dealer position do not depend on the spot level, so resolve them once
+    const contractInputs = contracts.map(contract => {
+      const timeToExpiry = this.calculateTimeToExpiry(contract.expiry);
+      const isCall = contract.type.toLowerCase() === 'call';
+      return {
+        contract,
+        timeToExpiry,
+        isCall,
+        iv: this.resolveImpliedVolatility(contract, currentSpot, timeToExpiry, isCall, inputs, surface),
+        riskFreeRate: inputs.riskFreeRate(timeToExpiry),
+        dealerPosition: this.getDealerPosition(contract).position,
+      };
+    });
     
     for (let i = 0; i <= numLevels; i++) {
       const spotLevel = minSpot + (maxSpot - minSpot) * i / numLevels;
-      let totalGEXAtLevel = 0;
-
-      for (const contract of contracts) {
-        if (!contract.strike || !contract.expiry || !contract.openInterest) {
-          continue;
-        }
-
-        const timeToExpiry = this.calculateTimeToExpiry(contract.expiry);
-        const isCall = contract.type.toLowerCase() === 'call';
-        
-        // Use original IV or default
-        let iv = contract.impliedVolatility;
-        if (!iv && contract.premium) {
-          iv = this.calculateImpliedVolatility(
-            contract.premium, currentSpot, contract.strike, timeToExpiry, isCall
-          );
-        }
-        if (!iv) iv = 0.3;
+      const level = { spotLevel, totalGEX: 0, totalDEX: 0, totalVEX: 0, totalCharm: 0 };
 
-        // Recalculate unit gamma at this spot level
-        const unitGamma = this.calculateUnitGamma(
-          spotLevel, contract.strike, timeToExpiry, iv
+      for (const { contract, timeToExpiry, isCall, iv, riskFreeRate, dealerPosition } of contractInputs) {
+        // Recalculate greeks at this spot level (discrete dividends weigh less as spot rises)
+        const greeks = this.calculateGreeks(
+          spotLevel, contract.strike, timeToExpiry, iv, isCall,
+          riskFreeRate, inputs.dividendYield(timeToExpiry, spotLevel)
         );
+        const exposure = this.calculateOptionExposures(greeks, contract.openInterest, spotLevel, dealerPosition);
 
-        // Calculate GEX at this level
-        const optionGEX = this.calculateOptionGEX(
-          unitGamma, contract.openInterest, spotLevel, isCall
+        level.totalGEX += this.calculateOptionGEX(
+          greeks.gamma, contract.openInterest, spotLevel, dealerPosition
         );
-
-        totalGEXAtLevel += optionGEX;
+        level.totalDEX += exposure.dex;
+        level.totalVEX += exposure.vex;
+        level.totalCharm += exposure.charm;
       }
 
-      profile.push({
-        spotLevel,
-        totalGEX: totalGEXAtLevel
-      });
+      profile.push(level);
     }
 
     return profile;
   }
 
   /**
-   * Find Zero Gamma Level by interpolating where GEX profile crosses zero
+   * Find every gamma flip by interpolating where the GEX profile crosses zero
    */
-  private findZeroGammaLevel(profile: Array<{spotLevel: number, totalGEX: number}>): number | null {
+  private findGammaFlips(profile: Array<{spotLevel: number, totalGEX: number}>): number[] {
+    const flips: number[] = [];
+
     for (let i = 0; i < profile.length - 1; i++) {
       const current = profile[i];
       const next = profile[i + 1];
@@ -289,36 +828,81 @@ export class GEXCalculator {
           (current.totalGEX < 0 && next.totalGEX > 0)) {
         
         // Linear interpolation to find exact zero crossing
-        const zeroLevel = next.spotLevel - 
+        flips.push(next.spotLevel - 
           (next.spotLevel - current.spotLevel) * 
-          next.totalGEX / (next.totalGEX - current.totalGEX);
-          
-        return zeroLevel;
+          next.totalGEX / (next.totalGEX - current.totalGEX));
       }
     }
 
-    return null; // No zero crossing found
+    return flips;
+  }
+
+  /**
+   * Zero Gamma Level: the gamma flip closest to the current spot
+   */
+  private findZeroGammaLevel(gammaFlips: number[], currentSpot: number): number | null {
+    if (gammaFlips.length === 0) {
+      return null; // No zero crossing found
+    }
+
+    return gammaFlips.reduce((nearest, flip) =>
+      Math.abs(flip - currentSpot) < Math.abs(nearest - currentSpot) ? flip : nearest
+    );
+  }
+
+  /**
+   * Strikes with the largest absolute net GEX
+   */
+  private findLargestGEXStrikes(perStrikeGEX: GEXData['perStrikeGEX'], count: number = 5): Array<{ strike: number; gex: number }> {
+    return [...perStrikeGEX]
+      .sort((a, b) => Math.abs(b.gex) - Math.abs(a.gex))
+      .slice(0, count)
+      .map(row => ({ strike: row.strike, gex: row.gex }));
+  }
+
+  /**
+   * Gamma magnet: strike average weighted by absolute net GEX
+   */
+  private findMagnetPrice(perStrikeGEX: GEXData['perStrikeGEX']): number | null {
+    const weight = perStrikeGEX.reduce((sum, row) => sum + Math.abs(row.gex), 0);
+    if (weight === 0) {
+      return null;
+    }
+
+    return perStrikeGEX.reduce((sum, row) => sum + row.strike * Math.abs(row.gex), 0) / weight;
   }
 
   /**
    * Convert Unusual Whales flow alert to OptionContract format
+   * Alerts without open interest are dropped: trade volume says nothing about dealer positioning
    */
   static fromUnusualWhalesAlert(alert: any): OptionContract | null {
     try {
-      if (!alert.strike || !alert.expiry || !alert.volume) {
+      if (!alert.strike || !alert.expiry || !alert.openInterest) {
         return null;
       }
 
+      const type = alert.optionType?.toLowerCase() === 'put' ? 'put' : 'call';
+      const volume = Number(alert.volume);
+
+      // Bullish call or bearish put flow means the customer bought; the reverse means they sold
+      let customerFlow: CustomerFlow | undefined;
+      if (volume > 0 && (alert.sentiment === 'bullish' || alert.sentiment === 'bearish')) {
+        const customerBought = (alert.sentiment === 'bullish') === (type === 'call');
+        customerFlow = customerBought ? { buyVolume: volume, sellVolume: 0 } : { buyVolume: 0, sellVolume: volume };
+      }
+
       return {
         strike: Number(alert.strike),
         expiry: alert.expiry,
-        type: alert.optionType?.toLowerCase() === 'put' ? 'put' : 'call',
-        openInterest: Number(alert.openInterest || alert.volume), // Use volume if OI not available
+        type,
+        openInterest: Number(alert.openInterest),
         impliedVolatility: undefined, // UW doesn't provide IV in flow alerts
-        volume: Number(alert.volume),
+        volume,
         premium: Number(alert.premium),
         unitGamma: undefined, // Will be calculated
-        unitDelta: undefined
+        unitDelta: undefined,
+        customerFlow,
       };
     } catch (error) {
       console.warn('Error converting UW alert to contract:', error);
@@ -329,11 +913,10 @@ export class GEXCalculator {
   /**
    * Create mock contracts for testing (when no real data available)
    */
-  static createMockContracts(spotPrice: number): OptionContract[] {
+  static createMockContracts(spotPrice: number, now: Date = new Date()): OptionContract[] {
     const contracts: OptionContract[] = [];
-    const expiry = new Date();
-    expiry.setDate(expiry.getDate() + 30); // 30 days to expiry
-    const expiryStr = expiry.toISOString().split('T')[0];
+    const expiry = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000); // 30 days to expiry
+    const expiryStr = getExchangeTime(expiry).date;
 
     // Create ATM and OTM options
     const strikes = [
@@ -0,0 +1,432 @@
+/**
+ * Implied Volatility
+ * Dividend-adjusted Black-Scholes pricing, a bracketed IV solver and an SVI-fitted IV surface
+ */
+
+export interface IVPoint {
+  strike: number;
+  expiry: string;
+  timeToExpiry: number;        // Years
+  iv: number;
+}
+
+export interface SVIParams {
+  a: number;                   // Overall variance level
+  b: number;                   // Wing slope (b >= 0)
+  rho: number;                 // Skew (-1 < rho < 1)
+  m: number;                   // Horizontal shift of the smile
+  sigma: number;               // ATM curvature (sigma > 0)
+}
+
+export interface IVSlice {
+  expiry: string;
+  timeToExpiry: number;
+  forward: number;
+  svi: SVIParams | null;       // Null when too few quotes to fit; falls back to interpolation
+  rmse: number | null;         // Fit error in IV terms
+  points: Array<{ strike: number; iv: number }>;
+}
+
+export interface IVSolverOptions {
+  tolerance: number;           // Absolute price tolerance
+  maxIterations: number;
+  minVol: number;
+  maxVol: number;
+}
+
+const DEFAULT_SOLVER_OPTIONS: IVSolverOptions = {
+  tolerance: 1e-6,
+  maxIterations: 100,
+  minVol: 1e-4,
+  maxVol: 5,
+};
+
+const MIN_SVI_POINTS = 5;
+
+/**
+ * Standard normal cumulative distribution (Abramowitz & Stegun 26.2.17, |error| < 7.5e-8)
+ */
+export function normalCDF(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/**
+ * Black-Scholes-Merton price with continuous dividend yield
+ */
+export function blackScholesPrice(
+  spot: number,
+  strike: number,
+  timeToExpiry: number,
+  volatility: number,
+  riskFreeRate: number,
+  dividendYield: number,
+  isCall: boolean
+): number {
+  const discountR = Math.exp(-riskFreeRate * timeToExpiry);
+  const discountQ = Math.exp(-dividendYield * timeToExpiry);
+
+  if (timeToExpiry <= 0 || volatility <= 0) {
+    const intrinsic = isCall ? spot * discountQ - strike * discountR : strike * discountR - spot * discountQ;
+    return Math.max(0, intrinsic);
+  }
+
+  const sigmaSqrtT = volatility * Math.sqrt(timeToExpiry);
+  const d1 = (Math.log(spot / strike) + (riskFreeRate - dividendYield + 0.5 * volatility * volatility) * timeToExpiry) / sigmaSqrtT;
+  const d2 = d1 - sigmaSqrtT;
+
+  return isCall
+    ? spot * discountQ * normalCDF(d1) - strike * discountR * normalCDF(d2)
+    : strike * discountR * normalCDF(-d2) - spot * discountQ * normalCDF(-d1);
+}
+
+/**
+ * No-arbitrage price bounds for a European option
+ */
+export function priceBounds(
+  spot: number,
+  strike: number,
+  timeToExpiry: number,
+  riskFreeRate: number,
+  dividendYield: number,
+  isCall: boolean
+): { lower: number; upper: number } {
+  const discountedSpot = spot * Math.exp(-dividendYield * timeToExpiry);
+  const discountedStrike = strike * Math.exp(-riskFreeRate * timeToExpiry);
+
+  return isCall
+    ? { lower: Math.max(0, discountedSpot - discountedStrike), upper: discountedSpot }
+    : { lower: Math.max(0, discountedStrike - discountedSpot), upper: discountedStrike };
+}
+
+/**
+ * Solve for implied volatility: Newton-Raphson while it converges inside the bracket,
+ * Brent's method otherwise. Returns null when the price violates arbitrage bounds.
+ */
+export function solveImpliedVolatility(
+  price: number,
+  spot: number,
+  strike: number,
+  timeToExpiry: number,
+  riskFreeRate: number,
+  dividendYield: number,
+  isCall: boolean,
+  options?: Partial<IVSolverOptions>
+): number | null {
+  const opts = { ...DEFAULT_SOLVER_OPTIONS, ...options };
+
+  if (!(price > 0) || !(spot > 0) || !(strike > 0) || !(timeToExpiry > 0)) {
+    return null;
+  }
+
+  const { lower, upper } = priceBounds(spot, strike, timeToExpiry, riskFreeRate, dividendYield, isCall);
+  if (price <= lower || price >= upper) {
+    return null;
+  }
+
+  const objective = (vol: number) =>
+    blackScholesPrice(spot, strike, timeToExpiry, vol, riskFreeRate, dividendYield, isCall) - price;
+
+  let lo = opts.minVol;
+  let hi = opts.maxVol;
+  let fLo = objective(lo);
+  let fHi = objective(hi);
+  if (fLo * fHi > 0) {
+    return null; // Price not attainable within the volatility bracket
+  }
+
+  // Newton-Raphson from the Brenner-Subrahmanyam ATM estimate
+  let vol = Math.min(hi, Math.max(lo, price / spot * Math.sqrt(2 * Math.PI / timeToExpiry)));
+  for (let i = 0; i < 20; i++) {
+    const diff = objective(vol);
+    if (Math.abs(diff) < opts.tolerance) return vol;
+
+    const sqrtT = Math.sqrt(timeToExpiry);
+    const d1 = (Math.log(spot / strike) + (riskFreeRate - dividendYield + 0.5 * vol * vol) * timeToExpiry) / (vol * sqrtT);
+    const vega = spot * Math.exp(-dividendYield * timeToExpiry) * Math.exp(-0.5 * d1 * d1) / Math.sqrt(2 * Math.PI) * sqrtT;
+    if (vega < 1e-8) break;
+
+    const next = vol - diff / vega;
+    if (!(next > lo && next < hi)) break;
+    vol = next;
+  }
+
+  // Brent's method on the bracket
+  let a = lo, b = hi, fa = fLo, fb = fHi;
+  let c = a, fc = fa, d = b - a, e = d;
+
+  for (let i = 0; i < opts.maxIterations; i++) {
+    if (fb * fc > 0) {
+      c = a; fc = fa; d = b - a; e = d;
+    }
+    if (Math.abs(fc) < Math.abs(fb)) {
+      a = b; b = c; c = a;
+      fa = fb; fb = fc; fc = fa;
+    }
+
+    const tol = 2 * Number.EPSILON * Math.abs(b) + 0.5e-10;
+    const mid = 0.5 * (c - b);
+    if (Math.abs(fb) < opts.tolerance || Math.abs(mid) <= tol) {
+      return b;
+    }
+
+    if (Math.abs(e) >= tol && Math.abs(fa) > Math.abs(fb)) {
+      // Inverse quadratic interpolation / secant step
+      const s = fb / fa;
+      let p: number, q: number;
+      if (a === c) {
+        p = 2 * mid * s;
+        q = 1 - s;
+      } else {
+        const qa = fa / fc;
+        const r = fb / fc;
+        p = s * (2 * mid * qa * (qa - r) - (b - a) * (r - 1));
+        q = (qa - 1) * (r - 1) * (s - 1);
+      }
+      if (p > 0) q = -q; else p = -p;
+
+      if (2 * p < Math.min(3 * mid * q - Math.abs(tol * q), Math.abs(e * q))) {
+        e = d;
+        d = p / q;
+      } else {
+        d = mid;
+        e = d;
+      }
+    } else {
+      d = mid;
+      e = d;
+    }
+
+    a = b;
+    fa = fb;
+    b += Math.abs(d) > tol ? d : (mid > 0 ? tol : -tol);
+    fb = objective(b);
+  }
+
+  return b;
+}
+
+/**
+ * SVI total implied variance w(k) at log-moneyness k = ln(K / F)
+ */
+export function sviTotalVariance(params: SVIParams, k: number): number {
+  const { a, b, rho, m, sigma } = params;
+  return a + b * (rho * (k - m) + Math.sqrt((k - m) * (k - m) + sigma * sigma));
+}
+
+/**
+ * Fit raw SVI to one expiry slice. For fixed (m, sigma) the model is linear in (a, b*rho, b),
+ * so each grid point is a 3x3 least-squares solve; the best admissible fit wins.
+ */
+export function fitSVISlice(logMoneyness: number[], totalVariance: number[]): SVIParams | null {
+  if (logMoneyness.length < MIN_SVI_POINTS) return null;
+
+  const kMin = Math.min(...logMoneyness);
+  const kMax = Math.max(...logMoneyness);
+  let best: { params: SVIParams; error: number } | null = null;
+
+  for (let i = 0; i <= 20; i++) {
+    const m = kMin + (kMax - kMin) * i / 20;
+    for (let j = 0; j <= 15; j++) {
+      const sigma = 0.005 * Math.pow(1.35, j);
+
+      // Normal equations for w = a + c1 * x + c2 * y, x = k - m, y = sqrt(x^2 + sigma^2)
+      const ata = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+      const atw = [0, 0, 0];
+      for (let n = 0; n < logMoneyness.length; n++) {
+        const x = logMoneyness[n] - m;
+        const row = [1, x, Math.sqrt(x * x + sigma * sigma)];
+        for (let r = 0; r < 3; r++) {
+          atw[r] += row[r] * totalVariance[n];
+          for (let c = 0; c < 3; c++) ata[r][c] += row[r] * row[c];
+        }
+      }
+
+      const solution = solve3x3(ata, atw);
+      if (!solution) continue;
+
+      const [a, c1, b] = solution;
+      if (b <= 0 || Math.abs(c1) >= b) continue; // Needs b >= 0 and |rho| < 1
+      const params: SVIParams = { a, b, rho: c1 / b, m, sigma };
+
+      // Total variance must stay positive across the smile
+      if (a + b * sigma * Math.sqrt(1 - params.rho * params.rho) <= 0) continue;
+
+      let error = 0;
+      for (let n = 0; n < logMoneyness.length; n++) {
+        const diff = sviTotalVariance(params, logMoneyness[n]) - totalVariance[n];
+        error += diff * diff;
+      }
+
+      if (!best || error < best.error) {
+        best = { params, error };
+      }
+    }
+  }
+
+  return best ? best.params : null;
+}
+
+function solve3x3(matrix: number[][], rhs: number[]): number[] | null {
+  const m = matrix.map((row, i) => [...row, rhs[i]]);
+
+  for (let col = 0; col < 3; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 3; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = 0; row < 3; row++) {
+      if (row === col) continue;
+      const factor = m[row][col] / m[col][col];
+      for (let c = col; c < 4; c++) m[row][c] -= factor * m[col][c];
+    }
+  }
+
+  return [m[0][3] / m[0][0], m[1][3] / m[1][1], m[2][3] / m[2][2]];
+}
+
+/**
+ * Flat rate or yield, or one per time to expiry in years (term structure)
+ */
+export type RateInput = number | ((timeToExpiry: number) => number);
+
+function rateAt(rate: RateInput, timeToExpiry: number): number {
+  return typeof rate === 'number' ? rate : rate(timeToExpiry);
+}
+
+/**
+ * Strike x expiry implied volatility surface: SVI per expiry slice,
+ * total variance interpolated linearly in time between slices
+ */
+export class IVSurface {
+  readonly symbol: string;
+  readonly spot: number;
+  readonly slices: IVSlice[];
+  private riskFreeRate: RateInput;
+  private dividendYield: RateInput;
+
+  constructor(symbol: string, spot: number, slices: IVSlice[], riskFreeRate: RateInput, dividendYield: RateInput) {
+    this.symbol = symbol;
+    this.spot = spot;
+    this.slices = [...slices].sort((a, b) => a.timeToExpiry - b.timeToExpiry);
+    this.riskFreeRate = riskFreeRate;
+    this.dividendYield = dividendYield;
+  }
+
+  /**
+   * Fit a surface from observed IV points (quoted or solved from premiums)
+   */
+  static fit(symbol: string, spot: number, points: IVPoint[], riskFreeRate: RateInput, dividendYield: RateInput): IVSurface {
+    const byExpiry = new Map<string, IVPoint[]>();
+    for (const point of points) {
+      if (!(point.iv > 0) || !(point.timeToExpiry > 0)) continue;
+      const slice = byExpiry.get(point.expiry) || [];
+      slice.push(point);
+      byExpiry.set(point.expiry, slice);
+    }
+
+    const slices: IVSlice[] = [];
+    for (const [expiry, slicePoints] of byExpiry) {
+      const timeToExpiry = slicePoints[0].timeToExpiry;
+      const forward = spot * Math.exp((rateAt(riskFreeRate, timeToExpiry) - rateAt(dividendYield, timeToExpiry)) * timeToExpiry);
+
+      // Average calls and puts quoted at the same strike
+      const byStrike = new Map<number, number[]>();
+      for (const point of slicePoints) {
+        byStrike.set(point.strike, [...(byStrike.get(point.strike) || []), point.iv]);
+      }
+      const sorted = Array.from(byStrike.entries())
+        .map(([strike, ivs]) => ({ strike, iv: ivs.reduce((a, b) => a + b, 0) / ivs.length }))
+        .sort((a, b) => a.strike - b.strike);
+
+      const k = sorted.map(p => Math.log(p.strike / forward));
+      const w = sorted.map(p => p.iv * p.iv * timeToExpiry);
+      const svi = fitSVISlice(k, w);
+
+      let rmse: number | null = null;
+      if (svi) {
+        const sq = sorted.reduce((sum, p, i) => {
+          const fitted = Math.sqrt(Math.max(sviTotalVariance(svi, k[i]), 0) / timeToExpiry);
+          return sum + (fitted - p.iv) * (fitted - p.iv);
+        }, 0);
+        rmse = Math.sqrt(sq / sorted.length);
+      }
+
+      slices.push({ expiry, timeToExpiry, forward, svi, rmse, points: sorted });
+    }
+
+    return new IVSurface(symbol, spot, slices, riskFreeRate, dividendYield);
+  }
+
+  isEmpty(): boolean {
+    return this.slices.length === 0;
+  }
+
+  /**
+   * Interpolated implied volatility for any strike and time to expiry
+   */
+  getVolatility(strike: number, timeToExpiry: number): number | null {
+    if (this.slices.length === 0 || !(strike > 0)) return null;
+
+    const t = Math.max(timeToExpiry, 1e-6);
+    const forward = this.spot * Math.exp((rateAt(this.riskFreeRate, t) - rateAt(this.dividendYield, t)) * t);
+    const k = Math.log(strike / forward);
+
+    // Flat volatility beyond the first and last slices
+    const first = this.slices[0];
+    const last = this.slices[this.slices.length - 1];
+    if (t <= first.timeToExpiry) return Math.sqrt(this.sliceVariance(first, k) / first.timeToExpiry);
+    if (t >= last.timeToExpiry) return Math.sqrt(this.sliceVariance(last, k) / last.timeToExpiry);
+
+    // Linear in total variance between the bracketing slices
+    let i = 0;
+    while (this.slices[i + 1].timeToExpiry < t) i++;
+    const lower = this.slices[i];
+    const upper = this.slices[i + 1];
+    const weight = (t - lower.timeToExpiry) / (upper.timeToExpiry - lower.timeToExpiry);
+    const variance = (1 - weight) * this.sliceVariance(lower, k) + weight * this.sliceVariance(upper, k);
+
+    return Math.sqrt(Math.max(variance, 0) / t);
+  }
+
+  /**
+   * Total variance on a slice: SVI when fitted, otherwise linear interpolation of the quotes
+   */
+  private sliceVariance(slice: IVSlice, k: number): number {
+    if (slice.svi) {
+      return Math.max(sviTotalVariance(slice.svi, k), 1e-8);
+    }
+
+    const points = slice.points.map(p => ({
+      k: Math.log(p.strike / slice.forward),
+      w: p.iv * p.iv * slice.timeToExpiry,
+    }));
+    if (k <= points[0].k) return points[0].w;
+    if (k >= points[points.length - 1].k) return points[points.length - 1].w;
+
+    let i = 0;
+    while (points[i + 1].k < k) i++;
+    const weight = (k - points[i].k) / (points[i + 1].k - points[i].k);
+    return points[i].w + weight * (points[i + 1].w - points[i].w);
+  }
+
+  /**
+   * Volatility grid across moneyness for every slice, for charting
+   */
+  toGrid(moneyness: number[] = [0.8, 0.85, 0.9, 0.95, 0.975, 1, 1.025, 1.05, 1.1, 1.15, 1.2]) {
+    return this.slices.map(slice => ({
+      expiry: slice.expiry,
+      timeToExpiry: slice.timeToExpiry,
+      points: moneyness.map(mny => ({
+        moneyness: mny,
+        strike: this.spot * mny,
+        iv: this.getVolatility(this.spot * mny, slice.timeToExpiry),
+      })),
+    }));
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Market Data Providers
+ * Pluggable quote sources with configurable priority and per-provider health tracking
+ */
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  volume: number;
+  bid: number;
+  ask: number;
+  timestamp: Date;
+  source: string;           // Name of the provider that produced the quote
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  getQuote(symbol: string): Promise<MarketQuote | null>;
+  covers?(symbol: string): boolean;  // Providers limited to some symbols (e.g. streamed ones) are skipped for the rest
+}
+
+export interface ProviderHealth {
+  name: string;
+  healthy: boolean;
+  successCount: number;
+  failureCount: number;
+  consecutiveFailures: number;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  lastError?: string;
+}
+
+export interface MarketDataServiceConfig {
+  maxConsecutiveFailures: number; // Failures in a row before a provider is benched
+  cooldownMs: number;             // How long a benched provider is skipped
+  cacheTtlMs: number;             // How long the last good quote may be served as cached data
+}
+
+export interface MarketDataCredentials {
+  alpacaApiKey?: string;
+  alpacaSecretKey?: string;
+  alphaVantageApiKey?: string;
+  priority?: string[];
+}
+
+/**
+ * Alpaca Market Data API (snapshot endpoint gives quote + daily volume in one call)
+ */
+export class AlpacaMarketDataProvider implements MarketDataProvider {
+  readonly name = 'alpaca';
+  private apiKey: string;
+  private secretKey: string;
+
+  constructor(apiKey: string, secretKey: string) {
+    this.apiKey = apiKey;
+    this.secretKey = secretKey;
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const response = await fetch(`https://data.alpaca.markets/v2/stocks/${symbol.toUpperCase()}/snapshot`, {
+      headers: {
+        'Apca-Api-Key-Id': this.apiKey,
+        'Apca-Api-Secret-Key': this.secretKey,
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alpaca API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const quote = data.latestQuote;
+
+    // Alpaca v2 quotes use bp/ap (bid/ask price), not bid_price/ask_price
+    if (!quote || !quote.bp || !quote.ap) {
+      return null;
+    }
+
+    const bid = parseFloat(quote.bp);
+    const ask = parseFloat(quote.ap);
+
+    return {
+      symbol,
+      price: (bid + ask) / 2,
+      volume: Number(data.dailyBar?.v) || 0,
+      bid,
+      ask,
+      timestamp: quote.t ? new Date(quote.t) : new Date(),
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * Yahoo Finance chart API (free, no key required)
+ */
+export class YahooFinanceProvider implements MarketDataProvider {
+  readonly name = 'yahoo';
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const response = await fetch(`https://query1.finance.yahoo.com/v8/finance/chart/${symbol}`);
+
+    if (!response.ok) {
+      throw new Error(`Yahoo Finance API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const meta = data.chart?.result?.[0]?.meta;
+
+    if (!meta || !meta.regularMarketPrice) {
+      return null;
+    }
+
+    return {
+      symbol,
+      price: meta.regularMarketPrice,
+      volume: meta.regularMarketVolume || 0,
+      bid: meta.regularMarketPrice - 0.01,
+      ask: meta.regularMarketPrice + 0.01,
+      timestamp: new Date(),
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * Alpha Vantage GLOBAL_QUOTE (backup, heavily rate limited on the demo key)
+ */
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphavantage';
+  private apiKey: string;
+
+  constructor(apiKey: string = 'demo') {
+    this.apiKey = apiKey;
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    const response = await fetch(`https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${symbol}&apikey=${this.apiKey}`);
+
+    if (!response.ok) {
+      throw new Error(`Alpha Vantage API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const quote = data['Global Quote'];
+
+    if (!quote || !quote['05. price']) {
+      return null;
+    }
+
+    const price = parseFloat(quote['05. price']);
+
+    return {
+      symbol,
+      price,
+      volume: parseInt(quote['06. volume']) || 0,
+      bid: price - 0.01,
+      ask: price + 0.01,
+      timestamp: new Date(),
+      source: this.name,
+    };
+  }
+}
+
+/**
+ * Routes quote requests through registered providers in priority order,
+ * benching providers that keep failing until their cooldown expires
+ */
+export class MarketDataService {
+  private providers: Map<string, MarketDataProvider> = new Map();
+  private health: Map<string, ProviderHealth> = new Map();
+  private priority: string[] = [];
+  private lastQuotes: Map<string, { quote: MarketQuote; fetchedAt: number }> = new Map();
+  private config: MarketDataServiceConfig;
+
+  constructor(config?: Partial<MarketDataServiceConfig>) {
+    this.config = {
+      maxConsecutiveFailures: 3,
+      cooldownMs: 60000,
+      cacheTtlMs: 300000,
+      ...config,
+    };
+  }
+
+  /**
+   * Build a service with the standard Alpaca → Yahoo → Alpha Vantage chain
+   */
+  static withDefaultProviders(credentials: MarketDataCredentials = {}): MarketDataService {
+    const service = new MarketDataService();
+
+    // Alpaca requires credentials, so only register it when they are supplied
+    if (credentials.alpacaApiKey && credentials.alpacaSecretKey) {
+      service.registerProvider(new AlpacaMarketDataProvider(credentials.alpacaApiKey, credentials.alpacaSecretKey));
+    }
+    service.registerProvider(new YahooFinanceProvider());
+    service.registerProvider(new AlphaVantageProvider(credentials.alphaVantageApiKey));
+
+    if (credentials.priority && credentials.priority.length > 0) {
+      service.setPriority(credentials.priority);
+    }
+
+    return service;
+  }
+
+  /**
+   * Register a provider (appended to the end of the priority order)
+   */
+  registerProvider(provider: MarketDataProvider): void {
+    if (!this.providers.has(provider.name)) {
+      this.priority.push(provider.name);
+    }
+    this.providers.set(provider.name, provider);
+    this.health.set(provider.name, {
+      name: provider.name,
+      healthy: true,
+      successCount: 0,
+      failureCount: 0,
+      consecutiveFailures: 0,
+    });
+  }
+
+  /**
+   * Set provider priority. Unknown names are ignored; unlisted providers keep their relative order at the end.
+   */
+  setPriority(names: string[]): void {
+    const listed = names.filter(name => this.providers.has(name));
+    const rest = this.priority.filter(name => !listed.includes(name));
+    this.priority = [...listed, ...rest];
+  }
+
+  getPriority(): string[] {
+    return [...this.priority];
+  }
+
+  /**
+   * Get a quote from the first healthy provider that returns one
+   */
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    for (const name of this.priority) {
+      const provider = this.providers.get(name)!;
+      if (provider.covers && !provider.covers(symbol)) continue;
+
+      if (this.isBenched(name)) {
+        console.log(`⏭️ Skipping ${name} market data (cooling down after repeated failures)`);
+        continue;
+      }
+
+      try {
+        const quote = await provider.getQuote(symbol);
+        if (quote) {
+          this.recordSuccess(name);
+          this.lastQuotes.set(symbol.toUpperCase(), { quote, fetchedAt: Date.now() });
+          console.log(`✅ Real market data from ${name}: ${symbol} $${quote.price.toFixed(2)}`);
+          return quote;
+        }
+        this.recordFailure(name, 'No quote returned');
+      } catch (error) {
+        this.recordFailure(name, error instanceof Error ? error.message : String(error));
+        console.warn(`${name} market data failed for ${symbol}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.error(`❌ All market data providers failed for ${symbol}`);
+    return null;
+  }
+
+  /**
+   * Get the last good quote for a symbol if it is still within the cache TTL.
+   * Callers must label it as cached data rather than live.
+   */
+  getCachedQuote(symbol: string): MarketQuote | null {
+    const cached = this.lastQuotes.get(symbol.toUpperCase());
+    if (!cached || Date.now() - cached.fetchedAt > this.config.cacheTtlMs) {
+      return null;
+    }
+    return cached.quote;
+  }
+
+  /**
+   * Get health status for every registered provider, in priority order
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.priority.map(name => {
+      const health = this.health.get(name)!;
+      return { ...health, healthy: !this.isBenched(name) };
+    });
+  }
+
+  private isBenched(name: string): boolean {
+    const health = this.health.get(name);
+    if (!health || health.consecutiveFailures < this.config.maxConsecutiveFailures) {
+      return false;
+    }
+
+    const lastFailure = health.lastFailureAt ? new Date(health.lastFailureAt).getTime() : 0;
+    return Date.now() - lastFailure < this.config.cooldownMs;
+  }
+
+  private recordSuccess(name: string): void {
+    const health = this.health.get(name)!;
+    health.successCount++;
+    health.consecutiveFailures = 0;
+    health.lastSuccessAt = new Date().toISOString();
+    health.healthy = true;
+  }
+
+  private recordFailure(name: string, error: string): void {
+    const health = this.health.get(name)!;
+    health.failureCount++;
+    health.consecutiveFailures++;
+    health.lastFailureAt = new Date().toISOString();
+    health.lastError = error;
+    health.healthy = health.consecutiveFailures < this.config.maxConsecutiveFailures;
+  }
+}
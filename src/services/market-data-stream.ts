@@ -0,0 +1,413 @@
+/**
+ * Market Data Stream
+ * Alpaca real-time trades/quotes/bars over WebSocket with reconnect, heartbeat and resubscribe,
+ * feeding an in-memory latest-quote cache that the market data chain serves ahead of REST
+ */
+
+import { MarketQuote, MarketDataProvider } from './market-data-provider';
+import { Clock, systemClock, getExchangeTime } from './clock';
+import { ReconnectingSocket, ReconnectingSocketConfig, WebSocketFactory, StreamState, defaultWebSocketFactory } from './reconnecting-socket';
+
+export interface MarketStreamConfig extends ReconnectingSocketConfig {
+  url: string;                   // wss://stream.data.alpaca.markets/v2/{feed}
+  trades: boolean;
+  quotes: boolean;
+  bars: boolean;                 // Minute bars
+  heartbeatIntervalMs: number;   // How often the subscription is re-sent as a keep-alive
+  quoteMaxAgeMs: number;         // Cached quotes older than this are not served as live
+}
+
+export interface StreamTrade {
+  symbol: string;
+  price: number;
+  size: number;
+  exchange?: string;
+  timestamp: Date;
+}
+
+export interface StreamQuote {
+  symbol: string;
+  bid: number;
+  ask: number;
+  bidSize: number;
+  askSize: number;
+  timestamp: Date;
+}
+
+export interface StreamBar {
+  symbol: string;
+  timestamp: string;             // ISO time the minute bar closed
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap?: number;
+}
+
+export interface CachedQuote {
+  symbol: string;
+  bid: number | null;
+  ask: number | null;
+  bidSize: number | null;
+  askSize: number | null;
+  lastPrice: number | null;      // Last trade
+  lastSize: number | null;
+  volume: number;                // Shares traded on the stream this session (since subscribing)
+  sessionDate: string;
+  quoteAt: Date | null;
+  tradeAt: Date | null;
+  updatedAt: Date;               // Latest event of any kind
+}
+
+export interface MarketStreamStatus {
+  state: StreamState;
+  url: string;
+  symbols: string[];             // Requested subscriptions
+  acknowledged: { trades: string[]; quotes: string[]; bars: string[] };  // What the server confirmed
+  connectedAt: string | null;
+  lastMessageAt: string | null;
+  reconnects: number;
+  messages: { trades: number; quotes: number; bars: number };
+  lastError: string | null;
+}
+
+export const DEFAULT_MARKET_STREAM_CONFIG: MarketStreamConfig = {
+  url: 'wss://stream.data.alpaca.markets/v2/iex',
+  trades: true,
+  quotes: true,
+  bars: true,
+  heartbeatIntervalMs: 15000,
+  heartbeatTimeoutMs: 45000,
+  reconnectBaseMs: 1000,
+  reconnectMaxMs: 30000,
+  quoteMaxAgeMs: 15000,
+};
+
+/**
+ * Latest quote and trade per symbol, updated from stream events
+ */
+export class QuoteCache {
+  private quotes = new Map<string, CachedQuote>();
+
+  private entry(symbol: string, at: Date): CachedQuote {
+    const key = symbol.toUpperCase();
+    const sessionDate = getExchangeTime(at).date;
+    let cached = this.quotes.get(key);
+
+    if (!cached) {
+      cached = {
+        symbol: key, bid: null, ask: null, bidSize: null, askSize: null,
+        lastPrice: null, lastSize: null, volume: 0, sessionDate,
+        quoteAt: null, tradeAt: null, updatedAt: at,
+      };
+      this.quotes.set(key, cached);
+    } else if (cached.sessionDate !== sessionDate && at.getTime() > cached.updatedAt.getTime()) {
+      cached.volume = 0;
+      cached.sessionDate = sessionDate;
+    }
+    return cached;
+  }
+
+  applyTrade(trade: StreamTrade): void {
+    const cached = this.entry(trade.symbol, trade.timestamp);
+    // Out-of-order prints count toward volume but do not move the last price back
+    if (!cached.tradeAt || trade.timestamp >= cached.tradeAt) {
+      cached.lastPrice = trade.price;
+      cached.lastSize = trade.size;
+      cached.tradeAt = trade.timestamp;
+    }
+    cached.volume += trade.size;
+    if (trade.timestamp > cached.updatedAt) cached.updatedAt = trade.timestamp;
+  }
+
+  applyQuote(quote: StreamQuote): void {
+    const cached = this.entry(quote.symbol, quote.timestamp);
+    if (cached.quoteAt && quote.timestamp < cached.quoteAt) return;
+
+    cached.bid = quote.bid;
+    cached.ask = quote.ask;
+    cached.bidSize = quote.bidSize;
+    cached.askSize = quote.askSize;
+    cached.quoteAt = quote.timestamp;
+    if (quote.timestamp > cached.updatedAt) cached.updatedAt = quote.timestamp;
+  }
+
+  get(symbol: string): CachedQuote | null {
+    const cached = this.quotes.get(symbol.toUpperCase());
+    return cached ? { ...cached } : null;
+  }
+
+  list(): CachedQuote[] {
+    return [...this.quotes.values()].map(cached => ({ ...cached }));
+  }
+
+  delete(symbol: string): void {
+    this.quotes.delete(symbol.toUpperCase());
+  }
+
+  /**
+   * The cached quote as a MarketQuote (mid of a valid bid/ask, else the last trade), or null when
+   * nothing arrived within maxAgeMs
+   */
+  getQuote(symbol: string, maxAgeMs: number, now: Date, source: string = 'alpaca-stream'): MarketQuote | null {
+    const cached = this.quotes.get(symbol.toUpperCase());
+    if (!cached || now.getTime() - cached.updatedAt.getTime() > maxAgeMs) return null;
+
+    const validSpread = cached.bid !== null && cached.ask !== null && cached.bid > 0 && cached.ask >= cached.bid;
+    const price = validSpread ? (cached.bid! + cached.ask!) / 2 : cached.lastPrice;
+    if (price === null || !(price > 0)) return null;
+
+    return {
+      symbol: cached.symbol,
+      price,
+      volume: cached.volume,
+      bid: cached.bid ?? price,
+      ask: cached.ask ?? price,
+      timestamp: cached.updatedAt,
+      source,
+    };
+  }
+}
+
+function parseTrade(message: any): StreamTrade {
+  return {
+    symbol: message.S,
+    price: Number(message.p),
+    size: Number(message.s) || 0,
+    exchange: message.x,
+    timestamp: new Date(message.t),
+  };
+}
+
+function parseQuote(message: any): StreamQuote {
+  return {
+    symbol: message.S,
+    bid: Number(message.bp),
+    ask: Number(message.ap),
+    bidSize: Number(message.bs) || 0,
+    askSize: Number(message.as) || 0,
+    timestamp: new Date(message.t),
+  };
+}
+
+function parseBar(message: any): StreamBar {
+  // Alpaca stamps bars with their start; bars elsewhere in the app are close-stamped
+  return {
+    symbol: message.S,
+    timestamp: new Date(new Date(message.t).getTime() + 60000).toISOString(),
+    open: Number(message.o),
+    high: Number(message.h),
+    low: Number(message.l),
+    close: Number(message.c),
+    volume: Number(message.v) || 0,
+    vwap: message.vw !== undefined ? Number(message.vw) : undefined,
+  };
+}
+
+/**
+ * Alpaca market data stream client. Authenticates, subscribes the requested symbols, re-sends the
+ * subscription as a heartbeat, and reconnects with exponential backoff (resubscribing) when the
+ * connection drops or goes silent.
+ */
+export class AlpacaMarketDataStream extends ReconnectingSocket<MarketStreamConfig> {
+  private apiKey: string;
+  private secretKey: string;
+  private cache = new QuoteCache();
+  private symbols = new Set<string>();
+  private acknowledged = { trades: [] as string[], quotes: [] as string[], bars: [] as string[] };
+  private counts = { trades: 0, quotes: 0, bars: 0 };
+  private tradeListeners: ((trade: StreamTrade) => void | Promise<void>)[] = [];
+  private quoteListeners: ((quote: StreamQuote) => void | Promise<void>)[] = [];
+  private barListeners: ((bar: StreamBar) => void | Promise<void>)[] = [];
+
+  constructor(
+    apiKey: string,
+    secretKey: string,
+    config: Partial<MarketStreamConfig> = {},
+    socketFactory: WebSocketFactory = defaultWebSocketFactory,
+    clock: Clock = systemClock
+  ) {
+    super('Market data stream', { ...DEFAULT_MARKET_STREAM_CONFIG, ...config }, socketFactory, clock);
+    this.apiKey = apiKey;
+    this.secretKey = secretKey;
+  }
+
+  getCache(): QuoteCache {
+    return this.cache;
+  }
+
+  onTrade(listener: (trade: StreamTrade) => void | Promise<void>): void {
+    this.tradeListeners.push(listener);
+  }
+
+  onQuote(listener: (quote: StreamQuote) => void | Promise<void>): void {
+    this.quoteListeners.push(listener);
+  }
+
+  onBar(listener: (bar: StreamBar) => void | Promise<void>): void {
+    this.barListeners.push(listener);
+  }
+
+  /**
+   * Whether a symbol is requested and the stream is delivering data
+   */
+  isStreaming(symbol: string): boolean {
+    return this.state === 'streaming' && this.symbols.has(symbol.toUpperCase());
+  }
+
+  isSubscribed(symbol: string): boolean {
+    return this.symbols.has(symbol.toUpperCase());
+  }
+
+  /**
+   * Add symbols; sent immediately when connected, otherwise on the next (re)connect
+   */
+  subscribe(symbols: string[]): void {
+    const added = symbols.map(symbol => symbol.toUpperCase()).filter(symbol => !this.symbols.has(symbol));
+    if (added.length === 0) return;
+
+    added.forEach(symbol => this.symbols.add(symbol));
+    if (this.state === 'streaming') this.sendSubscription('subscribe', added);
+  }
+
+  unsubscribe(symbols: string[]): void {
+    const removed = symbols.map(symbol => symbol.toUpperCase()).filter(symbol => this.symbols.has(symbol));
+    if (removed.length === 0) return;
+
+    removed.forEach(symbol => {
+      this.symbols.delete(symbol);
+      this.cache.delete(symbol);
+    });
+    if (this.state === 'streaming') this.sendSubscription('unsubscribe', removed);
+  }
+
+  getStatus(): MarketStreamStatus {
+    return {
+      state: this.state,
+      url: this.config.url,
+      symbols: [...this.symbols],
+      acknowledged: {
+        trades: [...this.acknowledged.trades],
+        quotes: [...this.acknowledged.quotes],
+        bars: [...this.acknowledged.bars],
+      },
+      connectedAt: this.connectedAt ? this.connectedAt.toISOString() : null,
+      lastMessageAt: this.lastMessageAt ? this.lastMessageAt.toISOString() : null,
+      reconnects: this.reconnects,
+      messages: { ...this.counts },
+      lastError: this.lastError,
+    };
+  }
+
+  protected isHandshakeComplete(): boolean {
+    return this.state === 'streaming';
+  }
+
+  protected sendKeepAlive(): void {
+    // The server acknowledges every subscription message, so re-sending it doubles as a ping
+    this.sendSubscription('subscribe', [...this.symbols]);
+  }
+
+  private sendSubscription(action: 'subscribe' | 'unsubscribe', symbols: string[]): void {
+    if (symbols.length === 0) return;
+    this.send({
+      action,
+      ...(this.config.trades ? { trades: symbols } : {}),
+      ...(this.config.quotes ? { quotes: symbols } : {}),
+      ...(this.config.bars ? { bars: symbols } : {}),
+    });
+  }
+
+  protected handleFrame(data: unknown): void {
+    let messages: any[];
+    try {
+      const parsed = JSON.parse(typeof data === 'string' ? data : String(data));
+      messages = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      this.lastError = 'Unparseable stream message';
+      return;
+    }
+
+    for (const message of messages) {
+      switch (message.T) {
+        case 'success':
+          if (message.msg === 'connected') {
+            this.state = 'authenticating';
+            this.send({ action: 'auth', key: this.apiKey, secret: this.secretKey });
+          } else if (message.msg === 'authenticated') {
+            this.authenticated();
+            console.log(`📡 Market data stream authenticated; subscribing ${[...this.symbols].join(', ') || 'no symbols yet'}`);
+            this.sendSubscription('subscribe', [...this.symbols]);
+          }
+          break;
+        case 'subscription':
+          this.acknowledged = {
+            trades: message.trades || [],
+            quotes: message.quotes || [],
+            bars: message.bars || [],
+          };
+          break;
+        case 'error':
+          this.lastError = `${message.code ?? ''} ${message.msg ?? 'stream error'}`.trim();
+          console.error(`❌ Market data stream error: ${this.lastError}`);
+          break;
+        case 't': {
+          const trade = parseTrade(message);
+          this.counts.trades++;
+          this.cache.applyTrade(trade);
+          this.emit(this.tradeListeners, trade);
+          break;
+        }
+        case 'q': {
+          const quote = parseQuote(message);
+          this.counts.quotes++;
+          this.cache.applyQuote(quote);
+          this.emit(this.quoteListeners, quote);
+          break;
+        }
+        case 'b': {
+          const bar = parseBar(message);
+          this.counts.bars++;
+          this.emit(this.barListeners, bar);
+          break;
+        }
+      }
+    }
+  }
+
+  private emit<T>(listeners: ((event: T) => void | Promise<void>)[], event: T): void {
+    for (const listener of listeners) {
+      try {
+        Promise.resolve(listener(event)).catch(error => {
+          console.warn('⚠️ Stream listener failed:', error instanceof Error ? error.message : error);
+        });
+      } catch (error) {
+        console.warn('⚠️ Stream listener failed:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+/**
+ * Serves streamed quotes through the MarketDataService chain. Only covers subscribed symbols,
+ * so the rest fall through to REST providers without counting as failures.
+ */
+export class StreamingQuoteProvider implements MarketDataProvider {
+  readonly name = 'alpaca-stream';
+  private stream: AlpacaMarketDataStream;
+  private clock: Clock;
+
+  constructor(stream: AlpacaMarketDataStream, clock: Clock = systemClock) {
+    this.stream = stream;
+    this.clock = clock;
+  }
+
+  covers(symbol: string): boolean {
+    return this.stream.isSubscribed(symbol);
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote | null> {
+    return this.stream.getCache().getQuote(symbol, this.stream.getConfig().quoteMaxAgeMs, this.clock.now(), this.name);
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Multi-Timeframe Signals
+ * Per-timeframe specs (bar interval, ATR target/stop, option expiry), trade levels from bar ATR,
+ * expiration and strike selection, and the cross-timeframe agreement score
+ */
+
+import { QPPFSignal } from './qppf-algorithm';
+import { HistoricalBar } from './backtest-engine';
+import { BarTimeframe, BAR_TIMEFRAME_MINUTES } from './price-bar-source';
+import { FactorResult } from './signal-factors';
+import { getExchangeTime } from './clock';
+import { TradingCalendar, ExpirationType } from './trading-calendar';
+
+export type SignalTimeframe = Exclude<BarTimeframe, '1m'>;
+
+export interface TimeframeSpec {
+  timeframe: SignalTimeframe;
+  lookbackBars: number;        // Bars of history behind momentum and ATR
+  atrPeriod: number;
+  targetATR: number;           // Target distance in ATRs
+  stopATR: number;             // Stop distance in ATRs
+  minExpiryTradingDays: number;  // Earliest expiration, in trading days from today
+  expirationTypes: ExpirationType[];
+  barCacheMs: number;          // How long fetched bars are reused
+}
+
+export interface OptionSuggestion {
+  type: 'call' | 'put';
+  strike: number;
+  expiration: string;          // YYYY-MM-DD
+  daysToExpiry: number;        // Calendar days
+  description: string;         // e.g. '3DTE 2026-10-23 $585 C'
+}
+
+export interface TimeframeSignal {
+  timeframe: SignalTimeframe;
+  direction: QPPFSignal['direction'];
+  confidence: number;
+  strength: number;
+  factorScore: number;
+  factors: FactorResult[];
+  reasonsLong: string[];
+  reasonsShort: string[];
+  price: number;
+  entryPrice: number;
+  targetPrice: number;         // Equal to the entry for FLAT signals
+  stopPrice: number;
+  riskReward: number | null;   // Target distance / stop distance (null for FLAT or without ATR)
+  atr: number | null;          // Average true range of this timeframe's bars
+  barCount: number;
+  lastBarTime: string | null;
+  barSource: string | null;    // Null when bars were unavailable
+  option: OptionSuggestion | null;
+  timestamp: Date;
+}
+
+export interface TimeframeAgreement {
+  score: number;               // 0 (split or flat) to 1 (every timeframe agrees), confidence-weighted
+  netScore: number;            // Signed: +1 all LONG, -1 all SHORT
+  direction: QPPFSignal['direction'];
+  long: SignalTimeframe[];
+  short: SignalTimeframe[];
+  flat: SignalTimeframe[];
+}
+
+export interface MultiTimeframeSignal {
+  signal: QPPFSignal;          // The tick-level signal whose inputs every timeframe shares
+  timeframes: Partial<Record<SignalTimeframe, TimeframeSignal>>;
+  agreement: TimeframeAgreement;
+}
+
+const ALL_EXPIRATIONS: ExpirationType[] = ['daily', 'weekly', 'monthly'];
+
+export const TIMEFRAME_SPECS: Record<SignalTimeframe, TimeframeSpec> = {
+  '5m': { timeframe: '5m', lookbackBars: 60, atrPeriod: 14, targetATR: 1.5, stopATR: 1, minExpiryTradingDays: 0, expirationTypes: ALL_EXPIRATIONS, barCacheMs: 60000 },
+  '15m': { timeframe: '15m', lookbackBars: 60, atrPeriod: 14, targetATR: 1.5, stopATR: 1, minExpiryTradingDays: 1, expirationTypes: ALL_EXPIRATIONS, barCacheMs: 60000 },
+  '30m': { timeframe: '30m', lookbackBars: 60, atrPeriod: 14, targetATR: 2, stopATR: 1, minExpiryTradingDays: 2, expirationTypes: ALL_EXPIRATIONS, barCacheMs: 120000 },
+  '1h': { timeframe: '1h', lookbackBars: 60, atrPeriod: 14, targetATR: 2, stopATR: 1, minExpiryTradingDays: 5, expirationTypes: ['weekly', 'monthly'], barCacheMs: 300000 },
+  '4h': { timeframe: '4h', lookbackBars: 60, atrPeriod: 14, targetATR: 2.5, stopATR: 1.25, minExpiryTradingDays: 10, expirationTypes: ['weekly', 'monthly'], barCacheMs: 300000 },
+  '1d': { timeframe: '1d', lookbackBars: 60, atrPeriod: 14, targetATR: 3, stopATR: 1.5, minExpiryTradingDays: 20, expirationTypes: ['monthly'], barCacheMs: 900000 },
+};
+
+export const SIGNAL_TIMEFRAMES = Object.keys(TIMEFRAME_SPECS) as SignalTimeframe[];
+
+/**
+ * Start of a window holding at least `lookbackBars` bars (6.5-hour sessions, weekends and holidays)
+ */
+export function barLookbackStart(now: Date, spec: TimeframeSpec): Date {
+  const sessionDays = spec.timeframe === '1d'
+    ? spec.lookbackBars
+    : Math.ceil(spec.lookbackBars / Math.max(1, Math.floor(390 / BAR_TIMEFRAME_MINUTES[spec.timeframe])));
+  const calendarDays = Math.ceil(sessionDays * 7 / 5) + 4;
+  return new Date(now.getTime() - calendarDays * 86400000);
+}
+
+/**
+ * Average true range over the last `period` bars (simple average of true ranges)
+ */
+export function calculateBarATR(bars: HistoricalBar[], period: number = 14): number | null {
+  if (bars.length < 2) return null;
+
+  const ranges: number[] = [];
+  for (let i = 1; i < bars.length; i++) {
+    const previousClose = bars[i - 1].close;
+    ranges.push(Math.max(
+      bars[i].high - bars[i].low,
+      Math.abs(bars[i].high - previousClose),
+      Math.abs(bars[i].low - previousClose)
+    ));
+  }
+
+  const recent = ranges.slice(-period);
+  return recent.reduce((sum, range) => sum + range, 0) / recent.length;
+}
+
+/**
+ * Entry at the current price with target and stop a timeframe-specific number of ATRs away
+ */
+export function tradeLevels(
+  direction: QPPFSignal['direction'],
+  price: number,
+  atr: number | null,
+  spec: TimeframeSpec
+): { entryPrice: number; targetPrice: number; stopPrice: number; riskReward: number | null } {
+  if (direction === 'FLAT' || !atr || atr <= 0) {
+    return { entryPrice: price, targetPrice: price, stopPrice: price, riskReward: null };
+  }
+
+  const side = direction === 'LONG' ? 1 : -1;
+  return {
+    entryPrice: price,
+    targetPrice: price + side * spec.targetATR * atr,
+    stopPrice: price - side * spec.stopATR * atr,
+    riskReward: spec.targetATR / spec.stopATR,
+  };
+}
+
+/**
+ * First expiration at least minExpiryTradingDays out whose type the timeframe trades
+ * (today counts as 0 while its session is still open)
+ */
+export function selectExpiration(calendar: TradingCalendar, now: Date, spec: TimeframeSpec, symbol: string): string | null {
+  let day = getExchangeTime(now).date;
+  let tradingDays = 0;
+
+  if (!calendar.isTradingDay(day) || now.getTime() >= calendar.getExpirationClose(day).getTime()) {
+    day = calendar.nextTradingDay(day);
+  }
+
+  for (let i = 0; i < 120; i++) {
+    const type = calendar.getExpirationType(day, symbol);
+    if (tradingDays >= spec.minExpiryTradingDays && type && spec.expirationTypes.includes(type)) {
+      return day;
+    }
+    day = calendar.nextTradingDay(day);
+    tradingDays++;
+  }
+  return null;
+}
+
+/**
+ * Listed strike spacing by underlying price
+ */
+export function strikeIncrement(price: number): number {
+  if (price < 25) return 0.5;
+  if (price < 500) return 1;
+  return 5;
+}
+
+/**
+ * Nearest out-of-the-money strike in the signal's direction, expiring per the timeframe
+ */
+export function suggestOption(
+  direction: QPPFSignal['direction'],
+  price: number,
+  symbol: string,
+  spec: TimeframeSpec,
+  calendar: TradingCalendar,
+  now: Date
+): OptionSuggestion | null {
+  if (direction === 'FLAT') return null;
+
+  const expiration = selectExpiration(calendar, now, spec, symbol);
+  if (!expiration) return null;
+
+  const increment = strikeIncrement(price);
+  const type = direction === 'LONG' ? 'call' : 'put';
+  const strike = type === 'call'
+    ? Math.ceil(price / increment) * increment
+    : Math.floor(price / increment) * increment;
+  const daysToExpiry = Math.round(
+    (Date.parse(`${expiration}T00:00:00Z`) - Date.parse(`${getExchangeTime(now).date}T00:00:00Z`)) / 86400000
+  );
+
+  return {
+    type,
+    strike,
+    expiration,
+    daysToExpiry,
+    description: `${daysToExpiry}DTE ${expiration} $${strike} ${type === 'call' ? 'C' : 'P'}`,
+  };
+}
+
+/**
+ * Confidence-weighted agreement across timeframes; FLAT timeframes dilute the score
+ */
+export function timeframeAgreement(signals: TimeframeSignal[]): TimeframeAgreement {
+  const pick = (direction: QPPFSignal['direction']) =>
+    signals.filter(signal => signal.direction === direction).map(signal => signal.timeframe);
+
+  const totalWeight = signals.reduce((sum, signal) => sum + Math.max(signal.confidence, 0.01), 0);
+  const net = signals.reduce((sum, signal) => {
+    const side = signal.direction === 'LONG' ? 1 : signal.direction === 'SHORT' ? -1 : 0;
+    return sum + side * Math.max(signal.confidence, 0.01);
+  }, 0);
+  const netScore = totalWeight > 0 ? net / totalWeight : 0;
+
+  return {
+    score: Math.abs(netScore),
+    netScore,
+    direction: netScore > 0 ? 'LONG' : netScore < 0 ? 'SHORT' : 'FLAT',
+    long: pick('LONG'),
+    short: pick('SHORT'),
+    flat: pick('FLAT'),
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Node Filesystem
+ * Lazily loaded node:fs/promises for the JSON Lines file stores (Node only; Workers have no filesystem)
+ */
+
+export interface FileSystemLike {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  appendFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  writeFile(path: string, data: string, encoding: 'utf8'): Promise<void>;
+  mkdir(path: string, options: { recursive: boolean }): Promise<unknown>;
+}
+
+export async function loadNodeFs(): Promise<FileSystemLike> {
+  // Resolved at runtime so the Workers bundle never pulls in node:fs
+  const moduleName = 'node:fs/promises';
+  return import(/* @vite-ignore */ moduleName);
+}
+
+/**
+ * Create the directory a file path lives in, if the path has one
+ */
+export async function ensureParentDirectory(path: string): Promise<void> {
+  const directory = path.replace(/[\\/][^\\/]*$/, '');
+  if (directory && directory !== path) {
+    await (await loadNodeFs()).mkdir(directory, { recursive: true });
+  }
+}
@@ -0,0 +1,443 @@
+/**
+ * Option Chain Sources
+ * Supplies full option chain snapshots (every strike/expiry, real open interest and IV) for GEX calculations
+ */
+
+import { OptionContract, CustomerFlow } from './gex-calculator';
+import { DataProvenance } from './data-quality';
+import { Clock, systemClock, getExchangeTime } from './clock';
+
+export interface OptionChainSnapshot {
+  symbol: string;
+  timestamp: string;           // ISO time the snapshot was taken
+  contracts: OptionContract[];
+  underlyingPrice?: number;    // Spot at snapshot time, when the source reports it
+  source?: string;             // Name of the source that produced the snapshot
+  provenance?: DataProvenance; // Defaults to live when omitted
+}
+
+export interface OptionChainSource {
+  readonly name: string;
+  getChain(symbol: string, asOf: Date): Promise<OptionChainSnapshot | null>;
+}
+
+export interface ParsedOptionSymbol {
+  root: string;
+  expiry: string;              // YYYY-MM-DD
+  type: 'call' | 'put';
+  strike: number;
+}
+
+/**
+ * Parse an OCC option symbol, e.g. SPY250718C00600000 → SPY 2025-07-18 600 call
+ */
+export function parseOccSymbol(occSymbol: string): ParsedOptionSymbol | null {
+  const match = occSymbol.replace(/\s+/g, '').toUpperCase().match(/^([A-Z0-9.]{1,6})(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/);
+  if (!match) return null;
+
+  const [, root, yy, mm, dd, cp, strike] = match;
+  return {
+    root,
+    expiry: `20${yy}-${mm}-${dd}`,
+    type: cp === 'C' ? 'call' : 'put',
+    strike: parseInt(strike, 10) / 1000,
+  };
+}
+
+/**
+ * Build an OCC option symbol as Alpaca expects it (no padding), e.g. SPY 2025-07-18 600 call → SPY250718C00600000
+ */
+export function formatOccSymbol(root: string, expiry: string, type: 'call' | 'put', strike: number): string {
+  const [year, month, day] = expiry.split('T')[0].split('-');
+  const strikeField = String(Math.round(strike * 1000)).padStart(8, '0');
+  return `${root.toUpperCase()}${year.slice(-2)}${month}${day}${type === 'call' ? 'C' : 'P'}${strikeField}`;
+}
+
+/**
+ * Build an OptionContract from a loosely-typed chain row (CSV row, JSON object or API record).
+ * Rows without a real open interest are rejected rather than filled in from volume.
+ */
+export function toOptionContract(row: Record<string, any>): OptionContract | null {
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      if (row[key] !== undefined && row[key] !== null && row[key] !== '') return row[key];
+    }
+    return undefined;
+  };
+
+  const occ = pick('option_symbol', 'occ_symbol', 'symbol');
+  const parsed = typeof occ === 'string' ? parseOccSymbol(occ) : null;
+
+  const strike = Number(pick('strike', 'strike_price') ?? parsed?.strike);
+  const expiry = String(pick('expiry', 'expiration', 'expiration_date') ?? parsed?.expiry ?? '').split('T')[0];
+  const rawType = String(pick('type', 'option_type', 'right') ?? parsed?.type ?? '').toLowerCase();
+  const type = rawType.startsWith('c') ? 'call' : rawType.startsWith('p') ? 'put' : null;
+  const openInterest = Number(pick('openInterest', 'open_interest', 'oi'));
+
+  if (!strike || !expiry || !type || !Number.isFinite(openInterest)) {
+    return null;
+  }
+
+  const iv = Number(pick('impliedVolatility', 'implied_volatility', 'iv'));
+  const volume = Number(pick('volume'));
+  const premium = Number(pick('premium', 'mark', 'last_price'));
+  const gamma = Number(pick('unitGamma', 'gamma'));
+  const delta = Number(pick('unitDelta', 'delta'));
+
+  // Customer side of the volume, used by the flow-inferred and open/close-aware dealer models
+  const flowRow = row.customerFlow && typeof row.customerFlow === 'object' ? row.customerFlow : {};
+  const flowVolume = (camel: string, ...keys: string[]) => {
+    const value = Number(flowRow[camel] ?? pick(...keys));
+    return Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  const customerFlow: CustomerFlow = {
+    buyVolume: flowVolume('buyVolume', 'buy_volume', 'ask_volume'),
+    sellVolume: flowVolume('sellVolume', 'sell_volume', 'bid_volume'),
+    openBuyVolume: flowVolume('openBuyVolume', 'open_buy_volume'),
+    openSellVolume: flowVolume('openSellVolume', 'open_sell_volume'),
+    closeBuyVolume: flowVolume('closeBuyVolume', 'close_buy_volume'),
+    closeSellVolume: flowVolume('closeSellVolume', 'close_sell_volume'),
+  };
+  const hasFlow = Object.values(customerFlow).some(value => value !== undefined);
+
+  return {
+    strike,
+    expiry,
+    type,
+    openInterest,
+    impliedVolatility: iv > 0 ? iv : undefined,
+    volume: Number.isFinite(volume) ? volume : undefined,
+    premium: premium > 0 ? premium : undefined,
+    unitGamma: gamma > 0 ? gamma : undefined,
+    unitDelta: Number.isFinite(delta) ? delta : undefined,
+    customerFlow: hasFlow ? customerFlow : undefined,
+  };
+}
+
+/**
+ * Parse a CSV chain with a header row. Recognised columns: strike/strike_price, expiry/expiration(_date),
+ * type/option_type, open_interest, implied_volatility/iv, volume, gamma, delta, or an option_symbol (OCC) column.
+ * Optional customer flow columns: buy_volume/ask_volume, sell_volume/bid_volume, open_buy_volume,
+ * open_sell_volume, close_buy_volume, close_sell_volume.
+ */
+export function parseOptionChainCSV(text: string): OptionContract[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length < 2) return [];
+
+  const headers = lines[0].split(',').map(header => header.trim().toLowerCase());
+  const contracts: OptionContract[] = [];
+
+  for (const line of lines.slice(1)) {
+    const values = line.split(',').map(value => value.trim());
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => { row[header] = values[i]; });
+
+    const contract = toOptionContract(row);
+    if (contract) contracts.push(contract);
+  }
+
+  return contracts;
+}
+
+/**
+ * Parse a JSON chain: an array of rows, { contracts: [...] } or a full OptionChainSnapshot
+ */
+export function parseOptionChainJSON(text: string): { contracts: OptionContract[]; symbol?: string; underlyingPrice?: number; timestamp?: string } {
+  const data = JSON.parse(text);
+  const rows: any[] = Array.isArray(data) ? data : (data.contracts || data.data || []);
+
+  return {
+    contracts: rows.map(row => toOptionContract(row)).filter((c): c is OptionContract => c !== null),
+    symbol: Array.isArray(data) ? undefined : data.symbol,
+    underlyingPrice: Array.isArray(data) ? undefined : Number(data.underlyingPrice ?? data.underlying_price) || undefined,
+    timestamp: Array.isArray(data) ? undefined : data.timestamp,
+  };
+}
+
+/**
+ * Serves previously recorded chain snapshots, returning the latest one at or before asOf
+ */
+export class RecordedOptionChainSource implements OptionChainSource {
+  readonly name = 'recorded';
+  private snapshots: OptionChainSnapshot[];
+
+  constructor(snapshots: OptionChainSnapshot[]) {
+    this.snapshots = [...snapshots].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+  }
+
+  async getChain(symbol: string, asOf: Date): Promise<OptionChainSnapshot | null> {
+    let latest: OptionChainSnapshot | null = null;
+
+    for (const snapshot of this.snapshots) {
+      if (snapshot.symbol.toUpperCase() !== symbol.toUpperCase()) continue;
+      if (new Date(snapshot.timestamp).getTime() > asOf.getTime()) break;
+      latest = snapshot;
+    }
+
+    return latest ? { source: this.name, ...latest } : null;
+  }
+}
+
+/**
+ * Unusual Whales chain: lists expiries, then loads every contract per expiry with OI and IV
+ */
+export class UnusualWhalesChainSource implements OptionChainSource {
+  readonly name = 'unusual-whales';
+  private apiKey: string;
+  private baseUrl = 'https://api.unusualwhales.com';
+  private maxDaysToExpiry: number;
+  private concurrency: number;
+
+  constructor(apiKey: string, maxDaysToExpiry: number = 365, concurrency: number = 4) {
+    this.apiKey = apiKey;
+    this.maxDaysToExpiry = maxDaysToExpiry;
+    this.concurrency = Math.max(1, concurrency);
+  }
+
+  private async request(path: string): Promise<any[]> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Accept': 'application/json',
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Unusual Whales API error: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const data = result.data || result;
+    return Array.isArray(data) ? data : [];
+  }
+
+  async getChain(symbol: string, asOf: Date): Promise<OptionChainSnapshot | null> {
+    const ticker = symbol.toUpperCase();
+    const today = getExchangeTime(asOf).date;
+    const lastExpiry = getExchangeTime(new Date(asOf.getTime() + this.maxDaysToExpiry * 24 * 60 * 60 * 1000)).date;
+
+    const expiries = (await this.request(`/api/stock/${ticker}/expiry-breakdown`))
+      .map(row => String(row.expiry || row.expiration_date || '').split('T')[0])
+      .filter(expiry => expiry && expiry >= today && expiry <= lastExpiry);
+
+    // One request per expiry, a few at a time
+    const rowsByExpiry: any[][] = new Array(expiries.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < expiries.length) {
+        const index = next++;
+        const params = new URLSearchParams({ expiry: expiries[index], exclude_zero_oi_chains: 'true' });
+        rowsByExpiry[index] = await this.request(`/api/stock/${ticker}/option-contracts?${params}`);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, expiries.length) }, worker));
+
+    const contracts: OptionContract[] = [];
+    for (const row of rowsByExpiry.flat()) {
+      const contract = toOptionContract(row);
+      if (contract) contracts.push(contract);
+    }
+
+    if (contracts.length === 0) return null;
+
+    console.log(`🐋 Loaded ${contracts.length} contracts across ${expiries.length} expiries for ${ticker}`);
+    return { symbol: ticker, timestamp: asOf.toISOString(), contracts, source: this.name, provenance: 'live' };
+  }
+}
+
+/**
+ * Alpaca options: contract listing for strikes/expiries/open interest, snapshots for IV and greeks
+ */
+export class AlpacaOptionChainSource implements OptionChainSource {
+  readonly name = 'alpaca-options';
+  private apiKey: string;
+  private secretKey: string;
+  private tradingBaseUrl: string;
+  private dataBaseUrl = 'https://data.alpaca.markets';
+  private maxDaysToExpiry: number;
+
+  constructor(apiKey: string, secretKey: string, paper: boolean = true, maxDaysToExpiry: number = 365) {
+    this.apiKey = apiKey;
+    this.secretKey = secretKey;
+    this.tradingBaseUrl = paper ? 'https://paper-api.alpaca.markets' : 'https://api.alpaca.markets';
+    this.maxDaysToExpiry = maxDaysToExpiry;
+  }
+
+  private async request(url: string): Promise<any> {
+    const response = await fetch(url, {
+      headers: {
+        'Apca-Api-Key-Id': this.apiKey,
+        'Apca-Api-Secret-Key': this.secretKey,
+      }
+    });
+
+    if (!response.ok) {
+      throw new Error(`Alpaca options API error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  async getChain(symbol: string, asOf: Date): Promise<OptionChainSnapshot | null> {
+    const ticker = symbol.toUpperCase();
+    const lastExpiry = new Date(asOf.getTime() + this.maxDaysToExpiry * 24 * 60 * 60 * 1000);
+
+    // 1. Contract listing (carries open interest)
+    const listed = new Map<string, OptionContract>();
+    let pageToken: string | undefined;
+    do {
+      const params = new URLSearchParams({
+        underlying_symbols: ticker,
+        status: 'active',
+        expiration_date_gte: getExchangeTime(asOf).date,
+        expiration_date_lte: getExchangeTime(lastExpiry).date,
+        limit: '10000',
+      });
+      if (pageToken) params.set('page_token', pageToken);
+
+      const page = await this.request(`${this.tradingBaseUrl}/v2/options/contracts?${params}`);
+      for (const row of page.option_contracts || []) {
+        const contract = toOptionContract({
+          strike_price: row.strike_price,
+          expiration_date: row.expiration_date,
+          type: row.type,
+          open_interest: row.open_interest,
+        });
+        if (contract) listed.set(row.symbol, contract);
+      }
+      pageToken = page.next_page_token || undefined;
+    } while (pageToken);
+
+    if (listed.size === 0) return null;
+
+    // 2. Snapshots (IV and greeks) merged onto the listed contracts
+    pageToken = undefined;
+    do {
+      const params = new URLSearchParams({ feed: 'indicative', limit: '1000' });
+      if (pageToken) params.set('page_token', pageToken);
+
+      const page = await this.request(`${this.dataBaseUrl}/v1beta1/options/snapshots/${ticker}?${params}`);
+      for (const [occSymbol, snapshot] of Object.entries<any>(page.snapshots || {})) {
+        const contract = listed.get(occSymbol);
+        if (!contract) continue;
+        if (snapshot.impliedVolatility > 0) contract.impliedVolatility = snapshot.impliedVolatility;
+        if (snapshot.greeks?.gamma > 0) contract.unitGamma = snapshot.greeks.gamma;
+        if (snapshot.greeks?.delta !== undefined) contract.unitDelta = snapshot.greeks.delta;
+        if (snapshot.dailyBar?.v !== undefined) contract.volume = Number(snapshot.dailyBar.v);
+        if (snapshot.latestQuote?.bp > 0 && snapshot.latestQuote?.ap > 0) {
+          contract.premium = (snapshot.latestQuote.bp + snapshot.latestQuote.ap) / 2;
+        }
+      }
+      pageToken = page.next_page_token || undefined;
+    } while (pageToken);
+
+    const contracts = Array.from(listed.values());
+    console.log(`🦙 Loaded ${contracts.length} Alpaca option contracts for ${ticker}`);
+    return { symbol: ticker, timestamp: asOf.toISOString(), contracts, source: this.name, provenance: 'live' };
+  }
+}
+
+export interface FileOptionChainSourceOptions {
+  content?: string;                // Raw CSV/JSON text (e.g. read from disk by a dev script)
+  url?: string;                    // Or a URL serving the file (Workers have no filesystem)
+  format?: 'csv' | 'json';         // Inferred from the URL extension or content when omitted
+  symbol?: string;                 // Underlying the file describes (JSON snapshots may carry their own)
+  provenance?: DataProvenance;     // A static file is not live data; defaults to cached
+}
+
+/**
+ * Local CSV/JSON chain file for one underlying, loaded once and served for any asOf
+ */
+export class FileOptionChainSource implements OptionChainSource {
+  readonly name = 'file';
+  private options: FileOptionChainSourceOptions;
+  private loaded: { contracts: OptionContract[]; symbol?: string; underlyingPrice?: number; timestamp?: string } | null = null;
+
+  constructor(options: FileOptionChainSourceOptions) {
+    if (!options.content && !options.url) {
+      throw new Error('FileOptionChainSource requires content or url');
+    }
+    this.options = options;
+  }
+
+  private async load() {
+    if (this.loaded) return this.loaded;
+
+    let text = this.options.content;
+    if (text === undefined) {
+      const response = await fetch(this.options.url!);
+      if (!response.ok) {
+        throw new Error(`Option chain file error: ${response.status}`);
+      }
+      text = await response.text();
+    }
+
+    const format = this.options.format
+      || (this.options.url?.toLowerCase().endsWith('.csv') ? 'csv' : undefined)
+      || (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+
+    this.loaded = format === 'json' ? parseOptionChainJSON(text) : { contracts: parseOptionChainCSV(text) };
+    console.log(`📄 Loaded ${this.loaded.contracts.length} option contracts from ${format.toUpperCase()} chain`);
+    return this.loaded;
+  }
+
+  async getChain(symbol: string, asOf: Date): Promise<OptionChainSnapshot | null> {
+    const { contracts, underlyingPrice, timestamp, symbol: fileSymbol } = await this.load();
+    if (contracts.length === 0) return null;
+
+    // A file describes one underlying; never serve it for another symbol
+    const chainSymbol = this.options.symbol || fileSymbol;
+    if (chainSymbol && chainSymbol.toUpperCase() !== symbol.toUpperCase()) return null;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      timestamp: timestamp || asOf.toISOString(),
+      contracts,
+      underlyingPrice,
+      source: this.name,
+      provenance: this.options.provenance || 'cached',
+    };
+  }
+}
+
+/**
+ * Serves another source's snapshot per symbol for ttlMs (open interest only changes daily), sharing
+ * one in-flight fetch between concurrent callers; only for live sources, since asOf is ignored while cached
+ */
+export class CachedOptionChainSource implements OptionChainSource {
+  readonly name: string;
+  private source: OptionChainSource;
+  private ttlMs: number;
+  private clock: Clock;
+  private cache = new Map<string, { fetchedAt: number; chain: Promise<OptionChainSnapshot | null> }>();
+
+  constructor(source: OptionChainSource, ttlMs: number = 300000, clock: Clock = systemClock) {
+    this.name = source.name;
+    this.source = source;
+    this.ttlMs = ttlMs;
+    this.clock = clock;
+  }
+
+  async getChain(symbol: string, asOf: Date): Promise<OptionChainSnapshot | null> {
+    const ticker = symbol.toUpperCase();
+    const now = this.clock.now().getTime();
+    const cached = this.cache.get(ticker);
+    if (cached && now - cached.fetchedAt < this.ttlMs) return cached.chain;
+
+    const chain = this.source.getChain(ticker, asOf);
+    this.cache.set(ticker, { fetchedAt: now, chain });
+    try {
+      return await chain;
+    } catch (error) {
+      // Failures are not cached; the next caller retries
+      if (this.cache.get(ticker)?.chain === chain) this.cache.delete(ticker);
+      throw error;
+    }
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Option Contract Selector
+ * Picks the contract to buy for a directional signal from a listed chain: expiry by signal timeframe,
+ * strike by target delta or the expiry's GEX wall, with its OCC symbol and mark premium
+ */
+
+import { QPPFSignal } from './qppf-algorithm';
+import { GEXCalculator, GEXConfig, ContractGreeks } from './gex-calculator';
+import { OptionChainSnapshot, formatOccSymbol } from './option-chain-source';
+import { SignalTimeframe, TIMEFRAME_SPECS, selectExpiration } from './multi-timeframe';
+import { IVSurface } from './implied-volatility';
+import { Clock, systemClock, getExchangeTime } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+
+export type StrikeSelection = 'delta' | 'gex-wall';
+
+export const STRIKE_SELECTIONS: StrikeSelection[] = ['delta', 'gex-wall'];
+
+export interface ContractSelectorConfig {
+  strikeSelection: StrikeSelection;
+  targetDelta: number;           // |delta| sought by delta selection (0.40 = a little out of the money)
+  timeframe: SignalTimeframe;    // Expiry rule: 5m = 0DTE, 15m = 1DTE, 30m = weekly, 1h = 2-week, 4h = monthly, 1d = 45DTE
+}
+
+export const DEFAULT_CONTRACT_SELECTOR_CONFIG: ContractSelectorConfig = {
+  strikeSelection: 'delta',
+  targetDelta: 0.4,
+  timeframe: '30m',
+};
+
+export interface ContractSelection {
+  underlying: string;
+  contractSymbol: string;        // OCC symbol
+  type: 'call' | 'put';
+  strike: number;
+  expiration: string;            // YYYY-MM-DD
+  daysToExpiry: number;          // Calendar days
+  timeframe: SignalTimeframe;
+  strikeSelection: StrikeSelection;  // How the strike was actually picked (gex-wall falls back to delta)
+  gexWall: number | null;        // Wall the strike was placed at
+  delta: number;
+  impliedVolatility: number | null;
+  premium: number | null;        // Mark per share from the chain, when quoted
+  openInterest: number;
+  reasons: string[];
+}
+
+export class OptionContractSelector {
+  private config: ContractSelectorConfig;
+  private gexConfig: Partial<GEXConfig>;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+
+  constructor(
+    config: Partial<ContractSelectorConfig> = {},
+    gexConfig: Partial<GEXConfig> = {},
+    clock: Clock = systemClock,
+    calendar: TradingCalendar = tradingCalendar
+  ) {
+    this.config = { ...DEFAULT_CONTRACT_SELECTOR_CONFIG, ...config };
+    this.gexConfig = gexConfig;
+    this.clock = clock;
+    this.calendar = calendar;
+  }
+
+  getConfig(): ContractSelectorConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Call for LONG, put for SHORT; null for FLAT signals or when the chain lists nothing at or after
+   * the timeframe's expiration
+   */
+  select(
+    chain: OptionChainSnapshot,
+    spot: number,
+    direction: QPPFSignal['direction'],
+    overrides: Partial<ContractSelectorConfig> = {}
+  ): ContractSelection | null {
+    const config = { ...this.config, ...overrides };
+    if (direction === 'FLAT') return null;
+
+    const type = direction === 'LONG' ? 'call' : 'put';
+    const now = this.clock.now();
+    const reasons: string[] = [];
+
+    // Expiry: the timeframe's first eligible expiration, or the next one the chain actually lists
+    const target = selectExpiration(this.calendar, now, TIMEFRAME_SPECS[config.timeframe], chain.symbol);
+    if (!target) return null;
+    const listed = chain.contracts.filter(contract => contract.type === type && contract.expiry >= target);
+    if (listed.length === 0) return null;
+    const expiration = listed.reduce((earliest, contract) => contract.expiry < earliest ? contract.expiry : earliest, listed[0].expiry);
+    if (expiration !== target) reasons.push(`No ${target} expiration listed; using ${expiration}`);
+
+    const gex = new GEXCalculator(undefined, undefined, this.clock, this.calendar, this.gexConfig);
+    let surface: IVSurface | null = null;
+    try {
+      surface = gex.buildIVSurface(chain, spot);
+    } catch (error) {
+      console.warn(`⚠️ No IV surface for ${chain.symbol}; pricing contracts with their own vols:`, error instanceof Error ? error.message : error);
+    }
+    const candidates = gex.calculateContractGreeks(
+      listed.filter(contract => contract.expiry === expiration),
+      spot,
+      surface,
+      chain.symbol
+    );
+
+    // Strike: the expiry's wall in the signal's direction when there is one, otherwise the target delta
+    let strikeSelection = config.strikeSelection;
+    let gexWall: number | null = null;
+    let chosen: ContractGreeks | null = null;
+    if (strikeSelection === 'gex-wall') {
+      gexWall = this.findWall(gex, chain, spot, expiration, type);
+      if (gexWall !== null) {
+        const wall = gexWall;
+        chosen = candidates.reduce((best, contract) =>
+          Math.abs(contract.strike - wall) < Math.abs(best.strike - wall) ? contract : best);
+        reasons.push(`Strike at the ${expiration} ${type} wall ($${wall})`);
+      } else {
+        strikeSelection = 'delta';
+        reasons.push(`No ${type} wall ${type === 'call' ? 'above' : 'below'} spot; selected by delta instead`);
+      }
+    }
+    if (!chosen) {
+      chosen = candidates.reduce((best, contract) =>
+        Math.abs(Math.abs(contract.greeks.delta) - config.targetDelta) < Math.abs(Math.abs(best.greeks.delta) - config.targetDelta)
+          ? contract
+          : best);
+      reasons.push(`Delta ${chosen.greeks.delta.toFixed(2)} nearest the ${config.targetDelta.toFixed(2)} target`);
+    }
+
+    const daysToExpiry = Math.round(
+      (Date.parse(`${expiration}T00:00:00Z`) - Date.parse(`${getExchangeTime(now).date}T00:00:00Z`)) / 86400000
+    );
+
+    return {
+      underlying: chain.symbol.toUpperCase(),
+      contractSymbol: formatOccSymbol(chain.symbol, expiration, type, chosen.strike),
+      type,
+      strike: chosen.strike,
+      expiration,
+      daysToExpiry,
+      timeframe: config.timeframe,
+      strikeSelection,
+      gexWall: strikeSelection === 'gex-wall' ? gexWall : null,
+      delta: chosen.greeks.delta,
+      impliedVolatility: chosen.impliedVolatility ?? null,
+      premium: chosen.premium && chosen.premium > 0 ? chosen.premium : null,
+      openInterest: chosen.openInterest,
+      reasons,
+    };
+  }
+
+  /**
+   * Call wall above spot or put wall below it, from the expiry's own bucket when it has one
+   */
+  private findWall(
+    gex: GEXCalculator,
+    chain: OptionChainSnapshot,
+    spot: number,
+    expiration: string,
+    type: 'call' | 'put'
+  ): number | null {
+    try {
+      const gexData = gex.calculateGEX(chain, spot);
+      const bucket = gexData.expiryBuckets.find(entry => entry.expiries.includes(expiration));
+      const wall = type === 'call'
+        ? bucket?.callWall ?? gexData.keyLevels.callWall
+        : bucket?.putWall ?? gexData.keyLevels.putWall;
+      if (wall === null || wall === undefined) return null;
+      return (type === 'call' ? wall > spot : wall < spot) ? wall : null;
+    } catch (error) {
+      console.warn(`⚠️ GEX walls unavailable for ${chain.symbol}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,436 @@
+/**
+ * Order Manager
+ * Follows every submitted order by client order ID through its broker states (polling or trade_updates),
+ * reconciles fills into positions and measures fill slippage against the signal price
+ */
+
+import { BrokerOrder, TradeResult, OPTION_CONTRACT_MULTIPLIER } from './broker-adapter';
+import { Clock, systemClock } from './clock';
+
+export type OrderStatus = BrokerOrder['status'];
+
+// States an order never leaves
+export const TERMINAL_ORDER_STATUSES: OrderStatus[] = ['filled', 'canceled', 'expired', 'replaced', 'rejected'];
+
+export type OrderUpdateSource = 'submit' | 'poll' | 'stream';
+
+/**
+ * One observation of an order: a trade_updates event or a polled snapshot
+ */
+export interface OrderUpdate {
+  event: string;               // trade_updates event (new, fill, partial_fill, canceled, ...) or 'poll'
+  source: OrderUpdateSource;
+  timestamp: string;           // When the broker reported it (ISO)
+  order: BrokerOrder;          // Order state after the event
+  fillQty?: number;            // This execution's size and price (stream fill events)
+  fillPrice?: number;
+  positionQty?: number;        // Broker position after the execution (stream fill events)
+}
+
+export interface OrderEvent {
+  timestamp: string;
+  event: string;
+  source: OrderUpdateSource;
+  status: OrderStatus;
+  filledQty: number;
+  filledAvgPrice: number | null;
+  reason: string | null;       // Rejection or cancel reason when given
+}
+
+export interface OrderFill {
+  timestamp: string;
+  qty: number;
+  price: number;
+  source: OrderUpdateSource;
+}
+
+export interface TrackedOrder {
+  clientOrderId: string;
+  orderId: string | null;      // Null when submission failed before Alpaca assigned one
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  contractMultiplier: number;  // Shares per unit of qty: 100 for equity options, 1 for stock
+  orderType: string;
+  status: OrderStatus;
+  filledQty: number;
+  filledAvgPrice: number | null;
+  signalPrice: number | null;  // Price the trade decision was made at
+  signalId: string | null;     // Journal ID of the signal behind the order
+  slippage: number | null;     // Per share against the signal price; positive is worse than the signal
+  slippageBps: number | null;
+  reason: string | null;
+  submittedAt: string;
+  updatedAt: string;
+  closedAt: string | null;     // When a terminal status was first seen
+  fills: OrderFill[];
+  timeline: OrderEvent[];
+}
+
+export interface ReconciledPosition {
+  symbol: string;
+  qty: number;                 // Signed: negative is short
+  contractMultiplier: number;
+  avgEntryPrice: number;       // Per share, as the broker quotes it
+  realizedPL: number;          // In dollars: price moves times qty times the contract multiplier
+  brokerQty: number | null;    // Last position size the broker reported on a fill
+  fillCount: number;
+  updatedAt: string;
+}
+
+export interface OrderManagerConfig {
+  pollIntervalMs: number;      // How often open orders are polled
+  maxOrders: number;           // Closed orders beyond this are forgotten, oldest first
+}
+
+export const DEFAULT_ORDER_MANAGER_CONFIG: OrderManagerConfig = {
+  pollIntervalMs: 5000,
+  maxOrders: 500,
+};
+
+export interface OrderSubmission {
+  symbol: string;
+  side: 'buy' | 'sell';
+  qty: number;
+  contractMultiplier?: number;  // Defaults to 100 for option orders (by asset class) and 1 otherwise
+  signalPrice?: number | null;
+  signalId?: string | null;
+}
+
+export interface OrderQuery {
+  symbol?: string;
+  state?: 'open' | 'closed';
+  limit?: number;
+}
+
+export interface OrderManagerStatus {
+  tracked: number;
+  open: number;
+  closed: number;
+  filled: number;
+  rejected: number;
+  avgSlippageBps: number | null;  // Over filled orders with a signal price
+  lastPollAt: string | null;
+  lastPollError: string | null;
+}
+
+/**
+ * Where open orders are polled from (any BrokerAdapter)
+ */
+export interface OrderStatusSource {
+  getOrderByClientOrderId(clientOrderId: string): Promise<BrokerOrder | null>;
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return TERMINAL_ORDER_STATUSES.includes(status);
+}
+
+export class OrderManager {
+  private source: OrderStatusSource;
+  private config: OrderManagerConfig;
+  private clock: Clock;
+  private orders = new Map<string, TrackedOrder>();
+  private positions = new Map<string, ReconciledPosition>();
+  private lastPollAt: string | null = null;
+  private lastPollError: string | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private polling = false;
+
+  constructor(source: OrderStatusSource, config: Partial<OrderManagerConfig> = {}, clock: Clock = systemClock) {
+    this.source = source;
+    this.config = { ...DEFAULT_ORDER_MANAGER_CONFIG, ...config };
+    this.clock = clock;
+  }
+
+  getConfig(): OrderManagerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Start tracking an order from its submission result; failed submissions are recorded as rejected.
+   * Returns null when nothing reached the broker (no client order ID).
+   */
+  track(result: TradeResult, submission: OrderSubmission): TrackedOrder | null {
+    if (!result.clientOrderId) return null;
+
+    const now = this.clock.now().toISOString();
+    const order: BrokerOrder = result.order || {
+      id: result.orderId || '',
+      clientOrderId: result.clientOrderId,
+      symbol: submission.symbol.toUpperCase(),
+      side: submission.side,
+      qty: submission.qty,
+      orderType: 'market',
+      orderClass: 'simple',
+      status: result.success ? 'pending_new' : 'rejected',
+      submittedAt: now,
+      filledQty: 0,
+      timeInForce: 'day',
+      failureReason: result.error,
+    };
+
+    const tracked = this.getOrCreate(order, now);
+    tracked.contractMultiplier = submission.contractMultiplier ?? tracked.contractMultiplier;
+    tracked.signalPrice = submission.signalPrice ?? tracked.signalPrice;
+    tracked.signalId = submission.signalId ?? tracked.signalId;
+
+    this.applyUpdate({
+      event: result.success ? 'submitted' : 'rejected',
+      source: 'submit',
+      timestamp: order.submittedAt || now,
+      order,
+    });
+
+    console.log(`📋 Tracking order ${tracked.clientOrderId}: ${tracked.side.toUpperCase()} ${tracked.qty} ${tracked.symbol} (${tracked.status})`);
+    return tracked;
+  }
+
+  /**
+   * Apply a broker observation. Fills are derived from the cumulative filled quantity,
+   * so stream events and polls of the same execution are only counted once.
+   */
+  applyUpdate(update: OrderUpdate): TrackedOrder {
+    const order = update.order;
+    const now = this.clock.now().toISOString();
+    const tracked = this.getOrCreate(order, update.timestamp || now);
+    const previousStatus = tracked.status;
+    const previousFilledQty = tracked.filledQty;
+    const previousAvgPrice = tracked.filledAvgPrice;
+    const wasClosed = tracked.closedAt !== null;
+
+    if (order.id) tracked.orderId = order.id;
+    // A late non-terminal snapshot never reopens a finished order
+    if (!wasClosed || isTerminalStatus(order.status)) tracked.status = order.status;
+
+    const filledQty = Number.isFinite(order.filledQty) ? order.filledQty : previousFilledQty;
+    if (filledQty > previousFilledQty) {
+      const fillQty = filledQty - previousFilledQty;
+      const avgPrice = order.filledAvgPrice ?? update.fillPrice ?? previousAvgPrice ?? 0;
+      const fillPrice = update.fillPrice && update.fillQty === fillQty
+        ? update.fillPrice
+        : (avgPrice * filledQty - (previousAvgPrice ?? 0) * previousFilledQty) / fillQty;
+
+      tracked.filledQty = filledQty;
+      tracked.filledAvgPrice = avgPrice;
+      tracked.fills.push({ timestamp: update.timestamp || now, qty: fillQty, price: fillPrice, source: update.source });
+      this.applyFill(tracked, fillQty, fillPrice, update.timestamp || now);
+    }
+
+    if (update.positionQty !== undefined) {
+      const position = this.positions.get(tracked.symbol);
+      if (position) position.brokerQty = update.positionQty;
+    }
+
+    tracked.reason = order.failureReason || order.cancelReason || tracked.reason;
+    tracked.updatedAt = now;
+    if (isTerminalStatus(tracked.status) && !tracked.closedAt) {
+      tracked.closedAt = update.timestamp || now;
+    }
+    this.updateSlippage(tracked);
+
+    // Repeated polls of an unchanged order add nothing to the timeline
+    const changed = tracked.timeline.length === 0 || tracked.status !== previousStatus || tracked.filledQty !== previousFilledQty;
+    if (changed || update.source === 'stream') {
+      tracked.timeline.push({
+        timestamp: update.timestamp || now,
+        event: update.event,
+        source: update.source,
+        status: tracked.status,
+        filledQty: tracked.filledQty,
+        filledAvgPrice: tracked.filledAvgPrice,
+        reason: tracked.reason,
+      });
+    }
+
+    if (tracked.closedAt && !wasClosed) {
+      console.log(`📋 Order ${tracked.clientOrderId} ${tracked.status}: ${tracked.filledQty}/${tracked.qty} ${tracked.symbol}${tracked.filledAvgPrice ? ` @ $${tracked.filledAvgPrice.toFixed(2)}` : ''}`);
+    }
+
+    this.prune();
+    return tracked;
+  }
+
+  /**
+   * Poll one order and apply what the broker reports
+   */
+  async refresh(clientOrderId: string): Promise<TrackedOrder | null> {
+    const order = await this.source.getOrderByClientOrderId(clientOrderId);
+    if (!order) return this.orders.get(clientOrderId) || null;
+
+    return this.applyUpdate({
+      event: 'poll',
+      source: 'poll',
+      timestamp: this.clock.now().toISOString(),
+      order,
+    });
+  }
+
+  /**
+   * Poll open orders every pollIntervalMs until stopPolling; skipped while isStreamed says pushed
+   * updates (trade_updates) are arriving, and never overlapping a poll still in flight
+   */
+  startPolling(isStreamed: () => boolean = () => false): void {
+    this.stopPolling();
+    this.pollTimer = setInterval(() => {
+      if (this.polling || isStreamed()) return;
+      this.polling = true;
+      this.poll()
+        .catch(error => console.warn('⚠️ Order poll failed:', error instanceof Error ? error.message : error))
+        .finally(() => { this.polling = false; });
+    }, this.config.pollIntervalMs);
+  }
+
+  stopPolling(): void {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = null;
+  }
+
+  /**
+   * Poll every open order; returns how many were checked
+   */
+  async poll(): Promise<number> {
+    const open = [...this.orders.values()].filter(order => !order.closedAt && order.orderId);
+    let errors = 0;
+
+    for (const order of open) {
+      try {
+        await this.refresh(order.clientOrderId);
+      } catch (error) {
+        errors++;
+        this.lastPollError = `${order.clientOrderId}: ${error instanceof Error ? error.message : error}`;
+        console.warn(`⚠️ Order poll failed for ${order.clientOrderId}:`, this.lastPollError);
+      }
+    }
+
+    this.lastPollAt = this.clock.now().toISOString();
+    if (errors === 0) this.lastPollError = null;
+    return open.length;
+  }
+
+  getOrder(clientOrderId: string): TrackedOrder | null {
+    return this.orders.get(clientOrderId) || null;
+  }
+
+  /**
+   * Tracked orders, newest submission first
+   */
+  listOrders(query: OrderQuery = {}): TrackedOrder[] {
+    const symbol = query.symbol?.toUpperCase();
+    const orders = [...this.orders.values()]
+      .filter(order => !symbol || order.symbol === symbol)
+      .filter(order => !query.state || (query.state === 'open') === !order.closedAt)
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+    return query.limit ? orders.slice(0, query.limit) : orders;
+  }
+
+  getPositions(): ReconciledPosition[] {
+    return [...this.positions.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  getStatus(): OrderManagerStatus {
+    const orders = [...this.orders.values()];
+    const slipped = orders.filter(order => order.slippageBps !== null);
+
+    return {
+      tracked: orders.length,
+      open: orders.filter(order => !order.closedAt).length,
+      closed: orders.filter(order => order.closedAt).length,
+      filled: orders.filter(order => order.status === 'filled').length,
+      rejected: orders.filter(order => order.status === 'rejected').length,
+      avgSlippageBps: slipped.length > 0
+        ? slipped.reduce((sum, order) => sum + (order.slippageBps as number), 0) / slipped.length
+        : null,
+      lastPollAt: this.lastPollAt,
+      lastPollError: this.lastPollError,
+    };
+  }
+
+  private getOrCreate(order: BrokerOrder, timestamp: string): TrackedOrder {
+    const existing = this.orders.get(order.clientOrderId);
+    if (existing) return existing;
+
+    const tracked: TrackedOrder = {
+      clientOrderId: order.clientOrderId,
+      orderId: order.id || null,
+      symbol: order.symbol.toUpperCase(),
+      side: order.side,
+      qty: order.qty,
+      contractMultiplier: order.assetClass === 'us_option' ? OPTION_CONTRACT_MULTIPLIER : 1,
+      orderType: order.orderType,
+      status: order.status,
+      filledQty: 0,
+      filledAvgPrice: null,
+      signalPrice: null,
+      signalId: null,
+      slippage: null,
+      slippageBps: null,
+      reason: null,
+      submittedAt: order.submittedAt || timestamp,
+      updatedAt: timestamp,
+      closedAt: null,
+      fills: [],
+      timeline: [],
+    };
+    this.orders.set(tracked.clientOrderId, tracked);
+    return tracked;
+  }
+
+  /**
+   * Move the symbol's position by one execution: same-side fills average in,
+   * opposite-side fills realize P&L and may flip the position
+   */
+  private applyFill(order: TrackedOrder, qty: number, price: number, timestamp: string): void {
+    const position = this.positions.get(order.symbol) || {
+      symbol: order.symbol,
+      qty: 0,
+      contractMultiplier: order.contractMultiplier,
+      avgEntryPrice: 0,
+      realizedPL: 0,
+      brokerQty: null,
+      fillCount: 0,
+      updatedAt: timestamp,
+    };
+    const signedQty = order.side === 'buy' ? qty : -qty;
+
+    if (position.qty === 0 || Math.sign(position.qty) === Math.sign(signedQty)) {
+      const total = position.qty + signedQty;
+      position.avgEntryPrice = (position.avgEntryPrice * Math.abs(position.qty) + price * qty) / Math.abs(total);
+      position.qty = total;
+    } else {
+      const closing = Math.min(qty, Math.abs(position.qty));
+      position.realizedPL += closing * (price - position.avgEntryPrice) * Math.sign(position.qty) * position.contractMultiplier;
+      position.qty += signedQty;
+      if (position.qty === 0) {
+        position.avgEntryPrice = 0;
+      } else if (Math.sign(position.qty) === Math.sign(signedQty)) {
+        position.avgEntryPrice = price;     // Flipped: the remainder opened at this fill
+      }
+    }
+
+    position.fillCount++;
+    position.updatedAt = timestamp;
+    this.positions.set(order.symbol, position);
+  }
+
+  private updateSlippage(order: TrackedOrder): void {
+    if (order.filledAvgPrice === null || !order.signalPrice) return;
+
+    const side = order.side === 'buy' ? 1 : -1;
+    order.slippage = (order.filledAvgPrice - order.signalPrice) * side;
+    order.slippageBps = order.slippage / order.signalPrice * 10000;
+  }
+
+  /**
+   * Forget the oldest closed orders beyond maxOrders (open orders are always kept)
+   */
+  private prune(): void {
+    const excess = this.orders.size - this.config.maxOrders;
+    if (excess <= 0) return;
+
+    const closed = [...this.orders.values()]
+      .filter(order => order.closedAt)
+      .sort((a, b) => a.submittedAt.localeCompare(b.submittedAt))
+      .slice(0, excess);
+    for (const order of closed) this.orders.delete(order.clientOrderId);
+  }
+}
@@ -0,0 +1,687 @@
+/**
+ * Paper Broker
+ * In-process simulated brokerage: cash, positions, market/limit/stop orders with bracket legs filled
+ * against live or replayed quotes, and commissions, behind the same BrokerAdapter surface as Alpaca
+ */
+
+import { BrokerAdapter, BrokerAccount, BrokerPosition, BrokerOrder, TradeSignal, TradeResult } from './broker-adapter';
+import { MarketQuote, MarketDataProvider } from './market-data-provider';
+import { TradingEventBus } from './trading-event-bus';
+import { Clock, systemClock } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+
+export interface PaperBrokerConfig {
+  startingCash: number;
+  commissionPerShare: number;      // Charged on every fill (0 = commission-free)
+  minCommission: number;           // Floor per fill when a per-share commission is charged
+  slippageBps: number;             // Applied against market and triggered stop fills
+  buyingPowerMultiplier: number;   // 1 = cash account, 2 = Reg T margin
+  allowShort: boolean;
+  quoteMaxAgeMs: number;           // Older quotes are refreshed from the quote source before filling
+  regularSessionOnly: boolean;     // Only fill during the regular session
+  tickIntervalMs: number;          // How often resting orders are matched against fresh quotes
+  maxOrders: number;               // Finished orders retained
+}
+
+export const DEFAULT_PAPER_BROKER_CONFIG: PaperBrokerConfig = {
+  startingCash: 100000,
+  commissionPerShare: 0,
+  minCommission: 0,
+  slippageBps: 1,
+  buyingPowerMultiplier: 1,
+  allowShort: true,
+  quoteMaxAgeMs: 15000,
+  regularSessionOnly: true,
+  tickIntervalMs: 5000,
+  maxOrders: 500,
+};
+
+export interface PaperBrokerStats {
+  startingCash: number;
+  cash: number;
+  equity: number;
+  realizedPL: number;
+  unrealizedPL: number;
+  commissions: number;
+  fills: number;
+  openOrders: number;
+  orders: number;
+  quotedSymbols: number;
+  lastQuoteAt: string | null;
+}
+
+type QuoteSource = Pick<MarketDataProvider, 'getQuote'>;
+
+interface PaperPosition {
+  symbol: string;
+  qty: number;                     // Signed: negative is short
+  avgEntryPrice: number;
+  realizedPL: number;
+}
+
+interface PaperOrder {
+  order: BrokerOrder;
+  parentId: string | null;         // Bracket legs point at their entry order
+  legIds: string[];
+  triggered: boolean;              // Stop and stop-limit orders once the stop price traded
+  expiresAt: Date | null;          // End of the session for day orders
+}
+
+const OPEN_STATUSES: BrokerOrder['status'][] = ['new', 'accepted', 'held', 'partially_filled', 'pending_new'];
+
+/**
+ * Simulated broker. Quotes arrive through onQuote (streamed or replayed) or are pulled from the quote
+ * source by tick(); resting orders are matched on every quote. Fills are all-or-nothing at the touch:
+ * buys at the ask, sells at the bid, market and triggered stops with slippage on top.
+ */
+export class PaperBroker implements BrokerAdapter {
+  readonly name = 'paper';
+  readonly paper = true;
+  private quoteSource: QuoteSource | null;
+  private bus: TradingEventBus | null;
+  private config: PaperBrokerConfig;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private cash: number;
+  private commissions = 0;
+  private fills = 0;
+  private nextId = 1;
+  private orders: Map<string, PaperOrder> = new Map();
+  private clientOrderIds: Map<string, string> = new Map();
+  private positions: Map<string, PaperPosition> = new Map();
+  private quotes: Map<string, MarketQuote> = new Map();
+  private lastQuoteAt: Date | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private ticking = false;
+
+  constructor(
+    quoteSource: QuoteSource | null = null,
+    bus: TradingEventBus | null = null,
+    config: Partial<PaperBrokerConfig> = {},
+    clock: Clock = systemClock,
+    calendar: TradingCalendar = tradingCalendar
+  ) {
+    this.quoteSource = quoteSource;
+    this.bus = bus;
+    this.config = { ...DEFAULT_PAPER_BROKER_CONFIG, ...config };
+    this.clock = clock;
+    this.calendar = calendar;
+    this.cash = this.config.startingCash;
+  }
+
+  getConfig(): PaperBrokerConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Tick every tickIntervalMs until stop, so resting orders and released bracket legs fill and day
+   * orders expire whether or not anything else is feeding quotes
+   */
+  start(): void {
+    this.stop();
+    this.tickTimer = setInterval(() => {
+      if (this.ticking) return;
+      this.ticking = true;
+      this.tick()
+        .catch(error => console.warn('⚠️ Paper broker tick failed:', error instanceof Error ? error.message : error))
+        .finally(() => { this.ticking = false; });
+    }, this.config.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+    this.tickTimer = null;
+  }
+
+  /**
+   * Flatten everything and start over with the starting cash (optionally a new configuration)
+   */
+  reset(config: Partial<PaperBrokerConfig> = {}): void {
+    this.config = { ...this.config, ...config };
+    this.cash = this.config.startingCash;
+    this.commissions = 0;
+    this.fills = 0;
+    this.orders.clear();
+    this.clientOrderIds.clear();
+    this.positions.clear();
+    this.quotes.clear();
+    this.lastQuoteAt = null;
+    if (this.tickTimer) this.start();   // Picks up a new tickIntervalMs
+    console.log(`🧪 Paper broker reset with $${this.cash.toFixed(2)}`);
+  }
+
+  /**
+   * Feed a quote (streamed, replayed or from a signal) and match the symbol's resting orders against it.
+   * Replayed quotes are matched as of their own timestamp (session and staleness) and always replace the book.
+   */
+  onQuote(quote: MarketQuote, replayed: boolean = false): number {
+    const symbol = quote.symbol.toUpperCase();
+    const previous = this.quotes.get(symbol);
+    if (!replayed && previous && previous.timestamp.getTime() > quote.timestamp.getTime()) return 0;
+
+    this.quotes.set(symbol, { ...quote, symbol });
+    this.lastQuoteAt = quote.timestamp;
+    return this.match(symbol, replayed ? quote.timestamp : this.clock.now());
+  }
+
+  /**
+   * Expire day orders past the close and match resting orders against fresh quotes; returns the fills made
+   */
+  async tick(): Promise<number> {
+    this.expireDayOrders();
+    const symbols = new Set(this.openOrders().map(entry => entry.order.symbol));
+    let filled = 0;
+    for (const symbol of symbols) {
+      await this.latestQuote(symbol);
+      filled += this.match(symbol);
+    }
+    return filled;
+  }
+
+  async getAccount(): Promise<BrokerAccount | null> {
+    const positions = await this.getPositions();
+    const equity = this.cash + positions.reduce((sum, position) => sum + position.marketValue, 0);
+    return {
+      portfolioValue: equity,
+      buyingPower: this.buyingPower(equity, positions),
+      cash: this.cash,
+      dayTradeCount: 0,
+      status: 'ACTIVE',
+      accountBlocked: false,
+      tradingBlocked: false,
+      transfersBlocked: false,
+      accountNumber: 'PAPER-LOCAL',
+    };
+  }
+
+  async getBuyingPower(): Promise<number> {
+    const account = await this.getAccount();
+    return account ? account.buyingPower : 0;
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    const positions: BrokerPosition[] = [];
+    for (const position of this.positions.values()) {
+      if (position.qty === 0) continue;
+      const quote = await this.latestQuote(position.symbol);
+      positions.push(this.toBrokerPosition(position, quote ? quote.price : position.avgEntryPrice));
+    }
+    return positions;
+  }
+
+  async getPosition(symbol: string): Promise<BrokerPosition | null> {
+    const position = this.positions.get(symbol.toUpperCase());
+    if (!position || position.qty === 0) return null;
+    const quote = await this.latestQuote(position.symbol);
+    return this.toBrokerPosition(position, quote ? quote.price : position.avgEntryPrice);
+  }
+
+  async getRecentOrders(limit: number = 50): Promise<BrokerOrder[]> {
+    return [...this.orders.values()]
+      .filter(entry => !entry.parentId)
+      .sort((a, b) => b.order.submittedAt.localeCompare(a.order.submittedAt))
+      .slice(0, limit)
+      .map(entry => this.snapshot(entry));
+  }
+
+  async getOrder(orderId: string): Promise<BrokerOrder | null> {
+    const entry = this.orders.get(orderId);
+    return entry ? this.snapshot(entry) : null;
+  }
+
+  async getOrderByClientOrderId(clientOrderId: string): Promise<BrokerOrder | null> {
+    const orderId = this.clientOrderIds.get(clientOrderId);
+    return orderId ? this.getOrder(orderId) : null;
+  }
+
+  /**
+   * Validate and accept an order, then try to fill it against the latest quote. Like Alpaca, an order
+   * that fails validation (buying power, shorting, bad prices) is refused without being created.
+   */
+  async executeTrade(signal: TradeSignal): Promise<TradeResult> {
+    const timestamp = this.clock.now().toISOString();
+    const clientOrderId = signal.clientOrderId || `qppf-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const symbol = signal.symbol.toUpperCase();
+    const side = signal.direction === 'long' ? 'buy' : 'sell';
+    const orderType = signal.orderType || 'market';
+    const refuse = (error: string): TradeResult => {
+      console.warn(`⚠️ Paper order ${clientOrderId} refused: ${error}`);
+      return { success: false, clientOrderId, error, message: 'Order rejected by paper broker', timestamp };
+    };
+
+    if (!(signal.quantity > 0)) return refuse('Quantity must be positive');
+    if (this.clientOrderIds.has(clientOrderId)) return refuse('client_order_id must be unique');
+    if ((orderType === 'limit' || orderType === 'stop_limit') && !(signal.limitPrice! > 0)) {
+      return refuse(`limit_price is required for ${orderType} orders`);
+    }
+    if ((orderType === 'stop' || orderType === 'stop_limit') && !(signal.stopPrice! > 0)) {
+      return refuse(`stop_price is required for ${orderType} orders`);
+    }
+
+    const position = this.positions.get(symbol);
+    const heldQty = position ? position.qty : 0;
+    const openingQty = side === 'buy'
+      ? Math.max(0, signal.quantity - Math.max(0, -heldQty))
+      : Math.max(0, signal.quantity - Math.max(0, heldQty));
+    if (side === 'sell' && openingQty > 0 && !this.config.allowShort) {
+      return refuse('Short selling is disabled');
+    }
+
+    const quote = await this.latestQuote(symbol);
+    const referencePrice = orderType === 'limit' || orderType === 'stop_limit'
+      ? signal.limitPrice!
+      : orderType === 'stop' ? signal.stopPrice! : quote ? this.touch(quote, side) : 0;
+    if (!(referencePrice > 0)) return refuse(`No quote available for ${symbol}`);
+
+    if (openingQty > 0) {
+      const required = openingQty * referencePrice + this.commission(openingQty);
+      const available = await this.getBuyingPower();
+      if (required > available) {
+        return refuse(`Insufficient buying power: required $${required.toFixed(2)}, available $${available.toFixed(2)}`);
+      }
+    }
+
+    const timeInForce = signal.timeInForce || 'day';
+    const bracket = Boolean(signal.stopLoss || signal.takeProfit);
+    const entry = this.createOrder({
+      clientOrderId,
+      symbol,
+      side,
+      qty: signal.quantity,
+      orderType,
+      orderClass: bracket ? 'bracket' : 'simple',
+      timeInForce,
+      limitPrice: orderType === 'limit' || orderType === 'stop_limit' ? signal.limitPrice : undefined,
+      stopPrice: orderType === 'stop' || orderType === 'stop_limit' ? signal.stopPrice : undefined,
+    }, null);
+
+    // Exit legs wait ('held') until the entry fills, then cancel each other
+    const exitSide = side === 'buy' ? 'sell' : 'buy';
+    if (signal.takeProfit) {
+      entry.legIds.push(this.createOrder({
+        clientOrderId: `${clientOrderId}-tp`, symbol, side: exitSide, qty: signal.quantity,
+        orderType: 'limit', orderClass: 'bracket', timeInForce, limitPrice: signal.takeProfit,
+      }, entry.order.id).order.id);
+    }
+    if (signal.stopLoss) {
+      entry.legIds.push(this.createOrder({
+        clientOrderId: `${clientOrderId}-sl`, symbol, side: exitSide, qty: signal.quantity,
+        orderType: 'stop', orderClass: 'bracket', timeInForce, stopPrice: signal.stopLoss,
+      }, entry.order.id).order.id);
+    }
+
+    console.log(`🧪 Paper ${side.toUpperCase()} ${orderType} order for ${signal.quantity} ${symbol} accepted (${clientOrderId})`);
+    this.publish('new', entry.order);
+    this.match(symbol);
+
+    // Immediate-or-cancel and fill-or-kill orders never rest
+    if ((timeInForce === 'ioc' || timeInForce === 'fok') && this.isOpen(entry)) {
+      this.cancel(entry, 'Not immediately fillable');
+    }
+    this.prune();
+
+    return {
+      success: true,
+      orderId: entry.order.id,
+      clientOrderId,
+      message: `Paper order ${entry.order.status}`,
+      order: this.snapshot(entry),
+      timestamp,
+    };
+  }
+
+  async closePosition(symbol: string): Promise<TradeResult> {
+    const upper = symbol.toUpperCase();
+    const position = this.positions.get(upper);
+    if (!position || position.qty === 0) {
+      return {
+        success: false,
+        error: 'Position not found',
+        message: `No position found for ${upper}`,
+        timestamp: this.clock.now().toISOString(),
+      };
+    }
+
+    // Resting exits would otherwise fire on a flat position
+    for (const entry of this.openOrders()) {
+      if (entry.order.symbol === upper) this.cancel(entry, 'Position closed');
+    }
+
+    return this.executeTrade({
+      symbol: upper,
+      direction: position.qty > 0 ? 'short' : 'long',
+      quantity: Math.abs(position.qty),
+      confidence: 1.0,
+      orderType: 'market',
+      clientOrderId: `close-${upper}-${Date.now()}`,
+    });
+  }
+
+  /**
+   * Cancel an open order (and its held legs); null when no such order exists
+   */
+  cancelOrder(orderId: string): BrokerOrder | null {
+    const entry = this.orders.get(orderId);
+    if (!entry) return null;
+    if (this.isOpen(entry)) this.cancel(entry, 'Canceled by user');
+    return this.snapshot(entry);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<number | null> {
+    const quote = await this.latestQuote(symbol);
+    if (!quote) return null;
+    return quote.bid > 0 && quote.ask > 0 ? (quote.bid + quote.ask) / 2 : quote.price;
+  }
+
+  async isMarketOpen(): Promise<boolean> {
+    return this.calendar.isRegularSession(this.clock.now());
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return true;
+  }
+
+  getStats(): PaperBrokerStats {
+    let realizedPL = 0;
+    let unrealizedPL = 0;
+    let marketValue = 0;
+    for (const position of this.positions.values()) {
+      realizedPL += position.realizedPL;
+      if (position.qty === 0) continue;
+      const price = this.quotes.get(position.symbol)?.price ?? position.avgEntryPrice;
+      marketValue += position.qty * price;
+      unrealizedPL += (price - position.avgEntryPrice) * position.qty;
+    }
+    return {
+      startingCash: this.config.startingCash,
+      cash: this.cash,
+      equity: this.cash + marketValue,
+      realizedPL,
+      unrealizedPL,
+      commissions: this.commissions,
+      fills: this.fills,
+      openOrders: this.openOrders().length,
+      orders: this.orders.size,
+      quotedSymbols: this.quotes.size,
+      lastQuoteAt: this.lastQuoteAt ? this.lastQuoteAt.toISOString() : null,
+    };
+  }
+
+  private createOrder(
+    spec: Pick<BrokerOrder, 'clientOrderId' | 'symbol' | 'side' | 'qty' | 'orderType' | 'orderClass' | 'timeInForce' | 'limitPrice' | 'stopPrice'>,
+    parentId: string | null
+  ): PaperOrder {
+    const now = this.clock.now();
+    const entry: PaperOrder = {
+      order: {
+        ...spec,
+        id: `paper-${this.nextId++}`,
+        status: parentId ? 'held' : 'new',
+        submittedAt: now.toISOString(),
+        filledQty: 0,
+      },
+      parentId,
+      legIds: [],
+      triggered: false,
+      expiresAt: spec.timeInForce === 'day' ? this.calendar.nextRegularClose(now) : null,
+    };
+    this.orders.set(entry.order.id, entry);
+    this.clientOrderIds.set(spec.clientOrderId, entry.order.id);
+    return entry;
+  }
+
+  private openOrders(): PaperOrder[] {
+    return [...this.orders.values()].filter(entry => this.isOpen(entry));
+  }
+
+  private isOpen(entry: PaperOrder): boolean {
+    return OPEN_STATUSES.includes(entry.order.status);
+  }
+
+  /**
+   * Fill every working order on the symbol that the latest quote makes marketable as of asOf
+   */
+  private match(symbol: string, asOf: Date = this.clock.now()): number {
+    this.expireDayOrders(asOf);
+    const quote = this.quotes.get(symbol);
+    if (!quote || !this.isFresh(quote, asOf)) return 0;
+    if (this.config.regularSessionOnly && !this.calendar.isRegularSession(asOf)) return 0;
+
+    let filled = 0;
+    // Entries first so legs they release can fill on the same quote
+    const working = this.openOrders()
+      .filter(entry => entry.order.symbol === symbol)
+      .sort((a, b) => Number(a.parentId !== null) - Number(b.parentId !== null));
+    for (const entry of working) {
+      if (!this.isOpen(entry) || entry.order.status === 'held') continue;
+      const price = this.fillPrice(entry, quote);
+      if (price === null) continue;
+      this.fill(entry, price);
+      filled++;
+    }
+    return filled;
+  }
+
+  /**
+   * Execution price if the order is marketable against the quote, else null
+   */
+  private fillPrice(entry: PaperOrder, quote: MarketQuote): number | null {
+    const order = entry.order;
+    const buy = order.side === 'buy';
+    const touch = this.touch(quote, order.side);
+    if (!(touch > 0)) return null;
+
+    if (order.orderType === 'stop' || order.orderType === 'stop_limit') {
+      if (!entry.triggered) {
+        entry.triggered = buy ? quote.price >= order.stopPrice! : quote.price <= order.stopPrice!;
+        if (!entry.triggered) return null;
+      }
+      if (order.orderType === 'stop') return this.slipped(touch, order.side);
+    }
+
+    if (order.orderType === 'limit' || order.orderType === 'stop_limit') {
+      const limit = order.limitPrice!;
+      if (buy ? touch > limit : touch < limit) return null;
+      return buy ? Math.min(limit, touch) : Math.max(limit, touch);
+    }
+
+    return this.slipped(touch, order.side);
+  }
+
+  private fill(entry: PaperOrder, price: number): void {
+    const order = entry.order;
+    const now = this.clock.now().toISOString();
+    const qty = order.qty;
+    const commission = this.commission(qty);
+    const signedQty = order.side === 'buy' ? qty : -qty;
+
+    this.cash -= signedQty * price + commission;
+    this.commissions += commission;
+    this.fills++;
+    this.applyToPosition(order.symbol, signedQty, price);
+
+    order.filledAvgPrice = price;
+    order.filledQty = order.qty;
+    order.status = 'filled';
+    order.filledAt = now;
+    console.log(`🧪 Paper fill: ${order.side.toUpperCase()} ${qty} ${order.symbol} @ $${price.toFixed(2)} (${order.clientOrderId})`);
+    this.publish('fill', order, { fillQty: qty, fillPrice: price, executionId: `${order.id}-exec-${this.fills}` });
+
+    if (entry.parentId) {
+      // One exit filled: the other leg is no longer needed
+      const parent = this.orders.get(entry.parentId)!;
+      for (const legId of parent.legIds) {
+        const sibling = this.orders.get(legId)!;
+        if (sibling !== entry && this.isOpen(sibling)) this.cancel(sibling, 'Other bracket leg filled');
+      }
+    } else {
+      for (const legId of entry.legIds) {
+        const leg = this.orders.get(legId)!;
+        if (leg.order.status !== 'held') continue;
+        leg.order.status = 'new';
+        this.publish('new', leg.order);
+      }
+    }
+  }
+
+  private cancel(entry: PaperOrder, reason: string): void {
+    const order = entry.order;
+    order.status = 'canceled';
+    order.canceledAt = this.clock.now().toISOString();
+    order.cancelReason = reason;
+    this.publish('canceled', order);
+    for (const legId of entry.legIds) {
+      const leg = this.orders.get(legId)!;
+      if (this.isOpen(leg)) this.cancel(leg, reason);
+    }
+  }
+
+  private expireDayOrders(now: Date = this.clock.now()): void {
+    for (const entry of this.openOrders()) {
+      if (!entry.expiresAt || now.getTime() < entry.expiresAt.getTime()) continue;
+      entry.order.status = 'expired';
+      entry.order.expiredAt = now.toISOString();
+      this.publish('expired', entry.order);
+    }
+  }
+
+  /**
+   * Average into the position, realizing P&L on the part that reduces it and flipping through zero
+   */
+  private applyToPosition(symbol: string, signedQty: number, price: number): void {
+    const position = this.positions.get(symbol) || { symbol, qty: 0, avgEntryPrice: 0, realizedPL: 0 };
+    const sameDirection = position.qty === 0 || Math.sign(position.qty) === Math.sign(signedQty);
+
+    if (sameDirection) {
+      const qty = position.qty + signedQty;
+      position.avgEntryPrice = (position.avgEntryPrice * Math.abs(position.qty) + price * Math.abs(signedQty)) / Math.abs(qty);
+      position.qty = qty;
+    } else {
+      const closingQty = Math.min(Math.abs(signedQty), Math.abs(position.qty));
+      position.realizedPL += (price - position.avgEntryPrice) * closingQty * Math.sign(position.qty);
+      const qty = position.qty + signedQty;
+      if (qty === 0) {
+        position.avgEntryPrice = 0;
+      } else if (Math.sign(qty) !== Math.sign(position.qty)) {
+        position.avgEntryPrice = price;
+      }
+      position.qty = qty;
+    }
+    this.positions.set(symbol, position);
+  }
+
+  private toBrokerPosition(position: PaperPosition, price: number): BrokerPosition {
+    const costBasis = position.qty * position.avgEntryPrice;
+    const marketValue = position.qty * price;
+    const unrealizedPL = marketValue - costBasis;
+    return {
+      symbol: position.symbol,
+      qty: position.qty,
+      avgEntryPrice: position.avgEntryPrice,
+      currentPrice: price,
+      marketValue,
+      costBasis,
+      unrealizedPL,
+      unrealizedPLPC: costBasis !== 0 ? unrealizedPL / Math.abs(costBasis) : 0,
+      side: position.qty > 0 ? 'long' : 'short',
+      changeToday: 0,                  // No prior close is kept
+    };
+  }
+
+  /**
+   * Equity times the multiplier, less the gross exposure and the notional reserved by open entry orders
+   */
+  private buyingPower(equity: number, positions: BrokerPosition[]): number {
+    const exposure = positions.reduce((sum, position) => sum + Math.abs(position.marketValue), 0);
+    const reserved = this.openOrders()
+      .filter(entry => !entry.parentId)
+      .reduce((sum, entry) => {
+        const quote = this.quotes.get(entry.order.symbol);
+        const price = entry.order.limitPrice ?? entry.order.stopPrice ?? (quote ? this.touch(quote, entry.order.side) : 0);
+        return sum + (entry.order.qty - entry.order.filledQty) * price;
+      }, 0);
+    return Math.max(0, equity * this.config.buyingPowerMultiplier - exposure - reserved);
+  }
+
+  private commission(qty: number): number {
+    if (this.config.commissionPerShare <= 0) return 0;
+    return Math.max(this.config.minCommission, qty * this.config.commissionPerShare);
+  }
+
+  // The side of the book an order trades against, falling back to the last price
+  private touch(quote: MarketQuote, side: 'buy' | 'sell'): number {
+    const price = side === 'buy' ? quote.ask : quote.bid;
+    return price > 0 ? price : quote.price;
+  }
+
+  private slipped(price: number, side: 'buy' | 'sell'): number {
+    const slip = price * this.config.slippageBps / 10000;
+    return side === 'buy' ? price + slip : price - slip;
+  }
+
+  private isFresh(quote: MarketQuote, asOf: Date = this.clock.now()): boolean {
+    return asOf.getTime() - quote.timestamp.getTime() <= this.config.quoteMaxAgeMs;
+  }
+
+  /**
+   * The cached quote while fresh, otherwise one from the quote source (kept for matching)
+   */
+  private async latestQuote(symbol: string): Promise<MarketQuote | null> {
+    const upper = symbol.toUpperCase();
+    const cached = this.quotes.get(upper);
+    if ((cached && this.isFresh(cached)) || !this.quoteSource) return cached || null;
+
+    try {
+      const quote = await this.quoteSource.getQuote(upper);
+      if (quote) {
+        this.quotes.set(upper, { ...quote, symbol: upper });
+        this.lastQuoteAt = quote.timestamp;
+        return this.quotes.get(upper)!;
+      }
+    } catch (error) {
+      console.warn(`⚠️ Paper broker quote failed for ${upper}:`, error instanceof Error ? error.message : error);
+    }
+    return cached || null;
+  }
+
+  private snapshot(entry: PaperOrder): BrokerOrder {
+    const order: BrokerOrder = { ...entry.order };
+    if (entry.legIds.length > 0) {
+      order.legs = entry.legIds.map(legId => ({ ...this.orders.get(legId)!.order }));
+    }
+    return order;
+  }
+
+  private publish(event: string, order: BrokerOrder, fill: { fillQty?: number; fillPrice?: number; executionId?: string } = {}): void {
+    if (!this.bus) return;
+    const position = this.positions.get(order.symbol);
+    this.bus.publish({
+      event,
+      source: 'stream',
+      timestamp: this.clock.now().toISOString(),
+      order: { ...order },
+      fillQty: fill.fillQty,
+      fillPrice: fill.fillPrice,
+      positionQty: fill.fillQty !== undefined ? position?.qty ?? 0 : undefined,
+      executionId: fill.executionId ?? null,
+    });
+  }
+
+  /**
+   * Drop the oldest finished entry orders (with their legs) beyond maxOrders
+   */
+  private prune(): void {
+    const finished = [...this.orders.values()]
+      .filter(entry => !entry.parentId && !this.isOpen(entry) && entry.legIds.every(legId => !this.isOpen(this.orders.get(legId)!)));
+    let excess = this.orders.size - this.config.maxOrders;
+    for (const entry of finished) {
+      if (excess <= 0) break;
+      for (const id of [entry.order.id, ...entry.legIds]) {
+        const removed = this.orders.get(id)!;
+        this.orders.delete(id);
+        this.clientOrderIds.delete(removed.order.clientOrderId);
+        excess--;
+      }
+    }
+  }
+}
@@ -0,0 +1,261 @@
+/**
+ * Price Bar Sources
+ * Historical OHLCV bars for measuring what happened after a signal and for per-timeframe signals
+ * (Alpaca market data, Yahoo Finance chart API, or recorded bars for replay)
+ */
+
+import { HistoricalBar } from './backtest-engine';
+import { getExchangeTime } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+
+export type BarTimeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d';
+
+// Minutes per bar; daily bars span the regular session
+export const BAR_TIMEFRAME_MINUTES: Record<BarTimeframe, number> = {
+  '1m': 1,
+  '5m': 5,
+  '15m': 15,
+  '30m': 30,
+  '1h': 60,
+  '4h': 240,
+  '1d': 390,
+};
+
+export interface PriceBarSource {
+  readonly name: string;
+  // Bars closing after `from` and at or before `to`, ascending (1-minute bars by default)
+  getBars(symbol: string, from: Date, to: Date, timeframe?: BarTimeframe): Promise<HistoricalBar[]>;
+}
+
+function inWindow(bars: HistoricalBar[], from: Date, to: Date): HistoricalBar[] {
+  const start = from.getTime();
+  const end = to.getTime();
+  return bars
+    .filter(bar => {
+      const closed = new Date(bar.timestamp).getTime();
+      return closed > start && closed <= end;
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Close time of a bar that opened at `start`: intraday bars are capped at the session close
+ * (the last hourly bar of the day closes at 4:00 PM, not 4:30), daily bars close with the session
+ */
+function barCloseTime(start: Date, timeframe: BarTimeframe, calendar: TradingCalendar): Date {
+  const session = calendar.getSession(getExchangeTime(start).date);
+  if (timeframe === '1d') {
+    return session.regularClose || start;
+  }
+
+  const close = new Date(start.getTime() + BAR_TIMEFRAME_MINUTES[timeframe] * 60000);
+  if (session.regularOpen && session.regularClose && start.getTime() >= session.regularOpen.getTime() && start < session.regularClose) {
+    return close > session.regularClose ? session.regularClose : close;
+  }
+  return close;
+}
+
+/**
+ * Open and close of the session-anchored bar containing an instant, or null outside the regular session
+ */
+export function sessionBarBounds(instant: Date, timeframe: BarTimeframe, calendar: TradingCalendar = tradingCalendar): { start: Date; close: Date } | null {
+  const session = calendar.getSession(getExchangeTime(instant).date);
+  if (!session.regularOpen || !session.regularClose) return null;
+  if (instant < session.regularOpen || instant >= session.regularClose) return null;
+
+  const minutes = BAR_TIMEFRAME_MINUTES[timeframe];
+  const start = timeframe === '1d'
+    ? session.regularOpen
+    : new Date(session.regularOpen.getTime() + Math.floor((instant.getTime() - session.regularOpen.getTime()) / (minutes * 60000)) * minutes * 60000);
+  return { start, close: barCloseTime(start, timeframe, calendar) };
+}
+
+/**
+ * Roll finer close-stamped bars up into a coarser timeframe. Buckets are anchored at each
+ * session's regular open (9:30, 10:30, ... for hourly; 9:30 and 13:30 for 4-hour).
+ */
+export function aggregateBars(bars: HistoricalBar[], timeframe: BarTimeframe, calendar: TradingCalendar = tradingCalendar): HistoricalBar[] {
+  if (timeframe === '1m') return bars;
+
+  const minutes = BAR_TIMEFRAME_MINUTES[timeframe];
+  const buckets = new Map<string, { start: Date; bars: HistoricalBar[] }>();
+
+  for (const bar of bars) {
+    // A bar belongs to the bucket containing the instant just before it closed
+    const closedAt = new Date(new Date(bar.timestamp).getTime() - 1);
+    const date = getExchangeTime(closedAt).date;
+    const session = calendar.getSession(date);
+    const open = session.regularOpen || closedAt;
+
+    let key = date;
+    let start = open;
+    if (timeframe !== '1d') {
+      const index = Math.floor((closedAt.getTime() - open.getTime()) / (minutes * 60000));
+      key = `${date}#${index}`;
+      start = new Date(open.getTime() + index * minutes * 60000);
+    }
+
+    const bucket = buckets.get(key) || { start, bars: [] };
+    bucket.bars.push(bar);
+    buckets.set(key, bucket);
+  }
+
+  return [...buckets.values()]
+    .map(({ start, bars: group }) => ({
+      timestamp: barCloseTime(start, timeframe, calendar).toISOString(),
+      open: group[0].open,
+      high: Math.max(...group.map(bar => bar.high)),
+      low: Math.min(...group.map(bar => bar.low)),
+      close: group[group.length - 1].close,
+      volume: group.reduce((sum, bar) => sum + bar.volume, 0),
+    }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+const ALPACA_TIMEFRAMES: Record<BarTimeframe, string> = {
+  '1m': '1Min',
+  '5m': '5Min',
+  '15m': '15Min',
+  '30m': '30Min',
+  '1h': '1Hour',
+  '4h': '4Hour',
+  '1d': '1Day',
+};
+
+/**
+ * Alpaca v2 stock bars (IEX feed on free plans)
+ */
+export class AlpacaBarSource implements PriceBarSource {
+  readonly name = 'alpaca';
+  private apiKey: string;
+  private secretKey: string;
+  private feed: string;
+
+  constructor(apiKey: string, secretKey: string, feed: string = 'iex') {
+    this.apiKey = apiKey;
+    this.secretKey = secretKey;
+    this.feed = feed;
+  }
+
+  async getBars(symbol: string, from: Date, to: Date, timeframe: BarTimeframe = '1m'): Promise<HistoricalBar[]> {
+    const bars: HistoricalBar[] = [];
+    let pageToken: string | undefined;
+
+    // Bars are stamped with their start time; widen the window by one bar to catch the first close
+    const barMs = (timeframe === '1d' ? 1440 : BAR_TIMEFRAME_MINUTES[timeframe]) * 60000;
+    const start = new Date(from.getTime() - barMs).toISOString();
+
+    do {
+      const params = new URLSearchParams({
+        timeframe: ALPACA_TIMEFRAMES[timeframe],
+        start,
+        end: to.toISOString(),
+        limit: '10000',
+        adjustment: 'raw',
+        feed: this.feed,
+        sort: 'asc',
+      });
+      if (pageToken) params.set('page_token', pageToken);
+
+      const response = await fetch(`https://data.alpaca.markets/v2/stocks/${symbol.toUpperCase()}/bars?${params}`, {
+        headers: {
+          'Apca-Api-Key-Id': this.apiKey,
+          'Apca-Api-Secret-Key': this.secretKey,
+        }
+      });
+
+      if (!response.ok) {
+        throw new Error(`Alpaca bars API error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      for (const bar of data.bars || []) {
+        bars.push({
+          timestamp: barCloseTime(new Date(bar.t), timeframe, tradingCalendar).toISOString(),
+          open: Number(bar.o),
+          high: Number(bar.h),
+          low: Number(bar.l),
+          close: Number(bar.c),
+          volume: Number(bar.v) || 0,
+        });
+      }
+      pageToken = data.next_page_token || undefined;
+    } while (pageToken);
+
+    return inWindow(bars, from, to);
+  }
+}
+
+const YAHOO_INTERVALS: Record<Exclude<BarTimeframe, '1m'>, [string, BarTimeframe]> = {
+  '5m': ['5m', '5m'],
+  '15m': ['15m', '15m'],
+  '30m': ['30m', '30m'],
+  '1h': ['60m', '1h'],
+  '4h': ['60m', '1h'],        // No 4-hour interval; hourly bars are rolled up
+  '1d': ['1d', '1d'],
+};
+
+/**
+ * Yahoo Finance chart bars (free). 1-minute bars only go back about a week,
+ * so older 1-minute windows fall back to 5-minute (60 days) or hourly bars.
+ */
+export class YahooBarSource implements PriceBarSource {
+  readonly name = 'yahoo';
+
+  async getBars(symbol: string, from: Date, to: Date, timeframe: BarTimeframe = '1m'): Promise<HistoricalBar[]> {
+    const ageDays = (Date.now() - from.getTime()) / 86400000;
+    const [interval, fetched]: [string, BarTimeframe] = timeframe !== '1m'
+      ? YAHOO_INTERVALS[timeframe]
+      : ageDays < 7 ? ['1m', '1m'] : ageDays < 60 ? ['5m', '5m'] : ['60m', '1h'];
+    const minutes = fetched === '1d' ? 1440 : BAR_TIMEFRAME_MINUTES[fetched];
+
+    const params = new URLSearchParams({
+      interval,
+      period1: String(Math.floor(from.getTime() / 1000) - Math.max(minutes, BAR_TIMEFRAME_MINUTES[timeframe]) * 60),
+      period2: String(Math.ceil(to.getTime() / 1000)),
+    });
+    const response = await fetch(`https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Yahoo Finance chart API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const result = data.chart?.result?.[0];
+    const quote = result?.indicators?.quote?.[0];
+    if (!result?.timestamp || !quote) return [];
+
+    const bars: HistoricalBar[] = [];
+    result.timestamp.forEach((t: number, i: number) => {
+      if (quote.close[i] === null || quote.close[i] === undefined) return;
+      bars.push({
+        timestamp: barCloseTime(new Date(t * 1000), fetched, tradingCalendar).toISOString(),
+        open: quote.open[i],
+        high: quote.high[i],
+        low: quote.low[i],
+        close: quote.close[i],
+        volume: quote.volume[i] || 0,
+      });
+    });
+
+    return inWindow(fetched === timeframe ? bars : aggregateBars(bars, timeframe), from, to);
+  }
+}
+
+/**
+ * Serves previously recorded bars per symbol (replay and offline evaluation),
+ * rolled up when a coarser timeframe is requested
+ */
+export class RecordedBarSource implements PriceBarSource {
+  readonly name = 'recorded';
+  private bars: Map<string, HistoricalBar[]>;
+
+  constructor(barsBySymbol: Record<string, HistoricalBar[]>) {
+    this.bars = new Map(Object.entries(barsBySymbol).map(([symbol, bars]) => [symbol.toUpperCase(), bars]));
+  }
+
+  async getBars(symbol: string, from: Date, to: Date, timeframe: BarTimeframe = '1m'): Promise<HistoricalBar[]> {
+    const bars = inWindow(this.bars.get(symbol.toUpperCase()) || [], new Date(0), to);
+    return inWindow(aggregateBars(bars, timeframe), from, to);
+  }
+}
@@ -4,16 +4,29 @@
  */
 
 import { UnusualWhalesClient, OptionsFlowSignals, UnusualWhalesAlert, DarkPoolData } from './unusual-whales-client';
-import { GEXCalculator, OptionContract, GEXData } from './gex-calculator';
-
-export interface MarketData {
-  symbol: string;
-  price: number;
-  volume: number;
-  bid: number;
-  ask: number;
-  timestamp: Date;
-}
+import { GEXCalculator, OptionContract, GEXData, GEXConfig } from './gex-calculator';
+import { MarketDataService, MarketQuote } from './market-data-provider';
+import { DataProvenance, SignalDataQuality, allLive, worstProvenance } from './data-quality';
+import { Clock, systemClock } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+import { OptionChainSource, OptionChainSnapshot } from './option-chain-source';
+import { SignalFactorRegistry, FactorResult } from './signal-factors';
+import { PriceBarSource, YahooBarSource } from './price-bar-source';
+import { HistoricalBar } from './backtest-engine';
+import {
+  SignalTimeframe,
+  TimeframeSignal,
+  MultiTimeframeSignal,
+  TIMEFRAME_SPECS,
+  SIGNAL_TIMEFRAMES,
+  barLookbackStart,
+  calculateBarATR,
+  tradeLevels,
+  suggestOption,
+  timeframeAgreement,
+} from './multi-timeframe';
+
+export type MarketData = MarketQuote;
 
 export interface QPPFSignal {
   direction: 'LONG' | 'SHORT' | 'FLAT';
@@ -26,6 +39,9 @@ export interface QPPFSignal {
   uwSignals: OptionsFlowSignals;
   gexData?: GEXData;
   darkPoolData?: DarkPoolData;
+  factors?: FactorResult[];  // Every directional factor that had a view, with its weighted contribution
+  factorScore?: number;      // Net weighted factor score behind the direction
+  dataQuality: SignalDataQuality;
   timestamp: Date;
 }
 
@@ -41,17 +57,49 @@ export interface QPPFState {
   isActive: boolean;
 }
 
+export interface QPPFAlgorithmOptions {
+  marketData?: MarketDataService;         // Shared provider chain (defaults to Yahoo/Alpha Vantage)
+  clock?: Clock;                          // Time source (replay clock for backtests)
+  calendar?: TradingCalendar;             // Exchange calendar for sessions and expirations
+  uwClient?: UnusualWhalesClient;         // Override the Unusual Whales client (e.g. recorded data)
+  optionChainSource?: OptionChainSource;  // Full chain snapshots for GEX instead of flow alerts
+  gexConfig?: Partial<GEXConfig>;         // GEX grid, rates and dealer model (defaults to a 201-point ±5 ATR grid)
+  factors?: SignalFactorRegistry;         // Directional factors and per-symbol weights (defaults to the built-in set)
+  bars?: PriceBarSource;                  // Interval bars for per-timeframe signals (defaults to Yahoo)
+  syntheticGEX?: boolean;                 // Pad a thin flow-alert chain with mock contracts (default); false skips GEX instead
+}
+
 export class QPPFAlgorithm {
   private uwClient: UnusualWhalesClient;
   private gexCalculator: GEXCalculator;
+  private marketData: MarketDataService;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private optionChainSource?: OptionChainSource;
+  private factors: SignalFactorRegistry;
+  private bars: PriceBarSource;
+  private syntheticGEX: boolean;
+  private timeframeBars = new Map<SignalTimeframe, { fetchedAt: number; bars: HistoricalBar[] }>();
   private state: QPPFState;
   private readonly symbol: string;
   private readonly gridPoints: number = 201;
   private readonly gridATRSpan: number = 5.0;
 
-  constructor(unusualWhalesApiKey: string, symbol: string = 'SPY') {
-    this.uwClient = new UnusualWhalesClient(unusualWhalesApiKey);
-    this.gexCalculator = new GEXCalculator();
+  constructor(unusualWhalesApiKey: string, symbol: string = 'SPY', options: QPPFAlgorithmOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.uwClient = options.uwClient || new UnusualWhalesClient(unusualWhalesApiKey, this.clock);
+    this.calendar = options.calendar || tradingCalendar;
+    this.gexCalculator = new GEXCalculator(undefined, undefined, this.clock, this.calendar, {
+      gridMode: 'atr',
+      gridPoints: this.gridPoints,
+      gridATRSpan: this.gridATRSpan,
+      ...options.gexConfig,
+    });
+    this.marketData = options.marketData || MarketDataService.withDefaultProviders();
+    this.optionChainSource = options.optionChainSource;
+    this.factors = options.factors || new SignalFactorRegistry();
+    this.bars = options.bars || new YahooBarSource();
+    this.syntheticGEX = options.syntheticGEX ?? true;
     this.symbol = symbol;
     this.state = {
       symbol,
@@ -75,156 +123,22 @@ export class QPPFAlgorithm {
   }
 
   /**
-   * Fetch REAL market data using multiple providers as fallback
+   * Fetch REAL market data from the configured provider chain.
+   * Falls back to the last good quote (labelled cached) and never invents a price.
    */
-  private async fetchMarketData(): Promise<MarketData> {
-    // Try multiple real data sources in order of preference
-    
-    // Method 1: Try Alpaca Market Data API (most reliable)
-    try {
-      const alpacaData = await this.fetchAlpacaMarketData();
-      if (alpacaData) {
-        console.log(`✅ Real market data from Alpaca: ${this.symbol} $${alpacaData.price.toFixed(2)}`);
-        return alpacaData;
-      }
-    } catch (error) {
-      console.warn('Alpaca market data failed:', error.message);
+  private async fetchMarketData(): Promise<{ marketData: MarketData; provenance: DataProvenance }> {
+    const quote = await this.marketData.getQuote(this.symbol);
+    if (quote) {
+      return { marketData: quote, provenance: 'live' };
     }
 
-    // Method 2: Try Yahoo Finance API (free alternative)
-    try {
-      const yahooData = await this.fetchYahooFinanceData();
-      if (yahooData) {
-        console.log(`✅ Real market data from Yahoo: ${this.symbol} $${yahooData.price.toFixed(2)}`);
-        return yahooData;
-      }
-    } catch (error) {
-      console.warn('Yahoo Finance data failed:', error.message);
-    }
-
-    // Method 3: Try Alpha Vantage API (backup)
-    try {
-      const avData = await this.fetchAlphaVantageData();
-      if (avData) {
-        console.log(`✅ Real market data from Alpha Vantage: ${this.symbol} $${avData.price.toFixed(2)}`);
-        return avData;
-      }
-    } catch (error) {
-      console.warn('Alpha Vantage data failed:', error.message);
-    }
-
-    // Fallback: Return reasonable current price (based on your screenshot showing $671.97)
-    console.error('❌ ALL real market data sources failed - using fallback price');
-    const fallbackPrice = 671.97; // Current real SPY price from your screenshot
-    return {
-      symbol: this.symbol,
-      price: fallbackPrice + (Math.random() - 0.5) * 0.10, // Small random variation for realism
-      volume: Math.floor(32000000 + Math.random() * 5000000), // Realistic SPY volume
-      bid: fallbackPrice - 0.01,
-      ask: fallbackPrice + 0.01,
-      timestamp: new Date(),
-    };
-  }
-
-  /**
-   * Fetch real market data from Alpaca API
-   */
-  private async fetchAlpacaMarketData(): Promise<MarketData | null> {
-    try {
-      // Use Alpaca's free market data API
-      const response = await fetch(`https://data.alpaca.markets/v2/stocks/${this.symbol}/quotes/latest`, {
-        headers: {
-          'Apca-Api-Key-Id': 'PKTWWCUSF6UXR0AB9VW3',
-          'Apca-Api-Secret-Key': 'YjJ7vVldwxfJLRzUgZ44YcYVK6qodnFOZchrfBCY',
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const quote = data.quote;
-        
-        if (quote && quote.bid_price && quote.ask_price) {
-          const price = (quote.bid_price + quote.ask_price) / 2;
-          
-          return {
-            symbol: this.symbol,
-            price: price,
-            volume: quote.bid_size + quote.ask_size || 32000000,
-            bid: quote.bid_price,
-            ask: quote.ask_price,
-            timestamp: new Date(quote.timestamp),
-          };
-        }
-      }
-    } catch (error) {
-      throw new Error(`Alpaca API error: ${error.message}`);
-    }
-    
-    return null;
-  }
-
-  /**
-   * Fetch real market data from Yahoo Finance API (free)
-   */
-  private async fetchYahooFinanceData(): Promise<MarketData | null> {
-    try {
-      // Yahoo Finance API is free and reliable
-      const response = await fetch(`https://query1.finance.yahoo.com/v8/finance/chart/${this.symbol}`);
-      
-      if (response.ok) {
-        const data = await response.json();
-        const result = data.chart.result[0];
-        const meta = result.meta;
-        
-        if (meta && meta.regularMarketPrice) {
-          return {
-            symbol: this.symbol,
-            price: meta.regularMarketPrice,
-            volume: meta.regularMarketVolume || 32000000,
-            bid: meta.regularMarketPrice - 0.01,
-            ask: meta.regularMarketPrice + 0.01,
-            timestamp: new Date(),
-          };
-        }
-      }
-    } catch (error) {
-      throw new Error(`Yahoo Finance API error: ${error.message}`);
+    const cached = this.marketData.getCachedQuote(this.symbol);
+    if (cached) {
+      console.warn(`⚠️ All live market data sources failed - using cached ${this.symbol} quote from ${cached.timestamp.toISOString()}`);
+      return { marketData: cached, provenance: 'cached' };
     }
-    
-    return null;
-  }
 
-  /**
-   * Fetch real market data from Alpha Vantage API (requires API key)
-   */
-  private async fetchAlphaVantageData(): Promise<MarketData | null> {
-    try {
-      // Free API key for Alpha Vantage (demo purposes)
-      const apiKey = 'demo';
-      const response = await fetch(`https://www.alphavantage.co/query?function=GLOBAL_QUOTE&symbol=${this.symbol}&apikey=${apiKey}`);
-      
-      if (response.ok) {
-        const data = await response.json();
-        const quote = data['Global Quote'];
-        
-        if (quote && quote['05. price']) {
-          const price = parseFloat(quote['05. price']);
-          
-          return {
-            symbol: this.symbol,
-            price: price,
-            volume: parseInt(quote['06. volume']) || 32000000,
-            bid: price - 0.01,
-            ask: price + 0.01,
-            timestamp: new Date(),
-          };
-        }
-      }
-    } catch (error) {
-      throw new Error(`Alpha Vantage API error: ${error.message}`);
-    }
-    
-    return null;
+    throw new Error(`No market data available for ${this.symbol}: all providers failed and no cached quote`);
   }
 
   /**
@@ -281,116 +195,6 @@ export class QPPFAlgorithm {
     return Math.min(0.95, baseConfidence); // Cap at 95%
   }
 
-  /**
-   * Calculate trade direction based on QPPF and Unusual Whales signals
-   */
-  private calculateDirection(uwSignals: OptionsFlowSignals, marketData: MarketData, gexData?: GEXData): 'LONG' | 'SHORT' | 'FLAT' {
-    const sentimentScore = uwSignals.sentimentScore;
-    
-    console.log(`🎯 Signal Analysis: Sentiment=${sentimentScore}, Bullish=${uwSignals.bullishCount}, Bearish=${uwSignals.bearishCount}, Price=${marketData.price}`);
-
-    // Strong sentiment override (UW data)
-    if (sentimentScore > 0.4) {
-      console.log('📈 LONG signal from strong bullish sentiment');
-      return 'LONG';
-    } else if (sentimentScore < -0.4) {
-      console.log('📉 SHORT signal from strong bearish sentiment');
-      return 'SHORT';
-    }
-
-    // Enhanced directional signals based on multiple factors
-    let bullishFactors = 0;
-    let bearishFactors = 0;
-    
-    // Factor 1: Options flow bias (even if sentiment is neutral)
-    if (uwSignals.bullishCount > uwSignals.bearishCount) {
-      bullishFactors++;
-      console.log('✅ Bullish factor: More bullish options flow');
-    } else if (uwSignals.bearishCount > uwSignals.bullishCount) {
-      bearishFactors++;
-      console.log('⚠️ Bearish factor: More bearish options flow');
-    }
-    
-    // Factor 2: Large premium trades indicate institutional interest
-    if (uwSignals.avgPremium > 15000 && uwSignals.totalAlerts > 30) {
-      bullishFactors++;
-      console.log('✅ Bullish factor: High premium activity (institutional)');
-    }
-    
-    // Factor 3: GEX analysis for directional bias
-    if (gexData) {
-      const currentSpot = marketData.price;
-      const zeroGammaLevel = gexData.zeroGammaLevel;
-      
-      if (zeroGammaLevel && currentSpot > zeroGammaLevel) {
-        bullishFactors++;
-        console.log(`✅ Bullish factor: Above Zero Gamma Level ($${currentSpot} > $${zeroGammaLevel})`);
-      } else if (zeroGammaLevel && currentSpot < zeroGammaLevel) {
-        bearishFactors++;
-        console.log(`⚠️ Bearish factor: Below Zero Gamma Level ($${currentSpot} < $${zeroGammaLevel})`);
-      }
-      
-      // Call vs Put GEX analysis
-      if (gexData.callGEX > Math.abs(gexData.putGEX)) {
-        bullishFactors++;
-        console.log('✅ Bullish factor: Call GEX dominance');
-      } else if (Math.abs(gexData.putGEX) > gexData.callGEX) {
-        bearishFactors++;
-        console.log('⚠️ Bearish factor: Put GEX dominance');
-      }
-    }
-    
-    // Factor 4: Volume analysis
-    if (marketData.volume > 30000000) { // SPY typically trades 30M+ on strong days
-      bullishFactors++;
-      console.log(`✅ Bullish factor: High volume (${(marketData.volume/1000000).toFixed(1)}M)`);
-    }
-    
-    // Factor 5: Bid-Ask spread analysis (tight spreads = institutional interest)
-    const spread = marketData.ask - marketData.bid;
-    const spreadPercentage = (spread / marketData.price) * 100;
-    if (spreadPercentage < 0.01) { // Very tight spread
-      bullishFactors++;
-      console.log('✅ Bullish factor: Tight bid-ask spread (institutional)');
-    }
-    
-    // Factor 6: Time-based bias (SPY tends to be bullish during market hours)
-    const now = new Date();
-    const hour = now.getUTCHours();
-    if (hour >= 14 && hour <= 20) { // 9:30 AM - 4:00 PM EST
-      bullishFactors++;
-      console.log('✅ Bullish factor: During market hours (bullish bias)');
-    }
-
-    // Use price momentum as fallback signal
-    if (this.state.priceHistory.length >= 3) {
-      const recentPrices = this.state.priceHistory.slice(-3);
-      const priceTrend = recentPrices[recentPrices.length - 1] - recentPrices[0];
-
-      if (priceTrend > 0) {
-        bullishFactors++;
-        console.log('✅ Bullish factor: Positive price momentum');
-      } else if (priceTrend < 0) {
-        bearishFactors++;
-        console.log('⚠️ Bearish factor: Negative price momentum');
-      }
-    }
-    
-    // Decision logic: Need at least 2 factors for directional signal
-    console.log(`📊 Factor Score: Bullish=${bullishFactors}, Bearish=${bearishFactors}`);
-    
-    if (bullishFactors >= 2 && bullishFactors > bearishFactors) {
-      console.log('📈 LONG signal from multiple bullish factors');
-      return 'LONG';
-    } else if (bearishFactors >= 2 && bearishFactors > bullishFactors) {
-      console.log('📉 SHORT signal from multiple bearish factors');
-      return 'SHORT';
-    }
-
-    console.log('😐 FLAT signal: No clear directional bias');
-    return 'FLAT';
-  }
-
   /**
    * Calculate signal strength based on multiple factors
    */
@@ -412,96 +216,16 @@ export class QPPFAlgorithm {
     return Math.min(1.0, strength); // Cap at 100%
   }
 
-  /**
-   * Generate reasons for long positions
-   */
-  private generateLongReasons(uwSignals: OptionsFlowSignals, marketData: MarketData, gexData?: GEXData): string[] {
-    const reasons: string[] = [];
-
-    if (uwSignals.sentimentScore > 0.3) {
-      reasons.push(`Strong bullish sentiment (${(uwSignals.sentimentScore * 100).toFixed(1)}%)`);
-    }
-
-    if (uwSignals.bullishCount > uwSignals.bearishCount) {
-      reasons.push(`More bullish alerts (${uwSignals.bullishCount} vs ${uwSignals.bearishCount})`);
-    }
-
-    if (uwSignals.largeTradesCount > 2) {
-      reasons.push(`${uwSignals.largeTradesCount} large premium trades detected`);
-    }
-
-    if (uwSignals.avgPremium > 20000) {
-      reasons.push(`High average premium ($${(uwSignals.avgPremium / 1000).toFixed(1)}k)`);
-    }
-
-    if (this.state.priceHistory.length >= 3) {
-      const recentTrend = this.state.priceHistory.slice(-3);
-      if (recentTrend[2] > recentTrend[0]) {
-        reasons.push('Recent upward price momentum');
-      }
-    }
-
-    // Add GEX-based reasoning
-    if (gexData && gexData.zeroGammaLevel) {
-      if (marketData.price < gexData.zeroGammaLevel) {
-        reasons.push(`Price below Zero Gamma Level ($${gexData.zeroGammaLevel.toFixed(2)}) - positive gamma support`);
-      }
-      if (gexData.totalGEX > 0 && marketData.price < gexData.zeroGammaLevel) {
-        reasons.push('Positive gamma exposure below ZGL suggests upward price pressure');
-      }
-    }
-
-    return reasons;
-  }
-
-  /**
-   * Generate reasons for short positions
-   */
-  private generateShortReasons(uwSignals: OptionsFlowSignals, marketData: MarketData, gexData?: GEXData): string[] {
-    const reasons: string[] = [];
-
-    if (uwSignals.sentimentScore < -0.3) {
-      reasons.push(`Strong bearish sentiment (${(uwSignals.sentimentScore * 100).toFixed(1)}%)`);
-    }
-
-    if (uwSignals.bearishCount > uwSignals.bullishCount) {
-      reasons.push(`More bearish alerts (${uwSignals.bearishCount} vs ${uwSignals.bullishCount})`);
-    }
-
-    if (uwSignals.largeTradesCount > 2 && uwSignals.sentimentScore < 0) {
-      reasons.push(`${uwSignals.largeTradesCount} large bearish trades detected`);
-    }
-
-    if (this.state.priceHistory.length >= 3) {
-      const recentTrend = this.state.priceHistory.slice(-3);
-      if (recentTrend[2] < recentTrend[0]) {
-        reasons.push('Recent downward price momentum');
-      }
-    }
-
-    // Add GEX-based reasoning
-    if (gexData && gexData.zeroGammaLevel) {
-      if (marketData.price > gexData.zeroGammaLevel) {
-        reasons.push(`Price above Zero Gamma Level ($${gexData.zeroGammaLevel.toFixed(2)}) - negative gamma resistance`);
-      }
-      if (gexData.totalGEX < 0 && marketData.price > gexData.zeroGammaLevel) {
-        reasons.push('Negative gamma exposure above ZGL suggests downward price pressure');
-      }
-    }
-
-    return reasons;
-  }
-
   /**
    * Run one iteration of the QPPF algorithm
    */
   async generateSignal(): Promise<QPPFSignal> {
-    console.log(`\n--- QPPF Signal Generation at ${new Date().toISOString()} ---`);
+    console.log(`\n--- QPPF Signal Generation at ${this.clock.now().toISOString()} ---`);
 
-    try {
-      // Fetch market data
-      const marketData = await this.fetchMarketData();
+    // Fetch market data (throws when neither live nor cached data exists)
+    const { marketData, provenance: marketDataProvenance } = await this.fetchMarketData();
 
+    try {
       // Fetch Unusual Whales data  
       const [uwAlerts, darkPoolData] = await Promise.all([
         this.uwClient.getOptionsFlow(this.symbol),
@@ -511,15 +235,37 @@ export class QPPFAlgorithm {
       // Process Unusual Whales signals
       const uwSignals = this.uwClient.processOptionsFlowSignals(uwAlerts);
 
-      // Calculate real GEX from options flow data
+      const optionsFlowProvenance = UnusualWhalesClient.getFlowProvenance(uwAlerts);
+
+      // Calculate real GEX, preferring a full chain snapshot over flow alerts
       let gexData: GEXData | undefined;
+      let gexProvenance: DataProvenance | undefined;
       try {
-        const optionContracts = this.convertAlertsToContracts(uwAlerts, marketData.price);
-        gexData = this.gexCalculator.calculateGEX(optionContracts, marketData.price);
-        console.log(`Calculated GEX: Total=${gexData.totalGEX.toFixed(2)}B, ZGL=${gexData.zeroGammaLevel?.toFixed(2) || 'N/A'}`);
+        const loaded = await this.loadGEXChain(uwAlerts, marketData.price);
+        if (loaded) {
+          gexData = this.gexCalculator.calculateGEX(loaded.chain, marketData.price, {
+            atr: this.estimateATR(marketData.price),
+          });
+          gexProvenance = loaded.provenance;
+          console.log(`Calculated GEX: Total=${gexData.totalGEX.toFixed(2)}B, ZGL=${gexData.zeroGammaLevel?.toFixed(2) || 'N/A'}`);
+        }
       } catch (error) {
         console.error('Error calculating GEX:', error);
         gexData = undefined;
+        gexProvenance = undefined;
+      }
+
+      const dataQuality: SignalDataQuality = {
+        marketData: marketDataProvenance,
+        marketDataSource: marketData.source,
+        optionsFlow: optionsFlowProvenance,
+        darkPool: darkPoolData.source,
+        gex: gexProvenance,
+        isLive: allLive(marketDataProvenance, optionsFlowProvenance, darkPoolData.source, gexProvenance),
+      };
+
+      if (!dataQuality.isLive) {
+        console.warn(`⚠️ Signal built on non-live data: market=${dataQuality.marketData}, flow=${dataQuality.optionsFlow}, darkPool=${dataQuality.darkPool}, gex=${dataQuality.gex ?? 'n/a'}`);
       }
 
       // Update state
@@ -532,27 +278,37 @@ export class QPPFAlgorithm {
         this.state.volumeHistory = this.state.volumeHistory.slice(-100);
       }
 
-      // Calculate signals
+      // Calculate signals; direction and reasons both come from the weighted factors
       const confidence = this.calculateConfidence(uwSignals, marketData, gexData);
-      const direction = this.calculateDirection(uwSignals, marketData, gexData);
+      const evaluation = this.factors.evaluate({
+        symbol: this.symbol,
+        marketData,
+        uwSignals,
+        gexData,
+        priceHistory: this.state.priceHistory,
+        now: this.clock.now(),
+        calendar: this.calendar,
+      });
+      const direction = evaluation.direction;
       const strength = this.calculateStrength(uwSignals, confidence);
 
-      // Generate trading reasons
-      const reasonsLong = this.generateLongReasons(uwSignals, marketData, gexData);
-      const reasonsShort = this.generateShortReasons(uwSignals, marketData, gexData);
+      console.log(`📊 Factor Score: ${evaluation.netScore.toFixed(2)} (bullish ${evaluation.bullishScore.toFixed(2)}, bearish ${evaluation.bearishScore.toFixed(2)}, threshold ±${evaluation.threshold})`);
 
       const signal: QPPFSignal = {
         direction,
         confidence,
         strength,
         sentiment: uwSignals.dominantSentiment,
-        reasonsLong,
-        reasonsShort,
+        reasonsLong: evaluation.reasonsLong,
+        reasonsShort: evaluation.reasonsShort,
         marketData,
         uwSignals,
         gexData,
         darkPoolData,
-        timestamp: new Date(),
+        factors: evaluation.factors,
+        factorScore: evaluation.netScore,
+        dataQuality,
+        timestamp: this.clock.now(),
       };
 
       console.log(`Generated signal: ${direction} (confidence: ${(confidence * 100).toFixed(1)}%, strength: ${(strength * 100).toFixed(1)}%)`);
@@ -563,7 +319,6 @@ export class QPPFAlgorithm {
       console.error('Error generating QPPF signal:', error);
       
       // Return safe fallback signal
-      const marketData = await this.fetchMarketData();
       return {
         direction: 'FLAT',
         confidence: 0.0,
@@ -584,38 +339,105 @@ export class QPPFAlgorithm {
           dominantSentiment: 'neutral',
           recentAlertsList: [],
         },
-        timestamp: new Date(),
+        dataQuality: {
+          marketData: marketDataProvenance,
+          marketDataSource: marketData.source,
+          optionsFlow: 'synthetic',
+          darkPool: 'synthetic',
+          isLive: false,
+        },
+        timestamp: this.clock.now(),
       };
     }
   }
 
   /**
-   * Simulate trade execution (for demo purposes)
+   * Signals per timeframe: the flow, GEX and quote of one tick-level signal, with direction,
+   * ATR target/stop and option expiry taken from that timeframe's own bars
    */
-  simulateTradeExecution(signal: QPPFSignal): boolean {
-    // In production, this would execute actual trades through Alpaca or other broker
-    if (signal.direction === 'FLAT' || signal.confidence < 0.6) {
-      return false;
-    }
+  async generateTimeframeSignals(timeframes: SignalTimeframe[] = SIGNAL_TIMEFRAMES): Promise<MultiTimeframeSignal> {
+    const signal = await this.generateSignal();
+    const now = this.clock.now();
+    const price = signal.marketData.price;
+
+    const results = await Promise.all(timeframes.map(async (timeframe): Promise<TimeframeSignal> => {
+      const spec = TIMEFRAME_SPECS[timeframe];
+      const bars = await this.loadTimeframeBars(timeframe, now);
+      const lastBar = bars[bars.length - 1];
+
+      // The timeframe's own history: completed bar closes, then the live price as the forming bar
+      const evaluation = this.factors.evaluate({
+        symbol: this.symbol,
+        marketData: signal.marketData,
+        uwSignals: signal.uwSignals,
+        gexData: signal.gexData,
+        priceHistory: [...bars.map(bar => bar.close), price],
+        now,
+        calendar: this.calendar,
+      });
+      const atr = calculateBarATR(bars, spec.atrPeriod);
+
+      return {
+        timeframe,
+        direction: evaluation.direction,
+        confidence: signal.confidence,
+        strength: signal.strength,
+        factorScore: evaluation.netScore,
+        factors: evaluation.factors,
+        reasonsLong: evaluation.reasonsLong,
+        reasonsShort: evaluation.reasonsShort,
+        price,
+        ...tradeLevels(evaluation.direction, price, atr, spec),
+        atr,
+        barCount: bars.length,
+        lastBarTime: lastBar ? lastBar.timestamp : null,
+        barSource: bars.length > 0 ? this.bars.name : null,
+        option: suggestOption(evaluation.direction, price, this.symbol, spec, this.calendar, now),
+        timestamp: now,
+      };
+    }));
+
+    const byTimeframe: MultiTimeframeSignal['timeframes'] = {};
+    for (const result of results) byTimeframe[result.timeframe] = result;
 
-    // Simulate position sizing based on confidence
-    const baseShares = 100;
-    const positionSize = Math.floor(baseShares * signal.confidence);
+    const agreement = timeframeAgreement(results);
+    console.log(`🕐 Timeframes: ${results.map(r => `${r.timeframe}=${r.direction}`).join(' ')} (agreement ${(agreement.score * 100).toFixed(0)}% ${agreement.direction})`);
 
-    if (signal.direction === 'LONG') {
-      this.state.positionSize = positionSize;
-    } else if (signal.direction === 'SHORT') {
-      this.state.positionSize = -positionSize;
+    return { signal, timeframes: byTimeframe, agreement };
+  }
+
+  /**
+   * Completed bars for a timeframe, reused for the timeframe's cache window; empty when unavailable
+   */
+  private async loadTimeframeBars(timeframe: SignalTimeframe, now: Date): Promise<HistoricalBar[]> {
+    const spec = TIMEFRAME_SPECS[timeframe];
+    const cached = this.timeframeBars.get(timeframe);
+    if (cached && now.getTime() - cached.fetchedAt < spec.barCacheMs) {
+      return cached.bars;
     }
 
-    this.state.entryPrice = signal.marketData.price;
-    this.state.entryTime = new Date();
+    try {
+      const bars = (await this.bars.getBars(this.symbol, barLookbackStart(now, spec), now, timeframe))
+        .slice(-spec.lookbackBars);
+      this.timeframeBars.set(timeframe, { fetchedAt: now.getTime(), bars });
+      return bars;
+    } catch (error) {
+      console.warn(`⚠️ ${timeframe} bars unavailable for ${this.symbol}:`, error instanceof Error ? error.message : error);
+      return cached ? cached.bars : [];
+    }
+  }
+
+  /**
+   * Record the broker position after one of this algorithm's orders filled
+   */
+  recordTradeExecution(signal: QPPFSignal, positionSize: number, entryPrice: number): void {
+    this.state.positionSize = positionSize;
+    this.state.entryPrice = entryPrice;
+    this.state.entryTime = this.clock.now();
     this.state.tradesExecuted += 1;
-    this.state.isActive = true;
+    this.state.isActive = positionSize !== 0;
 
-    console.log(`Simulated trade: ${signal.direction} ${Math.abs(positionSize)} shares at $${signal.marketData.price}`);
-    
-    return true;
+    console.log(`Trade recorded: ${signal.direction} signal, position ${positionSize} shares at $${entryPrice.toFixed(2)}`);
   }
 
   /**
@@ -646,14 +468,62 @@ export class QPPFAlgorithm {
       totalPnL: 0,
       isActive: false,
     };
+    this.timeframeBars.clear();
     console.log('QPPF Algorithm state reset');
   }
 
+  /**
+   * Average absolute move between recent price samples, used as the ATR for the GEX grid
+   * Returns undefined until there is enough history (the calculator then uses its percent grid)
+   */
+  private estimateATR(currentPrice: number, period: number = 14): number | undefined {
+    const prices = [...this.state.priceHistory.slice(-period), currentPrice];
+    if (prices.length < 3) {
+      return undefined;
+    }
+
+    let total = 0;
+    for (let i = 1; i < prices.length; i++) {
+      total += Math.abs(prices[i] - prices[i - 1]);
+    }
+
+    return total / (prices.length - 1);
+  }
+
+  /**
+   * Load the option chain for GEX: a full chain snapshot when a source is configured,
+   * otherwise contracts reconstructed from flow alerts; null when GEX should be skipped
+   */
+  private async loadGEXChain(
+    alerts: UnusualWhalesAlert[],
+    currentSpot: number
+  ): Promise<{ chain: OptionChainSnapshot; provenance: DataProvenance } | null> {
+    if (this.optionChainSource) {
+      try {
+        const chain = await this.optionChainSource.getChain(this.symbol, this.clock.now());
+        if (chain && chain.contracts.length > 0) {
+          console.log(`Using ${chain.contracts.length} contracts from ${this.optionChainSource.name} option chain`);
+          return { chain, provenance: chain.provenance || 'live' };
+        }
+      } catch (error) {
+        console.warn(`Option chain source ${this.optionChainSource.name} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return this.convertAlertsToContracts(alerts, currentSpot);
+  }
+
   /**
    * Convert Unusual Whales alerts to option contracts for GEX calculation
+   * Only alerts that report open interest are used, so this is a partial view of the chain
    */
-  private convertAlertsToContracts(alerts: UnusualWhalesAlert[], currentSpot: number): OptionContract[] {
+  private convertAlertsToContracts(
+    alerts: UnusualWhalesAlert[],
+    currentSpot: number
+  ): { chain: OptionChainSnapshot; provenance: DataProvenance } | null {
     const contracts: OptionContract[] = [];
+    let provenance: DataProvenance = UnusualWhalesClient.getFlowProvenance(alerts);
+    let source = 'flow-alerts';
     
     for (const alert of alerts) {
       const contract = GEXCalculator.fromUnusualWhalesAlert(alert);
@@ -664,12 +534,21 @@ export class QPPFAlgorithm {
     
     // If we have few real contracts, supplement with mock data for better GEX calculation
     if (contracts.length < 10) {
+      if (!this.syntheticGEX) {
+        console.log(`Only ${contracts.length} real contracts and no option chain - skipping GEX`);
+        return null;
+      }
       console.log(`Only ${contracts.length} real contracts, supplementing with mock data`);
-      const mockContracts = GEXCalculator.createMockContracts(currentSpot);
+      const mockContracts = GEXCalculator.createMockContracts(currentSpot, this.clock.now());
       contracts.push(...mockContracts);
+      provenance = worstProvenance(provenance, 'synthetic');
+      source = 'flow-alerts+mock';
     }
     
-    return contracts;
+    return {
+      chain: { symbol: this.symbol, timestamp: this.clock.now().toISOString(), contracts, underlyingPrice: currentSpot, source, provenance },
+      provenance,
+    };
   }
 
   /**
@@ -4,6 +4,15 @@
  */
 
 import { UnusualWhalesClient } from './unusual-whales-client';
+import { MarketDataService } from './market-data-provider';
+import { DataProvenance, OpportunityDataQuality, allLive, describeNonLiveInputs } from './data-quality';
+import { Clock, systemClock } from './clock';
+import { TradingCalendar, tradingCalendar, SessionPhase } from './trading-calendar';
+import { GEXCalculator, GEXKeyLevels, GEXConfig } from './gex-calculator';
+import { OptionChainSource } from './option-chain-source';
+import { HistoricalBar } from './backtest-engine';
+import { PriceBarSource, YahooBarSource } from './price-bar-source';
+import { BrokerAdapter, TradeSignal } from './broker-adapter';
 
 export interface ScanConfig {
   maxSymbols: number;
@@ -37,10 +46,13 @@ export interface TradingOpportunity {
   targetPrice?: number;
   stopLoss?: number;
   riskReward?: number;
+  gexLevels?: GEXKeyLevels;
+  dataQuality: OpportunityDataQuality;
 }
 
 export interface ScanResults {
   timestamp: Date;
+  marketPhase: SessionPhase;
   buyOpportunities: TradingOpportunity[];
   sellOpportunities: TradingOpportunity[];
   marketRegime: 'BULLISH' | 'BEARISH' | 'NEUTRAL';
@@ -57,11 +69,10 @@ export interface ScanResults {
 export interface MarketData {
   symbol: string;
   currentPrice: number;
-  closes: number[];
-  volumes: number[];
-  highs: number[];
-  lows: number[];
+  bars: HistoricalBar[];       // Completed daily bars, oldest first
   timestamp: Date;
+  priceProvenance: DataProvenance;
+  priceSource?: string;
 }
 
 export class QPPFStockScanner {
@@ -70,15 +81,37 @@ export class QPPFStockScanner {
   private alpacaApiKey?: string;
   private alpacaSecretKey?: string;
   private uwClient?: UnusualWhalesClient;
+  private marketData: MarketDataService;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private optionChainSource?: OptionChainSource;
+  private gexCalculator: GEXCalculator;
+  private bars: PriceBarSource;
 
-  constructor(alpacaApiKey?: string, alpacaSecretKey?: string, uwApiKey?: string) {
+  constructor(
+    alpacaApiKey?: string,
+    alpacaSecretKey?: string,
+    uwApiKey?: string,
+    marketData?: MarketDataService,
+    optionChainSource?: OptionChainSource,
+    clock: Clock = systemClock,
+    calendar: TradingCalendar = tradingCalendar,
+    gexConfig: Partial<GEXConfig> = {},
+    bars: PriceBarSource = new YahooBarSource()
+  ) {
     this.alpacaApiKey = alpacaApiKey;
     this.alpacaSecretKey = alpacaSecretKey;
+    this.marketData = marketData || MarketDataService.withDefaultProviders({ alpacaApiKey, alpacaSecretKey });
+    this.optionChainSource = optionChainSource;
+    this.clock = clock;
+    this.calendar = calendar;
+    this.gexCalculator = new GEXCalculator(undefined, undefined, clock, calendar, { gridMode: 'atr', ...gexConfig });
+    this.bars = bars;
     
     // Initialize Unusual Whales client if API key provided
     if (uwApiKey) {
       try {
-        this.uwClient = new UnusualWhalesClient(uwApiKey);
+        this.uwClient = new UnusualWhalesClient(uwApiKey, clock);
         console.log('🐋 Unusual Whales integration enabled for scanner');
       } catch (error) {
         console.warn('Failed to initialize Unusual Whales client:', error.message);
@@ -197,7 +230,8 @@ export class QPPFStockScanner {
     const marketRegime = await this.assessMarketRegime();
     
     return {
-      timestamp: new Date(),
+      timestamp: this.clock.now(),
+      marketPhase: this.calendar.getSessionPhase(this.clock.now()),
       buyOpportunities,
       sellOpportunities,
       marketRegime,
@@ -226,8 +260,8 @@ export class QPPFStockScanner {
         return null;
       }
 
-      const avgVolume = marketData.volumes.length > 0 ? 
-        marketData.volumes.reduce((a, b) => a + b, 0) / marketData.volumes.length : 0;
+      const avgVolume = marketData.bars.length > 0 ? 
+        marketData.bars.reduce((sum, bar) => sum + bar.volume, 0) / marketData.bars.length : 0;
       
       console.log(`🔊 Volume check for ${symbol}: avg=${avgVolume.toLocaleString()}, min=${this.scanConfig.minVolume.toLocaleString()}`);
       if (avgVolume < this.scanConfig.minVolume) {
@@ -241,11 +275,13 @@ export class QPPFStockScanner {
       const scores = this.computeQPPFScores(marketData);
       
       // Enhance with Unusual Whales data if available
+      let optionsFlowProvenance: DataProvenance | undefined;
       if (this.uwClient) {
         try {
-          await this.enhanceWithUnusualWhales(symbol, scores);
+          optionsFlowProvenance = await this.enhanceWithUnusualWhales(symbol, scores);
         } catch (error) {
           console.warn(`UW enhancement failed for ${symbol}:`, error.message);
+          optionsFlowProvenance = 'synthetic';
         }
       }
       
@@ -269,9 +305,14 @@ export class QPPFStockScanner {
         confidence = 1.0 - Math.abs(0.5 - totalScore) * 2;
       }
 
+      // Dealer gamma levels (only for actionable signals, chains are expensive to load)
+      const gexLevels = signal !== 'HOLD'
+        ? await this.getGEXKeyLevels(symbol, marketData.currentPrice, this.calculateATR(marketData.bars, 14))
+        : null;
+
       // Calculate target price and stop loss
       const { targetPrice, stopLoss, riskReward } = this.calculateTradeLevels(
-        marketData, signal, scores
+        marketData, signal, scores, gexLevels
       );
 
       return {
@@ -280,12 +321,20 @@ export class QPPFStockScanner {
         qppfScore: totalScore,
         currentPrice: marketData.currentPrice,
         scores,
-        timestamp: new Date(),
+        timestamp: this.clock.now(),
         analysis: this.generateAnalysis(scores),
         confidence,
         targetPrice,
         stopLoss,
-        riskReward
+        riskReward,
+        gexLevels: gexLevels || undefined,
+        dataQuality: {
+          price: marketData.priceProvenance,
+          priceSource: marketData.priceSource,
+          history: 'live',
+          optionsFlow: optionsFlowProvenance,
+          isLive: allLive(marketData.priceProvenance, optionsFlowProvenance),
+        }
       };
       
     } catch (error) {
@@ -299,29 +348,27 @@ export class QPPFStockScanner {
    */
   private async getSymbolData(symbol: string): Promise<MarketData | null> {
     try {
-      // Method 1: Try Alpaca Market Data API (most reliable for current price)
-      const currentPrice = await this.fetchCurrentPrice(symbol);
-      if (!currentPrice) {
+      // Method 1: Current price from the shared provider chain
+      const priceQuote = await this.fetchCurrentPrice(symbol);
+      if (!priceQuote) {
         console.log(`Failed to get current price for ${symbol}`);
         return null;
       }
 
       // Method 2: Get historical data for technical analysis
-      let historicalData = await this.fetchHistoricalData(symbol);
+      const historicalData = await this.fetchHistoricalData(symbol);
       if (!historicalData) {
-        console.log(`⚠️ Failed to get historical data for ${symbol}, using synthetic data`);
-        // Create synthetic historical data for basic analysis
-        historicalData = this.generateSyntheticHistoricalData(currentPrice);
+        console.log(`❌ No historical data for ${symbol}, skipping (synthetic history is not used)`);
+        return null;
       }
 
       return {
         symbol,
-        currentPrice,
-        closes: historicalData.closes,
-        volumes: historicalData.volumes,
-        highs: historicalData.highs,
-        lows: historicalData.lows,
-        timestamp: new Date()
+        currentPrice: priceQuote.price,
+        bars: historicalData,
+        timestamp: this.clock.now(),
+        priceProvenance: priceQuote.provenance,
+        priceSource: priceQuote.source,
       };
     } catch (error) {
       console.error(`Error getting data for ${symbol}:`, error);
@@ -330,149 +377,34 @@ export class QPPFStockScanner {
   }
 
   /**
-   * Generate synthetic historical data when real data is unavailable
-   */
-  private generateSyntheticHistoricalData(currentPrice: number): {
-    closes: number[];
-    volumes: number[];
-    highs: number[];
-    lows: number[];
-  } {
-    const days = 30;
-    const closes: number[] = [];
-    const volumes: number[] = [];
-    const highs: number[] = [];
-    const lows: number[] = [];
-    
-    // Generate realistic price movement around current price
-    let price = currentPrice * 0.95; // Start 5% below current
-    
-    for (let i = 0; i < days; i++) {
-      // Simulate realistic price movement
-      const dailyChange = (Math.random() - 0.5) * 0.04; // ±2% daily movement
-      price = price * (1 + dailyChange);
-      
-      const dayVolatility = 0.015; // 1.5% intraday volatility
-      const high = price * (1 + Math.random() * dayVolatility);
-      const low = price * (1 - Math.random() * dayVolatility);
-      const volume = Math.floor(1000000 + Math.random() * 5000000); // Realistic volume
-      
-      closes.push(price);
-      highs.push(high);
-      lows.push(low);
-      volumes.push(volume);
-    }
-    
-    // Ensure the last price trends toward current price
-    const finalPrice = currentPrice * (0.98 + Math.random() * 0.04);
-    closes[closes.length - 1] = finalPrice;
-    
-    console.log(`📊 Generated synthetic data for analysis: ${days} days, current=$${currentPrice.toFixed(2)}`);
-    
-    return { closes, volumes, highs, lows };
-  }
-
-  /**
-   * Fetch current market price using multiple sources
+   * Fetch current market price from the shared provider chain
    */
-  private async fetchCurrentPrice(symbol: string): Promise<number | null> {
-    // Method 1: Try Alpaca API (most reliable)
-    try {
-      const response = await fetch(`https://data.alpaca.markets/v2/stocks/${symbol}/quotes/latest`, {
-        headers: {
-          'Apca-Api-Key-Id': 'PKTWWCUSF6UXR0AB9VW3',
-          'Apca-Api-Secret-Key': 'YjJ7vVldwxfJLRzUgZ44YcYVK6qodnFOZchrfBCY',
-        }
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        const quote = data.quote;
-        // Fix: Use bp (bid price) and ap (ask price) instead of bid_price/ask_price
-        if (quote && quote.bp && quote.ap) {
-          const price = (parseFloat(quote.bp) + parseFloat(quote.ap)) / 2;
-          console.log(`✅ Alpaca price for ${symbol}: $${price.toFixed(2)}`);
-          return price;
-        }
-        console.log(`❌ Alpaca quote structure issue for ${symbol}:`, quote);
-      } else {
-        console.log(`❌ Alpaca API error for ${symbol}: ${response.status}`);
-      }
-    } catch (error) {
-      console.warn(`Alpaca price failed for ${symbol}:`, error.message);
-    }
-
-    // Method 2: Try Yahoo Finance API
-    try {
-      const response = await fetch(`https://query1.finance.yahoo.com/v8/finance/chart/${symbol}`);
-      if (response.ok) {
-        const data = await response.json();
-        const result = data.chart.result[0];
-        if (result?.meta?.regularMarketPrice) {
-          const price = result.meta.regularMarketPrice;
-          console.log(`✅ Yahoo Finance price for ${symbol}: $${price.toFixed(2)}`);
-          return price;
-        }
-        console.log(`❌ Yahoo Finance data issue for ${symbol}:`, result?.meta);
-      } else {
-        const errorText = await response.text();
-        console.log(`❌ Yahoo Finance API error for ${symbol}: ${response.status} - ${errorText}`);
-      }
-    } catch (error) {
-      console.warn(`Yahoo Finance price failed for ${symbol}:`, error.message);
+  private async fetchCurrentPrice(symbol: string): Promise<{ price: number; provenance: DataProvenance; source: string } | null> {
+    const quote = await this.marketData.getQuote(symbol);
+    if (quote) {
+      return { price: quote.price, provenance: 'live', source: quote.source };
     }
 
-    console.error(`❌ All price sources failed for ${symbol}`);
-    return null;
+    const cached = this.marketData.getCachedQuote(symbol);
+    return cached ? { price: cached.price, provenance: 'cached', source: cached.source } : null;
   }
 
   /**
-   * Fetch historical data for technical analysis
+   * Fetch completed daily bars for technical analysis from the configured bar source
    */
-  private async fetchHistoricalData(symbol: string): Promise<{
-    closes: number[];
-    volumes: number[];
-    highs: number[];
-    lows: number[];
-  } | null> {
+  private async fetchHistoricalData(symbol: string): Promise<HistoricalBar[] | null> {
     try {
-      // Use Yahoo Finance for historical data with rate limiting
       await new Promise(resolve => setTimeout(resolve, 100)); // Rate limiting
       
-      const response = await fetch(
-        `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=1mo&interval=1d`
-      );
-      
-      if (!response.ok) {
-        return null;
-      }
-      
-      const data = await response.json();
-      const result = data.chart.result[0];
-      
-      if (!result || !result.indicators || !result.indicators.quote[0]) {
-        return null;
-      }
-      
-      const quote = result.indicators.quote[0];
-      const timestamps = result.timestamp;
-      
-      // Filter out null values and get recent data
-      const closes = quote.close.filter((c: number) => c !== null);
-      const volumes = quote.volume.filter((v: number) => v !== null);
-      const highs = quote.high.filter((h: number) => h !== null);
-      const lows = quote.low.filter((l: number) => l !== null);
-      
-      if (closes.length < 20) {
+      const now = this.clock.now();
+      const from = new Date(now.getTime() - this.scanConfig.lookbackDays * 86400000);
+      const bars = await this.bars.getBars(symbol, from, now, '1d');
+
+      if (bars.length < 20) {
         return null;
       }
       
-      return {
-        closes,
-        volumes,
-        highs,
-        lows
-      };
+      return bars;
       
     } catch (error) {
       console.error(`Data error for ${symbol}:`, error);
@@ -484,7 +416,9 @@ export class QPPFStockScanner {
    * Compute QPPF factor scores
    */
   private computeQPPFScores(marketData: MarketData): QPPFScores {
-    const { closes, volumes, highs, lows, currentPrice } = marketData;
+    const { bars, currentPrice } = marketData;
+    const closes = bars.map(bar => bar.close);
+    const volumes = bars.map(bar => bar.volume);
     
     if (closes.length < 20) {
       return {
@@ -498,17 +432,18 @@ export class QPPFStockScanner {
     }
 
     return {
-      momentum: this.calculateMomentumScore(closes, currentPrice),
-      meanReversion: this.calculateMeanReversionScore(closes, currentPrice),
+      momentum: this.calculateMomentumScore(bars, currentPrice),
+      meanReversion: this.calculateMeanReversionScore(bars, currentPrice),
       volumeAnalysis: this.calculateVolumeScore(volumes, closes),
       volatilityRegime: this.calculateVolatilityScore(closes),
-      marketStructure: this.calculateStructureScore(highs, lows, currentPrice),
+      marketStructure: this.calculateStructureScore(bars, currentPrice),
       sentiment: this.calculateSentimentScore(closes, volumes)
     };
   }
 
-  private calculateMomentumScore(closes: number[], currentPrice: number): number {
-    if (closes.length < 20) return 0.5;
+  private calculateMomentumScore(bars: HistoricalBar[], currentPrice: number): number {
+    if (bars.length < 20) return 0.5;
+    const closes = bars.map(bar => bar.close);
     
     // Multiple timeframe momentum
     const mom5 = closes.length >= 5 ? (currentPrice / closes[closes.length - 5] - 1) : 0;
@@ -516,7 +451,7 @@ export class QPPFStockScanner {
     const mom20 = closes.length >= 20 ? (currentPrice / closes[closes.length - 20] - 1) : 0;
     
     // RSI momentum
-    const rsi = this.calculateRSI(closes);
+    const rsi = this.calculateRSI(bars);
     const rsiScore = rsi > 70 ? 0.8 : rsi < 30 ? 0.2 : 0.5;
     
     // MACD-like momentum
@@ -532,11 +467,12 @@ export class QPPFStockScanner {
     return Math.max(0, Math.min(1, (normalizedMomentum + 1) / 2));
   }
 
-  private calculateMeanReversionScore(closes: number[], currentPrice: number): number {
-    if (closes.length < 20) return 0.5;
+  private calculateMeanReversionScore(bars: HistoricalBar[], currentPrice: number): number {
+    if (bars.length < 20) return 0.5;
+    const closes = bars.map(bar => bar.close);
     
     // Bollinger Bands
-    const [upperBand, lowerBand] = this.calculateBollingerBands(closes, 20, 2);
+    const [upperBand, lowerBand] = this.calculateBollingerBands(bars, 20, 2);
     const bbPosition = upperBand.length > 0 && lowerBand.length > 0 ?
       (currentPrice - lowerBand[lowerBand.length - 1]) / 
       (upperBand[upperBand.length - 1] - lowerBand[lowerBand.length - 1]) : 0.5;
@@ -621,12 +557,12 @@ export class QPPFStockScanner {
     }
   }
 
-  private calculateStructureScore(highs: number[], lows: number[], currentPrice: number): number {
-    if (highs.length < 10 || lows.length < 10) return 0.5;
+  private calculateStructureScore(bars: HistoricalBar[], currentPrice: number): number {
+    if (bars.length < 10) return 0.5;
     
     // Support/Resistance analysis
-    const recentHighs = highs.slice(-10);
-    const recentLows = lows.slice(-10);
+    const recentHighs = bars.slice(-10).map(bar => bar.high);
+    const recentLows = bars.slice(-10).map(bar => bar.low);
     
     const resistanceLevel = Math.max(...recentHighs);
     const supportLevel = Math.min(...recentLows);
@@ -656,17 +592,35 @@ export class QPPFStockScanner {
     return Math.max(0, Math.min(1, (trendStrength + 1) / 2));
   }
 
+  /**
+   * Load the option chain and compute dealer gamma key levels for a symbol
+   */
+  private async getGEXKeyLevels(symbol: string, currentPrice: number, atr?: number): Promise<GEXKeyLevels | null> {
+    if (!this.optionChainSource) return null;
+
+    try {
+      const chain = await this.optionChainSource.getChain(symbol, this.clock.now());
+      if (!chain || chain.contracts.length === 0) return null;
+      return this.gexCalculator.calculateGEX(chain, currentPrice, { atr }).keyLevels;
+    } catch (error) {
+      console.warn(`GEX levels unavailable for ${symbol}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
   /**
    * Calculate trade levels (target price, stop loss, risk/reward)
+   * ATR-based, then capped at the call/put walls when dealer gamma levels are available
    */
   private calculateTradeLevels(
     marketData: MarketData, 
     signal: 'BUY' | 'SELL' | 'HOLD', 
-    scores: QPPFScores
+    scores: QPPFScores,
+    gexLevels?: GEXKeyLevels | null
   ): { targetPrice: number; stopLoss: number; riskReward: number } {
-    const { currentPrice, closes } = marketData;
+    const { currentPrice, bars } = marketData;
     
-    if (signal === 'HOLD' || closes.length < 20) {
+    if (signal === 'HOLD' || bars.length < 20) {
       return {
         targetPrice: currentPrice,
         stopLoss: currentPrice,
@@ -675,7 +629,7 @@ export class QPPFStockScanner {
     }
     
     // Calculate ATR for dynamic levels
-    const atr = this.calculateATR(marketData.highs, marketData.lows, closes, 14);
+    const atr = this.calculateATR(bars, 14);
     const volatilityMultiplier = Math.max(scores.volatilityRegime, 0.5);
     
     let targetPrice: number;
@@ -689,6 +643,20 @@ export class QPPFStockScanner {
       stopLoss = currentPrice + (atr * 1 * volatilityMultiplier);
     }
     
+    // Dealer walls: take profit before the opposing wall, stop just beyond the supporting wall
+    if (gexLevels) {
+      const { callWall, putWall } = gexLevels;
+      const buffer = atr * 0.25;
+      
+      if (signal === 'BUY') {
+        if (callWall && callWall > currentPrice) targetPrice = Math.min(targetPrice, callWall);
+        if (putWall && putWall < currentPrice) stopLoss = Math.max(stopLoss, putWall - buffer);
+      } else {
+        if (putWall && putWall < currentPrice) targetPrice = Math.max(targetPrice, putWall);
+        if (callWall && callWall > currentPrice) stopLoss = Math.min(stopLoss, callWall + buffer);
+      }
+    }
+    
     const riskAmount = Math.abs(currentPrice - stopLoss);
     const rewardAmount = Math.abs(targetPrice - currentPrice);
     const riskReward = riskAmount > 0 ? rewardAmount / riskAmount : 1.0;
@@ -739,11 +707,12 @@ export class QPPFStockScanner {
   private async assessMarketRegime(): Promise<'BULLISH' | 'BEARISH' | 'NEUTRAL'> {
     try {
       const spyData = await this.getSymbolData('SPY');
-      if (!spyData || spyData.closes.length < 50) {
+      if (!spyData || spyData.bars.length < 50) {
         return 'NEUTRAL';
       }
       
-      const { closes, currentPrice } = spyData;
+      const { bars, currentPrice } = spyData;
+      const closes = bars.map(bar => bar.close);
       const sma20 = closes.slice(-20).reduce((a, b) => a + b, 0) / 20;
       const sma50 = closes.slice(-50).reduce((a, b) => a + b, 0) / 50;
       
@@ -778,12 +747,12 @@ export class QPPFStockScanner {
   }
 
   // Technical Indicator Helper Methods
-  private calculateRSI(prices: number[], period: number = 14): number {
-    if (prices.length < period + 1) return 50;
+  private calculateRSI(bars: HistoricalBar[], period: number = 14): number {
+    if (bars.length < period + 1) return 50;
     
     const deltas = [];
-    for (let i = 1; i < prices.length; i++) {
-      deltas.push(prices[i] - prices[i - 1]);
+    for (let i = 1; i < bars.length; i++) {
+      deltas.push(bars[i].close - bars[i - 1].close);
     }
     
     const gains = deltas.map(d => d > 0 ? d : 0).slice(-period);
@@ -814,11 +783,12 @@ export class QPPFStockScanner {
   }
 
   private calculateBollingerBands(
-    prices: number[], 
+    bars: HistoricalBar[], 
     period: number = 20, 
     stdDev: number = 2
   ): [number[], number[]] {
-    if (prices.length < period) return [[], []];
+    if (bars.length < period) return [[], []];
+    const prices = bars.map(bar => bar.close);
     
     const upperBand: number[] = [];
     const lowerBand: number[] = [];
@@ -836,17 +806,17 @@ export class QPPFStockScanner {
     return [upperBand, lowerBand];
   }
 
-  private calculateATR(highs: number[], lows: number[], closes: number[], period: number = 14): number {
-    if (highs.length < period || lows.length < period || closes.length < period) {
+  private calculateATR(bars: HistoricalBar[], period: number = 14): number {
+    if (bars.length < period) {
       return 0.02; // Default ATR
     }
     
     const trueRanges: number[] = [];
     
-    for (let i = 1; i < Math.min(highs.length, lows.length, closes.length); i++) {
-      const highLow = highs[i] - lows[i];
-      const highClose = Math.abs(highs[i] - closes[i - 1]);
-      const lowClose = Math.abs(lows[i] - closes[i - 1]);
+    for (let i = 1; i < bars.length; i++) {
+      const highLow = bars[i].high - bars[i].low;
+      const highClose = Math.abs(bars[i].high - bars[i - 1].close);
+      const lowClose = Math.abs(bars[i].low - bars[i - 1].close);
       
       trueRanges.push(Math.max(highLow, highClose, lowClose));
     }
@@ -908,7 +878,7 @@ export class QPPFStockScanner {
    * Scan market and automatically execute trades on best opportunities
    */
   async scanAndTrade(
-    alpacaService: any, 
+    broker: BrokerAdapter, 
     riskManager: any, 
     maxTrades: number = 3,
     minConfidence: number = 0.75
@@ -922,15 +892,26 @@ export class QPPFStockScanner {
     // First, run the full market scan
     const scanResults = await this.scanMarket();
     
+    // Gate on the risk manager's calibrated win probability, not the raw score
+    const winProbability = (opp: TradingOpportunity): number => riskManager.getWinProbability(opp.confidence);
+    
     // Get the best opportunities (both BUY and SELL)
     const allOpportunities = [
       ...scanResults.buyOpportunities,
       ...scanResults.sellOpportunities
-    ].sort((a, b) => b.confidence - a.confidence); // Sort by confidence
+    ].sort((a, b) => winProbability(b) - winProbability(a)); // Sort by calibrated confidence
+    
+    // Never trade on cached, synthetic or mock inputs
+    const nonLiveOpportunities = allOpportunities.filter(opp => !opp.dataQuality.isLive);
+    
+    // Only place orders during the regular session
+    const marketOpen = this.calendar.isRegularSession(this.clock.now());
     
     // Filter opportunities that meet our trading criteria
     const tradableOpportunities = allOpportunities.filter(opp => 
-      opp.confidence >= minConfidence && 
+      marketOpen &&
+      opp.dataQuality.isLive &&
+      winProbability(opp) >= minConfidence && 
       opp.qppfScore >= this.scanConfig.qppfThreshold &&
       opp.riskReward >= 1.5 // Minimum 1.5:1 risk/reward ratio
     );
@@ -939,9 +920,17 @@ export class QPPFStockScanner {
     
     const tradesExecuted: any[] = [];
     let tradingReport = `QPPF Auto-Trading Report\n========================\n`;
+    if (!marketOpen) {
+      const nextOpen = this.calendar.nextRegularOpen(this.clock.now());
+      console.log(`⏸️ Market not in regular session (${scanResults.marketPhase}) - no trades placed`);
+      tradingReport += `MARKET CLOSED: ${scanResults.marketPhase} - next regular open ${nextOpen.toISOString()}\n`;
+    }
+    for (const opp of nonLiveOpportunities) {
+      tradingReport += `SKIPPED: ${opp.symbol} - non-live data (${describeNonLiveInputs(opp.dataQuality).join(', ')})\n`;
+    }
     tradingReport += `Market Regime: ${scanResults.marketRegime}\n`;
     tradingReport += `Total Opportunities: ${scanResults.scanMetrics.totalOpportunities}\n`;
-    tradingReport += `Tradable (${(minConfidence*100).toFixed(0)}%+ confidence): ${tradableOpportunities.length}\n\n`;
+    tradingReport += `Tradable (${(minConfidence*100).toFixed(0)}%+ win probability): ${tradableOpportunities.length}\n\n`;
     
     // Execute trades on the best opportunities (up to maxTrades)
     const topOpportunities = tradableOpportunities.slice(0, maxTrades);
@@ -951,8 +940,8 @@ export class QPPFStockScanner {
         console.log(`💰 Attempting trade: ${opportunity.signal} ${opportunity.symbol} @ $${opportunity.currentPrice.toFixed(2)} (${(opportunity.confidence*100).toFixed(1)}% confidence)`);
         
         // Get current account info and positions
-        const account = await alpacaService.getAccount();
-        const positions = await alpacaService.getPositions();
+        const account = await broker.getAccount();
+        const positions = await broker.getPositions();
         
         if (!account) {
           console.log(`❌ Could not get account info for ${opportunity.symbol} trade`);
@@ -973,10 +962,12 @@ export class QPPFStockScanner {
             volume: 1000000, // Default volume
             bid: opportunity.currentPrice - 0.01,
             ask: opportunity.currentPrice + 0.01,
-            timestamp: new Date()
+            timestamp: this.clock.now(),
+            source: 'scanner'
           },
           uwSignals: { sentimentScore: 0, totalAlerts: 0, recentAlerts: 0, bullishCount: 0, bearishCount: 0, avgPremium: 0, largeTradesCount: 0, hasUnusualFlow: false, dominantSentiment: 'neutral' as const, recentAlertsList: [] },
-          timestamp: new Date()
+          dataQuality: opportunity.dataQuality,
+          timestamp: this.clock.now()
         };
         
         // Assess risk for this trade
@@ -996,16 +987,16 @@ export class QPPFStockScanner {
         }
         
         // Create trade signal for Alpaca
-        const tradeSignal = {
+        const tradeSignal: TradeSignal = {
           symbol: opportunity.symbol,
           direction: opportunity.signal === 'BUY' ? 'long' : 'short',
           quantity: riskAssessment.positionSize,
           confidence: opportunity.confidence,
-          orderType: 'market' as const
+          orderType: 'market'
         };
         
         // Execute the trade
-        const tradeResult = await alpacaService.executeTrade(tradeSignal);
+        const tradeResult = await broker.executeTrade(tradeSignal);
         
         if (tradeResult.success) {
           tradesExecuted.push({
@@ -1017,7 +1008,7 @@ export class QPPFStockScanner {
             qppfScore: opportunity.qppfScore,
             riskReward: opportunity.riskReward,
             tradeResult,
-            timestamp: new Date()
+            timestamp: this.clock.now()
           });
           
           console.log(`✅ Trade executed: ${opportunity.signal} ${riskAssessment.positionSize} ${opportunity.symbol}`);
@@ -1037,7 +1028,7 @@ export class QPPFStockScanner {
     }
     
     tradingReport += `\nTrades Executed: ${tradesExecuted.length}/${maxTrades} max\n`;
-    tradingReport += `Timestamp: ${new Date().toISOString()}`;
+    tradingReport += `Timestamp: ${this.clock.now().toISOString()}`;
     
     console.log(`🎯 Auto-trading complete: ${tradesExecuted.length} trades executed`);
     
@@ -1051,12 +1042,13 @@ export class QPPFStockScanner {
   /**
    * Enhance QPPF scores with Unusual Whales data
    */
-  private async enhanceWithUnusualWhales(symbol: string, scores: QPPFScores): Promise<void> {
-    if (!this.uwClient) return;
+  private async enhanceWithUnusualWhales(symbol: string, scores: QPPFScores): Promise<DataProvenance | undefined> {
+    if (!this.uwClient) return undefined;   // Source not configured
 
     try {
       // Get options flow data to enhance sentiment
       const optionsFlow = await this.uwClient.getOptionsFlow(symbol);
+      const provenance = UnusualWhalesClient.getFlowProvenance(optionsFlow);
       if (optionsFlow && optionsFlow.length > 0) {
         const flowSignals = this.uwClient.processOptionsFlowSignals(optionsFlow);
         
@@ -1073,9 +1065,11 @@ export class QPPFStockScanner {
       // Add small delay to avoid rate limiting
       await new Promise(resolve => setTimeout(resolve, 100));
       
+      return provenance;
     } catch (error) {
-      // Silently ignore UW errors to not break the main analysis
+      // Don't break the main analysis, but the scores went without flow input so the scan isn't live
       console.debug(`UW enhancement skipped for ${symbol}:`, error.message);
+      return 'synthetic';
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,324 @@
+/**
+ * Rate and Dividend Sources
+ * Risk-free rate term structure (treasury yield curve) and per-symbol dividend schedules,
+ * so option greeks are priced with the same rates and dividends for every symbol and expiry
+ */
+
+import { getExchangeTime } from './clock';
+
+export interface RatePoint {
+  years: number;             // Tenor in years
+  rate: number;              // Continuously compounded rate
+}
+
+export interface YieldCurve {
+  date: string;              // YYYY-MM-DD the curve was observed
+  points: RatePoint[];       // Ascending by tenor
+}
+
+export interface RateSource {
+  readonly name: string;
+  getCurve(asOf: Date): RatePoint[];
+}
+
+export interface DividendEvent {
+  exDate: string;            // YYYY-MM-DD
+  amount: number;            // Cash amount per share
+}
+
+export interface SymbolDividends {
+  yield: number;             // Continuous yield (index products, or stocks without a schedule)
+  dividends: DividendEvent[];  // Discrete cash dividends, ascending by ex-date
+}
+
+export interface DividendSource {
+  readonly name: string;
+  getDividends(symbol: string, asOf: Date): SymbolDividends;
+}
+
+export interface FileSourceOptions {
+  content?: string;          // Raw CSV/JSON text
+  url?: string;              // Or a URL serving the file (Workers have no filesystem)
+  format?: 'csv' | 'json';   // Inferred from the URL extension or content when omitted
+}
+
+/**
+ * Rate for a time to expiry: linear in tenor between curve points, flat beyond the ends
+ */
+export function interpolateRate(points: RatePoint[], years: number): number {
+  if (points.length === 0) return 0;
+  if (years <= points[0].years) return points[0].rate;
+  if (years >= points[points.length - 1].years) return points[points.length - 1].rate;
+
+  let i = 0;
+  while (points[i + 1].years < years) i++;
+  const weight = (years - points[i].years) / (points[i + 1].years - points[i].years);
+  return points[i].rate + weight * (points[i + 1].rate - points[i].rate);
+}
+
+/**
+ * Convert a treasury par yield in percent (semiannual bond-equivalent) to a continuous rate
+ */
+export function toContinuousRate(parYieldPercent: number): number {
+  return 2 * Math.log(1 + parYieldPercent / 100 / 2);
+}
+
+/**
+ * Tenor in years from a treasury column header ('1 Mo', '1.5 Month', '6 Mo', '2 Yr', '52 Wk')
+ */
+function parseTenor(header: string): number | null {
+  const match = header.trim().match(/^([\d.]+)\s*(wk|week|mo|month|yr|year)/i);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit.startsWith('w')) return value / 52;
+  if (unit.startsWith('m')) return value / 12;
+  return value;
+}
+
+/**
+ * YYYY-MM-DD from 'MM/DD/YYYY' (treasury.gov) or ISO dates
+ */
+function normalizeDate(value: string): string | null {
+  const us = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+
+  const iso = value.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  return iso ? iso[1] : null;
+}
+
+function splitCSV(text: string): { headers: string[]; rows: string[][] } {
+  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const strip = (value: string) => value.trim().replace(/^"|"$/g, '');
+
+  return {
+    headers: (lines[0] || '').split(',').map(strip),
+    rows: lines.slice(1).map(line => line.split(',').map(strip)),
+  };
+}
+
+/**
+ * Parse the treasury.gov daily par yield curve CSV (Date, 1 Mo, 2 Mo, ... 30 Yr, yields in percent)
+ */
+export function parseTreasuryYieldCSV(text: string): YieldCurve[] {
+  const { headers, rows } = splitCSV(text);
+  const tenors = headers.map(parseTenor);
+  const curves: YieldCurve[] = [];
+
+  for (const row of rows) {
+    const date = normalizeDate(row[0] || '');
+    if (!date) continue;
+
+    const points: RatePoint[] = [];
+    tenors.forEach((years, i) => {
+      const value = parseFloat(row[i]);
+      if (years !== null && Number.isFinite(value)) {
+        points.push({ years, rate: toContinuousRate(value) });
+      }
+    });
+
+    if (points.length > 0) {
+      curves.push({ date, points: points.sort((a, b) => a.years - b.years) });
+    }
+  }
+
+  return curves.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Parse a JSON curve: [{ years, rate }], { date, points } or [{ date, points }] (rates as decimals)
+ */
+export function parseYieldCurveJSON(text: string): YieldCurve[] {
+  const data = JSON.parse(text);
+  const toCurve = (date: string, points: any[]): YieldCurve => ({
+    date,
+    points: points
+      .map(point => ({ years: Number(point.years), rate: Number(point.rate) }))
+      .filter(point => Number.isFinite(point.years) && Number.isFinite(point.rate))
+      .sort((a, b) => a.years - b.years),
+  });
+
+  if (Array.isArray(data) && data.length > 0 && Array.isArray(data[0]?.points)) {
+    return data.map(curve => toCurve(curve.date || '1970-01-01', curve.points))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+  if (Array.isArray(data)) return [toCurve('1970-01-01', data)];
+
+  return [toCurve(data.date || '1970-01-01', data.points || [])];
+}
+
+/**
+ * Parse a dividend table CSV with columns symbol, ex_date and amount (discrete dividends)
+ * and/or symbol and yield (continuous yield, as a decimal)
+ */
+export function parseDividendCSV(text: string): Record<string, SymbolDividends> {
+  const { headers, rows } = splitCSV(text);
+  const column = (...names: string[]) => headers.findIndex(header => names.includes(header.toLowerCase()));
+  const symbolCol = column('symbol', 'ticker');
+  const exDateCol = column('ex_date', 'exdate', 'ex-date', 'ex_dividend_date');
+  const amountCol = column('amount', 'cash_amount', 'dividend');
+  const yieldCol = column('yield', 'dividend_yield');
+  const table: Record<string, SymbolDividends> = {};
+
+  for (const row of rows) {
+    const symbol = row[symbolCol]?.toUpperCase();
+    if (!symbol) continue;
+
+    const entry = table[symbol] || { yield: 0, dividends: [] };
+    const exDate = exDateCol >= 0 ? normalizeDate(row[exDateCol] || '') : null;
+    const amount = amountCol >= 0 ? parseFloat(row[amountCol]) : NaN;
+    const yieldValue = yieldCol >= 0 ? parseFloat(row[yieldCol]) : NaN;
+
+    if (exDate && amount > 0) entry.dividends.push({ exDate, amount });
+    if (Number.isFinite(yieldValue)) entry.yield = yieldValue;
+    table[symbol] = entry;
+  }
+
+  for (const entry of Object.values(table)) {
+    entry.dividends.sort((a, b) => a.exDate.localeCompare(b.exDate));
+  }
+
+  return table;
+}
+
+/**
+ * Parse a JSON dividend table: { SYMBOL: { yield?, dividends?: [{ exDate, amount }] } }
+ */
+export function parseDividendJSON(text: string): Record<string, SymbolDividends> {
+  const data = JSON.parse(text);
+  const table: Record<string, SymbolDividends> = {};
+
+  for (const [symbol, value] of Object.entries<any>(data)) {
+    const dividends = (Array.isArray(value?.dividends) ? value.dividends : [])
+      .map((d: any) => ({ exDate: normalizeDate(String(d.exDate ?? d.ex_date ?? '')), amount: Number(d.amount) }))
+      .filter((d: { exDate: string | null; amount: number }) => d.exDate && d.amount > 0)
+      .sort((a: DividendEvent, b: DividendEvent) => a.exDate.localeCompare(b.exDate));
+
+    table[symbol.toUpperCase()] = { yield: Number(value?.yield) || 0, dividends };
+  }
+
+  return table;
+}
+
+async function loadFileText(options: FileSourceOptions, label: string): Promise<{ text: string; format: 'csv' | 'json' }> {
+  let text = options.content;
+  if (text === undefined) {
+    if (!options.url) {
+      throw new Error(`${label} requires content or url`);
+    }
+    const response = await fetch(options.url);
+    if (!response.ok) {
+      throw new Error(`${label} file error: ${response.status}`);
+    }
+    text = await response.text();
+  }
+
+  const format = options.format
+    || (options.url?.toLowerCase().endsWith('.csv') ? 'csv' : undefined)
+    || (/^\s*[[{]/.test(text) ? 'json' : 'csv');
+
+  return { text, format };
+}
+
+/**
+ * The same rate for every tenor
+ */
+export class FlatRateSource implements RateSource {
+  readonly name = 'flat';
+  private rate: number;
+
+  constructor(rate: number) {
+    this.rate = rate;
+  }
+
+  getCurve(_asOf: Date): RatePoint[] {
+    return [{ years: 0, rate: this.rate }];
+  }
+}
+
+/**
+ * Treasury yield curves by date; serves the latest curve observed on or before asOf
+ */
+export class YieldCurveRateSource implements RateSource {
+  readonly name = 'yield-curve';
+  private curves: YieldCurve[];
+
+  constructor(curves: YieldCurve[]) {
+    this.curves = curves
+      .filter(curve => curve.points.length > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (this.curves.length === 0) {
+      throw new Error('YieldCurveRateSource requires at least one curve with points');
+    }
+  }
+
+  static async load(options: FileSourceOptions): Promise<YieldCurveRateSource> {
+    const { text, format } = await loadFileText(options, 'Yield curve');
+    const curves = format === 'json' ? parseYieldCurveJSON(text) : parseTreasuryYieldCSV(text);
+    console.log(`📈 Loaded ${curves.length} yield curve(s) from ${format.toUpperCase()}`);
+    return new YieldCurveRateSource(curves);
+  }
+
+  getCurve(asOf: Date): RatePoint[] {
+    const date = getExchangeTime(asOf).date;
+    let selected = this.curves[0];
+    for (const curve of this.curves) {
+      if (curve.date <= date) selected = curve;
+    }
+    return selected.points;
+  }
+}
+
+/**
+ * The same continuous yield for every symbol
+ */
+export class ConstantDividendSource implements DividendSource {
+  readonly name = 'constant';
+  private dividendYield: number;
+
+  constructor(dividendYield: number) {
+    this.dividendYield = dividendYield;
+  }
+
+  getDividends(_symbol: string, _asOf: Date): SymbolDividends {
+    return { yield: this.dividendYield, dividends: [] };
+  }
+}
+
+/**
+ * Per-symbol dividend table; symbols not in the table pay nothing (defaultYield)
+ */
+export class DividendTable implements DividendSource {
+  readonly name = 'dividend-table';
+  private table: Record<string, SymbolDividends>;
+  private defaultYield: number;
+
+  constructor(table: Record<string, SymbolDividends>, defaultYield: number = 0) {
+    this.table = Object.fromEntries(
+      Object.entries(table).map(([symbol, entry]) => [symbol.toUpperCase(), entry])
+    );
+    this.defaultYield = defaultYield;
+  }
+
+  static async load(options: FileSourceOptions, defaultYield: number = 0): Promise<DividendTable> {
+    const { text, format } = await loadFileText(options, 'Dividend table');
+    const table = format === 'json' ? parseDividendJSON(text) : parseDividendCSV(text);
+    console.log(`💵 Loaded dividends for ${Object.keys(table).length} symbol(s) from ${format.toUpperCase()}`);
+    return new DividendTable(table, defaultYield);
+  }
+
+  /**
+   * Continuous yield plus dividends going ex after asOf
+   */
+  getDividends(symbol: string, asOf: Date): SymbolDividends {
+    const entry = this.table[symbol.toUpperCase()];
+    if (!entry) return { yield: this.defaultYield, dividends: [] };
+
+    const today = getExchangeTime(asOf).date;
+    return {
+      yield: entry.yield,
+      dividends: entry.dividends.filter(dividend => dividend.exDate > today),
+    };
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Reconnecting Socket
+ * WebSocket lifecycle shared by the Alpaca streams: connect, handshake timeout, heartbeat and
+ * reconnect with exponential backoff
+ */
+
+import { Clock, systemClock } from './clock';
+
+/**
+ * The subset of the WebSocket API the streams use (browser, Workers and Node 22 all provide it)
+ */
+export interface WebSocketLike {
+  readonly readyState: number;   // 0 connecting, 1 open, 2 closing, 3 closed
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  addEventListener(type: 'open' | 'message' | 'close' | 'error', listener: (event: any) => void): void;
+}
+
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
+export const defaultWebSocketFactory: WebSocketFactory = (url) => {
+  const WebSocketImpl = (globalThis as any).WebSocket;
+  if (!WebSocketImpl) {
+    throw new Error('No WebSocket implementation available in this runtime; pass a socket factory');
+  }
+  return new WebSocketImpl(url);
+};
+
+export type StreamState = 'idle' | 'connecting' | 'authenticating' | 'streaming' | 'reconnecting' | 'stopped';
+
+export interface ReconnectingSocketConfig {
+  url: string;
+  heartbeatIntervalMs: number;   // How often sendKeepAlive runs while streaming
+  heartbeatTimeoutMs: number;    // Silence after which the connection is treated as dead
+  reconnectBaseMs: number;       // First reconnect delay, doubled per failed attempt
+  reconnectMaxMs: number;
+}
+
+/**
+ * Base for a stream that authenticates after connecting. Subclasses parse frames, call authenticated()
+ * once the server accepts them and say what counts as a finished handshake and a keep-alive.
+ */
+export abstract class ReconnectingSocket<TConfig extends ReconnectingSocketConfig> {
+  protected readonly label: string;   // 'Market data stream', used in logs
+  protected config: TConfig;
+  protected clock: Clock;
+  protected socket: WebSocketLike | null = null;
+  protected state: StreamState = 'idle';
+  protected reconnects = 0;
+  protected connectedAt: Date | null = null;
+  protected lastMessageAt: Date | null = null;
+  protected lastError: string | null = null;
+  private socketFactory: WebSocketFactory;
+  private attempts = 0;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(label: string, config: TConfig, socketFactory: WebSocketFactory = defaultWebSocketFactory, clock: Clock = systemClock) {
+    this.label = label;
+    this.config = config;
+    this.socketFactory = socketFactory;
+    this.clock = clock;
+  }
+
+  getConfig(): TConfig {
+    return { ...this.config };
+  }
+
+  getState(): StreamState {
+    return this.state;
+  }
+
+  start(): void {
+    if (this.state !== 'idle' && this.state !== 'stopped') return;
+    this.attempts = 0;
+    this.connect();
+  }
+
+  stop(): void {
+    this.state = 'stopped';
+    this.resetSession();
+    this.clearTimers();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && socket.readyState < 2) socket.close(1000, 'client stop');
+    console.log(`⏹️ ${this.label} stopped`);
+  }
+
+  /**
+   * Handle one frame from the current socket (lastMessageAt is already updated)
+   */
+  protected abstract handleFrame(data: unknown): void;
+
+  /**
+   * Whether the current connection got far enough to survive the handshake timeout
+   */
+  protected abstract isHandshakeComplete(): boolean;
+
+  /**
+   * Sent every heartbeatIntervalMs while streaming; must be something the server answers
+   */
+  protected abstract sendKeepAlive(): void;
+
+  /**
+   * Called when the socket opens, for servers that expect the client to speak first
+   */
+  protected onOpen(): void {}
+
+  /**
+   * Forget per-connection state when a connection starts, closes or is stopped
+   */
+  protected resetSession(): void {}
+
+  /**
+   * The server accepted the credentials: the stream is live and the heartbeat starts
+   */
+  protected authenticated(): void {
+    this.state = 'streaming';
+    this.attempts = 0;
+    this.connectedAt = this.clock.now();
+    this.lastError = null;
+    this.startHeartbeat();
+  }
+
+  protected send(message: Record<string, unknown>): void {
+    if (this.socket && this.socket.readyState === 1) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private connect(): void {
+    this.state = 'connecting';
+    this.resetSession();
+    let socket: WebSocketLike;
+    try {
+      socket = this.socketFactory(this.config.url);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error(`❌ ${this.label} could not connect:`, this.lastError);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+
+    // A connection that never authenticates (half-open, silent server) is abandoned like a dead one
+    this.handshakeTimer = setTimeout(() => {
+      this.handshakeTimer = null;
+      if (this.socket === socket && !this.isHandshakeComplete()) {
+        this.lastError = 'Handshake timeout';
+        socket.close(4000, 'handshake timeout');
+      }
+    }, this.config.heartbeatTimeoutMs);
+
+    socket.addEventListener('open', () => {
+      if (this.socket !== socket) return;
+      this.onOpen();
+    });
+    socket.addEventListener('message', (event) => {
+      if (this.socket !== socket) return;
+      this.lastMessageAt = this.clock.now();
+      this.handleFrame(event.data);
+    });
+    socket.addEventListener('error', (event) => {
+      if (this.socket !== socket) return;
+      this.lastError = event?.message || 'WebSocket error';
+    });
+    socket.addEventListener('close', (event) => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.resetSession();
+      this.clearTimers();
+      if (this.state === 'stopped') return;
+      console.warn(`⚠️ ${this.label} closed (${event?.code ?? 'no code'}${event?.reason ? `: ${event.reason}` : ''})`);
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    if (this.state === 'stopped') return;
+    this.state = 'reconnecting';
+    const delay = Math.min(this.config.reconnectMaxMs, this.config.reconnectBaseMs * 2 ** this.attempts);
+    this.attempts++;
+    this.reconnects++;
+    console.log(`🔄 Reconnecting ${this.label.toLowerCase()} in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.state === 'reconnecting') this.connect();
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.handshakeTimer) clearTimeout(this.handshakeTimer);
+    this.heartbeat = null;
+    this.reconnectTimer = null;
+    this.handshakeTimer = null;
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = setInterval(() => {
+      const silentFor = this.clock.now().getTime() - (this.lastMessageAt?.getTime() ?? 0);
+      if (silentFor > this.config.heartbeatTimeoutMs) {
+        console.warn(`⚠️ ${this.label} silent for ${Math.round(silentFor / 1000)}s - reconnecting`);
+        this.lastError = 'Heartbeat timeout';
+        this.socket?.close(4000, 'heartbeat timeout');
+        return;
+      }
+      this.sendKeepAlive();
+    }, this.config.heartbeatIntervalMs);
+  }
+}
@@ -5,13 +5,18 @@
 
 import { QPPFSignal } from './qppf-algorithm';
 import { OptionsFlowSignals } from './unusual-whales-client';
-import { AlpacaAccount, AlpacaPosition } from './alpaca-trading-service';
+import { BrokerAccount, BrokerPosition } from './broker-adapter';
+import { Clock, systemClock, getExchangeTime } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+import { ConfidenceCalibrator } from './confidence-calibration';
+import { OrderUpdate } from './order-manager';
 
 export interface RiskAssessment {
   positionSize: number;
   riskScore: number;
   maxPositionSize: number;
   confidenceMultiplier: number;
+  winProbability: number; // Calibrated confidence (raw confidence until a calibration is fitted)
   riskAmount: number;
   recommendation: 'execute' | 'reduce' | 'reject';
   reasons: string[];
@@ -20,16 +25,25 @@ export interface RiskAssessment {
 export interface RiskParameters {
   maxPortfolioRisk: number; // Maximum % of portfolio at risk (default: 0.02 = 2%)
   maxTradeRisk: number; // Maximum % per trade (default: 0.005 = 0.5%)
-  minConfidence: number; // Minimum confidence to trade (default: 0.70 = 70%)
+  minConfidence: number; // Minimum calibrated win probability to trade (default: 0.70 = 70%)
   maxRiskScore: number; // Maximum allowed risk score (default: 0.30)
   maxDrawdown: number; // Maximum portfolio drawdown (default: 0.10 = 10%)
   maxPositionCount: number; // Maximum number of open positions (default: 5)
+  maxConsecutiveRejections: number; // Broker rejections in a row (same session) before new trades are refused (default: 3)
+  maxOptionPremiumRisk: number; // Maximum % of portfolio paid in premium per option trade (default: 0.01 = 1%)
 }
 
 export class RiskManager {
   private params: RiskParameters;
-
-  constructor(params?: Partial<RiskParameters>) {
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private calibrator: ConfidenceCalibrator | null = null;
+  private consecutiveRejections = 0;
+  private rejectionSession: string | null = null;
+
+  constructor(params?: Partial<RiskParameters>, clock: Clock = systemClock, calendar: TradingCalendar = tradingCalendar) {
+    this.clock = clock;
+    this.calendar = calendar;
     this.params = {
       maxPortfolioRisk: 0.05, // Increased from 2% to 5%
       maxTradeRisk: 0.02,     // Increased from 0.5% to 2% - allows ~$2000 per trade
@@ -37,6 +51,8 @@ export class RiskManager {
       maxRiskScore: 0.50,     // Increased from 0.30 to 0.50 to be less restrictive
       maxDrawdown: 0.15,      // Increased from 10% to 15%
       maxPositionCount: 10,   // Increased from 5 to 10 positions
+      maxConsecutiveRejections: 3,
+      maxOptionPremiumRisk: 0.01,
       ...params,
     };
   }
@@ -47,18 +63,19 @@ export class RiskManager {
   assessTrade(
     signal: QPPFSignal,
     uwSignals: OptionsFlowSignals,
-    account: AlpacaAccount,
-    positions: AlpacaPosition[],
+    account: BrokerAccount,
+    positions: BrokerPosition[],
     currentPrice: number
   ): RiskAssessment {
     
     const reasons: string[] = [];
     let recommendation: 'execute' | 'reduce' | 'reject' = 'execute';
+    const winProbability = this.getWinProbability(signal.confidence);
 
     // 1. Calculate base position size
     const basePositionSize = this.calculateBasePositionSize(
       account.portfolioValue,
-      signal.confidence,
+      winProbability,
       currentPrice
     );
 
@@ -83,18 +100,13 @@ export class RiskManager {
     const riskScore = this.calculateRiskScore(
       signal,
       uwSignals,
-      portfolioLimitedSize,
-      account,
+      (portfolioLimitedSize * 450) / (account.portfolioValue * this.params.maxTradeRisk),
       positions
     );
 
     // 5. Make final recommendation
-    if (signal.confidence < this.params.minConfidence) {
+    if (this.checkRejection(signal, winProbability, riskScore, reasons)) {
       recommendation = 'reject';
-      reasons.push(`Confidence ${(signal.confidence * 100).toFixed(1)}% below minimum ${(this.params.minConfidence * 100).toFixed(1)}%`);
-    } else if (riskScore > this.params.maxRiskScore) {
-      recommendation = 'reject';
-      reasons.push(`Risk score ${(riskScore * 100).toFixed(1)}% exceeds maximum ${(this.params.maxRiskScore * 100).toFixed(1)}%`);
     } else if (portfolioLimitedSize < basePositionSize * 0.5) {
       recommendation = 'reduce';
       reasons.push('Position size significantly reduced due to risk limits');
@@ -105,12 +117,94 @@ export class RiskManager {
       riskScore,
       maxPositionSize: Math.floor(account.portfolioValue * this.params.maxTradeRisk / currentPrice),
       confidenceMultiplier: multiplier,
+      winProbability,
       riskAmount: portfolioLimitedSize * currentPrice,
       recommendation,
       reasons,
     };
   }
 
+  /**
+   * Assess buying an option: size in contracts so the premium paid (all a long option can lose) stays within
+   * maxOptionPremiumRisk of the portfolio, scaled by the same confidence and flow multipliers as share trades
+   */
+  assessOptionTrade(
+    signal: QPPFSignal,
+    uwSignals: OptionsFlowSignals,
+    account: BrokerAccount,
+    positions: BrokerPosition[],
+    premium: number,
+    contractMultiplier: number = 100
+  ): RiskAssessment {
+    const reasons: string[] = [];
+    let recommendation: 'execute' | 'reduce' | 'reject' = 'execute';
+    const winProbability = this.getWinProbability(signal.confidence);
+    const contractCost = premium * contractMultiplier;
+    const premiumBudget = account.portfolioValue * this.params.maxOptionPremiumRisk;
+
+    // 1. Contracts the premium budget buys, scaled by win probability
+    const baseContracts = premiumBudget * Math.max(0.1, Math.min(1.0, winProbability)) / contractCost;
+    console.log(`💰 Option Sizing: Portfolio=$${account.portfolioValue}, Premium budget=$${premiumBudget.toFixed(2)}, Contract cost=$${contractCost.toFixed(2)}, Contracts=${baseContracts.toFixed(2)}`);
+
+    // 2. Apply risk multipliers
+    const { adjustedSize, multiplier } = this.applyRiskMultipliers(baseContracts, signal, uwSignals, reasons);
+
+    // 3. Position count, and the premium is paid up front out of buying power
+    let contracts = adjustedSize;
+    if (positions.length >= this.params.maxPositionCount) {
+      contracts = 0;
+      reasons.push(`Maximum position count (${this.params.maxPositionCount}) reached`);
+    } else if (contracts * contractCost > account.buyingPower) {
+      contracts = account.buyingPower / contractCost;
+      reasons.push('Reduced to available buying power');
+    }
+    contracts = Math.max(0, Math.floor(contracts));
+    if (contracts === 0 && contractCost > premiumBudget) {
+      reasons.push(`One contract costs $${contractCost.toFixed(2)}, above the $${premiumBudget.toFixed(2)} premium budget`);
+    }
+
+    // 4. Calculate risk score (premium at risk against the budget stands in for position size)
+    const riskScore = this.calculateRiskScore(signal, uwSignals, (contracts * contractCost) / premiumBudget, positions);
+
+    // 5. Make final recommendation
+    if (this.checkRejection(signal, winProbability, riskScore, reasons) || contracts === 0) {
+      recommendation = 'reject';
+    } else if (contracts < baseContracts * 0.5) {
+      recommendation = 'reduce';
+      reasons.push('Contract count significantly reduced due to risk limits');
+    }
+
+    return {
+      positionSize: contracts,
+      riskScore,
+      maxPositionSize: Math.floor(premiumBudget / contractCost),
+      confidenceMultiplier: multiplier,
+      winProbability,
+      riskAmount: contracts * contractCost,
+      recommendation,
+      reasons,
+    };
+  }
+
+  /**
+   * Rejections shared by share and option trades (broker rejection streak, win probability, risk score)
+   */
+  private checkRejection(signal: QPPFSignal, winProbability: number, riskScore: number, reasons: string[]): boolean {
+    const rejections = this.getConsecutiveRejections();
+    if (rejections >= this.params.maxConsecutiveRejections) {
+      reasons.push(`${rejections} orders rejected by the broker in a row this session`);
+    } else if (winProbability < this.params.minConfidence) {
+      reasons.push(this.calibrator?.isFitted()
+        ? `Calibrated win probability ${(winProbability * 100).toFixed(1)}% (raw confidence ${(signal.confidence * 100).toFixed(1)}%) below minimum ${(this.params.minConfidence * 100).toFixed(1)}%`
+        : `Confidence ${(signal.confidence * 100).toFixed(1)}% below minimum ${(this.params.minConfidence * 100).toFixed(1)}%`);
+    } else if (riskScore > this.params.maxRiskScore) {
+      reasons.push(`Risk score ${(riskScore * 100).toFixed(1)}% exceeds maximum ${(this.params.maxRiskScore * 100).toFixed(1)}%`);
+    } else {
+      return false;
+    }
+    return true;
+  }
+
   /**
    * Calculate base position size based on confidence and risk parameters
    */
@@ -184,8 +278,8 @@ export class RiskManager {
    */
   private checkPortfolioLimits(
     size: number,
-    account: AlpacaAccount,
-    positions: AlpacaPosition[],
+    account: BrokerAccount,
+    positions: BrokerPosition[],
     currentPrice: number,
     reasons: string[]
   ): number {
@@ -230,22 +324,18 @@ export class RiskManager {
   private calculateRiskScore(
     signal: QPPFSignal,
     uwSignals: OptionsFlowSignals,
-    positionSize: number,
-    account: AlpacaAccount,
-    positions: AlpacaPosition[]
+    sizeUsage: number,           // Position size as a fraction of the per-trade limit
+    positions: BrokerPosition[]
   ): number {
     
     const riskFactors: number[] = [];
 
     // 1. Confidence risk (lower confidence = higher risk)
-    const confidenceRisk = (1.0 - signal.confidence) * 0.4;
+    const confidenceRisk = (1.0 - this.getWinProbability(signal.confidence)) * 0.4;
     riskFactors.push(confidenceRisk);
 
     // 2. Position size risk (larger position = higher risk)
-    const positionRisk = Math.min(
-      (positionSize * 450) / (account.portfolioValue * this.params.maxTradeRisk), 
-      1.0
-    ) * 0.3;
+    const positionRisk = Math.min(sizeUsage, 1.0) * 0.3;
     riskFactors.push(positionRisk);
 
     // 3. Signal conflict risk
@@ -270,8 +360,8 @@ export class RiskManager {
    * Calculate current portfolio risk exposure
    */
   private calculateCurrentPortfolioRisk(
-    account: AlpacaAccount,
-    positions: AlpacaPosition[]
+    account: BrokerAccount,
+    positions: BrokerPosition[]
   ): number {
     
     const totalPositionValue = positions.reduce(
@@ -283,21 +373,72 @@ export class RiskManager {
   }
 
   /**
-   * Get market timing risk factor
+   * Get market timing risk factor from the exchange calendar (session phase, open/close, expiration days)
    */
   private getMarketTimingRisk(): number {
-    const now = new Date();
-    const hour = now.getHours();
-    const minute = now.getMinutes();
+    const now = this.clock.now();
+    const phase = this.calendar.getSessionPhase(now);
     
-    // Higher risk near market open/close
-    if ((hour === 9 && minute < 45) || (hour === 15 && minute > 45)) {
+    // Thin liquidity and wide spreads outside the regular session
+    if (phase !== 'regular') {
+      return 0.5;
+    }
+    
+    const session = this.calendar.getSession(getExchangeTime(now).date);
+    const minutesSinceOpen = (now.getTime() - session.regularOpen!.getTime()) / 60000;
+    const minutesToClose = (session.regularClose!.getTime() - now.getTime()) / 60000;
+    
+    // Higher risk near market open/close (including early closes)
+    if (minutesSinceOpen < 15 || minutesToClose < 15) {
       return 0.3; // 30% additional risk near open/close
     }
     
+    // Monthly expiration days see pinning and large hedging flows
+    if (this.calendar.getExpirationType(session.date) === 'monthly') {
+      return 0.2;
+    }
+    
     return 0.1; // 10% base market risk
   }
 
+  /**
+   * Gate and size on calibrated win probabilities instead of the raw confidence score
+   */
+  setCalibrator(calibrator: ConfidenceCalibrator | null): void {
+    this.calibrator = calibrator;
+  }
+
+  /**
+   * Calibrated win probability for a raw confidence (unchanged without a fitted calibrator)
+   */
+  getWinProbability(confidence: number): number {
+    return this.calibrator ? this.calibrator.calibrate(confidence) : confidence;
+  }
+
+  /**
+   * Follow broker order events (trade_updates): rejections in a row block new trades until a fill or the next session
+   */
+  recordTradeUpdate(update: OrderUpdate): void {
+    const session = getExchangeTime(new Date(update.timestamp)).date;
+    if (session !== this.rejectionSession) {
+      this.rejectionSession = session;
+      this.consecutiveRejections = 0;
+    }
+
+    if (update.event === 'rejected') {
+      this.consecutiveRejections++;
+    } else if (update.event === 'fill' || update.event === 'partial_fill') {
+      this.consecutiveRejections = 0;
+    }
+  }
+
+  /**
+   * Broker rejections in a row during the current session
+   */
+  getConsecutiveRejections(): number {
+    return this.rejectionSession === getExchangeTime(this.clock.now()).date ? this.consecutiveRejections : 0;
+  }
+
   /**
    * Validate if trade should be executed
    */
@@ -331,8 +472,8 @@ export class RiskManager {
    * Generate risk report for monitoring
    */
   generateRiskReport(
-    account: AlpacaAccount,
-    positions: AlpacaPosition[]
+    account: BrokerAccount,
+    positions: BrokerPosition[]
   ): {
     portfolioRisk: number;
     positionCount: number;
@@ -0,0 +1,504 @@
+/**
+ * Signal Factors
+ * Pluggable directional factors for the QPPF algorithm: each factor scores one piece of evidence
+ * (-1 bearish to +1 bullish) with a weight and an explanation, and a registry combines them per symbol
+ */
+
+import { MarketQuote } from './market-data-provider';
+import { OptionsFlowSignals } from './unusual-whales-client';
+import { GEXData } from './gex-calculator';
+import { TradingCalendar } from './trading-calendar';
+
+export interface FactorContext {
+  symbol: string;
+  marketData: MarketQuote;
+  uwSignals: OptionsFlowSignals;
+  gexData?: GEXData;
+  priceHistory: number[];    // Recent prices, oldest first, including the current one
+  now: Date;
+  calendar: TradingCalendar;
+}
+
+export interface FactorOutput {
+  score: number;             // -1 (bearish) to +1 (bullish); 0 means no view
+  explanation: string;       // Becomes a long or short reason depending on the sign
+}
+
+export interface SignalFactor {
+  readonly name: string;
+  readonly description: string;
+  readonly defaultWeight: number;
+  readonly defaultEnabled: boolean;
+  evaluate(context: FactorContext): FactorOutput | null;  // Null when the inputs are missing
+}
+
+export interface FactorSettings {
+  enabled?: boolean;
+  weight?: number;
+}
+
+export interface FactorConfig {
+  directionThreshold: number;  // |weighted score| needed for LONG/SHORT
+  factors: Record<string, FactorSettings>;                    // Overrides for every symbol
+  symbols: Record<string, Record<string, FactorSettings>>;   // Per-symbol overrides on top
+}
+
+export interface FactorResult {
+  name: string;
+  score: number;
+  weight: number;
+  contribution: number;      // score * weight
+  explanation: string;
+}
+
+export interface FactorEvaluation {
+  direction: 'LONG' | 'SHORT' | 'FLAT';
+  netScore: number;          // Sum of contributions
+  bullishScore: number;      // Sum of positive contributions
+  bearishScore: number;      // Sum of negative contributions (as a positive number)
+  threshold: number;
+  factors: FactorResult[];
+  reasonsLong: string[];
+  reasonsShort: string[];
+}
+
+export interface ResolvedFactorSettings {
+  name: string;
+  description: string;
+  enabled: boolean;
+  weight: number;
+}
+
+export const DEFAULT_FACTOR_CONFIG: FactorConfig = {
+  directionThreshold: 1.5,
+  factors: {},
+  symbols: {},
+};
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+const sign = (value: number) => value > 0 ? 1 : value < 0 ? -1 : 0;
+const describeSide = (score: number) => score > 0 ? 'bullish' : 'bearish';
+
+/**
+ * Net options flow sentiment; ±40% saturates the factor
+ */
+export const flowSentimentFactor: SignalFactor = {
+  name: 'flow-sentiment',
+  description: 'Net bullish/bearish options flow sentiment',
+  defaultWeight: 2,
+  defaultEnabled: true,
+  evaluate({ uwSignals }) {
+    const sentiment = uwSignals.sentimentScore;
+    if (Math.abs(sentiment) < 0.1) return null;
+    const strength = Math.abs(sentiment) > 0.3 ? 'Strong' : 'Leaning';
+    return {
+      score: clamp(sentiment / 0.4),
+      explanation: `${strength} ${describeSide(sentiment)} sentiment (${(sentiment * 100).toFixed(1)}%)`,
+    };
+  },
+};
+
+/**
+ * More bullish than bearish alerts (or the reverse), regardless of size
+ */
+export const flowBalanceFactor: SignalFactor = {
+  name: 'flow-balance',
+  description: 'Count of bullish vs bearish options flow alerts',
+  defaultWeight: 1,
+  defaultEnabled: true,
+  evaluate({ uwSignals }) {
+    const { bullishCount, bearishCount } = uwSignals;
+    if (bullishCount === bearishCount) return null;
+    return bullishCount > bearishCount
+      ? { score: 1, explanation: `More bullish alerts (${bullishCount} vs ${bearishCount})` }
+      : { score: -1, explanation: `More bearish alerts (${bearishCount} vs ${bullishCount})` };
+  },
+};
+
+/**
+ * Several large premium trades, in the direction of the flow sentiment
+ */
+export const largeTradesFactor: SignalFactor = {
+  name: 'large-trades',
+  description: 'Large premium trades leaning with the flow sentiment',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ uwSignals }) {
+    const direction = sign(uwSignals.sentimentScore);
+    if (uwSignals.largeTradesCount <= 2 || direction === 0) return null;
+    return {
+      score: direction,
+      explanation: `${uwSignals.largeTradesCount} large ${describeSide(direction)} premium trades detected`,
+    };
+  },
+};
+
+/**
+ * Heavy institutional premium, in the direction of the flow sentiment
+ */
+export const premiumActivityFactor: SignalFactor = {
+  name: 'premium-activity',
+  description: 'High average premium across many alerts, leaning with the flow sentiment',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ uwSignals }) {
+    const direction = sign(uwSignals.sentimentScore);
+    if (uwSignals.avgPremium <= 15000 || uwSignals.totalAlerts <= 30 || direction === 0) return null;
+    return {
+      score: direction,
+      explanation: `High average ${describeSide(direction)} premium ($${(uwSignals.avgPremium / 1000).toFixed(1)}k)`,
+    };
+  },
+};
+
+/**
+ * Above the zero gamma level dealers are long gamma (dampened, drifting higher);
+ * below it they are short gamma and moves extend lower
+ */
+export const zeroGammaFactor: SignalFactor = {
+  name: 'zero-gamma',
+  description: 'Price above or below the zero gamma level',
+  defaultWeight: 1,
+  defaultEnabled: true,
+  evaluate({ marketData, gexData }) {
+    const zgl = gexData?.zeroGammaLevel;
+    if (!zgl || marketData.price === zgl) return null;
+    return marketData.price > zgl
+      ? { score: 1, explanation: `Above Zero Gamma Level ($${zgl.toFixed(2)}) - positive gamma regime` }
+      : { score: -1, explanation: `Below Zero Gamma Level ($${zgl.toFixed(2)}) - negative gamma regime` };
+  },
+};
+
+/**
+ * Total gamma exposure that disagrees with the side of the zero gamma level pulls price back toward it
+ */
+export const gammaPressureFactor: SignalFactor = {
+  name: 'gamma-pressure',
+  description: 'Net GEX sign vs price position relative to the zero gamma level',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ marketData, gexData }) {
+    const zgl = gexData?.zeroGammaLevel;
+    if (!gexData || !zgl) return null;
+    if (gexData.totalGEX > 0 && marketData.price < zgl) {
+      return { score: 1, explanation: 'Positive gamma exposure below ZGL suggests upward price pressure' };
+    }
+    if (gexData.totalGEX < 0 && marketData.price > zgl) {
+      return { score: -1, explanation: 'Negative gamma exposure above ZGL suggests downward price pressure' };
+    }
+    return null;
+  },
+};
+
+/**
+ * Call GEX vs put GEX dominance
+ */
+export const callPutGEXFactor: SignalFactor = {
+  name: 'call-put-gex',
+  description: 'Call gamma exposure vs put gamma exposure',
+  defaultWeight: 1,
+  defaultEnabled: true,
+  evaluate({ gexData }) {
+    if (!gexData) return null;
+    const putGEX = Math.abs(gexData.putGEX);
+    if (gexData.callGEX === putGEX) return null;
+    return gexData.callGEX > putGEX
+      ? { score: 1, explanation: 'Call GEX dominance' }
+      : { score: -1, explanation: 'Put GEX dominance' };
+  },
+};
+
+/**
+ * Price sitting just above the put wall (support) or just below the call wall (resistance)
+ */
+export const dealerWallsFactor: SignalFactor = {
+  name: 'dealer-walls',
+  description: 'Price within 1% of the put wall (support) or call wall (resistance)',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ marketData, gexData }) {
+    if (!gexData) return null;
+    const { callWall, putWall } = gexData.keyLevels;
+    const price = marketData.price;
+    const nearPut = putWall !== null && putWall <= price && (price - putWall) / price < 0.01;
+    const nearCall = callWall !== null && callWall >= price && (callWall - price) / price < 0.01;
+    if (nearPut === nearCall) return null;
+    return nearPut
+      ? { score: 1, explanation: `Price holding just above put wall support ($${putWall!.toFixed(2)})` }
+      : { score: -1, explanation: `Price capped just below call wall resistance ($${callWall!.toFixed(2)})` };
+  },
+};
+
+/**
+ * More room up to the call wall than down to the put wall (or the reverse)
+ */
+export const wallRoomFactor: SignalFactor = {
+  name: 'wall-room',
+  description: 'Distance to the call wall vs distance to the put wall',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ marketData, gexData }) {
+    const callWall = gexData?.keyLevels.callWall;
+    const putWall = gexData?.keyLevels.putWall;
+    const price = marketData.price;
+    if (!callWall || !putWall || callWall <= price || putWall >= price) return null;
+
+    const roomUp = (callWall - price) / price;
+    const roomDown = (price - putWall) / price;
+    const score = (roomUp - roomDown) / (roomUp + roomDown);
+    if (Math.abs(score) < 0.2) return null;
+    return score > 0
+      ? { score, explanation: `${(roomUp * 100).toFixed(1)}% room to call wall ($${callWall.toFixed(2)})` }
+      : { score, explanation: `${(roomDown * 100).toFixed(1)}% room to put wall ($${putWall.toFixed(2)})` };
+  },
+};
+
+/**
+ * The gamma-weighted magnet price pulls toward itself
+ */
+export const gammaMagnetFactor: SignalFactor = {
+  name: 'gamma-magnet',
+  description: 'Gamma magnet more than 0.2% above or below price',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ marketData, gexData }) {
+    const magnet = gexData?.keyLevels.magnetPrice;
+    if (!magnet) return null;
+    if (magnet > marketData.price * 1.002) {
+      return { score: 1, explanation: `Gamma magnet above price ($${magnet.toFixed(2)})` };
+    }
+    if (magnet < marketData.price * 0.998) {
+      return { score: -1, explanation: `Gamma magnet below price ($${magnet.toFixed(2)})` };
+    }
+    return null;
+  },
+};
+
+/**
+ * A gamma flip just below price: breaking it adds negative gamma
+ */
+export const gammaFlipFactor: SignalFactor = {
+  name: 'gamma-flip',
+  description: 'Gamma flip within 0.5% below price',
+  defaultWeight: 0.5,
+  defaultEnabled: true,
+  evaluate({ marketData, gexData }) {
+    if (!gexData) return null;
+    const price = marketData.price;
+    const flipsBelow = gexData.keyLevels.gammaFlips.filter(flip => flip < price && (price - flip) / price < 0.005);
+    if (flipsBelow.length === 0) return null;
+    return {
+      score: -1,
+      explanation: `Gamma flip just below ($${flipsBelow[flipsBelow.length - 1].toFixed(2)}) - break would add negative gamma`,
+    };
+  },
+};
+
+/**
+ * Direction of the last three observed prices
+ */
+export const momentumFactor: SignalFactor = {
+  name: 'momentum',
+  description: 'Price change over the last three observations',
+  defaultWeight: 1,
+  defaultEnabled: true,
+  evaluate({ priceHistory }) {
+    if (priceHistory.length < 3) return null;
+    const recent = priceHistory.slice(-3);
+    const trend = recent[recent.length - 1] - recent[0];
+    if (trend === 0) return null;
+    return trend > 0
+      ? { score: 1, explanation: 'Recent upward price momentum' }
+      : { score: -1, explanation: 'Recent downward price momentum' };
+  },
+};
+
+/**
+ * Cumulative volume above a fixed 30M shares. Sized for SPY and always bullish, so off by default.
+ */
+export const highVolumeFactor: SignalFactor = {
+  name: 'high-volume',
+  description: 'Session volume above 30M shares (SPY-sized, always bullish; disabled by default)',
+  defaultWeight: 1,
+  defaultEnabled: false,
+  evaluate({ marketData }) {
+    if (marketData.volume <= 30000000) return null;
+    return { score: 1, explanation: `High volume (${(marketData.volume / 1000000).toFixed(1)}M)` };
+  },
+};
+
+/**
+ * Very tight bid-ask spread. Says nothing about direction, so off by default.
+ */
+export const tightSpreadFactor: SignalFactor = {
+  name: 'tight-spread',
+  description: 'Bid-ask spread under 0.01% of price (always bullish; disabled by default)',
+  defaultWeight: 1,
+  defaultEnabled: false,
+  evaluate({ marketData }) {
+    if (!(marketData.ask > marketData.bid) || (marketData.ask - marketData.bid) / marketData.price * 100 >= 0.01) return null;
+    return { score: 1, explanation: 'Tight bid-ask spread (institutional)' };
+  },
+};
+
+/**
+ * Bullish drift during the regular session. Fires on every in-session signal, so off by default.
+ */
+export const sessionBiasFactor: SignalFactor = {
+  name: 'session-bias',
+  description: 'Bullish bias during the regular session (always bullish; disabled by default)',
+  defaultWeight: 1,
+  defaultEnabled: false,
+  evaluate({ now, calendar }) {
+    if (!calendar.isRegularSession(now)) return null;
+    return { score: 1, explanation: 'During market hours (bullish bias)' };
+  },
+};
+
+export const DEFAULT_SIGNAL_FACTORS: SignalFactor[] = [
+  flowSentimentFactor,
+  flowBalanceFactor,
+  largeTradesFactor,
+  premiumActivityFactor,
+  zeroGammaFactor,
+  gammaPressureFactor,
+  callPutGEXFactor,
+  dealerWallsFactor,
+  wallRoomFactor,
+  gammaMagnetFactor,
+  gammaFlipFactor,
+  momentumFactor,
+  highVolumeFactor,
+  tightSpreadFactor,
+  sessionBiasFactor,
+];
+
+export class SignalFactorRegistry {
+  private factors = new Map<string, SignalFactor>();
+  private config: FactorConfig;
+
+  constructor(factors: SignalFactor[] = DEFAULT_SIGNAL_FACTORS, config: Partial<FactorConfig> = {}) {
+    factors.forEach(factor => this.register(factor));
+    this.config = { ...DEFAULT_FACTOR_CONFIG };
+    this.configure(config);
+  }
+
+  /**
+   * Add a factor, replacing any factor with the same name
+   */
+  register(factor: SignalFactor): void {
+    this.factors.set(factor.name, factor);
+  }
+
+  unregister(name: string): boolean {
+    return this.factors.delete(name);
+  }
+
+  getFactorNames(): string[] {
+    return [...this.factors.keys()];
+  }
+
+  getConfig(): FactorConfig {
+    return {
+      directionThreshold: this.config.directionThreshold,
+      factors: { ...this.config.factors },
+      symbols: { ...this.config.symbols },
+    };
+  }
+
+  /**
+   * Merge overrides into the configuration; per-symbol settings merge factor by factor
+   */
+  configure(config: Partial<FactorConfig>): void {
+    if (config.directionThreshold !== undefined && !(config.directionThreshold > 0)) {
+      throw new Error('directionThreshold must be positive');
+    }
+    const unknown = [
+      ...Object.keys(config.factors || {}),
+      ...Object.values(config.symbols || {}).flatMap(settings => Object.keys(settings)),
+    ].filter(name => !this.factors.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown signal factor(s): ${[...new Set(unknown)].join(', ')}`);
+    }
+
+    const mergeSettings = (base: Record<string, FactorSettings>, overrides: Record<string, FactorSettings> = {}) => {
+      const merged = { ...base };
+      for (const [name, settings] of Object.entries(overrides)) {
+        merged[name] = { ...merged[name], ...settings };
+      }
+      return merged;
+    };
+
+    const symbols = { ...this.config.symbols };
+    for (const [symbol, settings] of Object.entries(config.symbols || {})) {
+      symbols[symbol.toUpperCase()] = mergeSettings(symbols[symbol.toUpperCase()] || {}, settings);
+    }
+
+    this.config = {
+      directionThreshold: config.directionThreshold ?? this.config.directionThreshold,
+      factors: mergeSettings(this.config.factors, config.factors),
+      symbols,
+    };
+  }
+
+  /**
+   * Effective enabled flag and weight of every factor for a symbol
+   */
+  getSettings(symbol: string): ResolvedFactorSettings[] {
+    const symbolSettings = this.config.symbols[symbol.toUpperCase()] || {};
+    return [...this.factors.values()].map(factor => {
+      const settings = { ...this.config.factors[factor.name], ...symbolSettings[factor.name] };
+      return {
+        name: factor.name,
+        description: factor.description,
+        enabled: settings.enabled ?? factor.defaultEnabled,
+        weight: settings.weight ?? factor.defaultWeight,
+      };
+    });
+  }
+
+  /**
+   * Run every enabled factor and combine the weighted scores into a direction and reasons
+   */
+  evaluate(context: FactorContext): FactorEvaluation {
+    const results: FactorResult[] = [];
+
+    for (const settings of this.getSettings(context.symbol)) {
+      if (!settings.enabled || settings.weight === 0) continue;
+
+      let output: FactorOutput | null;
+      try {
+        output = this.factors.get(settings.name)!.evaluate(context);
+      } catch (error) {
+        console.warn(`⚠️ Signal factor ${settings.name} failed:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+      if (!output || !Number.isFinite(output.score) || output.score === 0) continue;
+
+      const score = clamp(output.score);
+      results.push({
+        name: settings.name,
+        score,
+        weight: settings.weight,
+        contribution: score * settings.weight,
+        explanation: output.explanation,
+      });
+    }
+
+    const bullishScore = results.filter(r => r.contribution > 0).reduce((sum, r) => sum + r.contribution, 0);
+    const bearishScore = -results.filter(r => r.contribution < 0).reduce((sum, r) => sum + r.contribution, 0);
+    const netScore = bullishScore - bearishScore;
+    const threshold = this.config.directionThreshold;
+
+    return {
+      direction: netScore >= threshold ? 'LONG' : netScore <= -threshold ? 'SHORT' : 'FLAT',
+      netScore,
+      bullishScore,
+      bearishScore,
+      threshold,
+      factors: results,
+      reasonsLong: results.filter(r => r.contribution > 0).map(r => r.explanation),
+      reasonsShort: results.filter(r => r.contribution < 0).map(r => r.explanation),
+    };
+  }
+}
@@ -0,0 +1,426 @@
+/**
+ * Signal Journal
+ * Persists every generated QPPF signal with its inputs and later outcome (D1/SQLite, JSONL file or memory)
+ * so what the algorithm said, and when, can be audited after a restart
+ */
+
+import { QPPFSignal, MarketData } from './qppf-algorithm';
+import { OptionsFlowSignals, DarkPoolData } from './unusual-whales-client';
+import { GEXData, ExpiryBucketGEX, DealerPositionModel } from './gex-calculator';
+import { SignalDataQuality } from './data-quality';
+import { FactorResult } from './signal-factors';
+import { loadNodeFs, ensureParentDirectory } from './node-fs';
+
+export type SignalDirection = QPPFSignal['direction'];
+
+export interface HorizonOutcome {
+  horizon: string;           // e.g. '5m', '1h', '1d'
+  targetTime: string;        // ISO time the horizon ends
+  price: number | null;      // Last close at or before the horizon (null when nothing traded)
+  returnPct: number | null;  // Underlying move since the signal, in %
+  directionalReturnPct: number | null;  // Move in the signal's direction (null for FLAT)
+  hit: boolean | null;       // Directional return above zero (null for FLAT or no data)
+}
+
+export interface SignalOutcome {
+  evaluatedAt: string;       // ISO time the outcome was (last) measured
+  entryPrice: number;
+  horizons: HorizonOutcome[];
+  mfePct: number | null;     // Max favourable excursion in the signal's direction, in %
+  maePct: number | null;     // Max adverse excursion in the signal's direction, in % (<= 0)
+  targetPrice: number | null;
+  stopPrice: number | null;
+  firstHit: 'target' | 'stop' | 'neither' | null;  // Null for FLAT signals
+  complete: boolean;         // Every horizon has elapsed; the outcome is final
+  barSource: string;
+}
+
+/**
+ * What the journal keeps of a signal's GEX: totals, ZGL, key levels and bucket totals, without the
+ * per-strike breakdown, spot profile and pricing curves that would dominate every entry
+ */
+export type GEXSummary = Omit<GEXData, 'perStrikeGEX' | 'profile' | 'expiryBuckets' | 'assumptions'> & {
+  expiryBuckets: Array<Omit<ExpiryBucketGEX, 'expiries'> & { expiryCount: number }>;
+  dealerModel: DealerPositionModel;
+};
+
+export interface SignalJournalEntry {
+  id: string;
+  symbol: string;
+  timestamp: string;         // ISO time the signal was generated
+  direction: SignalDirection;
+  confidence: number;
+  strength: number;
+  sentiment: string;
+  reasonsLong: string[];
+  reasonsShort: string[];
+  marketData: MarketData;
+  uwSignals: OptionsFlowSignals;
+  gexData?: GEXSummary;
+  darkPoolData?: DarkPoolData;
+  factors?: FactorResult[];
+  factorScore?: number;
+  dataQuality: SignalDataQuality;
+  outcome: SignalOutcome | null;
+}
+
+export interface SignalQuery {
+  symbol?: string;
+  from?: Date;               // Inclusive
+  to?: Date;                 // Inclusive
+  direction?: SignalDirection;
+  pending?: boolean;         // Only signals whose outcome is missing or not yet final
+  order?: 'newest' | 'oldest';  // Defaults to newest first
+  after?: string;            // Cursor from journalCursor(): continue past that entry in the query's order
+  limit?: number;            // Defaults to 100
+}
+
+/**
+ * A journaled signal without its inputs: enough to score outcomes against confidence
+ */
+export type SignalOutcomeRecord = Pick<SignalJournalEntry, 'id' | 'symbol' | 'timestamp' | 'direction' | 'confidence' | 'outcome'>;
+
+export interface SignalJournal {
+  readonly name: string;
+  append(entry: SignalJournalEntry): Promise<void>;
+  get(id: string): Promise<SignalJournalEntry | null>;
+  query(query: SignalQuery): Promise<SignalJournalEntry[]>;
+  queryOutcomes(query: SignalQuery): Promise<SignalOutcomeRecord[]>;
+  updateOutcome(id: string, outcome: SignalOutcome): Promise<boolean>;
+}
+
+const DEFAULT_QUERY_LIMIT = 100;
+const MAX_QUERY_LIMIT = 1000;
+
+export function summarizeGEX(gexData: GEXData): GEXSummary {
+  const { perStrikeGEX, profile, expiryBuckets, assumptions, ...totals } = gexData;
+  return {
+    ...totals,
+    expiryBuckets: expiryBuckets.map(({ expiries, ...bucket }) => ({ ...bucket, expiryCount: expiries.length })),
+    dealerModel: assumptions.dealerModel,
+  };
+}
+
+/**
+ * Build a journal entry from a signal (the symbol comes from its market data)
+ */
+export function createJournalEntry(signal: QPPFSignal): SignalJournalEntry {
+  const timestamp = new Date(signal.timestamp).toISOString();
+  const symbol = signal.marketData.symbol.toUpperCase();
+
+  return {
+    id: `${symbol}-${new Date(timestamp).getTime()}-${crypto.randomUUID().slice(0, 8)}`,
+    symbol,
+    timestamp,
+    direction: signal.direction,
+    confidence: signal.confidence,
+    strength: signal.strength,
+    sentiment: signal.sentiment,
+    reasonsLong: signal.reasonsLong,
+    reasonsShort: signal.reasonsShort,
+    marketData: signal.marketData,
+    uwSignals: signal.uwSignals,
+    gexData: signal.gexData ? summarizeGEX(signal.gexData) : undefined,
+    darkPoolData: signal.darkPoolData,
+    factors: signal.factors,
+    factorScore: signal.factorScore,
+    dataQuality: signal.dataQuality,
+    outcome: null,
+  };
+}
+
+/**
+ * Paging cursor for an entry; pass it as SignalQuery.after to fetch the next page
+ */
+export function journalCursor(entry: Pick<SignalJournalEntry, 'timestamp' | 'id'>): string {
+  return `${entry.timestamp}|${entry.id}`;
+}
+
+function parseCursor(cursor: string): { timestamp: string; id: string } {
+  const separator = cursor.indexOf('|');
+  if (separator < 0) throw new Error(`Invalid journal cursor: ${cursor}`);
+  return { timestamp: cursor.slice(0, separator), id: cursor.slice(separator + 1) };
+}
+
+// Plain code-unit ordering on (timestamp, id), matching SQLite's default text collation
+function compareKeys(a: { timestamp: string; id: string }, b: { timestamp: string; id: string }): number {
+  if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+function toOutcomeRecord(entry: SignalJournalEntry): SignalOutcomeRecord {
+  const { id, symbol, timestamp, direction, confidence, outcome } = entry;
+  return { id, symbol, timestamp, direction, confidence, outcome };
+}
+
+function queryLimit(query: SignalQuery): number {
+  return Math.min(Math.max(1, Math.floor(query.limit ?? DEFAULT_QUERY_LIMIT)), MAX_QUERY_LIMIT);
+}
+
+function matchesQuery(entry: SignalJournalEntry, query: SignalQuery): boolean {
+  if (query.symbol && entry.symbol !== query.symbol.toUpperCase()) return false;
+  if (query.direction && entry.direction !== query.direction) return false;
+  if (query.from && entry.timestamp < query.from.toISOString()) return false;
+  if (query.to && entry.timestamp > query.to.toISOString()) return false;
+  if (query.pending && entry.outcome?.complete) return false;
+  return true;
+}
+
+function filterEntries(entries: SignalJournalEntry[], query: SignalQuery): SignalJournalEntry[] {
+  const sign = query.order === 'oldest' ? 1 : -1;
+  const cursor = query.after ? parseCursor(query.after) : null;
+  return entries
+    .filter(entry => matchesQuery(entry, query) && (!cursor || sign * compareKeys(entry, cursor) > 0))
+    .sort((a, b) => sign * compareKeys(a, b))
+    .slice(0, queryLimit(query));
+}
+
+/**
+ * Process-local journal (lost on restart); the default when no storage is configured
+ */
+export class InMemorySignalJournal implements SignalJournal {
+  readonly name = 'memory';
+  private entries: SignalJournalEntry[] = [];
+  private maxEntries: number;
+
+  constructor(maxEntries: number = 5000) {
+    this.maxEntries = maxEntries;
+  }
+
+  async append(entry: SignalJournalEntry): Promise<void> {
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) {
+      this.entries = this.entries.slice(-this.maxEntries);
+    }
+  }
+
+  async get(id: string): Promise<SignalJournalEntry | null> {
+    return this.entries.find(entry => entry.id === id) || null;
+  }
+
+  async query(query: SignalQuery): Promise<SignalJournalEntry[]> {
+    return filterEntries(this.entries, query);
+  }
+
+  async queryOutcomes(query: SignalQuery): Promise<SignalOutcomeRecord[]> {
+    return filterEntries(this.entries, query).map(toOutcomeRecord);
+  }
+
+  async updateOutcome(id: string, outcome: SignalOutcome): Promise<boolean> {
+    const entry = this.entries.find(candidate => candidate.id === id);
+    if (!entry) return false;
+    entry.outcome = outcome;
+    return true;
+  }
+}
+
+/**
+ * Minimal D1 (Cloudflare's SQLite) surface used by the journal
+ */
+export interface D1DatabaseLike {
+  prepare(query: string): D1StatementLike;
+}
+
+export interface D1StatementLike {
+  bind(...values: unknown[]): D1StatementLike;
+  run(): Promise<unknown>;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+}
+
+interface SignalRow {
+  payload: string;
+  outcome: string | null;
+}
+
+interface OutcomeRow extends Omit<SignalOutcomeRecord, 'outcome'> {
+  outcome: string | null;
+}
+
+/**
+ * D1/SQLite journal. The schema lives in migrations/0001_signal_journal.sql and is also
+ * created on first use, so a fresh local database works without running migrations.
+ */
+export class D1SignalJournal implements SignalJournal {
+  readonly name = 'd1';
+  private db: D1DatabaseLike;
+  private ready: Promise<void> | null = null;
+
+  constructor(db: D1DatabaseLike) {
+    this.db = db;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        await this.db.prepare(`CREATE TABLE IF NOT EXISTS signals (
+          id TEXT PRIMARY KEY,
+          symbol TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          direction TEXT NOT NULL,
+          confidence REAL NOT NULL,
+          is_live INTEGER NOT NULL,
+          payload TEXT NOT NULL,
+          outcome TEXT
+        )`).run();
+        await this.db.prepare('CREATE INDEX IF NOT EXISTS idx_signals_symbol_time ON signals (symbol, timestamp)').run();
+      })();
+    }
+    return this.ready;
+  }
+
+  private fromRow(row: SignalRow): SignalJournalEntry {
+    return { ...JSON.parse(row.payload), outcome: row.outcome ? JSON.parse(row.outcome) : null };
+  }
+
+  async append(entry: SignalJournalEntry): Promise<void> {
+    await this.ensureSchema();
+    const { outcome, ...payload } = entry;
+    await this.db.prepare(
+      'INSERT INTO signals (id, symbol, timestamp, direction, confidence, is_live, payload, outcome) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(
+      entry.id, entry.symbol, entry.timestamp, entry.direction, entry.confidence,
+      entry.dataQuality.isLive ? 1 : 0, JSON.stringify(payload), outcome ? JSON.stringify(outcome) : null
+    ).run();
+  }
+
+  async get(id: string): Promise<SignalJournalEntry | null> {
+    await this.ensureSchema();
+    const row = await this.db.prepare('SELECT payload, outcome FROM signals WHERE id = ?').bind(id).first<SignalRow>();
+    return row ? this.fromRow(row) : null;
+  }
+
+  /**
+   * WHERE, ORDER BY and LIMIT for a query, with their bound values
+   */
+  private clauses(query: SignalQuery): { sql: string; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+
+    if (query.symbol) {
+      conditions.push('symbol = ?');
+      values.push(query.symbol.toUpperCase());
+    }
+    if (query.direction) {
+      conditions.push('direction = ?');
+      values.push(query.direction);
+    }
+    if (query.from) {
+      conditions.push('timestamp >= ?');
+      values.push(query.from.toISOString());
+    }
+    if (query.to) {
+      conditions.push('timestamp <= ?');
+      values.push(query.to.toISOString());
+    }
+    if (query.pending) {
+      conditions.push("(outcome IS NULL OR json_extract(outcome, '$.complete') IS NOT 1)");
+    }
+
+    const direction = query.order === 'oldest' ? 'ASC' : 'DESC';
+    if (query.after) {
+      const cursor = parseCursor(query.after);
+      const comparison = direction === 'ASC' ? '>' : '<';
+      conditions.push(`(timestamp ${comparison} ? OR (timestamp = ? AND id ${comparison} ?))`);
+      values.push(cursor.timestamp, cursor.timestamp, cursor.id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return {
+      sql: `${where} ORDER BY timestamp ${direction}, id ${direction} LIMIT ?`,
+      values: [...values, queryLimit(query)],
+    };
+  }
+
+  async query(query: SignalQuery): Promise<SignalJournalEntry[]> {
+    await this.ensureSchema();
+    const { sql, values } = this.clauses(query);
+    const { results } = await this.db.prepare(`SELECT payload, outcome FROM signals ${sql}`)
+      .bind(...values).all<SignalRow>();
+
+    return results.map(row => this.fromRow(row));
+  }
+
+  async queryOutcomes(query: SignalQuery): Promise<SignalOutcomeRecord[]> {
+    await this.ensureSchema();
+    const { sql, values } = this.clauses(query);
+    const { results } = await this.db.prepare(
+      `SELECT id, symbol, timestamp, direction, confidence, outcome FROM signals ${sql}`
+    ).bind(...values).all<OutcomeRow>();
+
+    return results.map(row => ({ ...row, outcome: row.outcome ? JSON.parse(row.outcome) : null }));
+  }
+
+  async updateOutcome(id: string, outcome: SignalOutcome): Promise<boolean> {
+    await this.ensureSchema();
+    const existing = await this.db.prepare('SELECT id FROM signals WHERE id = ?').bind(id).first();
+    if (!existing) return false;
+
+    await this.db.prepare('UPDATE signals SET outcome = ? WHERE id = ?').bind(JSON.stringify(outcome), id).run();
+    return true;
+  }
+}
+
+/**
+ * JSON Lines file journal for local development (Node only; Workers have no filesystem).
+ * Appends one line per signal and rewrites the file when an outcome is recorded.
+ */
+export class FileSignalJournal implements SignalJournal {
+  readonly name = 'file';
+  private path: string;
+  private entries: SignalJournalEntry[] | null = null;
+
+  constructor(path: string = './data/signal-journal.jsonl') {
+    this.path = path;
+  }
+
+  private async load(): Promise<SignalJournalEntry[]> {
+    if (this.entries) return this.entries;
+
+    const fs = await loadNodeFs();
+    let text = '';
+    try {
+      text = await fs.readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+
+    this.entries = text
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as SignalJournalEntry);
+    console.log(`📓 Loaded ${this.entries.length} journaled signals from ${this.path}`);
+    return this.entries;
+  }
+
+  async append(entry: SignalJournalEntry): Promise<void> {
+    const entries = await this.load();
+    await ensureParentDirectory(this.path);
+    await (await loadNodeFs()).appendFile(this.path, JSON.stringify(entry) + '\n', 'utf8');
+    entries.push(entry);
+  }
+
+  async get(id: string): Promise<SignalJournalEntry | null> {
+    return (await this.load()).find(entry => entry.id === id) || null;
+  }
+
+  async query(query: SignalQuery): Promise<SignalJournalEntry[]> {
+    return filterEntries(await this.load(), query);
+  }
+
+  async queryOutcomes(query: SignalQuery): Promise<SignalOutcomeRecord[]> {
+    return filterEntries(await this.load(), query).map(toOutcomeRecord);
+  }
+
+  async updateOutcome(id: string, outcome: SignalOutcome): Promise<boolean> {
+    const entries = await this.load();
+    const entry = entries.find(candidate => candidate.id === id);
+    if (!entry) return false;
+
+    entry.outcome = outcome;
+    await ensureParentDirectory(this.path);
+    await (await loadNodeFs()).writeFile(this.path, entries.map(e => JSON.stringify(e)).join('\n') + '\n', 'utf8');
+    return true;
+  }
+}
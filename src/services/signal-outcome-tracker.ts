@@ -0,0 +1,349 @@
+/**
+ * Signal Outcome Tracker
+ * Measures what happened after each journaled signal (forward returns per horizon, MFE/MAE,
+ * target vs stop first) and attributes hit rates to confidence, direction and reasons
+ */
+
+import { SignalJournal, SignalJournalEntry, SignalOutcome, HorizonOutcome, journalCursor } from './signal-journal';
+import { PriceBarSource } from './price-bar-source';
+import { HistoricalBar } from './backtest-engine';
+import { Clock, systemClock, getExchangeTime, exchangeTimeToDate } from './clock';
+import { TradingCalendar, tradingCalendar } from './trading-calendar';
+
+export interface OutcomeHorizon {
+  label: string;
+  minutes?: number;          // Wall-clock minutes after the signal
+  tradingDays?: number;      // Same exchange time N trading days later (capped at that day's close)
+}
+
+export interface OutcomeTrackerConfig {
+  horizons: OutcomeHorizon[];
+  takeProfitPct: number;     // Target distance from the signal price (0.01 = 1%)
+  stopLossPct: number;       // Stop distance from the signal price
+  lookbackDays: number;      // Only signals this recent are (re-)evaluated
+  maxSignalsPerRun: number;
+}
+
+export interface HitRateBucket {
+  key: string;
+  signals: number;           // Signals with a measured return at the horizon
+  hits: number;
+  hitRate: number | null;    // hits / signals
+  avgReturnPct: number | null;  // Average return in the bucket's direction, in %
+  targetFirst: number;
+  stopFirst: number;
+}
+
+export interface OutcomeSummary {
+  horizon: string;
+  totalSignals: number;      // Journaled signals considered
+  evaluated: number;         // Signals with a measured, directional return at the horizon
+  overall: HitRateBucket;
+  byConfidence: HitRateBucket[];
+  byDirection: HitRateBucket[];
+  byReason: HitRateBucket[]; // Reasons with numbers replaced by '#', prefixed with the side they argue for
+}
+
+export const DEFAULT_OUTCOME_HORIZONS: OutcomeHorizon[] = [
+  { label: '5m', minutes: 5 },
+  { label: '15m', minutes: 15 },
+  { label: '1h', minutes: 60 },
+  { label: '1d', tradingDays: 1 },
+];
+
+const CONFIDENCE_BUCKETS = [0, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+export class SignalOutcomeTracker {
+  private journal: SignalJournal;
+  private bars: PriceBarSource;
+  private clock: Clock;
+  private calendar: TradingCalendar;
+  private config: OutcomeTrackerConfig;
+
+  constructor(
+    journal: SignalJournal,
+    bars: PriceBarSource,
+    config: Partial<OutcomeTrackerConfig> = {},
+    clock: Clock = systemClock,
+    calendar: TradingCalendar = tradingCalendar
+  ) {
+    this.journal = journal;
+    this.bars = bars;
+    this.clock = clock;
+    this.calendar = calendar;
+    this.config = {
+      horizons: DEFAULT_OUTCOME_HORIZONS,
+      takeProfitPct: 0.01,
+      stopLossPct: 0.005,
+      lookbackDays: 5,
+      maxSignalsPerRun: 500,
+      ...config,
+    };
+  }
+
+  getConfig(): OutcomeTrackerConfig {
+    return { ...this.config, horizons: [...this.config.horizons] };
+  }
+
+  /**
+   * Evaluate every recent signal whose outcome is missing or not yet final
+   */
+  async evaluatePending(): Promise<{ checked: number; updated: number; completed: number; failed: number }> {
+    const now = this.clock.now();
+
+    // Oldest first, so a backlog larger than one run is worked through rather than starved
+    const pending: SignalJournalEntry[] = [];
+    let after: string | undefined;
+    while (pending.length < this.config.maxSignalsPerRun) {
+      const page = await this.journal.query({
+        from: new Date(now.getTime() - this.config.lookbackDays * 86400000),
+        to: now,
+        pending: true,
+        order: 'oldest',
+        after,
+        limit: this.config.maxSignalsPerRun - pending.length,
+      });
+      if (page.length === 0) break;
+      pending.push(...page);
+      after = journalCursor(page[page.length - 1]);
+    }
+
+    let updated = 0;
+    let completed = 0;
+    let failed = 0;
+
+    // Fetch bars once per symbol covering all of its pending signals
+    const bySymbol = new Map<string, SignalJournalEntry[]>();
+    for (const entry of pending) {
+      bySymbol.set(entry.symbol, [...(bySymbol.get(entry.symbol) || []), entry]);
+    }
+
+    for (const [symbol, entries] of bySymbol) {
+      let bars: HistoricalBar[];
+      try {
+        const from = new Date(Math.min(...entries.map(entry => new Date(entry.timestamp).getTime())));
+        bars = await this.bars.getBars(symbol, from, now);
+      } catch (error) {
+        failed += entries.length;
+        console.warn(`⚠️ Bars unavailable for ${symbol} outcome evaluation:`, error instanceof Error ? error.message : error);
+        continue;
+      }
+
+      for (const entry of entries) {
+        try {
+          const outcome = await this.evaluate(entry, bars);
+          if (!outcome) continue;
+
+          await this.journal.updateOutcome(entry.id, outcome);
+          updated++;
+          if (outcome.complete) completed++;
+        } catch (error) {
+          failed++;
+          console.warn(`⚠️ Outcome evaluation failed for ${entry.id}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    }
+
+    if (pending.length > 0) {
+      console.log(`🎯 Evaluated ${updated}/${pending.length} pending signal outcomes (${completed} final, ${failed} failed)`);
+    }
+
+    return { checked: pending.length, updated, completed, failed };
+  }
+
+  /**
+   * Measure one signal's outcome from the bars that closed after it, up to now
+   * (fetched unless given). Returns null until the first horizon has elapsed.
+   */
+  async evaluate(entry: SignalJournalEntry, symbolBars?: HistoricalBar[]): Promise<SignalOutcome | null> {
+    const now = this.clock.now();
+    const signalTime = new Date(entry.timestamp);
+    const entryPrice = entry.marketData.price;
+    const targets = this.config.horizons.map(horizon => ({ horizon, time: this.getHorizonTime(signalTime, horizon) }));
+    const elapsed = targets.filter(target => target.time.getTime() <= now.getTime());
+
+    if (elapsed.length === 0 || !(entryPrice > 0)) {
+      return null;
+    }
+
+    const lastTarget = Math.max(...targets.map(target => target.time.getTime()));
+    const windowEnd = new Date(Math.min(now.getTime(), lastTarget));
+    const bars = symbolBars
+      ? symbolBars.filter(bar => {
+          const closed = new Date(bar.timestamp).getTime();
+          return closed > signalTime.getTime() && closed <= windowEnd.getTime();
+        })
+      : await this.bars.getBars(entry.symbol, signalTime, windowEnd);
+    const direction = entry.direction === 'LONG' ? 1 : entry.direction === 'SHORT' ? -1 : 0;
+
+    const horizons: HorizonOutcome[] = elapsed.map(({ horizon, time }) => {
+      const bar = this.lastBarAtOrBefore(bars, time);
+      const returnPct = bar ? (bar.close - entryPrice) / entryPrice * 100 : null;
+      const directionalReturnPct = returnPct !== null && direction !== 0 ? returnPct * direction : null;
+
+      return {
+        horizon: horizon.label,
+        targetTime: time.toISOString(),
+        price: bar ? bar.close : null,
+        returnPct,
+        directionalReturnPct,
+        hit: directionalReturnPct !== null ? directionalReturnPct > 0 : null,
+      };
+    });
+
+    return {
+      evaluatedAt: now.toISOString(),
+      entryPrice,
+      horizons,
+      ...this.measureExcursions(bars, entryPrice, direction),
+      complete: elapsed.length === targets.length,
+      barSource: this.bars.name,
+    };
+  }
+
+  /**
+   * End of a horizon: minutes after the signal, or the same exchange time N trading days later
+   */
+  private getHorizonTime(signalTime: Date, horizon: OutcomeHorizon): Date {
+    if (!horizon.tradingDays) {
+      return new Date(signalTime.getTime() + (horizon.minutes || 0) * 60000);
+    }
+
+    const exchange = getExchangeTime(signalTime);
+    let date = exchange.date;
+    for (let i = 0; i < horizon.tradingDays; i++) {
+      date = this.calendar.nextTradingDay(date);
+    }
+
+    const target = exchangeTimeToDate(date, exchange.hour, exchange.minute);
+    const close = this.calendar.getSession(date).regularClose;
+    return close && target.getTime() > close.getTime() ? close : target;
+  }
+
+  private lastBarAtOrBefore(bars: HistoricalBar[], time: Date): HistoricalBar | null {
+    let found: HistoricalBar | null = null;
+    for (const bar of bars) {
+      if (new Date(bar.timestamp).getTime() > time.getTime()) break;
+      found = bar;
+    }
+    return found;
+  }
+
+  /**
+   * MFE/MAE and whether the target or the stop traded first (stop wins a bar that touched both)
+   */
+  private measureExcursions(
+    bars: HistoricalBar[],
+    entryPrice: number,
+    direction: number
+  ): Pick<SignalOutcome, 'mfePct' | 'maePct' | 'targetPrice' | 'stopPrice' | 'firstHit'> {
+    if (direction === 0) {
+      return { mfePct: null, maePct: null, targetPrice: null, stopPrice: null, firstHit: null };
+    }
+
+    const targetPrice = entryPrice * (1 + direction * this.config.takeProfitPct);
+    const stopPrice = entryPrice * (1 - direction * this.config.stopLossPct);
+    let mfe = 0;
+    let mae = 0;
+    let firstHit: 'target' | 'stop' | 'neither' = 'neither';
+
+    for (const bar of bars) {
+      const favourable = direction > 0 ? bar.high : bar.low;
+      const adverse = direction > 0 ? bar.low : bar.high;
+      mfe = Math.max(mfe, (favourable - entryPrice) / entryPrice * 100 * direction);
+      mae = Math.min(mae, (adverse - entryPrice) / entryPrice * 100 * direction);
+
+      if (firstHit === 'neither') {
+        const stopTouched = direction > 0 ? bar.low <= stopPrice : bar.high >= stopPrice;
+        const targetTouched = direction > 0 ? bar.high >= targetPrice : bar.low <= targetPrice;
+        if (stopTouched) firstHit = 'stop';
+        else if (targetTouched) firstHit = 'target';
+      }
+    }
+
+    return {
+      mfePct: bars.length > 0 ? mfe : null,
+      maePct: bars.length > 0 ? mae : null,
+      targetPrice,
+      stopPrice,
+      firstHit,
+    };
+  }
+}
+
+/**
+ * Group reasons that differ only in their numbers ("More bullish alerts (12 vs 3)")
+ */
+export function normalizeReason(reason: string): string {
+  return reason.replace(/\$?-?\d[\d,]*(\.\d+)?[k%]?/g, '#');
+}
+
+function emptyBucket(key: string): HitRateBucket {
+  return { key, signals: 0, hits: 0, hitRate: null, avgReturnPct: null, targetFirst: 0, stopFirst: 0 };
+}
+
+function addToBucket(bucket: HitRateBucket, returnPct: number, firstHit?: SignalOutcome['firstHit']): void {
+  const total = (bucket.avgReturnPct ?? 0) * bucket.signals + returnPct;
+  bucket.signals++;
+  if (returnPct > 0) bucket.hits++;
+  bucket.hitRate = bucket.hits / bucket.signals;
+  bucket.avgReturnPct = total / bucket.signals;
+  if (firstHit === 'target') bucket.targetFirst++;
+  if (firstHit === 'stop') bucket.stopFirst++;
+}
+
+function confidenceBucketKey(confidence: number): string {
+  let lower = CONFIDENCE_BUCKETS[0];
+  for (const edge of CONFIDENCE_BUCKETS) {
+    if (confidence >= edge) lower = edge;
+  }
+  const index = CONFIDENCE_BUCKETS.indexOf(lower);
+  const upper = CONFIDENCE_BUCKETS[index + 1] ?? 1;
+  return `${lower.toFixed(1)}-${upper.toFixed(1)}`;
+}
+
+/**
+ * Hit rates at one horizon by confidence bucket, direction and reason.
+ * A reason counts as a hit when price moved the way it argued, whatever the final direction.
+ */
+export function summarizeOutcomes(entries: SignalJournalEntry[], horizon: string = '1h'): OutcomeSummary {
+  const overall = emptyBucket('all');
+  const byConfidence = new Map<string, HitRateBucket>();
+  const byDirection = new Map<string, HitRateBucket>();
+  const byReason = new Map<string, HitRateBucket>();
+  const bucketFor = (map: Map<string, HitRateBucket>, key: string) => {
+    if (!map.has(key)) map.set(key, emptyBucket(key));
+    return map.get(key)!;
+  };
+
+  for (const entry of entries) {
+    const measured = entry.outcome?.horizons.find(h => h.horizon === horizon);
+    if (!measured || measured.returnPct === null) continue;
+
+    const firstHit = entry.outcome!.firstHit;
+    if (measured.directionalReturnPct !== null) {
+      addToBucket(overall, measured.directionalReturnPct, firstHit);
+      addToBucket(bucketFor(byConfidence, confidenceBucketKey(entry.confidence)), measured.directionalReturnPct, firstHit);
+      addToBucket(bucketFor(byDirection, entry.direction), measured.directionalReturnPct, firstHit);
+    }
+
+    for (const reason of entry.reasonsLong) {
+      addToBucket(bucketFor(byReason, `LONG: ${normalizeReason(reason)}`), measured.returnPct,
+        entry.direction === 'LONG' ? firstHit : null);
+    }
+    for (const reason of entry.reasonsShort) {
+      addToBucket(bucketFor(byReason, `SHORT: ${normalizeReason(reason)}`), -measured.returnPct,
+        entry.direction === 'SHORT' ? firstHit : null);
+    }
+  }
+
+  return {
+    horizon,
+    totalSignals: entries.length,
+    evaluated: overall.signals,
+    overall,
+    byConfidence: Array.from(byConfidence.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byDirection: Array.from(byDirection.values()).sort((a, b) => a.key.localeCompare(b.key)),
+    byReason: Array.from(byReason.values()).sort((a, b) => b.signals - a.signals),
+  };
+}
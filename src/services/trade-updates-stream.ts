@@ -0,0 +1,189 @@
+/**
+ * Trade Updates Stream
+ * Alpaca trading WebSocket (trade_updates channel) with auth, keep-alive and reconnect with backoff,
+ * publishing every order event onto the trading event bus
+ */
+
+import { parseAlpacaOrder } from './alpaca-trading-service';
+import { OrderUpdate } from './order-manager';
+import { TradingEventBus } from './trading-event-bus';
+import { ReconnectingSocket, ReconnectingSocketConfig, WebSocketFactory, StreamState, defaultWebSocketFactory } from './reconnecting-socket';
+import { Clock, systemClock } from './clock';
+
+export interface TradeUpdatesStreamConfig extends ReconnectingSocketConfig {
+  url: string;                   // wss://paper-api.alpaca.markets/stream or wss://api.alpaca.markets/stream
+  heartbeatIntervalMs: number;   // How often the listen request is re-sent as a keep-alive
+}
+
+export const PAPER_TRADE_UPDATES_URL = 'wss://paper-api.alpaca.markets/stream';
+export const LIVE_TRADE_UPDATES_URL = 'wss://api.alpaca.markets/stream';
+
+export const DEFAULT_TRADE_UPDATES_STREAM_CONFIG: TradeUpdatesStreamConfig = {
+  url: PAPER_TRADE_UPDATES_URL,
+  heartbeatIntervalMs: 30000,
+  heartbeatTimeoutMs: 90000,
+  reconnectBaseMs: 1000,
+  reconnectMaxMs: 30000,
+};
+
+export interface TradeUpdatesStreamStatus {
+  state: StreamState;
+  url: string;
+  listening: boolean;            // The server confirmed the trade_updates subscription
+  connectedAt: string | null;
+  lastMessageAt: string | null;
+  lastEventAt: string | null;
+  reconnects: number;
+  events: number;
+  lastError: string | null;
+}
+
+/**
+ * Map a trade_updates payload to an order update
+ */
+export function parseTradeUpdate(data: any): OrderUpdate & { executionId: string | null } {
+  const order = parseAlpacaOrder(data.order || {});
+  return {
+    event: data.event,
+    source: 'stream',
+    timestamp: data.timestamp || order.filledAt || order.submittedAt || new Date().toISOString(),
+    order,
+    fillQty: data.qty !== undefined ? Number(data.qty) : undefined,
+    fillPrice: data.price !== undefined ? Number(data.price) : undefined,
+    positionQty: data.position_qty !== undefined ? Number(data.position_qty) : undefined,
+    executionId: data.execution_id || null,
+  };
+}
+
+// The trading stream sends binary frames on some endpoints
+function frameText(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return new TextDecoder().decode(data as ArrayBuffer);
+  return String(data);
+}
+
+/**
+ * Alpaca trade_updates client. Authenticates, listens to trade_updates, re-sends the listen request as
+ * a heartbeat, and reconnects with exponential backoff when the connection drops or goes silent.
+ * Events missed while disconnected are not replayed by Alpaca; onListening lets callers catch up by polling.
+ */
+export class AlpacaTradeUpdatesStream extends ReconnectingSocket<TradeUpdatesStreamConfig> {
+  private apiKey: string;
+  private secretKey: string;
+  private bus: TradingEventBus;
+  private listening = false;
+  private events = 0;
+  private lastEventAt: Date | null = null;
+  private listeningListeners: (() => void | Promise<void>)[] = [];
+
+  constructor(
+    apiKey: string,
+    secretKey: string,
+    bus: TradingEventBus,
+    config: Partial<TradeUpdatesStreamConfig> = {},
+    socketFactory: WebSocketFactory = defaultWebSocketFactory,
+    clock: Clock = systemClock
+  ) {
+    super('Trade updates stream', { ...DEFAULT_TRADE_UPDATES_STREAM_CONFIG, ...config }, socketFactory, clock);
+    this.apiKey = apiKey;
+    this.secretKey = secretKey;
+    this.bus = bus;
+  }
+
+  isListening(): boolean {
+    return this.state === 'streaming' && this.listening;
+  }
+
+  /**
+   * Called each time the trade_updates subscription is confirmed (first connect and every reconnect)
+   */
+  onListening(listener: () => void | Promise<void>): void {
+    this.listeningListeners.push(listener);
+  }
+
+  getStatus(): TradeUpdatesStreamStatus {
+    return {
+      state: this.state,
+      url: this.config.url,
+      listening: this.isListening(),
+      connectedAt: this.connectedAt ? this.connectedAt.toISOString() : null,
+      lastMessageAt: this.lastMessageAt ? this.lastMessageAt.toISOString() : null,
+      lastEventAt: this.lastEventAt ? this.lastEventAt.toISOString() : null,
+      reconnects: this.reconnects,
+      events: this.events,
+      lastError: this.lastError,
+    };
+  }
+
+  protected isHandshakeComplete(): boolean {
+    return this.listening;
+  }
+
+  protected resetSession(): void {
+    this.listening = false;
+  }
+
+  // Unlike the market data stream, the trading stream expects auth as soon as the socket opens
+  protected onOpen(): void {
+    this.state = 'authenticating';
+    this.send({ action: 'auth', key: this.apiKey, secret: this.secretKey });
+  }
+
+  protected sendKeepAlive(): void {
+    // Every listen request is answered, so re-sending it doubles as a ping
+    this.sendListen();
+  }
+
+  private sendListen(): void {
+    this.send({ action: 'listen', data: { streams: ['trade_updates'] } });
+  }
+
+  protected handleFrame(data: unknown): void {
+    let message: any;
+    try {
+      message = JSON.parse(frameText(data));
+    } catch {
+      this.lastError = 'Unparseable stream message';
+      return;
+    }
+
+    switch (message.stream) {
+      case 'authorization':
+        if (message.data?.status === 'authorized') {
+          this.authenticated();
+          this.sendListen();
+        } else {
+          this.lastError = `Trade updates authorization ${message.data?.status || 'failed'}`;
+          console.error(`❌ ${this.lastError}`);
+          this.socket?.close(4001, 'unauthorized');
+        }
+        break;
+      case 'listening': {
+        const wasListening = this.listening;
+        this.listening = (message.data?.streams || []).includes('trade_updates');
+        if (this.listening && !wasListening) {
+          console.log('📡 Trade updates stream listening');
+          for (const listener of this.listeningListeners) {
+            Promise.resolve().then(listener).catch(error => {
+              console.warn('⚠️ Trade updates listener failed:', error instanceof Error ? error.message : error);
+            });
+          }
+        }
+        break;
+      }
+      case 'trade_updates': {
+        if (!message.data?.event || !message.data?.order) break;
+        const update = parseTradeUpdate(message.data);
+        this.events++;
+        this.lastEventAt = this.clock.now();
+        this.bus.publish({ ...update, receivedAt: this.lastEventAt.toISOString() });
+        break;
+      }
+      default:
+        if (message.data?.error || message.error) {
+          this.lastError = String(message.data?.error || message.error);
+          console.error(`❌ Trade updates stream error: ${this.lastError}`);
+        }
+    }
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * Trading Calendar
+ * Offline NYSE/CBOE calendar: holidays, early closes, session phases and option expiration days.
+ * All dates are America/New_York exchange dates (YYYY-MM-DD).
+ */
+
+import { getExchangeTime, exchangeTimeToDate } from './clock';
+
+export type SessionPhase = 'closed' | 'pre-market' | 'regular' | 'after-hours';
+
+export type ExpirationType = 'monthly' | 'weekly' | 'daily';
+
+export interface TradingSession {
+  date: string;
+  isTradingDay: boolean;
+  isEarlyClose: boolean;
+  holiday?: string;            // Name of the holiday when the exchange is closed
+  preMarketOpen?: Date;        // 4:00 AM ET
+  regularOpen?: Date;          // 9:30 AM ET
+  regularClose?: Date;         // 4:00 PM ET (1:00 PM ET on early close days)
+  afterHoursClose?: Date;      // 8:00 PM ET (5:00 PM ET on early close days)
+  indexOptionsClose?: Date;    // CBOE index options trade 15 minutes past the equity close
+}
+
+export interface MarketStatus {
+  phase: SessionPhase;
+  session: TradingSession;
+  nextRegularOpen: Date;
+  nextRegularClose: Date;
+}
+
+export interface TradingCalendarConfig {
+  extraClosures: Record<string, string>;   // Unscheduled closures (date → reason)
+  dailyExpirySymbols: string[];            // Underlyings listing options for every weekday
+}
+
+// Unscheduled full-day closures announced outside the standard holiday rules
+const SPECIAL_CLOSURES: Record<string, string> = {
+  '2018-12-05': 'National Day of Mourning (George H.W. Bush)',
+  '2025-01-09': 'National Day of Mourning (Jimmy Carter)',
+};
+
+const PRE_MARKET_OPEN = { hour: 4, minute: 0 };
+const REGULAR_OPEN = { hour: 9, minute: 30 };
+const REGULAR_CLOSE = { hour: 16, minute: 0 };
+const EARLY_CLOSE = { hour: 13, minute: 0 };
+const AFTER_HOURS_CLOSE = { hour: 20, minute: 0 };
+const EARLY_AFTER_HOURS_CLOSE = { hour: 17, minute: 0 };
+const INDEX_OPTIONS_EXTENSION_MINUTES = 15;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(year: number, month: number, day: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseDate(date: string): { year: number; month: number; day: number } {
+  const [year, month, day] = date.split('T')[0].split('-').map(Number);
+  return { year, month, day };
+}
+
+function weekdayOf(date: string): number {
+  const { year, month, day } = parseDate(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function addDays(date: string, days: number): string {
+  const { year, month, day } = parseDate(date);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return toDateString(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, shifted.getUTCDate());
+}
+
+/**
+ * Nth occurrence of a weekday in a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - firstWeekday + 7) % 7) + (n - 1) * 7;
+    return toDateString(year, month, day);
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const lastWeekday = new Date(Date.UTC(year, month - 1, lastDay)).getUTCDay();
+  return toDateString(year, month, lastDay - ((lastWeekday - weekday + 7) % 7));
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return toDateString(year, month, day);
+}
+
+/**
+ * Move a fixed-date holiday off the weekend: Saturday → Friday, Sunday → Monday
+ */
+function observed(date: string): string {
+  const weekday = weekdayOf(date);
+  if (weekday === 6) return addDays(date, -1);
+  if (weekday === 0) return addDays(date, 1);
+  return date;
+}
+
+export class TradingCalendar {
+  private config: TradingCalendarConfig;
+  private holidayCache: Map<number, Map<string, string>> = new Map();
+  private sessionCache: Map<string, TradingSession> = new Map();
+  private sessionIndexCache: Map<number, number[]> = new Map();
+
+  constructor(config?: Partial<TradingCalendarConfig>) {
+    this.config = {
+      extraClosures: {},
+      dailyExpirySymbols: ['SPY', 'QQQ', 'IWM', 'SPX', 'XSP', 'NDX'],
+      ...config,
+    };
+  }
+
+  /**
+   * Full-day exchange holidays for a year (date → holiday name)
+   */
+  getHolidays(year: number): Map<string, string> {
+    const cached = this.holidayCache.get(year);
+    if (cached) return cached;
+
+    const holidays = new Map<string, string>();
+
+    // New Year's Day falling on a Saturday is not observed on the prior Friday
+    const newYear = toDateString(year, 1, 1);
+    if (weekdayOf(newYear) !== 6) holidays.set(observed(newYear), "New Year's Day");
+
+    holidays.set(nthWeekday(year, 1, 1, 3), 'Martin Luther King Jr. Day');
+    holidays.set(nthWeekday(year, 2, 1, 3), "Washington's Birthday");
+    holidays.set(addDays(easterSunday(year), -2), 'Good Friday');
+    holidays.set(nthWeekday(year, 5, 1, -1), 'Memorial Day');
+    if (year >= 2022) holidays.set(observed(toDateString(year, 6, 19)), 'Juneteenth');
+    holidays.set(observed(toDateString(year, 7, 4)), 'Independence Day');
+    holidays.set(nthWeekday(year, 9, 1, 1), 'Labor Day');
+    holidays.set(nthWeekday(year, 11, 4, 4), 'Thanksgiving Day');
+    holidays.set(observed(toDateString(year, 12, 25)), 'Christmas Day');
+
+    const closures = { ...SPECIAL_CLOSURES, ...this.config.extraClosures };
+    for (const [date, reason] of Object.entries(closures)) {
+      if (parseDate(date).year === year) holidays.set(date, reason);
+    }
+
+    this.holidayCache.set(year, holidays);
+    return holidays;
+  }
+
+  /**
+   * Name of the holiday on a date, or null if it is not an exchange holiday
+   */
+  getHoliday(date: string): string | null {
+    return this.getHolidays(parseDate(date).year).get(date.split('T')[0]) || null;
+  }
+
+  isTradingDay(date: string): boolean {
+    const weekday = weekdayOf(date);
+    return weekday !== 0 && weekday !== 6 && !this.getHoliday(date);
+  }
+
+  /**
+   * 1:00 PM ET closes: July 3rd, the day after Thanksgiving and Christmas Eve
+   */
+  isEarlyClose(date: string): boolean {
+    const day = date.split('T')[0];
+    if (!this.isTradingDay(day)) return false;
+
+    const { year, month, day: dayOfMonth } = parseDate(day);
+    if (month === 7 && dayOfMonth === 3) return true;
+    if (day === addDays(nthWeekday(year, 11, 4, 4), 1)) return true;
+    if (month === 12 && dayOfMonth === 24) return true;
+
+    return false;
+  }
+
+  /**
+   * Session times for an exchange date
+   */
+  getSession(date: string): TradingSession {
+    const day = date.split('T')[0];
+    const cached = this.sessionCache.get(day);
+    if (cached) return cached;
+
+    const session = this.buildSession(day);
+    this.sessionCache.set(day, session);
+    return session;
+  }
+
+  private buildSession(day: string): TradingSession {
+    const holiday = this.getHoliday(day);
+
+    if (!this.isTradingDay(day)) {
+      return { date: day, isTradingDay: false, isEarlyClose: false, ...(holiday ? { holiday } : {}) };
+    }
+
+    const isEarlyClose = this.isEarlyClose(day);
+    const close = isEarlyClose ? EARLY_CLOSE : REGULAR_CLOSE;
+    const afterHours = isEarlyClose ? EARLY_AFTER_HOURS_CLOSE : AFTER_HOURS_CLOSE;
+    const regularClose = exchangeTimeToDate(day, close.hour, close.minute);
+
+    return {
+      date: day,
+      isTradingDay: true,
+      isEarlyClose,
+      preMarketOpen: exchangeTimeToDate(day, PRE_MARKET_OPEN.hour, PRE_MARKET_OPEN.minute),
+      regularOpen: exchangeTimeToDate(day, REGULAR_OPEN.hour, REGULAR_OPEN.minute),
+      regularClose,
+      afterHoursClose: exchangeTimeToDate(day, afterHours.hour, afterHours.minute),
+      indexOptionsClose: new Date(regularClose.getTime() + INDEX_OPTIONS_EXTENSION_MINUTES * 60000),
+    };
+  }
+
+  /**
+   * Session phase at an instant
+   */
+  getSessionPhase(instant: Date): SessionPhase {
+    const session = this.getSession(getExchangeTime(instant).date);
+    if (!session.isTradingDay) return 'closed';
+
+    const t = instant.getTime();
+    if (t < session.preMarketOpen!.getTime()) return 'closed';
+    if (t < session.regularOpen!.getTime()) return 'pre-market';
+    if (t < session.regularClose!.getTime()) return 'regular';
+    if (t < session.afterHoursClose!.getTime()) return 'after-hours';
+    return 'closed';
+  }
+
+  isRegularSession(instant: Date): boolean {
+    return this.getSessionPhase(instant) === 'regular';
+  }
+
+  /**
+   * Next trading day strictly after the given date
+   */
+  nextTradingDay(date: string): string {
+    let day = addDays(date.split('T')[0], 1);
+    while (!this.isTradingDay(day)) day = addDays(day, 1);
+    return day;
+  }
+
+  /**
+   * Most recent trading day strictly before the given date
+   */
+  previousTradingDay(date: string): string {
+    let day = addDays(date.split('T')[0], -1);
+    while (!this.isTradingDay(day)) day = addDays(day, -1);
+    return day;
+  }
+
+  /**
+   * Start of the next regular session (the current one if it is already open)
+   */
+  nextRegularOpen(instant: Date): Date {
+    const today = this.getSession(getExchangeTime(instant).date);
+    if (today.isTradingDay && instant.getTime() < today.regularClose!.getTime()) {
+      return today.regularOpen!;
+    }
+    return this.getSession(this.nextTradingDay(today.date)).regularOpen!;
+  }
+
+  /**
+   * End of the current regular session, or of the next one if the market is closed
+   */
+  nextRegularClose(instant: Date): Date {
+    const today = this.getSession(getExchangeTime(instant).date);
+    if (today.isTradingDay && instant.getTime() < today.regularClose!.getTime()) {
+      return today.regularClose!;
+    }
+    return this.getSession(this.nextTradingDay(today.date)).regularClose!;
+  }
+
+  getMarketStatus(instant: Date): MarketStatus {
+    return {
+      phase: this.getSessionPhase(instant),
+      session: this.getSession(getExchangeTime(instant).date),
+      nextRegularOpen: this.nextRegularOpen(instant),
+      nextRegularClose: this.nextRegularClose(instant),
+    };
+  }
+
+  /**
+   * Regular-session trading time between two instants, in (fractional) trading days
+   * A full session counts as 1 day; early-close sessions count pro rata
+   */
+  getTradingDaysBetween(from: Date, to: Date): number {
+    if (to.getTime() <= from.getTime()) return 0;
+
+    const fullSessionMs = (REGULAR_CLOSE.hour * 60 + REGULAR_CLOSE.minute - REGULAR_OPEN.hour * 60 - REGULAR_OPEN.minute) * 60000;
+    const firstDate = getExchangeTime(from).date;
+    const lastDate = getExchangeTime(to).date;
+    const overlap = (day: string) => {
+      const session = this.getSession(day);
+      if (!session.isTradingDay) return 0;
+      const start = Math.max(from.getTime(), session.regularOpen!.getTime());
+      const end = Math.min(to.getTime(), session.regularClose!.getTime());
+      return Math.max(0, end - start);
+    };
+
+    if (firstDate === lastDate) return overlap(firstDate) / fullSessionMs;
+
+    // Partial first and last days, whole sessions in between from the cumulative index
+    const between = this.sessionMsBetween(addDays(firstDate, 1), lastDate);
+    return (overlap(firstDate) + between + overlap(lastDate)) / fullSessionMs;
+  }
+
+  /**
+   * Regular-session milliseconds of the trading days from start up to (not including) end
+   */
+  private sessionMsBetween(start: string, end: string): number {
+    if (end <= start) return 0;
+
+    const offset = (date: string) => {
+      const { year, month, day } = parseDate(date);
+      return this.getSessionIndex(year)[(Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 1)) / DAY_MS];
+    };
+    let total = offset(end) - offset(start);
+    for (let year = parseDate(start).year; year < parseDate(end).year; year++) {
+      const index = this.getSessionIndex(year);
+      total += index[index.length - 1];
+    }
+    return total;
+  }
+
+  /**
+   * Cumulative regular-session milliseconds before each day of a year; the last entry is the year's total
+   */
+  private getSessionIndex(year: number): number[] {
+    const cached = this.sessionIndexCache.get(year);
+    if (cached) return cached;
+
+    const index = [0];
+    for (let day = toDateString(year, 1, 1); parseDate(day).year === year; day = addDays(day, 1)) {
+      const session = this.getSession(day);
+      const sessionMs = session.isTradingDay ? session.regularClose!.getTime() - session.regularOpen!.getTime() : 0;
+      index.push(index[index.length - 1] + sessionMs);
+    }
+    this.sessionIndexCache.set(year, index);
+    return index;
+  }
+
+  /**
+   * Standard monthly expiration: third Friday, or the Thursday before if that Friday is a holiday
+   */
+  getMonthlyExpiration(year: number, month: number): string {
+    const thirdFriday = nthWeekday(year, month, 5, 3);
+    return this.isTradingDay(thirdFriday) ? thirdFriday : this.previousTradingDay(thirdFriday);
+  }
+
+  /**
+   * Classify an exchange date as an option expiration day for a symbol
+   */
+  getExpirationType(date: string, symbol?: string): ExpirationType | null {
+    const day = date.split('T')[0];
+    if (!this.isTradingDay(day)) return null;
+
+    const { year, month } = parseDate(day);
+    if (day === this.getMonthlyExpiration(year, month)) return 'monthly';
+
+    // Weeklies expire on Friday, moving to Thursday when Friday is a holiday
+    const weekday = weekdayOf(day);
+    const friday = addDays(day, 5 - weekday);
+    if (weekday === 5 || (weekday === 4 && !this.isTradingDay(friday))) return 'weekly';
+
+    if (symbol && this.config.dailyExpirySymbols.includes(symbol.toUpperCase())) return 'daily';
+
+    return null;
+  }
+
+  isOptionExpirationDay(date: string, symbol?: string): boolean {
+    return this.getExpirationType(date, symbol) !== null;
+  }
+
+  /**
+   * Close of trading on an expiration date (4:00 PM ET, 1:00 PM ET on early close days)
+   */
+  getExpirationClose(date: string): Date {
+    const session = this.getSession(date);
+    return session.isTradingDay
+      ? session.regularClose!
+      : exchangeTimeToDate(date, REGULAR_CLOSE.hour, REGULAR_CLOSE.minute);
+  }
+}
+
+export const tradingCalendar = new TradingCalendar();
@@ -0,0 +1,101 @@
+/**
+ * Trading Event Bus
+ * In-process fan-out of order lifecycle events (fills, partial fills, cancels, rejections) from the
+ * trade_updates stream to the order manager, risk manager and dashboard, with a short replayable history
+ */
+
+import { OrderUpdate } from './order-manager';
+
+export interface TradeUpdateEvent extends OrderUpdate {
+  id: number;                  // Sequence number on the bus, increasing
+  executionId: string | null;  // Alpaca execution ID of a fill
+  receivedAt: string;
+}
+
+export type TradeUpdateListener = (event: TradeUpdateEvent) => void | Promise<void>;
+
+export interface TradeUpdateQuery {
+  since?: number;              // Only events with a larger id
+  symbol?: string;
+  limit?: number;
+}
+
+export interface TradingEventBusStatus {
+  published: number;
+  subscribers: number;
+  retained: number;
+  lastEventId: number;
+  byEvent: Record<string, number>;
+}
+
+export class TradingEventBus {
+  private listeners: { listener: TradeUpdateListener; events: string[] | null }[] = [];
+  private history: TradeUpdateEvent[] = [];
+  private maxHistory: number;
+  private nextId = 1;
+  private byEvent: Record<string, number> = {};
+
+  constructor(maxHistory: number = 500) {
+    this.maxHistory = maxHistory;
+  }
+
+  /**
+   * Listen to every event, or only the named ones (e.g. ['fill', 'partial_fill']); returns an unsubscribe function
+   */
+  subscribe(listener: TradeUpdateListener, events?: string[]): () => void {
+    const subscription = { listener, events: events && events.length > 0 ? events : null };
+    this.listeners.push(subscription);
+    return () => {
+      this.listeners = this.listeners.filter(entry => entry !== subscription);
+    };
+  }
+
+  /**
+   * Number the event, keep it in history and deliver it; listener failures are logged, not thrown
+   */
+  publish(update: OrderUpdate & { executionId?: string | null; receivedAt?: string }): TradeUpdateEvent {
+    const event: TradeUpdateEvent = {
+      ...update,
+      id: this.nextId++,
+      executionId: update.executionId ?? null,
+      receivedAt: update.receivedAt || new Date().toISOString(),
+    };
+
+    this.history.push(event);
+    if (this.history.length > this.maxHistory) this.history.shift();
+    this.byEvent[event.event] = (this.byEvent[event.event] || 0) + 1;
+
+    for (const { listener, events } of [...this.listeners]) {
+      if (events && !events.includes(event.event)) continue;
+      try {
+        Promise.resolve(listener(event)).catch(error => {
+          console.warn('⚠️ Trade update listener failed:', error instanceof Error ? error.message : error);
+        });
+      } catch (error) {
+        console.warn('⚠️ Trade update listener failed:', error instanceof Error ? error.message : error);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * Retained events, oldest first (the latest `limit` when more match)
+   */
+  recent(query: TradeUpdateQuery = {}): TradeUpdateEvent[] {
+    const symbol = query.symbol?.toUpperCase();
+    const events = this.history.filter(event =>
+      event.id > (query.since ?? 0) && (!symbol || event.order.symbol.toUpperCase() === symbol)
+    );
+    return query.limit ? events.slice(-query.limit) : events;
+  }
+
+  getStatus(): TradingEventBusStatus {
+    return {
+      published: this.nextId - 1,
+      subscribers: this.listeners.length,
+      retained: this.history.length,
+      lastEventId: this.nextId - 1,
+      byEvent: { ...this.byEvent },
+    };
+  }
+}
@@ -3,6 +3,9 @@
  * Implements the corrected API endpoints for options flow, dark pool, and GEX data
  */
 
+import { DataProvenance } from './data-quality';
+import { Clock, systemClock, getExchangeTime } from './clock';
+
 export interface UnusualWhalesAlert {
   symbol: string;
   alertType: string;
@@ -14,6 +17,7 @@ export interface UnusualWhalesAlert {
   openInterest: number;
   timestamp: Date;
   sentiment: 'bullish' | 'bearish' | 'neutral';
+  source: DataProvenance;
 }
 
 export interface DarkPoolData {
@@ -25,6 +29,7 @@ export interface DarkPoolData {
   }>;
   totalVolume: number;
   avgPrice: number;
+  source: DataProvenance;
 }
 
 // GEXData interface moved to gex-calculator.ts
@@ -45,10 +50,12 @@ export interface OptionsFlowSignals {
 export class UnusualWhalesClient {
   private apiKey: string;
   private baseUrl: string;
+  protected clock: Clock;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, clock: Clock = systemClock) {
     this.apiKey = apiKey;
     this.baseUrl = 'https://api.unusualwhales.com';
+    this.clock = clock;
   }
 
   private getHeaders(): Record<string, string> {
@@ -69,13 +76,14 @@ export class UnusualWhalesClient {
     endDate?: string
   ): Promise<UnusualWhalesAlert[]> {
     try {
-      const now = new Date();
+      const now = this.clock.now();
       const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
 
+      // Trading dates are exchange (New York) dates, not UTC dates
       const params = new URLSearchParams({
         symbol,
-        start: startDate || yesterday.toISOString().split('T')[0],
-        end: endDate || now.toISOString().split('T')[0],
+        start: startDate || getExchangeTime(yesterday).date,
+        end: endDate || getExchangeTime(now).date,
       });
 
       console.log(`Fetching options flow for ${symbol} from ${params.get('start')} to ${params.get('end')}`);
@@ -107,8 +115,9 @@ export class UnusualWhalesClient {
           openInterest: Number(alertData.open_interest || 0),
           timestamp: alertData.timestamp || alertData.created_at 
             ? new Date(alertData.timestamp || alertData.created_at) 
-            : new Date(),
+            : this.clock.now(),
           sentiment: this.inferSentiment(alertData),
+          source: 'live',
         }));
         } else {
           console.log('Options flow data is not an array, using mock data');
@@ -131,8 +140,8 @@ export class UnusualWhalesClient {
    */
   async getDarkPoolData(symbol: string = 'SPY'): Promise<DarkPoolData> {
     try {
-      const now = new Date();
-      const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD format
+      const now = this.clock.now();
+      const dateStr = getExchangeTime(now).date; // YYYY-MM-DD exchange date
       const params = new URLSearchParams({ date: dateStr });
 
       console.log(`Fetching dark pool data for ${symbol} on ${dateStr}`);
@@ -158,7 +167,7 @@ export class UnusualWhalesClient {
             symbol: trade.ticker || trade.symbol || symbol,
             size: trade.size || 0,
             price: parseFloat(trade.price || '0'),
-            timestamp: trade.executed_at || trade.timestamp || new Date().toISOString(),
+            timestamp: trade.executed_at || trade.timestamp || this.clock.now().toISOString(),
           }));
           
           const totalVolume = processedTrades.reduce((sum, trade) => sum + trade.size, 0);
@@ -170,6 +179,7 @@ export class UnusualWhalesClient {
             trades: processedTrades,
             totalVolume,
             avgPrice,
+            source: 'live',
           };
         } else {
           console.log('Dark pool data is not an array, using mock data');
@@ -222,7 +232,8 @@ export class UnusualWhalesClient {
               dex: parseFloat(data.dex || data.delta_exposure || '0'), 
               totalGamma: parseFloat(data.total_gamma || data.totalGamma || data.gex || '0'),
               symbol: data.symbol || symbol,
-              timestamp: data.timestamp || new Date().toISOString(),
+              timestamp: data.timestamp || this.clock.now().toISOString(),
+              source: 'live',
             };
           }
         }
@@ -236,6 +247,13 @@ export class UnusualWhalesClient {
     return this.mockGEX();
   }
 
+  /**
+   * Provenance of a batch of alerts: mock if any alert came from the mock fallback
+   */
+  static getFlowProvenance(alerts: UnusualWhalesAlert[]): DataProvenance {
+    return alerts.some(alert => alert.source !== 'live') ? 'mock' : 'live';
+  }
+
   /**
    * Process options flow alerts into trading signals
    */
@@ -256,7 +274,7 @@ export class UnusualWhalesClient {
     }
 
     // Filter for recent alerts (last 2 hours)
-    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    const twoHoursAgo = new Date(this.clock.now().getTime() - 2 * 60 * 60 * 1000);
     const recentAlerts = alerts.filter(alert => alert.timestamp > twoHoursAgo);
 
     // Calculate sentiment scores
@@ -317,7 +335,7 @@ export class UnusualWhalesClient {
    */
   private mockOptionsFlow(): UnusualWhalesAlert[] {
     console.log('Using mock options flow data');
-    const now = new Date();
+    const now = this.clock.now();
     return [
       {
         symbol: 'SPY',
@@ -330,6 +348,7 @@ export class UnusualWhalesClient {
         openInterest: 500,
         timestamp: new Date(now.getTime() - 30 * 60 * 1000),
         sentiment: 'bullish',
+        source: 'mock',
       },
       {
         symbol: 'SPY',
@@ -342,6 +361,7 @@ export class UnusualWhalesClient {
         openInterest: 300,
         timestamp: new Date(now.getTime() - 45 * 60 * 1000),
         sentiment: 'bearish',
+        source: 'mock',
       },
       {
         symbol: 'SPY',
@@ -354,18 +374,21 @@ export class UnusualWhalesClient {
         openInterest: 800,
         timestamp: new Date(now.getTime() - 15 * 60 * 1000),
         sentiment: 'bullish',
+        source: 'mock',
       },
     ];
   }
 
   private mockDarkPool(): DarkPoolData {
+    const now = this.clock.now();
     return {
       trades: [
-        { symbol: 'SPY', size: 1000, price: 450.5, timestamp: new Date().toISOString() },
-        { symbol: 'SPY', size: 500, price: 450.3, timestamp: new Date(Date.now() - 5 * 60 * 1000).toISOString() },
+        { symbol: 'SPY', size: 1000, price: 450.5, timestamp: now.toISOString() },
+        { symbol: 'SPY', size: 500, price: 450.3, timestamp: new Date(now.getTime() - 5 * 60 * 1000).toISOString() },
       ],
       totalVolume: 1500,
       avgPrice: 450.4,
+      source: 'mock',
     };
   }
 
@@ -375,7 +398,8 @@ export class UnusualWhalesClient {
       dex: 6789.01,
       totalGamma: 1234567.89,
       symbol: 'SPY',
-      timestamp: new Date().toISOString(),
+      timestamp: this.clock.now().toISOString(),
+      source: 'mock',
     };
   }
 }
\ No newline at end of file